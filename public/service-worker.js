@@ -1,5 +1,9 @@
 /* eslint-disable no-undef */
 
+// Shared HTML extraction (src/lib/crawler/page-extractor.ts), built by
+// `npm run build:worker`. Defines VaporScanPageExtractor.
+importScripts('page-extractor.js');
+
 const CACHE_VERSION = 'v1';
 const CACHE_NAME = 'vaporscan-' + CACHE_VERSION;
 
@@ -16,7 +20,10 @@ var crawlState = {
   crawled: new Set(), // Track URLs that have been fully crawled (not just visited)
   results: new Map(),
   sitemapUrls: new Set(),
+  sitemapKeys: new Set(), // Normalized sitemap URLs
+  linkTargets: new Map(), // Normalized link -> URL as found on the page, for fetching
   robotsData: null,
+  depths: new Map(), // Shortest known link-hop distance from the start URL
   skippedCount: 0, // Track pages skipped due to deduplication
   stats: {
     crawledPages: 0,
@@ -191,17 +198,27 @@ self.addEventListener('message', function (event) {
   }
 });
 
-// Normalize URL for deduplication (remove trailing slash, fragments, normalize case)
+// Mirrors DEFAULT_NORMALIZATION_POLICY in src/lib/crawler/link-extractor.ts
+var DEFAULT_NORMALIZATION = {
+  queryParams: 'strip-all',
+  queryParamList: [],
+  caseSensitivePaths: false,
+  trailingSlash: 'strip',
+};
+
+function getNormalizationPolicy() {
+  var overrides = (crawlState.config && crawlState.config.normalization) || {};
+  return Object.assign({}, DEFAULT_NORMALIZATION, overrides);
+}
+
+// Normalize URL for deduplication with the crawl's normalization policy
 function normalizeUrlForDedup(url) {
-  try {
-    var parsed = new URL(url);
-    parsed.hash = '';
-    // Remove trailing slash for consistency
-    var normalized = parsed.toString().replace(/\/$/, '');
-    return normalized.toLowerCase();
-  } catch (e) {
-    return url.toLowerCase();
-  }
+  return VaporScanPageExtractor.normalizeUrl(url, getNormalizationPolicy());
+}
+
+// Check if a URL (in any variant) was listed in the sitemap
+function isInSitemap(url) {
+  return crawlState.sitemapKeys.has(normalizeUrlForDedup(url));
 }
 
 // Check if URL has already been crawled
@@ -216,6 +233,31 @@ function markAsCrawled(url) {
   crawlState.crawled.add(normalized);
 }
 
+// Record a link-hop depth for a URL, keeping the shortest one seen so far
+function recordDepth(url, depth) {
+  var normalized = normalizeUrlForDedup(url);
+  var known = crawlState.depths.get(normalized);
+  if (known === undefined || depth < known) {
+    crawlState.depths.set(normalized, depth);
+    return depth;
+  }
+  return known;
+}
+
+// Get the known link-hop depth of a URL (undefined if not reached by links)
+function getDepth(url) {
+  return crawlState.depths.get(normalizeUrlForDedup(url));
+}
+
+// Click depth is measured from the start URL, or from the manual pages
+// when scanning without one
+function getDepthRoots(config) {
+  if (config.url) {
+    return [config.url];
+  }
+  return config.manualPages || [];
+}
+
 // Start crawling process
 function handleStartCrawl(config, client) {
   if (crawlState.isRunning) {
@@ -247,7 +289,10 @@ function handleStartCrawl(config, client) {
     crawled: new Set(), // Track fully crawled URLs for deduplication
     results: new Map(),
     sitemapUrls: new Set(),
+    sitemapKeys: new Set(),
+    linkTargets: new Map(),
     robotsData: null,
+    depths: new Map(),
     skippedCount: 0,
     stats: {
       crawledPages: 0,
@@ -257,6 +302,10 @@ function handleStartCrawl(config, client) {
     },
   };
 
+  getDepthRoots(config).forEach(function (rootUrl) {
+    recordDepth(rootUrl, 0);
+  });
+
   sendMessage(client, 'CRAWL_STARTED', { config: config });
 
   // If we have a base URL and respect robots.txt, discover from sitemap
@@ -269,7 +318,12 @@ function handleStartCrawl(config, client) {
         // Add sitemap URLs to queue (avoiding duplicates)
         discovery.sitemapUrls.forEach(function (url) {
           var normalized = normalizeUrlForDedup(url);
-          if (!crawlState.visited.has(normalized) && crawlState.queue.indexOf(url) === -1) {
+          crawlState.sitemapKeys.add(normalized);
+          if (
+            !crawlState.visited.has(normalized) &&
+            crawlState.queue.indexOf(url) === -1 &&
+            VaporScanPageExtractor.isUrlInScope(url, crawlState.config)
+          ) {
             crawlState.queue.push(url);
           }
         });
@@ -392,6 +446,7 @@ function processCrawlQueue(client) {
     function finishCrawl() {
       if (crawlState.isRunning) {
         crawlState.isRunning = false;
+        assignClickDepths();
         sendMessage(client, 'CRAWL_COMPLETED', {
           stats: crawlState.stats,
           skippedCount: crawlState.skippedCount,
@@ -440,13 +495,41 @@ function crawlPage(url, client) {
       return response.text().then(function (html) {
         var crawlTime = performance.now() - startTime;
 
-        var pageData = parsePageContent(url, html, response.status, crawlTime);
+        var pageData = parsePageContent(
+          url,
+          html,
+          response.status,
+          crawlTime,
+          VaporScanPageExtractor.readResponseHeaders(response)
+        );
+        // Pages are keyed by their normalized URL, like the internal links pointing to them
+        pageData.url = normalizeUrlForDedup(url);
+        var pageDepth = getDepth(url);
+        pageData.depth = pageDepth;
+
+        // Scripts cannot read the Location header of a redirect (even a manual
+        // same-origin one is opaque), so only the requested and final URLs are known
+        if (response.redirected) {
+          pageData.redirectChain = [
+            { url: url, status: 0 },
+            { url: response.url, status: response.status },
+          ];
+        }
+        pageData.performance = VaporScanPageExtractor.measurePagePerformance(
+          html,
+          response.url || url
+        );
+        pageData.indexability = VaporScanPageExtractor.getIndexability(
+          pageData,
+          isPathAllowed(new URL(url).pathname),
+          getNormalizationPolicy()
+        );
 
         return compressData(html).then(function (compressedBlob) {
           if (compressedBlob) {
             pageData.content = compressedBlob;
           }
-          crawlState.results.set(url, pageData);
+          crawlState.results.set(pageData.url, pageData);
 
           // Mark this URL as fully crawled to prevent re-crawling
           markAsCrawled(url);
@@ -465,9 +548,16 @@ function crawlPage(url, client) {
           // Add internal links to queue (with deduplication)
           pageData.internalLinks.forEach(function (link) {
             var normalizedLink = normalizeUrlForDedup(link);
+            // Links found on pages outside the click graph (e.g. sitemap-only) have no depth
+            var linkDepth = pageDepth === undefined ? undefined : recordDepth(link, pageDepth + 1);
             // Check both visited set and crawled set for deduplication
-            if (!crawlState.visited.has(normalizedLink) && !isAlreadyCrawled(link) && shouldCrawl(link)) {
-              crawlState.queue.push(link);
+            if (
+              !crawlState.visited.has(normalizedLink) &&
+              !isAlreadyCrawled(link) &&
+              shouldCrawl(link, linkDepth)
+            ) {
+              // Fetch the URL as linked; the normalized form may not exist on the server
+              crawlState.queue.push(crawlState.linkTargets.get(link) || link);
               crawlState.stats.totalPages += 1;
             }
           });
@@ -498,17 +588,18 @@ function crawlPage(url, client) {
       }
 
       var pageData = {
-        url: url,
+        url: normalizeUrlForDedup(url),
         status: 0,
         isEmpty: true,
         crawlTime: crawlTime,
+        depth: getDepth(url),
         internalLinks: [],
         externalLinks: [],
-        inSitemap: crawlState.sitemapUrls.has(url),
+        inSitemap: isInSitemap(url),
         errorMessage: errorMessage,
       };
 
-      crawlState.results.set(url, pageData);
+      crawlState.results.set(pageData.url, pageData);
       // Mark as crawled even on error to prevent retry loops
       markAsCrawled(url);
       crawlState.stats.crawledPages += 1;
@@ -524,69 +615,101 @@ function crawlPage(url, client) {
     });
 }
 
+// Replace crawl-order depths with exact click depths by running a
+// breadth-first search over the final link graph. Pages are crawled
+// concurrently, so a page may be reached by a longer path before a
+// shorter one is discovered.
+function assignClickDepths() {
+  var linksByUrl = new Map();
+  crawlState.results.forEach(function (page) {
+    linksByUrl.set(normalizeUrlForDedup(page.url), page.internalLinks);
+  });
+
+  var depths = new Map();
+  var queue = [];
+  getDepthRoots(crawlState.config).forEach(function (rootUrl) {
+    var normalized = normalizeUrlForDedup(rootUrl);
+    if (!depths.has(normalized)) {
+      depths.set(normalized, 0);
+      queue.push(normalized);
+    }
+  });
+
+  for (var i = 0; i < queue.length; i++) {
+    var nextDepth = depths.get(queue[i]) + 1;
+    (linksByUrl.get(queue[i]) || []).forEach(function (link) {
+      var normalizedLink = normalizeUrlForDedup(link);
+      if (!depths.has(normalizedLink)) {
+        depths.set(normalizedLink, nextDepth);
+        queue.push(normalizedLink);
+      }
+    });
+  }
+
+  crawlState.results.forEach(function (page) {
+    page.depth = depths.get(normalizeUrlForDedup(page.url));
+  });
+}
+
 // Parse page content and extract links
-function parsePageContent(url, html, status, crawlTime) {
+function parsePageContent(url, html, status, crawlTime, responseHeaders) {
   var result = {
     url: url,
     status: status,
     title: undefined,
     description: undefined,
+    canonical: undefined,
     contentLength: html.length,
     isEmpty: false,
     crawlTime: crawlTime,
     internalLinks: [],
     externalLinks: [],
-    inSitemap: crawlState.sitemapUrls.has(url),
+    links: [],
+    resources: [],
+    hreflang: [],
+    robotsDirectives: [],
+    structuredData: [],
+    headings: [],
+    images: [],
+    socialMeta: {},
+    httpReferences: [],
+    inSitemap: isInSitemap(url),
+    responseHeaders: responseHeaders,
   };
 
   try {
-    var titleMatch = html.match(/<title[^>]*>([^<]*)<\/title>/i);
-    result.title = titleMatch ? titleMatch[1].trim() : undefined;
-
-    var descMatch = html.match(
-      /<meta[^>]*name=["']description["'][^>]*content=["']([^"']*)["']/i
-    );
-    result.description = descMatch ? descMatch[1].trim() : undefined;
-
-    var bodyMatch = html.match(/<body[^>]*>([\s\S]*)<\/body>/i);
-    var bodyText = bodyMatch ? bodyMatch[1].replace(/<[^>]*>/g, '').trim() : '';
-    result.isEmpty = bodyText.length < 100;
-
-    var linkRegex = /<a[^>]*href=["']([^"'#][^"']*)["'][^>]*>/gi;
-    var match;
-    var baseUrl = new URL(url);
-
-    while ((match = linkRegex.exec(html)) !== null) {
-      var href = match[1];
-
-      if (
-        href.startsWith('mailto:') ||
-        href.startsWith('tel:') ||
-        href.startsWith('javascript:')
-      ) {
-        continue;
-      }
-
-      try {
-        var absoluteUrl = new URL(href, url).toString();
-        var parsedUrl = new URL(absoluteUrl);
-
-        parsedUrl.hash = '';
-        var normalizedUrl = parsedUrl.toString().replace(/\/$/, '');
+    // Links are internal relative to the start URL (the page itself in manual scans)
+    var content = VaporScanPageExtractor.extractPageContent(html, url, {
+      rootUrl: crawlState.config.url || url,
+      normalization: getNormalizationPolicy(),
+      scope: crawlState.config.scope,
+      contentThresholds: crawlState.config.contentThresholds,
+      xRobotsTag: responseHeaders.values['x-robots-tag'],
+    });
 
-        if (parsedUrl.hostname === baseUrl.hostname) {
-          if (result.internalLinks.indexOf(normalizedUrl) === -1) {
-            result.internalLinks.push(normalizedUrl);
-          }
-        } else {
-          if (result.externalLinks.indexOf(normalizedUrl) === -1) {
-            result.externalLinks.push(normalizedUrl);
-          }
-        }
-      } catch (e) {
-        // Skip invalid URLs
+    result.title = content.title;
+    result.description = content.description;
+    result.canonical = content.canonical;
+    result.isEmpty = content.isEmpty;
+    result.contentQuality = content.contentQuality;
+    result.internalLinks = content.internalLinks;
+    result.externalLinks = content.externalLinks;
+    result.links = content.links;
+    result.resources = content.resources;
+    result.hreflang = content.hreflang;
+    result.robotsDirectives = content.robotsDirectives;
+    result.structuredData = content.structuredData;
+    result.headings = content.headings;
+    result.images = content.images;
+    result.socialMeta = content.socialMeta;
+    result.httpReferences = content.httpReferences;
+    result.fingerprint = content.fingerprint;
+
+    content.linkTargets.forEach(function (target, link) {
+      if (!crawlState.linkTargets.has(link)) {
+        crawlState.linkTargets.set(link, target);
       }
-    }
+    });
   } catch (error) {
     console.error('Error parsing page content:', error);
   }
@@ -594,22 +717,28 @@ function parsePageContent(url, html, status, crawlTime) {
   return result;
 }
 
-// Check if URL should be crawled
-function shouldCrawl(url) {
+// Check if URL should be crawled (depth is its link-hop distance, if known)
+function shouldCrawl(url, depth) {
   try {
     var parsedUrl = new URL(url);
     var baseUrl = new URL(crawlState.config.url);
 
-    if (parsedUrl.hostname !== baseUrl.hostname) {
+    if (
+      !VaporScanPageExtractor.isHostInScope(
+        parsedUrl.hostname,
+        baseUrl.hostname,
+        crawlState.config.scope
+      )
+    ) {
       return false;
     }
 
-    if (crawlState.config.maxDepth) {
-      var baseDepth = baseUrl.pathname.split('/').filter(Boolean).length;
-      var urlDepth = parsedUrl.pathname.split('/').filter(Boolean).length;
-      if (urlDepth - baseDepth > crawlState.config.maxDepth) {
-        return false;
-      }
+    if (crawlState.config.maxDepth && depth !== undefined && depth > crawlState.config.maxDepth) {
+      return false;
+    }
+
+    if (!VaporScanPageExtractor.isUrlInScope(url, crawlState.config)) {
+      return false;
     }
 
     if (
@@ -627,42 +756,10 @@ function shouldCrawl(url) {
   }
 }
 
-// Check if path is allowed by robots.txt
+// Check if path is allowed by robots.txt (longest matching rule wins, like
+// the main-thread crawler)
 function isPathAllowed(path) {
-  if (!crawlState.robotsData) return true;
-
-  var allow = crawlState.robotsData.allow;
-  var disallow = crawlState.robotsData.disallow;
-
-  for (var i = 0; i < allow.length; i++) {
-    if (matchesPattern(path, allow[i])) {
-      return true;
-    }
-  }
-
-  for (var j = 0; j < disallow.length; j++) {
-    if (matchesPattern(path, disallow[j])) {
-      return false;
-    }
-  }
-
-  return true;
-}
-
-// Match path against robots pattern
-function matchesPattern(path, pattern) {
-  if (pattern.indexOf('*') !== -1) {
-    var regexPattern = pattern
-      .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
-      .replace(/\*/g, '.*');
-    return new RegExp('^' + regexPattern).test(path);
-  }
-
-  if (pattern.endsWith('$')) {
-    return path === pattern.slice(0, -1);
-  }
-
-  return path.startsWith(pattern);
+  return VaporScanPageExtractor.isPathAllowed(path, crawlState.robotsData);
 }
 
 // Discover URLs from sitemap
@@ -8,7 +8,8 @@
 import { Suspense, useEffect, useState } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { ReportData, CrawlPage } from '@/types';
-import { getReport, getCrawl } from '@/lib/storage/indexed-db';
+import { getReport, getCrawl, saveReport } from '@/lib/storage/indexed-db';
+import { addStoredNearDuplicates } from '@/lib/crawler/report-generator';
 import { ReportDashboard } from '@/components/features/ReportDashboard';
 import { Button } from '@/components/ui/button';
 import { ArrowLeft } from 'lucide-react';
@@ -46,6 +47,13 @@ function ReportContent() {
         const crawlData = await getCrawl(reportData.crawlId);
         if (crawlData) {
           setPages(crawlData.pages);
+
+          // Reports saved before near-duplicate detection get it from the stored page content
+          const updated = await addStoredNearDuplicates(reportData, crawlData);
+          if (updated !== reportData) {
+            setReport(updated);
+            await saveReport(updated);
+          }
         }
 
         setIsLoading(false);
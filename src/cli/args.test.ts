@@ -0,0 +1,144 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseCliArgs } from './args';
+
+describe('CLI args', () => {
+  it('should use crawler defaults when only a URL is given', () => {
+    const options = parseCliArgs(['https://example.com']);
+
+    expect(options.crawl).toMatchObject({
+      url: 'https://example.com',
+      maxPages: 1000,
+      maxDepth: 10,
+      concurrency: 5,
+      timeout: 10000,
+      respectRobotsTxt: true,
+      manualPages: [],
+      nearDuplicateSimilarity: 0.9,
+    });
+    expect(options.outDir).toBe('vaporscan-report');
+    expect(options.formats).toEqual(['json', 'csv']);
+  });
+
+  it('should parse crawl limits and output options', () => {
+    const options = parseCliArgs([
+      'https://example.com',
+      '--max-pages',
+      '50',
+      '--concurrency=2',
+      '-o',
+      'reports',
+      '-f',
+      'csv',
+      '--ignore-robots',
+      '--page',
+      'https://example.com/a',
+      '--page',
+      'https://example.com/b',
+      '--near-duplicate-similarity',
+      '0.8',
+    ]);
+
+    expect(options.crawl.maxPages).toBe(50);
+    expect(options.crawl.concurrency).toBe(2);
+    expect(options.crawl.respectRobotsTxt).toBe(false);
+    expect(options.crawl.nearDuplicateSimilarity).toBe(0.8);
+    expect(options.crawl.manualPages).toEqual(['https://example.com/a', 'https://example.com/b']);
+    expect(options.outDir).toBe('reports');
+    expect(options.formats).toEqual(['csv']);
+  });
+
+  it('should parse the URL normalization policy', () => {
+    const options = parseCliArgs([
+      'https://example.com',
+      '--query-params',
+      'keep-listed',
+      '--param-list',
+      'page, utm_*',
+      '--case-sensitive-paths',
+      '--keep-trailing-slash',
+    ]);
+
+    expect(options.crawl.normalization).toEqual({
+      queryParams: 'keep-listed',
+      queryParamList: ['page', 'utm_*'],
+      caseSensitivePaths: true,
+      trailingSlash: 'keep',
+    });
+  });
+
+  it('should parse repeatable include and exclude patterns', () => {
+    const options = parseCliArgs([
+      'https://example.com',
+      '--include',
+      '/docs/**',
+      '--include',
+      '/blog/**',
+      '--exclude',
+      're:\\?print=',
+    ]);
+
+    expect(options.crawl.includePatterns).toEqual(['/docs/**', '/blog/**']);
+    expect(options.crawl.excludePatterns).toEqual(['re:\\?print=']);
+    expect(() => parseCliArgs(['https://example.com', '--exclude', 're:('])).toThrow(
+      'Invalid URL pattern "re:("'
+    );
+  });
+
+  it('should parse the crawl scope mode', () => {
+    expect(parseCliArgs(['https://example.com']).crawl.scope).toEqual({
+      mode: 'exact-host',
+      hosts: [],
+    });
+    expect(parseCliArgs(['https://example.com', '--scope', 'subdomains']).crawl.scope?.mode).toBe(
+      'subdomains'
+    );
+    expect(
+      parseCliArgs(['https://example.com', '--allow-host', 'blog.example.org']).crawl.scope
+    ).toEqual({ mode: 'allowlist', hosts: ['blog.example.org'] });
+    expect(() => parseCliArgs(['https://example.com', '--scope', 'everything'])).toThrow(
+      '--scope must be one of'
+    );
+  });
+
+  it('should parse the external link check options', () => {
+    expect(parseCliArgs(['https://example.com']).crawl.externalLinkCheck?.enabled).toBe(false);
+    expect(
+      parseCliArgs([
+        'https://example.com',
+        '--check-external',
+        '--external-concurrency',
+        '2',
+        '--external-timeout=3000',
+      ]).crawl.externalLinkCheck
+    ).toEqual({ enabled: true, concurrency: 2, timeout: 3000 });
+  });
+
+  it('should allow --help without a URL', () => {
+    expect(parseCliArgs(['--help']).help).toBe(true);
+  });
+
+  it('should reject a missing or invalid URL', () => {
+    expect(() => parseCliArgs([])).toThrow('Missing target URL');
+    expect(() => parseCliArgs(['example.com'])).toThrow('Invalid target URL');
+  });
+
+  it('should reject invalid numbers and formats', () => {
+    expect(() => parseCliArgs(['https://example.com', '--max-pages', '0'])).toThrow(
+      '--max-pages must be a positive integer'
+    );
+    expect(() => parseCliArgs(['https://example.com', '--format', 'xml'])).toThrow(
+      'Unknown report format: xml'
+    );
+    expect(() => parseCliArgs(['https://example.com', '--query-params', 'some'])).toThrow(
+      '--query-params must be one of'
+    );
+    expect(() =>
+      parseCliArgs(['https://example.com', '--near-duplicate-similarity', '90'])
+    ).toThrow('--near-duplicate-similarity must be a number greater than 0 and at most 1');
+  });
+});
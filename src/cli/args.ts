@@ -0,0 +1,256 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Command-line argument parsing for the headless CLI
+ */
+
+import { parseArgs } from 'node:util';
+import { CrawlConfig, CrawlScopeMode, NormalizationPolicy } from '@/types';
+import { config as appConfig } from '@/config';
+import { DEFAULT_NORMALIZATION_POLICY, isValidUrl } from '@/lib/crawler/link-extractor';
+import { getUrlPatternError } from '@/lib/crawler/url-rules';
+import { CRAWL_SCOPE_LABELS } from '@/lib/crawler/crawl-scope';
+
+export type ReportFormat = 'json' | 'csv' | 'junit' | 'sarif';
+
+export interface CliOptions {
+  crawl: CrawlConfig;
+  outDir: string;
+  formats: ReportFormat[];
+  budgetPath?: string;
+  quiet: boolean;
+  help: boolean;
+}
+
+export const REPORT_FORMATS: ReportFormat[] = ['json', 'csv', 'junit', 'sarif'];
+
+const DEFAULT_REPORT_FORMATS: ReportFormat[] = ['json', 'csv'];
+
+const QUERY_PARAM_MODES: NormalizationPolicy['queryParams'][] = [
+  'strip-all',
+  'keep-all',
+  'keep-listed',
+  'strip-listed',
+];
+
+export const USAGE = `Usage: vaporscan <url> [options]
+
+Crawls a website and writes VaporScan reports to disk.
+
+Options:
+  -o, --out <dir>          Output directory (default: ./vaporscan-report)
+  -f, --format <list>      Comma-separated report formats: json,csv,junit,sarif
+                           (default: json,csv)
+      --max-pages <n>      Maximum pages to crawl (default: ${appConfig.crawler.defaultMaxPages})
+      --max-depth <n>      Maximum link depth (default: ${appConfig.crawler.defaultMaxDepth})
+      --concurrency <n>    Parallel requests (default: ${appConfig.crawler.defaultConcurrency})
+      --timeout <ms>       Request timeout (default: ${appConfig.crawler.defaultTimeout})
+      --page <url>         Additional page to crawl (repeatable)
+      --ignore-robots      Do not honor robots.txt
+      --include <pattern>  Only crawl discovered URLs matching the pattern (repeatable);
+                           a glob on the path (/docs/**) or re:<regex> on the URL
+      --exclude <pattern>  Skip discovered URLs matching the pattern (repeatable)
+      --scope <mode>       Hosts that count as internal: exact-host, subdomains, allowlist
+                           (default: exact-host)
+      --allow-host <host>  Additional internal host in allowlist scope (repeatable)
+      --check-external     Check every external link after the crawl
+      --external-concurrency <n>
+                           Parallel external link checks (default: ${appConfig.crawler.defaultExternalLinkConcurrency})
+      --external-timeout <ms>
+                           External link timeout (default: ${appConfig.crawler.defaultExternalLinkTimeout})
+      --query-params <mode>
+                           Query parameters that identify a page:
+                           strip-all, keep-all, keep-listed, strip-listed
+                           (default: strip-all)
+      --param-list <list>  Comma-separated parameters for keep-listed/strip-listed;
+                           a trailing * matches a prefix (utm_*)
+      --case-sensitive-paths
+                           Treat /About and /about as different pages
+      --keep-trailing-slash
+                           Treat /about/ and /about as different pages
+      --near-duplicate-similarity <n>
+                           Content similarity from 0 to 1 at which pages are
+                           near duplicates (default: ${appConfig.report.nearDuplicateSimilarity})
+  -b, --budget <file>      JSON budget file; exit with code 1 when a threshold is exceeded
+  -q, --quiet              Only print the summary
+  -h, --help               Show this help
+`;
+
+const parsePositiveInt = (value: string | undefined, name: string, fallback: number): number => {
+  if (value === undefined) return fallback;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`--${name} must be a positive integer, got "${value}"`);
+  }
+  return parsed;
+};
+
+const parseSimilarity = (value: string | undefined, name: string, fallback: number): number => {
+  if (value === undefined) return fallback;
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0 || parsed > 1) {
+    throw new Error(`--${name} must be a number greater than 0 and at most 1, got "${value}"`);
+  }
+  return parsed;
+};
+
+const parseFormats = (value: string | undefined): ReportFormat[] => {
+  if (value === undefined) return DEFAULT_REPORT_FORMATS;
+
+  const formats = value.split(',').map((format) => format.trim().toLowerCase());
+  const unknown = formats.filter((format) => !REPORT_FORMATS.includes(format as ReportFormat));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown report format: ${unknown.join(', ')}`);
+  }
+  return Array.from(new Set(formats)) as ReportFormat[];
+};
+
+const parseQueryParamMode = (value: string | undefined): NormalizationPolicy['queryParams'] => {
+  if (value === undefined) return DEFAULT_NORMALIZATION_POLICY.queryParams;
+
+  if (!QUERY_PARAM_MODES.includes(value as NormalizationPolicy['queryParams'])) {
+    throw new Error(
+      `--query-params must be one of ${QUERY_PARAM_MODES.join(', ')}, got "${value}"`
+    );
+  }
+  return value as NormalizationPolicy['queryParams'];
+};
+
+const parseScopeMode = (value: string | undefined, hosts: string[]): CrawlScopeMode => {
+  if (value === undefined) return hosts.length > 0 ? 'allowlist' : 'exact-host';
+
+  const modes = Object.keys(CRAWL_SCOPE_LABELS);
+  if (!modes.includes(value)) {
+    throw new Error(`--scope must be one of ${modes.join(', ')}, got "${value}"`);
+  }
+  return value as CrawlScopeMode;
+};
+
+const parsePatterns = (patterns: string[] | undefined): string[] => {
+  const list = patterns ?? [];
+  const error = list.map(getUrlPatternError).find(Boolean);
+  if (error) {
+    throw new Error(error);
+  }
+  return list;
+};
+
+const parseList = (value: string | undefined): string[] =>
+  (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+export const parseCliArgs = (argv: string[]): CliOptions => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o' },
+      format: { type: 'string', short: 'f' },
+      'max-pages': { type: 'string' },
+      'max-depth': { type: 'string' },
+      concurrency: { type: 'string' },
+      timeout: { type: 'string' },
+      page: { type: 'string', multiple: true },
+      'ignore-robots': { type: 'boolean' },
+      include: { type: 'string', multiple: true },
+      exclude: { type: 'string', multiple: true },
+      scope: { type: 'string' },
+      'allow-host': { type: 'string', multiple: true },
+      'check-external': { type: 'boolean' },
+      'external-concurrency': { type: 'string' },
+      'external-timeout': { type: 'string' },
+      'query-params': { type: 'string' },
+      'param-list': { type: 'string' },
+      'case-sensitive-paths': { type: 'boolean' },
+      'keep-trailing-slash': { type: 'boolean' },
+      'near-duplicate-similarity': { type: 'string' },
+      budget: { type: 'string', short: 'b' },
+      quiet: { type: 'boolean', short: 'q' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const help = values.help ?? false;
+  const url = positionals[0];
+
+  if (!help) {
+    if (!url) {
+      throw new Error('Missing target URL');
+    }
+    if (!isValidUrl(url)) {
+      throw new Error(`Invalid target URL: ${url}`);
+    }
+  }
+
+  const manualPages = values.page ?? [];
+  const invalidPage = manualPages.find((page) => !isValidUrl(page));
+  if (invalidPage) {
+    throw new Error(`Invalid --page URL: ${invalidPage}`);
+  }
+
+  const allowedHosts = values['allow-host'] ?? [];
+
+  return {
+    crawl: {
+      url: url ?? '',
+      maxPages: parsePositiveInt(
+        values['max-pages'],
+        'max-pages',
+        appConfig.crawler.defaultMaxPages
+      ),
+      maxDepth: parsePositiveInt(
+        values['max-depth'],
+        'max-depth',
+        appConfig.crawler.defaultMaxDepth
+      ),
+      concurrency: parsePositiveInt(
+        values.concurrency,
+        'concurrency',
+        appConfig.crawler.defaultConcurrency
+      ),
+      timeout: parsePositiveInt(values.timeout, 'timeout', appConfig.crawler.defaultTimeout),
+      respectRobotsTxt: !values['ignore-robots'],
+      userAgent: appConfig.crawler.defaultUserAgent,
+      manualPages,
+      includePatterns: parsePatterns(values.include),
+      excludePatterns: parsePatterns(values.exclude),
+      scope: { mode: parseScopeMode(values.scope, allowedHosts), hosts: allowedHosts },
+      externalLinkCheck: {
+        enabled: values['check-external'] ?? false,
+        concurrency: parsePositiveInt(
+          values['external-concurrency'],
+          'external-concurrency',
+          appConfig.crawler.defaultExternalLinkConcurrency
+        ),
+        timeout: parsePositiveInt(
+          values['external-timeout'],
+          'external-timeout',
+          appConfig.crawler.defaultExternalLinkTimeout
+        ),
+      },
+      normalization: {
+        queryParams: parseQueryParamMode(values['query-params']),
+        queryParamList: parseList(values['param-list']),
+        caseSensitivePaths: values['case-sensitive-paths'] ?? false,
+        trailingSlash: values['keep-trailing-slash'] ? 'keep' : 'strip',
+      },
+      nearDuplicateSimilarity: parseSimilarity(
+        values['near-duplicate-similarity'],
+        'near-duplicate-similarity',
+        appConfig.report.nearDuplicateSimilarity
+      ),
+    },
+    outDir: values.out ?? 'vaporscan-report',
+    formats: parseFormats(values.format),
+    budgetPath: values.budget,
+    quiet: values.quiet ?? false,
+    help,
+  };
+};
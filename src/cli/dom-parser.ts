@@ -0,0 +1,20 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Provides a DOMParser implementation for Node, where the crawler library
+ * would otherwise have no way to parse XML sitemaps
+ */
+
+import { JSDOM } from 'jsdom';
+
+export const installDOMParser = (): void => {
+  if (typeof globalThis.DOMParser !== 'undefined') {
+    return;
+  }
+
+  const { window } = new JSDOM('');
+  globalThis.DOMParser = window.DOMParser;
+};
@@ -0,0 +1,155 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Headless VaporScan CLI - crawls a site from Node and writes reports to disk
+ *
+ * Usage: npm run vaporscan -- https://example.com --out reports
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { CrawlPage, ReportData } from '@/types';
+import { runHeadlessCrawl } from '@/lib/crawler/headless-crawler';
+import {
+  generateReport,
+  formatReportForJSON,
+  formatReportForCSV,
+  getReportSummaryText,
+} from '@/lib/crawler/report-generator';
+import {
+  parseReportBudget,
+  evaluateReportBudget,
+  formatBudgetResults,
+  ReportBudget,
+} from '@/lib/crawler/report-budget';
+import { serializeReportToJUnit, serializeReportToSARIF } from '@/lib/utils/export';
+import { parseCliArgs, CliOptions, ReportFormat, USAGE } from './args';
+import { installDOMParser } from './dom-parser';
+
+const print = (message: string): void => {
+  process.stdout.write(`${message}\n`);
+};
+
+const printError = (message: string): void => {
+  process.stderr.write(`${message}\n`);
+};
+
+const REPORT_EXTENSIONS: Record<ReportFormat, string> = {
+  json: 'json',
+  csv: 'csv',
+  junit: 'junit.xml',
+  sarif: 'sarif',
+};
+
+const serializeReport = (
+  report: ReportData,
+  format: ReportFormat,
+  pages: Map<string, CrawlPage>
+): string => {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(formatReportForJSON(report), null, 2);
+    case 'csv':
+      return formatReportForCSV(report);
+    case 'junit':
+      return serializeReportToJUnit(report, pages);
+    case 'sarif':
+      return serializeReportToSARIF(report, pages);
+  }
+};
+
+const writeReports = async (
+  report: ReportData,
+  pages: Map<string, CrawlPage>,
+  outDir: string,
+  formats: ReportFormat[]
+): Promise<string[]> => {
+  await mkdir(outDir, { recursive: true });
+
+  const written: string[] = [];
+  for (const format of formats) {
+    const filePath = path.join(
+      outDir,
+      `vaporscan-report-${report.crawlId}.${REPORT_EXTENSIONS[format]}`
+    );
+    await writeFile(filePath, serializeReport(report, format, pages), 'utf8');
+    written.push(filePath);
+  }
+  return written;
+};
+
+const loadBudget = async (budgetPath: string): Promise<ReportBudget> => {
+  const content = await readFile(budgetPath, 'utf8');
+  return parseReportBudget(JSON.parse(content));
+};
+
+export const main = async (argv: string[]): Promise<number> => {
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(argv);
+  } catch (error) {
+    printError(`Error: ${error instanceof Error ? error.message : String(error)}\n`);
+    printError(USAGE);
+    return 2;
+  }
+
+  if (options.help) {
+    print(USAGE);
+    return 0;
+  }
+
+  // Validate the budget before spending time on a crawl
+  let budget: ReportBudget | undefined;
+  if (options.budgetPath) {
+    try {
+      budget = await loadBudget(options.budgetPath);
+    } catch (error) {
+      printError(
+        `Error reading budget ${options.budgetPath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return 2;
+    }
+  }
+
+  installDOMParser();
+
+  if (!options.quiet) {
+    print(`Crawling ${options.crawl.url}...`);
+  }
+
+  const crawlResult = await runHeadlessCrawl(options.crawl, {
+    onPage: options.quiet
+      ? undefined
+      : (page, result) => print(`[${result.crawledPages}] ${page.status || 'ERR'} ${page.url}`),
+  });
+
+  const report = generateReport(crawlResult);
+  const files = await writeReports(report, crawlResult.pages, options.outDir, options.formats);
+
+  print(`\n${getReportSummaryText(report)}\n`);
+  files.forEach((file) => print(`Report written to ${file}`));
+
+  if (budget) {
+    const results = evaluateReportBudget(report, budget, crawlResult.pages);
+    print(`\nBudgets\n${formatBudgetResults(results)}`);
+
+    if (results.some((result) => !result.passed)) {
+      printError('\nBudget exceeded');
+      return 1;
+    }
+  }
+
+  return 0;
+};
+
+main(process.argv.slice(2))
+  .then((exitCode) => {
+    process.exitCode = exitCode;
+  })
+  .catch((error) => {
+    printError(`Crawl failed: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  });
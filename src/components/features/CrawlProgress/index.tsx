@@ -5,13 +5,28 @@
 
 'use client';
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useRouter } from 'next/navigation';
-import { CrawlConfig, CrawlPage, CrawlResult, ReportData } from '@/types';
+import {
+  CrawlConfig,
+  CrawlPage,
+  CrawlResult,
+  CrawlScopeMode,
+  NormalizationPolicy,
+  ReportData,
+} from '@/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -19,13 +34,17 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/component
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
 import { useServiceWorker, CrawlLog, CrawlResults } from '@/lib/hooks/useServiceWorker';
-import { saveReport, saveCrawl } from '@/lib/storage/indexed-db';
-import {
-  detectOrphanedPages,
-  detectBrokenLinks,
-  detectEmptyPages,
-  detectSitemapOnlyPages,
-} from '@/lib/crawler/orphan-detector';
+import { saveReport, saveCrawl, getLatestCrawlForDomain } from '@/lib/storage/indexed-db';
+import { generateReport } from '@/lib/crawler/report-generator';
+import { DEFAULT_NORMALIZATION_POLICY, getDomain } from '@/lib/crawler/link-extractor';
+import { getUrlPatternError, isUrlInScope, UrlRules } from '@/lib/crawler/url-rules';
+import { CRAWL_SCOPE_LABELS, DEFAULT_CRAWL_SCOPE } from '@/lib/crawler/crawl-scope';
+import { checkExternalLinks } from '@/lib/crawler/external-link-checker';
+import { checkResources } from '@/lib/crawler/resource-checker';
+import { DEFAULT_CONTENT_THRESHOLDS } from '@/lib/crawler/content-quality';
+import { DEFAULT_PERFORMANCE_BUDGETS } from '@/lib/crawler/page-performance';
+import { DEFAULT_LINK_WEIGHTING } from '@/lib/crawler/link-equity';
+import { config as appConfig } from '@/config';
 import {
   AlertCircle,
   CheckCircle,
@@ -47,6 +66,11 @@ import {
   CORSCheckResult,
 } from '@/lib/utils/cors-detection';
 
+/**
+ * Milliseconds without URL edits before the previous crawl of the site is loaded
+ */
+const DISCOVERED_URLS_DEBOUNCE = 500;
+
 interface CrawlProgressProps {
   initialUrl: string;
   manualPages?: string[];
@@ -72,7 +96,36 @@ export const CrawlProgress = ({ initialUrl, manualPages = [] }: CrawlProgressPro
     respectRobotsTxt: true,
     timeout: 10000,
     manualPages: manualPages,
+    normalization: DEFAULT_NORMALIZATION_POLICY,
+    scope: DEFAULT_CRAWL_SCOPE,
+    contentThresholds: DEFAULT_CONTENT_THRESHOLDS,
+    nearDuplicateSimilarity: appConfig.report.nearDuplicateSimilarity,
+    performanceBudgets: DEFAULT_PERFORMANCE_BUDGETS,
+    linkWeighting: DEFAULT_LINK_WEIGHTING,
+    externalLinkCheck: {
+      enabled: false,
+      concurrency: appConfig.crawler.defaultExternalLinkConcurrency,
+      timeout: appConfig.crawler.defaultExternalLinkTimeout,
+    },
   });
+  // Progress of the resource and external link checks that run once the crawl completes
+  const [linkCheck, setLinkCheck] = useState<{
+    label: string;
+    checked: number;
+    total: number;
+  } | null>(null);
+  // Kept as typed so that separators can be entered before the next name
+  const [queryParamText, setQueryParamText] = useState('');
+  const [includeText, setIncludeText] = useState('');
+  const [excludeText, setExcludeText] = useState('');
+  const [allowedHostsText, setAllowedHostsText] = useState('');
+
+  // URLs found by the latest earlier crawl of the same site, to preview the URL rules
+  const [discoveredUrls, setDiscoveredUrls] = useState<string[]>([]);
+
+  const updateNormalization = (changes: Partial<NormalizationPolicy>) => {
+    setConfig({ ...config, normalization: { ...config.normalization, ...changes } });
+  };
 
   const handleCompleted = useCallback(
     async (results: CrawlResults) => {
@@ -80,7 +133,6 @@ export const CrawlProgress = ({ initialUrl, manualPages = [] }: CrawlProgressPro
         const pages = new Map<string, CrawlPage>(
           Object.entries(results.results) as [string, CrawlPage][]
         );
-        const sitemapUrls = new Set<string>(results.sitemapUrls || []);
 
         const crawlId = `crawl-${Date.now()}`;
         const crawlResult: CrawlResult = {
@@ -97,6 +149,12 @@ export const CrawlProgress = ({ initialUrl, manualPages = [] }: CrawlProgressPro
           brokenLinks: new Map(),
           sitemapUrls: results.sitemapUrls || [],
           robotsData: results.robotsData || null,
+          normalization: config.normalization,
+          scope: config.scope,
+          contentThresholds: config.contentThresholds,
+          nearDuplicateSimilarity: config.nearDuplicateSimilarity,
+          performanceBudgets: config.performanceBudgets,
+          linkWeighting: config.linkWeighting,
           stats: {
             avgResponseTime: results.stats.avgResponseTime,
             totalInternalLinks: 0,
@@ -104,33 +162,37 @@ export const CrawlProgress = ({ initialUrl, manualPages = [] }: CrawlProgressPro
           },
         };
 
-        const orphanedPages = detectOrphanedPages(crawlResult, sitemapUrls);
-        const brokenLinks = detectBrokenLinks(crawlResult);
-        const emptyPages = detectEmptyPages(crawlResult);
-        const sitemapOnlyPages = detectSitemapOnlyPages(crawlResult, sitemapUrls);
+        setLinkCheck({ label: 'Checking resources', checked: 0, total: 0 });
+        crawlResult.resourceChecks = await checkResources(crawlResult, {
+          concurrency: config.concurrency,
+          timeout: config.timeout,
+          onProgress: (checked, total) =>
+            setLinkCheck({ label: 'Checking resources', checked, total }),
+        });
+
+        if (config.externalLinkCheck?.enabled) {
+          setLinkCheck({ label: 'Checking external links', checked: 0, total: 0 });
+          crawlResult.externalLinks = await checkExternalLinks(pages, {
+            concurrency: config.externalLinkCheck.concurrency,
+            timeout: config.externalLinkCheck.timeout,
+            onProgress: (checked, total) =>
+              setLinkCheck({ label: 'Checking external links', checked, total }),
+          });
+        }
 
+        // Page counts come from the Service Worker, which also counts queued URLs
+        const generated = generateReport(crawlResult);
         const report: ReportData = {
-          id: `report-${Date.now()}`,
-          crawlId,
-          generatedAt: Date.now(),
+          ...generated,
           targetUrl: config.url || 'Manual Page Scan',
           summary: {
+            ...generated.summary,
             totalPages: results.stats.totalPages,
             crawledPages: results.stats.crawledPages,
-            orphanedCount: orphanedPages.length,
-            brokenLinkCount: brokenLinks.length,
-            emptyPageCount: emptyPages.length,
-            avgResponseTime: results.stats.avgResponseTime,
           },
-          orphanedPages,
-          brokenLinks,
-          emptyPages,
-          sitemapOnlyPages,
-          sitemapUrls: results.sitemapUrls || [],
-          robotsData: results.robotsData || null,
         };
 
-        crawlResult.orphanedPages = orphanedPages.map((p) => p.url);
+        crawlResult.orphanedPages = report.orphanedPages.map((p) => p.url);
         await saveCrawl(crawlResult);
         await saveReport(report);
 
@@ -139,7 +201,19 @@ export const CrawlProgress = ({ initialUrl, manualPages = [] }: CrawlProgressPro
         console.error('Error generating report:', error);
       }
     },
-    [config.url, router]
+    [
+      config.url,
+      config.normalization,
+      config.scope,
+      config.contentThresholds,
+      config.nearDuplicateSimilarity,
+      config.performanceBudgets,
+      config.linkWeighting,
+      config.concurrency,
+      config.timeout,
+      config.externalLinkCheck,
+      router,
+    ]
   );
 
   const {
@@ -193,6 +267,48 @@ export const CrawlProgress = ({ initialUrl, manualPages = [] }: CrawlProgressPro
     performCheck();
   }, [config.url]);
 
+  // Load the URLs discovered by the most recent crawl of this site, once typing pauses
+  useEffect(() => {
+    const domain = getDomain(config.url);
+    if (!domain) {
+      setDiscoveredUrls([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeoutId = setTimeout(() => {
+      getLatestCrawlForDomain(domain)
+        .then((latest) => {
+          const urls = new Set<string>(latest?.sitemapUrls ?? []);
+          latest?.pages.forEach((page) => {
+            urls.add(page.url);
+            page.internalLinks.forEach((link) => urls.add(link));
+          });
+          if (!cancelled) {
+            setDiscoveredUrls(Array.from(urls).sort());
+          }
+        })
+        .catch(() => {
+          if (!cancelled) setDiscoveredUrls([]);
+        });
+    }, DISCOVERED_URLS_DEBOUNCE);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [config.url]);
+
+  const parsePatterns = (text: string) =>
+    text
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean);
+
+  const patternErrors = [...(config.includePatterns ?? []), ...(config.excludePatterns ?? [])]
+    .map(getUrlPatternError)
+    .filter((error): error is string => error !== null);
+
   const handleStartCrawl = async () => {
     if (!isReady) {
       console.error('Service Worker not ready');
@@ -214,7 +330,8 @@ export const CrawlProgress = ({ initialUrl, manualPages = [] }: CrawlProgressPro
   const progressPercent = progress?.progress || 0;
   const hasUrl = Boolean(config.url);
   const hasManualPages = config.manualPages && config.manualPages.length > 0;
-  const canStart = (hasUrl || hasManualPages) && isReady && !registrationError;
+  const canStart =
+    (hasUrl || hasManualPages) && isReady && !registrationError && patternErrors.length === 0;
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -336,6 +453,454 @@ export const CrawlProgress = ({ initialUrl, manualPages = [] }: CrawlProgressPro
                   />
                   <p className="text-xs text-muted-foreground">Request timeout</p>
                 </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="includePatterns">Include URLs</Label>
+                  <Textarea
+                    id="includePatterns"
+                    className="font-mono text-xs"
+                    placeholder="/docs/**"
+                    value={includeText}
+                    onChange={(e) => {
+                      setIncludeText(e.target.value);
+                      setConfig({ ...config, includePatterns: parsePatterns(e.target.value) });
+                    }}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    One per line; empty crawls everything
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="excludePatterns">Exclude URLs</Label>
+                  <Textarea
+                    id="excludePatterns"
+                    className="font-mono text-xs"
+                    placeholder={'/tag/*\nre:\\?print='}
+                    value={excludeText}
+                    onChange={(e) => {
+                      setExcludeText(e.target.value);
+                      setConfig({ ...config, excludePatterns: parsePatterns(e.target.value) });
+                    }}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Globs match the path (* one segment, ** any); re: for a regex
+                  </p>
+                </div>
+              </div>
+
+              {patternErrors.length > 0 && (
+                <div className="space-y-1">
+                  {patternErrors.map((error) => (
+                    <p key={error} className="text-sm text-destructive">
+                      {error}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {patternErrors.length === 0 &&
+                discoveredUrls.length > 0 &&
+                ((config.includePatterns?.length ?? 0) > 0 ||
+                  (config.excludePatterns?.length ?? 0) > 0) && (
+                  <UrlRulesPreview urls={discoveredUrls} rules={config} />
+                )}
+
+              {/* Crawl Scope */}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="scopeMode">Crawl scope</Label>
+                  <Select
+                    value={config.scope?.mode}
+                    onValueChange={(value) =>
+                      setConfig({
+                        ...config,
+                        scope: { ...config.scope, mode: value as CrawlScopeMode },
+                      })
+                    }
+                  >
+                    <SelectTrigger id="scopeMode">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(CRAWL_SCOPE_LABELS) as CrawlScopeMode[]).map((mode) => (
+                        <SelectItem key={mode} value={mode}>
+                          {CRAWL_SCOPE_LABELS[mode]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Which hosts count as internal (www., blog.)
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="allowedHosts">Allowed hosts</Label>
+                  <Input
+                    id="allowedHosts"
+                    placeholder="blog.example.com, docs.example.com"
+                    value={allowedHostsText}
+                    disabled={config.scope?.mode !== 'allowlist'}
+                    onChange={(e) => {
+                      setAllowedHostsText(e.target.value);
+                      setConfig({
+                        ...config,
+                        scope: {
+                          mode: 'allowlist',
+                          hosts: e.target.value
+                            .split(',')
+                            .map((host) => host.trim())
+                            .filter(Boolean),
+                        },
+                      });
+                    }}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Comma-separated, in addition to the start host
+                  </p>
+                </div>
+              </div>
+
+              {/* URL Normalization */}
+              <div className="space-y-4 rounded-lg border p-4">
+                <div className="space-y-0.5">
+                  <Label>URL Normalization</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Decide which URL variants count as the same page
+                  </p>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="queryParams">Query parameters</Label>
+                    <Select
+                      value={config.normalization?.queryParams}
+                      onValueChange={(value) =>
+                        updateNormalization({
+                          queryParams: value as NormalizationPolicy['queryParams'],
+                        })
+                      }
+                    >
+                      <SelectTrigger id="queryParams">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="strip-all">Strip all</SelectItem>
+                        <SelectItem value="keep-all">Keep all</SelectItem>
+                        <SelectItem value="keep-listed">Keep listed only</SelectItem>
+                        <SelectItem value="strip-listed">Strip listed only</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="queryParamList">Listed parameters</Label>
+                    <Input
+                      id="queryParamList"
+                      placeholder="page, utm_*"
+                      value={queryParamText}
+                      disabled={
+                        config.normalization?.queryParams === 'strip-all' ||
+                        config.normalization?.queryParams === 'keep-all'
+                      }
+                      onChange={(e) => {
+                        setQueryParamText(e.target.value);
+                        updateNormalization({
+                          queryParamList: e.target.value
+                            .split(',')
+                            .map((name) => name.trim())
+                            .filter(Boolean),
+                        });
+                      }}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Comma-separated, * matches a prefix
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="trailingSlash">Trailing slash</Label>
+                    <Select
+                      value={config.normalization?.trailingSlash}
+                      onValueChange={(value) =>
+                        updateNormalization({
+                          trailingSlash: value as NormalizationPolicy['trailingSlash'],
+                        })
+                      }
+                    >
+                      <SelectTrigger id="trailingSlash">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="strip">Ignore (/about/ = /about)</SelectItem>
+                        <SelectItem value="keep">Significant</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="flex items-center justify-between space-x-2">
+                    <div className="space-y-0.5">
+                      <Label htmlFor="caseSensitivePaths">Case-sensitive paths</Label>
+                      <p className="text-xs text-muted-foreground">/About and /about differ</p>
+                    </div>
+                    <Switch
+                      id="caseSensitivePaths"
+                      checked={config.normalization?.caseSensitivePaths}
+                      onCheckedChange={(checked) =>
+                        updateNormalization({ caseSensitivePaths: checked })
+                      }
+                    />
+                  </div>
+                </div>
+              </div>
+
+              {/* Content Thresholds */}
+              <div className="space-y-4 rounded-lg border p-4">
+                <div className="space-y-0.5">
+                  <Label>Content Thresholds</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Words outside navigation, headers and footers below which pages are reported,
+                    and how similar that content must be to cluster near duplicates
+                  </p>
+                </div>
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="emptyWords">Empty below (words)</Label>
+                    <Input
+                      id="emptyWords"
+                      type="number"
+                      value={config.contentThresholds?.emptyWords}
+                      onChange={(e) =>
+                        setConfig({
+                          ...config,
+                          contentThresholds: {
+                            ...config.contentThresholds,
+                            emptyWords:
+                              parseInt(e.target.value) || DEFAULT_CONTENT_THRESHOLDS.emptyWords,
+                          },
+                        })
+                      }
+                      min="1"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="thinWords">Thin below (words)</Label>
+                    <Input
+                      id="thinWords"
+                      type="number"
+                      value={config.contentThresholds?.thinWords}
+                      onChange={(e) =>
+                        setConfig({
+                          ...config,
+                          contentThresholds: {
+                            ...config.contentThresholds,
+                            thinWords:
+                              parseInt(e.target.value) || DEFAULT_CONTENT_THRESHOLDS.thinWords,
+                          },
+                        })
+                      }
+                      min="1"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="nearDuplicateSimilarity">Near duplicate at (%)</Label>
+                    <Input
+                      id="nearDuplicateSimilarity"
+                      type="number"
+                      value={Math.round(
+                        (config.nearDuplicateSimilarity ??
+                          appConfig.report.nearDuplicateSimilarity) * 100
+                      )}
+                      onChange={(e) =>
+                        setConfig({
+                          ...config,
+                          nearDuplicateSimilarity:
+                            Math.max(0, Math.min(100, parseInt(e.target.value))) / 100 ||
+                            appConfig.report.nearDuplicateSimilarity,
+                        })
+                      }
+                      min="1"
+                      max="100"
+                    />
+                  </div>
+                </div>
+              </div>
+
+              {/* Performance Budgets */}
+              <div className="space-y-4 rounded-lg border p-4">
+                <div className="space-y-0.5">
+                  <Label>Performance Budgets</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Pages slower or heavier than these are reported
+                  </p>
+                </div>
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="responseTimeBudget">Response time (ms)</Label>
+                    <Input
+                      id="responseTimeBudget"
+                      type="number"
+                      value={config.performanceBudgets?.responseTime}
+                      onChange={(e) =>
+                        setConfig({
+                          ...config,
+                          performanceBudgets: {
+                            ...config.performanceBudgets,
+                            responseTime:
+                              parseInt(e.target.value) || DEFAULT_PERFORMANCE_BUDGETS.responseTime,
+                          },
+                        })
+                      }
+                      min="1"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="ttfbBudget">TTFB (ms)</Label>
+                    <Input
+                      id="ttfbBudget"
+                      type="number"
+                      value={config.performanceBudgets?.ttfb}
+                      onChange={(e) =>
+                        setConfig({
+                          ...config,
+                          performanceBudgets: {
+                            ...config.performanceBudgets,
+                            ttfb: parseInt(e.target.value) || DEFAULT_PERFORMANCE_BUDGETS.ttfb,
+                          },
+                        })
+                      }
+                      min="1"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="bytesBudget">Page size (KB)</Label>
+                    <Input
+                      id="bytesBudget"
+                      type="number"
+                      value={Math.round(
+                        (config.performanceBudgets?.bytes ?? DEFAULT_PERFORMANCE_BUDGETS.bytes) /
+                          1024
+                      )}
+                      onChange={(e) =>
+                        setConfig({
+                          ...config,
+                          performanceBudgets: {
+                            ...config.performanceBudgets,
+                            bytes:
+                              parseInt(e.target.value) * 1024 || DEFAULT_PERFORMANCE_BUDGETS.bytes,
+                          },
+                        })
+                      }
+                      min="1"
+                    />
+                  </div>
+                </div>
+              </div>
+
+              {/* Link Equity Weighting */}
+              <div className="space-y-4 rounded-lg border p-4">
+                <div className="space-y-0.5">
+                  <Label>Link Equity</Label>
+                  <p className="text-sm text-muted-foreground">
+                    How internal links pass equity when pages are scored
+                  </p>
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="weightByPosition">Weight navigation and footer links lower</Label>
+                  <Switch
+                    id="weightByPosition"
+                    checked={config.linkWeighting?.byPosition}
+                    onCheckedChange={(checked) =>
+                      setConfig({
+                        ...config,
+                        linkWeighting: { ...config.linkWeighting, byPosition: checked },
+                      })
+                    }
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="ignoreNofollow">Ignore nofollow links</Label>
+                  <Switch
+                    id="ignoreNofollow"
+                    checked={config.linkWeighting?.ignoreNofollow}
+                    onCheckedChange={(checked) =>
+                      setConfig({
+                        ...config,
+                        linkWeighting: { ...config.linkWeighting, ignoreNofollow: checked },
+                      })
+                    }
+                  />
+                </div>
+              </div>
+
+              {/* External Link Check */}
+              <div className="space-y-4 rounded-lg border p-4">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="checkExternalLinks">Check external links</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Request every external URL once the crawl has finished
+                    </p>
+                  </div>
+                  <Switch
+                    id="checkExternalLinks"
+                    checked={config.externalLinkCheck?.enabled}
+                    onCheckedChange={(checked) =>
+                      setConfig({
+                        ...config,
+                        externalLinkCheck: { ...config.externalLinkCheck, enabled: checked },
+                      })
+                    }
+                  />
+                </div>
+                {config.externalLinkCheck?.enabled && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="externalConcurrency">Concurrency</Label>
+                      <Input
+                        id="externalConcurrency"
+                        type="number"
+                        value={config.externalLinkCheck.concurrency}
+                        onChange={(e) =>
+                          setConfig({
+                            ...config,
+                            externalLinkCheck: {
+                              enabled: true,
+                              timeout: config.externalLinkCheck?.timeout,
+                              concurrency:
+                                parseInt(e.target.value) ||
+                                appConfig.crawler.defaultExternalLinkConcurrency,
+                            },
+                          })
+                        }
+                        min="1"
+                        max="20"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="externalTimeout">Timeout (ms)</Label>
+                      <Input
+                        id="externalTimeout"
+                        type="number"
+                        value={config.externalLinkCheck.timeout}
+                        onChange={(e) =>
+                          setConfig({
+                            ...config,
+                            externalLinkCheck: {
+                              enabled: true,
+                              concurrency: config.externalLinkCheck?.concurrency,
+                              timeout:
+                                parseInt(e.target.value) ||
+                                appConfig.crawler.defaultExternalLinkTimeout,
+                            },
+                          })
+                        }
+                        min="1000"
+                        step="1000"
+                      />
+                    </div>
+                  </div>
+                )}
               </div>
 
               {/* Robots.txt Switch */}
@@ -464,6 +1029,17 @@ export const CrawlProgress = ({ initialUrl, manualPages = [] }: CrawlProgressPro
                 {/* Progress Bar */}
                 <Progress value={Math.min(progressPercent, 100)} className="h-3" />
 
+                {/* External Link Check */}
+                {linkCheck && (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    <span>
+                      {linkCheck.label}{' '}
+                      {linkCheck.total > 0 && `${linkCheck.checked} / ${linkCheck.total}`}
+                    </span>
+                  </div>
+                )}
+
                 {/* ETA */}
                 {status === 'crawling' && progress?.estimatedTimeRemaining && (
                   <div className="flex items-center gap-2 text-sm text-muted-foreground">
@@ -650,6 +1226,51 @@ function LogEntry({ log }: { log: CrawlLog }) {
   );
 }
 
+const PREVIEW_LIMIT = 100;
+
+// Preview of which previously discovered URLs the include/exclude rules keep
+function UrlRulesPreview({ urls, rules }: { urls: string[]; rules: UrlRules }) {
+  const matches = useMemo(
+    () => urls.map((url) => ({ url, inScope: isUrlInScope(url, rules) })),
+    [urls, rules]
+  );
+  const inScopeCount = matches.filter((match) => match.inScope).length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Rule preview</Label>
+        <span className="text-sm text-muted-foreground">
+          {inScopeCount} of {urls.length} URLs from the last crawl would be crawled
+        </span>
+      </div>
+      <ScrollArea className="h-40 rounded-md border p-2">
+        <div className="space-y-1">
+          {matches.slice(0, PREVIEW_LIMIT).map(({ url, inScope }) => (
+            <div key={url} className="flex items-center gap-2 text-xs font-mono">
+              {inScope ? (
+                <CheckCircle className="w-3 h-3 text-green-500 flex-shrink-0" />
+              ) : (
+                <X className="w-3 h-3 text-muted-foreground flex-shrink-0" />
+              )}
+              <span
+                className={inScope ? 'truncate' : 'truncate text-muted-foreground line-through'}
+              >
+                {url}
+              </span>
+            </div>
+          ))}
+          {matches.length > PREVIEW_LIMIT && (
+            <p className="text-xs text-muted-foreground">
+              and {matches.length - PREVIEW_LIMIT} more
+            </p>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
+
 // CORS Check Display Component
 function CORSCheckDisplay({ result }: { result: CORSCheckResult }) {
   const suggestions = getCrawlabilitySuggestions(result);
@@ -12,16 +12,23 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { FileJson, FileSpreadsheet, FileText, Download } from 'lucide-react';
-import { ReportData } from '@/types';
-import { downloadJSON, downloadCSV, downloadPDF } from '@/lib/utils/export';
+import { FileJson, FileSpreadsheet, FileText, FileCode, ShieldCheck, Download } from 'lucide-react';
+import { CrawlPage, ReportData } from '@/types';
+import {
+  downloadJSON,
+  downloadCSV,
+  downloadPDF,
+  downloadJUnit,
+  downloadSARIF,
+} from '@/lib/utils/export';
 
 interface ExportDropdownProps {
   report: ReportData;
+  pages?: Map<string, CrawlPage> | null;
 }
 
-export const ExportDropdown = ({ report }: ExportDropdownProps) => {
-  const handleExport = (format: 'json' | 'csv' | 'pdf') => {
+export const ExportDropdown = ({ report, pages }: ExportDropdownProps) => {
+  const handleExport = (format: 'json' | 'csv' | 'pdf' | 'junit' | 'sarif') => {
     const filename = `vaporscan-report-${report.crawlId}`;
     switch (format) {
       case 'json':
@@ -33,6 +40,12 @@ export const ExportDropdown = ({ report }: ExportDropdownProps) => {
       case 'pdf':
         downloadPDF(report, `${filename}.pdf`);
         break;
+      case 'junit':
+        downloadJUnit(report, `${filename}.junit.xml`, pages);
+        break;
+      case 'sarif':
+        downloadSARIF(report, `${filename}.sarif`, pages);
+        break;
     }
   };
 
@@ -57,6 +70,14 @@ export const ExportDropdown = ({ report }: ExportDropdownProps) => {
           <FileText className="w-4 h-4 mr-2" />
           Export as PDF
         </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('junit')}>
+          <FileCode className="w-4 h-4 mr-2" />
+          Export as JUnit XML
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('sarif')}>
+          <ShieldCheck className="w-4 h-4 mr-2" />
+          Export as SARIF
+        </DropdownMenuItem>
       </DropdownMenuContent>
     </DropdownMenu>
   );
@@ -19,7 +19,9 @@ import ReactFlow, {
   MarkerType,
 } from 'reactflow';
 import 'reactflow/dist/style.css';
-import { CrawlPage } from '@/types';
+import { ContentQuality, CrawlPage, CrawlScope, LinkPosition, PageLinkEquity } from '@/types';
+import { CRAWL_SCOPE_LABELS } from '@/lib/crawler/crawl-scope';
+import { LINK_POSITION_LABELS } from '@/lib/crawler/link-audit';
 import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -28,6 +30,19 @@ interface LinkGraphProps {
   pages: Map<string, CrawlPage>;
   targetUrl: string;
   maxNodes?: number;
+  scope?: CrawlScope;
+  /** Sizes nodes by link equity; absent in reports generated before link equity scoring */
+  linkEquity?: PageLinkEquity[];
+}
+
+/**
+ * A link to the page; pages crawled before link records only have `from`
+ */
+interface IncomingLink {
+  from: string;
+  text?: string;
+  rel?: string[];
+  position?: LinkPosition;
 }
 
 interface PageNodeData {
@@ -38,11 +53,25 @@ interface PageNodeData {
   outgoingCount: number;
   isOrphaned: boolean;
   isBroken: boolean;
-  incomingLinks: string[];
+  incomingLinks: IncomingLink[];
   outgoingLinks: string[];
+  contentQuality?: ContentQuality;
+  /** Link equity score, and its share of the highest score from 0 to 1 */
+  linkEquity?: number;
+  equityRatio?: number;
   dimmed?: boolean;
 }
 
+/**
+ * Node widths in pixels: pages with the highest link equity get the widest
+ * nodes, which still fit the 250px grid columns
+ */
+const MIN_NODE_WIDTH = 120;
+const MAX_NODE_WIDTH = 240;
+
+const getNodeWidth = (equityRatio: number): number =>
+  Math.round(MIN_NODE_WIDTH + Math.sqrt(equityRatio) * (MAX_NODE_WIDTH - MIN_NODE_WIDTH));
+
 const getNodeColor = (status: number, isOrphaned: boolean): string => {
   if (isOrphaned) return '#f59e0b'; // Orange for orphaned
   if (status >= 400) return '#ef4444'; // Red for errors
@@ -58,8 +87,11 @@ const PageNode = ({ data }: { data: PageNodeData }) => {
       <Tooltip delayDuration={200}>
         <TooltipTrigger asChild>
           <div
-            className="px-3 py-2 rounded-lg shadow-lg border-2 min-w-[120px] max-w-[200px] transition-opacity duration-200"
+            className={`px-3 py-2 rounded-lg shadow-lg border-2 transition-opacity duration-200 ${
+              data.equityRatio === undefined ? 'min-w-[120px] max-w-[200px]' : ''
+            }`}
             style={{
+              width: data.equityRatio === undefined ? undefined : getNodeWidth(data.equityRatio),
               backgroundColor: bgColor,
               borderColor: data.isBroken ? '#ef4444' : bgColor,
               opacity: data.dimmed ? 0.2 : 1,
@@ -84,7 +116,12 @@ const PageNode = ({ data }: { data: PageNodeData }) => {
           <div className="flex flex-col h-full max-h-[400px]">
             <div className="p-3 border-b bg-muted/50">
               <h4 className="font-semibold text-xs break-all leading-tight">{data.url}</h4>
-              <p className="text-[10px] text-muted-foreground mt-1">Status: {data.status}</p>
+              <p className="text-[10px] text-muted-foreground mt-1">
+                Status: {data.status}
+                {data.linkEquity !== undefined && ` · Link equity ${data.linkEquity.toFixed(2)}`}
+                {data.contentQuality &&
+                  ` · ${data.contentQuality.wordCount} words · ${(data.contentQuality.textRatio * 100).toFixed(1)}% text`}
+              </p>
             </div>
 
             <div className="flex-1 overflow-hidden">
@@ -98,12 +135,23 @@ const PageNode = ({ data }: { data: PageNodeData }) => {
                   </div>
                   <ScrollArea className="h-24">
                     <div className="space-y-1">
-                      {data.incomingLinks.map((link) => (
+                      {data.incomingLinks.map((link, index) => (
                         <div
-                          key={link}
-                          className="text-[10px] text-muted-foreground truncate hover:text-foreground transition-colors"
+                          key={`${link.from}-${index}`}
+                          className="text-[10px] text-muted-foreground hover:text-foreground transition-colors"
                         >
-                          {link}
+                          <div className="truncate">{link.from}</div>
+                          {link.position && (
+                            <div className="flex gap-1 truncate">
+                              <span className="italic">
+                                {link.text ? `"${link.text}"` : 'No anchor text'}
+                              </span>
+                              <span>&middot; {LINK_POSITION_LABELS[link.position]}</span>
+                              {link.rel?.includes('nofollow') && (
+                                <span className="text-orange-500">&middot; nofollow</span>
+                              )}
+                            </div>
+                          )}
                         </div>
                       ))}
                       {data.incomingLinks.length === 0 && (
@@ -149,13 +197,35 @@ const PageNode = ({ data }: { data: PageNodeData }) => {
   );
 };
 
+const getHost = (url: string): string => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return '';
+  }
+};
+
 const nodeTypes: NodeTypes = {
   pageNode: PageNode,
 };
 
-export const LinkGraph = ({ pages, targetUrl, maxNodes = 100 }: LinkGraphProps) => {
+export const LinkGraph = ({
+  pages,
+  targetUrl,
+  maxNodes = 100,
+  scope,
+  linkEquity,
+}: LinkGraphProps) => {
   const [showAll, setShowAll] = useState(false);
   const [selectedFilter, setSelectedFilter] = useState<'all' | 'orphaned' | 'broken'>('all');
+  const [selectedHost, setSelectedHost] = useState<string | null>(null);
+
+  // Subdomain and allowlist scopes can spread the site over several hosts
+  const targetHost = getHost(targetUrl);
+  const hosts = useMemo(
+    () => Array.from(new Set(Array.from(pages.keys(), getHost))).sort(),
+    [pages]
+  );
 
   const [hoveredNodeId, setHoveredNodeId] = useState<string | null>(null);
 
@@ -175,24 +245,60 @@ export const LinkGraph = ({ pages, targetUrl, maxNodes = 100 }: LinkGraphProps)
     return map;
   }, [pages]);
 
+  // Link equity scores by page URL, with the highest score to size nodes against
+  const equityMap = useMemo(
+    () => new Map(linkEquity?.map((entry) => [entry.url, entry.score])),
+    [linkEquity]
+  );
+  const maxEquity = useMemo(() => Math.max(0, ...Array.from(equityMap.values())), [equityMap]);
+
+  // Every link to each page, with anchor text, rel and position when recorded
+  const incomingRecordMap = useMemo(() => {
+    const map = new Map<string, IncomingLink[]>();
+    const add = (target: string, link: IncomingLink) => {
+      if (!map.has(target)) {
+        map.set(target, []);
+      }
+      map.get(target)!.push(link);
+    };
+
+    pages.forEach((page) => {
+      if (page.links) {
+        page.links.forEach(({ url, ...record }) => add(url, { from: page.url, ...record }));
+      } else {
+        page.internalLinks.forEach((link) => add(link, { from: page.url }));
+      }
+    });
+
+    return map;
+  }, [pages]);
+
   // Generate nodes and edges
   const { initialNodes, initialEdges } = useMemo(() => {
     const nodes: Node<PageNodeData>[] = [];
     const edges: Edge[] = [];
     const processedUrls = new Set<string>();
 
-    // Get URL path for label
+    // Get URL path for label, prefixed with the host for pages on other hosts
     const getLabel = (url: string): string => {
       try {
         const parsedUrl = new URL(url);
-        return parsedUrl.pathname === '/' ? '/' : parsedUrl.pathname.slice(0, 30);
+        const path = parsedUrl.pathname === '/' ? '/' : parsedUrl.pathname;
+        const label = parsedUrl.host === targetHost ? path : `${parsedUrl.host}${path}`;
+        return label.slice(0, 30);
       } catch {
         return url.slice(0, 30);
       }
     };
 
-    // Filter pages based on selection
-    let filteredPages = Array.from(pages.entries());
+    // Filter pages based on selection, keeping the pages of each host together
+    let filteredPages = Array.from(pages.entries()).sort(
+      ([a], [b]) => hosts.indexOf(getHost(a)) - hosts.indexOf(getHost(b))
+    );
+
+    if (selectedHost) {
+      filteredPages = filteredPages.filter(([url]) => getHost(url) === selectedHost);
+    }
 
     if (selectedFilter === 'orphaned') {
       filteredPages = filteredPages.filter(([url]) => {
@@ -227,8 +333,13 @@ export const LinkGraph = ({ pages, targetUrl, maxNodes = 100 }: LinkGraphProps)
           outgoingCount: page.internalLinks.length,
           isOrphaned,
           isBroken: page.status >= 400,
-          incomingLinks: Array.from(incomingLinkMap.get(url) || []),
+          incomingLinks: incomingRecordMap.get(url) || [],
           outgoingLinks: page.internalLinks,
+          contentQuality: page.contentQuality,
+          ...(linkEquity && {
+            linkEquity: equityMap.get(url) ?? 0,
+            equityRatio: maxEquity > 0 ? (equityMap.get(url) ?? 0) / maxEquity : 0,
+          }),
           dimmed: false,
         },
       });
@@ -258,7 +369,21 @@ export const LinkGraph = ({ pages, targetUrl, maxNodes = 100 }: LinkGraphProps)
     });
 
     return { initialNodes: nodes, initialEdges: edges };
-  }, [pages, incomingLinkMap, targetUrl, showAll, maxNodes, selectedFilter]);
+  }, [
+    pages,
+    incomingLinkMap,
+    incomingRecordMap,
+    linkEquity,
+    equityMap,
+    maxEquity,
+    targetUrl,
+    targetHost,
+    hosts,
+    selectedHost,
+    showAll,
+    maxNodes,
+    selectedFilter,
+  ]);
 
   const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
   const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
@@ -401,6 +526,31 @@ export const LinkGraph = ({ pages, targetUrl, maxNodes = 100 }: LinkGraphProps)
         )}
       </div>
 
+      {hosts.length > 1 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-muted-foreground">
+            {scope ? CRAWL_SCOPE_LABELS[scope.mode] : 'Hosts'}:
+          </span>
+          <Button
+            variant={selectedHost === null ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => setSelectedHost(null)}
+          >
+            All hosts
+          </Button>
+          {hosts.map((host) => (
+            <Button
+              key={host}
+              variant={selectedHost === host ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setSelectedHost(host)}
+            >
+              {host}
+            </Button>
+          ))}
+        </div>
+      )}
+
       <div className="h-[600px] border border-border rounded-lg overflow-hidden">
         <ReactFlow
           nodes={nodes}
@@ -444,6 +594,7 @@ export const LinkGraph = ({ pages, targetUrl, maxNodes = 100 }: LinkGraphProps)
           <div className="w-3 h-3 rounded bg-red-500" />
           <span>Error (4xx/5xx)</span>
         </div>
+        {linkEquity && <span>Wider nodes receive more link equity</span>}
       </div>
     </div>
   );
@@ -5,7 +5,51 @@
 
 'use client';
 
-import { ReportData, CrawlPage } from '@/types';
+import { useState } from 'react';
+import {
+  ReportData,
+  CrawlPage,
+  CanonicalIssue,
+  CanonicalIssueType,
+  ExternalLinkResult,
+  ExternalLinkState,
+  BrokenResource,
+  ResourceType,
+  LinkIssue,
+  LinkIssueType,
+  NavigationOnlyPage,
+  HreflangIssue,
+  HreflangIssueType,
+  HreflangCluster,
+  NonIndexablePage,
+  IndexabilityConflict,
+  StructuredDataTypeGroup,
+  StructuredDataPage,
+  OnPageIssue,
+  OnPageIssueType,
+  DuplicateContentField,
+  DuplicateContentGroup,
+  NearDuplicateCluster,
+  NearDuplicatePage,
+  ImageIssue,
+  ImageIssueType,
+  InconsistentImageAlt,
+  SocialIssue,
+  SocialIssueType,
+  DuplicateSocialImage,
+  MixedContentIssue,
+  MixedContentHostGroup,
+  MixedContentType,
+  HeaderIssue,
+  HeaderIssueType,
+  PerformanceReport,
+  PerformanceMetric,
+  PercentileSummary,
+  PagePerformanceRow,
+  BudgetViolation,
+  DirectoryPerformance,
+  PageLinkEquity,
+} from '@/types';
 import Link from 'next/link';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -25,6 +69,35 @@ import {
 import { ExportDropdown } from '@/components/features/ExportDropdown';
 import { LinkGraph } from '@/components/features/LinkGraph';
 import { DataTable, ColumnDef } from '@/components/ui/data-table';
+import { CANONICAL_ISSUE_LABELS } from '@/lib/crawler/canonical-detector';
+import { EXTERNAL_LINK_STATE_LABELS } from '@/lib/crawler/external-link-checker';
+import { RESOURCE_TYPE_LABELS } from '@/lib/crawler/resource-checker';
+import { LINK_ISSUE_LABELS, LINK_POSITION_LABELS } from '@/lib/crawler/link-audit';
+import { HREFLANG_ISSUE_LABELS } from '@/lib/crawler/hreflang-validator';
+import {
+  NON_INDEXABLE_REASON_LABELS,
+  INDEXABILITY_CONFLICT_LABELS,
+} from '@/lib/crawler/indexability';
+import { ON_PAGE_ISSUE_LABELS, DUPLICATE_CONTENT_FIELD_LABELS } from '@/lib/crawler/on-page-audit';
+import { IMAGE_ISSUE_LABELS } from '@/lib/crawler/image-audit';
+import { SOCIAL_ISSUE_LABELS } from '@/lib/crawler/social-meta';
+import { MIXED_CONTENT_TYPE_LABELS, groupMixedContentByHost } from '@/lib/crawler/mixed-content';
+import { HEADER_ISSUE_LABELS } from '@/lib/crawler/response-headers';
+import {
+  PERFORMANCE_METRIC_LABELS,
+  formatBucket,
+  formatPageSize,
+} from '@/lib/crawler/page-performance';
+import { formatBytes, formatTime } from '@/lib/utils';
+import { SharePreview } from '@/components/features/SharePreview';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   AlertTriangle,
   CheckCircle2,
@@ -36,6 +109,22 @@ import {
   Network,
   BarChart3,
   ArrowLeft,
+  Layers,
+  CornerDownRight,
+  Globe,
+  FileImage,
+  Anchor,
+  Languages,
+  EyeOff,
+  Braces,
+  Heading,
+  Copy,
+  Image as ImageIcon,
+  Share2,
+  Lock,
+  ServerCog,
+  Gauge,
+  Crown,
 } from 'lucide-react';
 
 interface ReportDashboardProps {
@@ -105,7 +194,7 @@ export const ReportDashboard = ({
                 <span className="hidden sm:inline">Link Graph</span>
               </button>
               <div className="w-px h-4 bg-border mx-1" />
-              <ExportDropdown report={report} />
+              <ExportDropdown report={report} pages={pages} />
             </div>
           </div>
           <p className="text-muted-foreground mt-2 font-mono text-sm">{report.targetUrl}</p>
@@ -160,7 +249,13 @@ export const ReportDashboard = ({
               pages, and edges represent links between them.
             </p>
             {pages ? (
-              <LinkGraph pages={pages} targetUrl={report.targetUrl} maxNodes={150} />
+              <LinkGraph
+                pages={pages}
+                targetUrl={report.targetUrl}
+                scope={report.scope}
+                linkEquity={report.linkEquity}
+                maxNodes={150}
+              />
             ) : (
               <div className="h-[600px] flex items-center justify-center border border-border rounded-lg bg-muted/20">
                 <p className="text-muted-foreground">Page data not available for visualization</p>
@@ -282,6 +377,61 @@ export const ReportDashboard = ({
           <OrphanedSection pages={report.orphanedPages} />
           <BrokenLinksSection links={report.brokenLinks} />
           <EmptyPagesSection pages={report.emptyPages} />
+          {report.thinPages && <ThinPagesSection pages={report.thinPages} />}
+          {report.clickDepth && (
+            <ClickDepthSection clickDepth={report.clickDepth} pages={report.deepPages ?? []} />
+          )}
+          {report.redirectChains && <RedirectsSection report={report} />}
+          {report.canonicalIssues && <CanonicalSection issues={report.canonicalIssues} />}
+          {report.externalLinks && <ExternalLinksSection links={report.externalLinks} />}
+          {report.brokenResources && <BrokenResourcesSection resources={report.brokenResources} />}
+          {report.linkIssues && <LinkAuditSection report={report} />}
+          {report.hreflangClusters && report.hreflangClusters.length > 0 && (
+            <HreflangSection
+              issues={report.hreflangIssues ?? []}
+              clusters={report.hreflangClusters}
+            />
+          )}
+          {report.nonIndexablePages && (
+            <IndexabilitySection
+              pages={report.nonIndexablePages}
+              conflicts={report.indexabilityConflicts ?? []}
+            />
+          )}
+          {report.structuredData && <StructuredDataSection groups={report.structuredData} />}
+          {report.onPageIssues && (
+            <OnPageSection
+              issues={report.onPageIssues}
+              duplicates={report.duplicateContent ?? []}
+            />
+          )}
+          {report.nearDuplicates && <NearDuplicatesSection clusters={report.nearDuplicates} />}
+          {report.imageIssues && (
+            <ImagesSection
+              issues={report.imageIssues}
+              inconsistentAlts={report.inconsistentImageAlts ?? []}
+            />
+          )}
+          {report.socialIssues && (
+            <SocialSection
+              issues={report.socialIssues}
+              duplicateImages={report.duplicateSocialImages ?? []}
+              pages={pages}
+            />
+          )}
+          {report.mixedContent && report.targetUrl.startsWith('https://') && (
+            <MixedContentSection issues={report.mixedContent} />
+          )}
+          {report.headerIssues && <HeadersSection issues={report.headerIssues} pages={pages} />}
+          {report.performance && report.performance.site.pageCount > 0 && (
+            <PerformanceSection performance={report.performance} />
+          )}
+          {report.linkEquity && report.linkEquity.length > 0 && (
+            <LinkEquitySection
+              linkEquity={report.linkEquity}
+              lowEquityPages={report.lowEquitySitemapPages ?? []}
+            />
+          )}
         </div>
       )}
     </div>
@@ -624,6 +774,29 @@ function BrokenLinksSection({ links }: { links: ReportData['brokenLinks'] }) {
   );
 }
 
+const CONTENT_QUALITY_COLUMNS: ColumnDef<CrawlPage>[] = [
+  {
+    header: 'Words',
+    cell: (row) =>
+      row.contentQuality ? (
+        <Badge variant="outline">{row.contentQuality.wordCount}</Badge>
+      ) : (
+        <span className="text-muted-foreground">&mdash;</span>
+      ),
+    className: 'text-center w-24',
+  },
+  {
+    header: 'Text Ratio',
+    cell: (row) =>
+      row.contentQuality ? (
+        <span className="text-sm">{(row.contentQuality.textRatio * 100).toFixed(1)}%</span>
+      ) : (
+        <span className="text-muted-foreground">&mdash;</span>
+      ),
+    className: 'text-center w-24',
+  },
+];
+
 function EmptyPagesSection({ pages }: { pages: ReportData['emptyPages'] }) {
   if (pages.length === 0) {
     return (
@@ -669,10 +842,11 @@ function EmptyPagesSection({ pages }: { pages: ReportData['emptyPages'] }) {
       className: 'text-center w-24',
     },
     {
-      header: 'Content Length',
-      cell: (row) => <Badge variant="outline">{row.contentLength || 0} bytes</Badge>,
+      header: 'Size',
+      cell: (row) => <Badge variant="outline">{formatPageSize(row)}</Badge>,
       className: 'text-center w-32',
     },
+    ...CONTENT_QUALITY_COLUMNS,
   ];
 
   return (
@@ -687,7 +861,9 @@ function EmptyPagesSection({ pages }: { pages: ReportData['emptyPages'] }) {
             </Badge>
           )}
         </CardTitle>
-        <CardDescription>Pages with minimal or no content (low content length)</CardDescription>
+        <CardDescription>
+          Pages with almost no words outside navigation, headers and footers
+        </CardDescription>
       </CardHeader>
       <CardContent>
         <DataTable
@@ -701,6 +877,2436 @@ function EmptyPagesSection({ pages }: { pages: ReportData['emptyPages'] }) {
   );
 }
 
+function ThinPagesSection({ pages }: { pages: CrawlPage[] }) {
+  const columns: ColumnDef<CrawlPage>[] = [
+    {
+      header: '#',
+      cell: (_, index) => <span className="text-muted-foreground">{index + 1}</span>,
+      className: 'w-12',
+    },
+    {
+      header: 'URL',
+      cell: (row) => (
+        <a
+          href={row.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-2 text-blue-600 hover:underline font-mono text-sm"
+        >
+          <span className="truncate max-w-md">{row.url}</span>
+          <ExternalLink className="w-3 h-3 flex-shrink-0" />
+        </a>
+      ),
+    },
+    {
+      header: 'Main Content',
+      cell: (row) => (
+        <Badge variant="outline">{row.contentQuality?.mainContentLength ?? 0} characters</Badge>
+      ),
+      className: 'text-center w-36',
+    },
+    ...CONTENT_QUALITY_COLUMNS,
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {pages.length > 0 ? (
+            <AlertTriangle className="w-5 h-5 text-yellow-500" />
+          ) : (
+            <CheckCircle2 className="w-5 h-5 text-green-500" />
+          )}
+          Thin Pages
+          {pages.length > 0 && (
+            <Badge variant="secondary" className="ml-2">
+              {pages.length}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Pages with some content, but fewer main content words than the crawl&apos;s thin threshold
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {pages.length === 0 ? (
+          <p className="py-6 text-center text-muted-foreground">No thin pages found.</p>
+        ) : (
+          <DataTable
+            columns={columns}
+            data={pages}
+            searchPlaceholder="Search thin pages..."
+            emptyMessage="No thin pages found"
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ClickDepthSection({
+  clickDepth,
+  pages,
+}: {
+  clickDepth: NonNullable<ReportData['clickDepth']>;
+  pages: NonNullable<ReportData['deepPages']>;
+}) {
+  const { threshold, distribution, unreachableCount } = clickDepth;
+
+  const chartData = distribution.map((bucket) => ({
+    name: String(bucket.depth),
+    value: bucket.count,
+    fill: bucket.depth > threshold ? '#f97316' : '#3b82f6',
+  }));
+
+  const columns: ColumnDef<NonNullable<ReportData['deepPages']>[0]>[] = [
+    {
+      header: '#',
+      cell: (_, index) => <span className="text-muted-foreground">{index + 1}</span>,
+      className: 'w-12',
+    },
+    {
+      header: 'URL',
+      cell: (row) => (
+        <a
+          href={row.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-2 text-blue-600 hover:underline font-mono text-sm"
+        >
+          <span className="truncate max-w-md">{row.url}</span>
+          <ExternalLink className="w-3 h-3 flex-shrink-0" />
+        </a>
+      ),
+    },
+    {
+      header: 'Click Depth',
+      cell: (row) => <Badge variant="secondary">{row.depth}</Badge>,
+      className: 'text-center w-28',
+    },
+    {
+      header: 'In Sitemap',
+      cell: (row) =>
+        row.inSitemap ? (
+          <Badge variant="secondary">Yes</Badge>
+        ) : (
+          <Badge variant="outline">No</Badge>
+        ),
+      className: 'text-center w-28',
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {pages.length > 0 ? (
+            <Layers className="w-5 h-5 text-orange-500" />
+          ) : (
+            <CheckCircle2 className="w-5 h-5 text-green-500" />
+          )}
+          Click Depth
+          {pages.length > 0 && (
+            <Badge variant="secondary" className="ml-2">
+              {pages.length} deeper than {threshold} clicks
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Number of link hops from the start URL to each page
+          {unreachableCount > 0 &&
+            ` (${unreachableCount} ${unreachableCount === 1 ? 'page is' : 'pages are'} not reachable through internal links)`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <ResponsiveContainer width="100%" height={250}>
+          <BarChart data={chartData}>
+            <XAxis
+              dataKey="name"
+              label={{ value: 'Clicks from start URL', position: 'insideBottom', offset: -5 }}
+            />
+            <YAxis allowDecimals={false} />
+            <RechartsTooltip />
+            <Bar dataKey="value" name="Pages" radius={[4, 4, 0, 0]}>
+              {chartData.map((entry, index) => (
+                <Cell key={`cell-${index}`} fill={entry.fill} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+        {pages.length > 0 ? (
+          <DataTable
+            columns={columns}
+            data={pages}
+            searchPlaceholder="Search deep pages..."
+            emptyMessage="No deep pages found"
+          />
+        ) : (
+          <p className="text-center text-muted-foreground">
+            All reachable pages are within {threshold} clicks of the start URL.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+type RedirectRow = NonNullable<ReportData['redirectChains']>[0];
+
+function RedirectChain({ chain }: { chain: RedirectRow['chain'] }) {
+  return (
+    <div className="space-y-1 font-mono text-xs">
+      {chain.map((hop, index) => (
+        <div
+          key={`${hop.url}-${index}`}
+          className="flex items-center gap-2"
+          style={{ paddingLeft: `${index * 12}px` }}
+        >
+          {index > 0 && <CornerDownRight className="w-3 h-3 flex-shrink-0 text-muted-foreground" />}
+          {hop.status !== undefined && (
+            <Badge variant={hop.status >= 400 ? 'destructive' : 'outline'}>
+              {hop.status === 0 ? '3xx' : hop.status}
+            </Badge>
+          )}
+          <span className="truncate max-w-md">{hop.url}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function RedirectsSection({ report }: { report: ReportData }) {
+  const groups: { title: string; description: string; rows: RedirectRow[] }[] = [
+    {
+      title: 'Redirect Chains',
+      description: 'Pages reached through more than one redirect',
+      rows: report.redirectChains ?? [],
+    },
+    {
+      title: 'Redirect Loops',
+      description: 'Redirects that lead back to a URL already in the chain',
+      rows: report.redirectLoops ?? [],
+    },
+    {
+      title: 'Links to Redirects',
+      description: 'Internal links that should point directly at the final URL',
+      rows: report.redirectedLinks ?? [],
+    },
+  ];
+  const issueCount = groups.reduce((total, group) => total + group.rows.length, 0);
+
+  const columns: ColumnDef<RedirectRow>[] = [
+    {
+      header: '#',
+      cell: (_, index) => <span className="text-muted-foreground">{index + 1}</span>,
+      className: 'w-12',
+    },
+    {
+      header: 'Redirect Chain',
+      cell: (row) => <RedirectChain chain={row.chain} />,
+    },
+    {
+      header: 'Referenced From',
+      cell: (row) => <Badge variant="outline">{row.referencedFrom.length}</Badge>,
+      className: 'text-center w-32',
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {issueCount > 0 ? (
+            <AlertTriangle className="w-5 h-5 text-orange-500" />
+          ) : (
+            <CheckCircle2 className="w-5 h-5 text-green-500" />
+          )}
+          Redirects
+          {issueCount > 0 && (
+            <Badge variant="secondary" className="ml-2">
+              {issueCount}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Redirect chains, loops and internal links to redirecting URLs. Browsers only expose the
+          first and final URL of a redirect, so full chains come from headless crawls.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {issueCount === 0 ? (
+          <p className="py-6 text-center text-muted-foreground">No redirect issues found.</p>
+        ) : (
+          groups
+            .filter((group) => group.rows.length > 0)
+            .map((group) => (
+              <div key={group.title} className="space-y-2">
+                <div>
+                  <h3 className="font-medium">
+                    {group.title} <Badge variant="outline">{group.rows.length}</Badge>
+                  </h3>
+                  <p className="text-sm text-muted-foreground">{group.description}</p>
+                </div>
+                <DataTable
+                  columns={columns}
+                  data={group.rows}
+                  searchPlaceholder={`Search ${group.title.toLowerCase()}...`}
+                  emptyMessage="No redirects found"
+                />
+              </div>
+            ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function CanonicalSection({ issues }: { issues: CanonicalIssue[] }) {
+  if (issues.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CheckCircle2 className="w-5 h-5 text-green-500" />
+            Canonical Tags
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="py-12 text-center">
+          <CheckCircle2 className="w-12 h-12 text-green-500 mx-auto mb-4" />
+          <p className="text-lg font-medium">No canonical issues found!</p>
+          <p className="text-muted-foreground">Every page declares a valid canonical URL.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const counts = issues.reduce<Partial<Record<CanonicalIssueType, number>>>(
+    (acc, issue) => ({ ...acc, [issue.type]: (acc[issue.type] ?? 0) + 1 }),
+    {}
+  );
+
+  const columns: ColumnDef<CanonicalIssue>[] = [
+    {
+      header: '#',
+      cell: (_, index) => <span className="text-muted-foreground">{index + 1}</span>,
+      className: 'w-12',
+    },
+    {
+      header: 'URL',
+      cell: (row) => (
+        <a
+          href={row.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-2 text-blue-600 hover:underline font-mono text-sm"
+        >
+          <span className="truncate max-w-md">{row.url}</span>
+          <ExternalLink className="w-3 h-3 flex-shrink-0" />
+        </a>
+      ),
+    },
+    {
+      header: 'Issue',
+      cell: (row) => (
+        <Badge variant={row.type === 'target-error' ? 'destructive' : 'secondary'}>
+          {CANONICAL_ISSUE_LABELS[row.type]}
+        </Badge>
+      ),
+      className: 'w-56',
+    },
+    {
+      header: 'Canonical',
+      cell: (row) =>
+        row.canonical ? (
+          <div className="space-y-1 font-mono text-xs">
+            <div className="flex items-center gap-2">
+              {row.targetStatus !== undefined && (
+                <Badge variant="outline">{row.targetStatus}</Badge>
+              )}
+              <span className="truncate max-w-sm">{row.canonical}</span>
+            </div>
+            {row.chainedTo && (
+              <div className="flex items-center gap-2 pl-3 text-muted-foreground">
+                <CornerDownRight className="w-3 h-3 flex-shrink-0" />
+                <span className="truncate max-w-sm">{row.chainedTo}</span>
+              </div>
+            )}
+          </div>
+        ) : (
+          <span className="text-muted-foreground">-</span>
+        ),
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="w-5 h-5 text-orange-500" />
+          Canonical Tags
+          <Badge variant="secondary" className="ml-2">
+            {issues.length}
+          </Badge>
+        </CardTitle>
+        <CardDescription>
+          Missing, broken, chained or conflicting rel=&quot;canonical&quot; declarations
+        </CardDescription>
+        <div className="flex flex-wrap gap-2 pt-2">
+          {(Object.keys(counts) as CanonicalIssueType[]).map((type) => (
+            <Badge key={type} variant="outline">
+              {CANONICAL_ISSUE_LABELS[type]}: {counts[type]}
+            </Badge>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <DataTable
+          columns={columns}
+          data={issues}
+          searchPlaceholder="Search canonical issues..."
+          emptyMessage="No canonical issues found"
+        />
+      </CardContent>
+    </Card>
+  );
+}
+
+const EXTERNAL_LINK_STATE_VARIANTS: Record<
+  ExternalLinkState,
+  'destructive' | 'secondary' | 'outline'
+> = {
+  broken: 'destructive',
+  unreachable: 'destructive',
+  reachable: 'secondary',
+  ok: 'outline',
+};
+
+const MAX_LISTED_REFERRERS = 3;
+
+function ExternalLinksSection({ links }: { links: ExternalLinkResult[] }) {
+  const counts = links.reduce<Partial<Record<ExternalLinkState, number>>>(
+    (acc, link) => ({ ...acc, [link.state]: (acc[link.state] ?? 0) + 1 }),
+    {}
+  );
+  const problemCount = (counts.broken ?? 0) + (counts.unreachable ?? 0);
+
+  const columns: ColumnDef<ExternalLinkResult>[] = [
+    {
+      header: '#',
+      cell: (_, index) => <span className="text-muted-foreground">{index + 1}</span>,
+      className: 'w-12',
+    },
+    {
+      header: 'URL',
+      cell: (row) => (
+        <a
+          href={row.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-2 text-blue-600 hover:underline font-mono text-sm"
+        >
+          <span className="truncate max-w-md">{row.url}</span>
+          <ExternalLink className="w-3 h-3 flex-shrink-0" />
+        </a>
+      ),
+    },
+    {
+      header: 'Status',
+      cell: (row) => (
+        <div className="space-y-1">
+          <Badge variant={EXTERNAL_LINK_STATE_VARIANTS[row.state]}>
+            {row.status || EXTERNAL_LINK_STATE_LABELS[row.state]}
+          </Badge>
+          {row.error && <p className="text-xs text-muted-foreground">{row.error}</p>}
+        </div>
+      ),
+      className: 'w-48',
+    },
+    {
+      header: 'Referenced From',
+      cell: (row) => (
+        <div className="space-y-1 font-mono text-xs">
+          {row.referencedFrom.slice(0, MAX_LISTED_REFERRERS).map((referrer) => (
+            <p key={referrer} className="truncate max-w-xs">
+              {referrer}
+            </p>
+          ))}
+          {row.referencedFrom.length > MAX_LISTED_REFERRERS && (
+            <p className="text-muted-foreground">
+              +{row.referencedFrom.length - MAX_LISTED_REFERRERS} more
+            </p>
+          )}
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {problemCount > 0 ? (
+            <XCircle className="w-5 h-5 text-red-500" />
+          ) : (
+            <Globe className="w-5 h-5 text-green-500" />
+          )}
+          External Links
+          <Badge variant={problemCount > 0 ? 'destructive' : 'secondary'} className="ml-2">
+            {problemCount > 0 ? problemCount : links.length}
+          </Badge>
+        </CardTitle>
+        <CardDescription>
+          Every unique external URL, checked with HEAD and a GET fallback. When the site blocks
+          cross-origin requests the status cannot be read, only whether the server answered.
+        </CardDescription>
+        <div className="flex flex-wrap gap-2 pt-2">
+          {(Object.keys(counts) as ExternalLinkState[]).map((state) => (
+            <Badge key={state} variant="outline">
+              {EXTERNAL_LINK_STATE_LABELS[state]}: {counts[state]}
+            </Badge>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <DataTable
+          columns={columns}
+          data={links}
+          searchPlaceholder="Search external links..."
+          emptyMessage="No external links found"
+        />
+      </CardContent>
+    </Card>
+  );
+}
+
+function BrokenResourcesSection({ resources }: { resources: BrokenResource[] }) {
+  const groups = (Object.keys(RESOURCE_TYPE_LABELS) as ResourceType[])
+    .map((type) => ({ type, rows: resources.filter((resource) => resource.type === type) }))
+    .filter((group) => group.rows.length > 0);
+
+  const columns: ColumnDef<BrokenResource>[] = [
+    {
+      header: '#',
+      cell: (_, index) => <span className="text-muted-foreground">{index + 1}</span>,
+      className: 'w-12',
+    },
+    {
+      header: 'URL',
+      cell: (row) => (
+        <a
+          href={row.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-2 text-blue-600 hover:underline font-mono text-sm"
+        >
+          <span className="truncate max-w-md">{row.url}</span>
+          <ExternalLink className="w-3 h-3 flex-shrink-0" />
+        </a>
+      ),
+    },
+    {
+      header: 'Status',
+      cell: (row) => (
+        <div className="space-y-1">
+          <Badge variant="destructive">{row.status || 'Error'}</Badge>
+          {row.error && <p className="text-xs text-muted-foreground">{row.error}</p>}
+        </div>
+      ),
+      className: 'w-48',
+    },
+    {
+      header: 'Embedded In',
+      cell: (row) => (
+        <div className="space-y-1 font-mono text-xs">
+          {row.embeddedIn.slice(0, MAX_LISTED_REFERRERS).map((page) => (
+            <p key={page} className="truncate max-w-xs">
+              {page}
+            </p>
+          ))}
+          {row.embeddedIn.length > MAX_LISTED_REFERRERS && (
+            <p className="text-muted-foreground">
+              +{row.embeddedIn.length - MAX_LISTED_REFERRERS} more
+            </p>
+          )}
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {resources.length > 0 ? (
+            <XCircle className="w-5 h-5 text-red-500" />
+          ) : (
+            <FileImage className="w-5 h-5 text-green-500" />
+          )}
+          Broken Resources
+          {resources.length > 0 && (
+            <Badge variant="destructive" className="ml-2">
+              {resources.length}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Internal images, scripts, stylesheets and iframes that return an error or could not be
+          loaded, with the pages embedding them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {groups.length === 0 ? (
+          <p className="py-6 text-center text-muted-foreground">No broken resources found.</p>
+        ) : (
+          groups.map((group) => (
+            <div key={group.type} className="space-y-2">
+              <h3 className="font-medium">
+                {RESOURCE_TYPE_LABELS[group.type]}s{' '}
+                <Badge variant="outline">{group.rows.length}</Badge>
+              </h3>
+              <DataTable
+                columns={columns}
+                data={group.rows}
+                searchPlaceholder={`Search ${RESOURCE_TYPE_LABELS[group.type].toLowerCase()}s...`}
+                emptyMessage="No broken resources found"
+              />
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const LINK_ISSUE_DESCRIPTIONS: Record<LinkIssueType, string> = {
+  'empty-anchor': 'Links without text or image alt text, so nothing describes the target',
+  'generic-anchor': 'Links such as "click here" or "read more" that say nothing about the target',
+  'internal-nofollow':
+    'Internal links marked rel="nofollow", which keep search engines from following them',
+};
+
+function LinkAuditSection({ report }: { report: ReportData }) {
+  const issues = report.linkIssues ?? [];
+  const navigationOnlyPages = report.navigationOnlyPages ?? [];
+  const groups = (Object.keys(LINK_ISSUE_LABELS) as LinkIssueType[])
+    .map((type) => ({ type, rows: issues.filter((issue) => issue.type === type) }))
+    .filter((group) => group.rows.length > 0);
+  const issueCount = issues.length + navigationOnlyPages.length;
+
+  const issueColumns: ColumnDef<LinkIssue>[] = [
+    {
+      header: '#',
+      cell: (_, index) => <span className="text-muted-foreground">{index + 1}</span>,
+      className: 'w-12',
+    },
+    {
+      header: 'Page',
+      cell: (row) => <span className="truncate max-w-xs block font-mono text-xs">{row.url}</span>,
+    },
+    {
+      header: 'Anchor Text',
+      cell: (row) =>
+        row.text ? (
+          <span className="text-sm">&ldquo;{row.text}&rdquo;</span>
+        ) : (
+          <span className="text-muted-foreground italic text-sm">empty</span>
+        ),
+      className: 'w-48',
+    },
+    {
+      header: 'Target',
+      cell: (row) => (
+        <span className="truncate max-w-xs block font-mono text-xs">{row.target}</span>
+      ),
+    },
+  ];
+
+  const navigationColumns: ColumnDef<NavigationOnlyPage>[] = [
+    {
+      header: '#',
+      cell: (_, index) => <span className="text-muted-foreground">{index + 1}</span>,
+      className: 'w-12',
+    },
+    {
+      header: 'URL',
+      cell: (row) => (
+        <a
+          href={row.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-2 text-blue-600 hover:underline font-mono text-sm"
+        >
+          <span className="truncate max-w-md">{row.url}</span>
+          <ExternalLink className="w-3 h-3 flex-shrink-0" />
+        </a>
+      ),
+    },
+    {
+      header: 'Linked From',
+      cell: (row) => (
+        <div className="flex flex-wrap gap-1">
+          {row.positions.map((position) => (
+            <Badge key={position} variant="outline">
+              {LINK_POSITION_LABELS[position]}
+            </Badge>
+          ))}
+        </div>
+      ),
+      className: 'w-48',
+    },
+    {
+      header: 'Referred By',
+      cell: (row) => <Badge variant="outline">{row.referredBy.length}</Badge>,
+      className: 'text-center w-32',
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {issueCount > 0 ? (
+            <AlertTriangle className="w-5 h-5 text-orange-500" />
+          ) : (
+            <Anchor className="w-5 h-5 text-green-500" />
+          )}
+          Internal Links
+          {issueCount > 0 && (
+            <Badge variant="secondary" className="ml-2">
+              {issueCount}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Anchor text and rel attributes of internal links, and pages that body content never links
+          to
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {issueCount === 0 ? (
+          <p className="py-6 text-center text-muted-foreground">No internal link issues found.</p>
+        ) : (
+          <>
+            {groups.map((group) => (
+              <div key={group.type} className="space-y-2">
+                <div>
+                  <h3 className="font-medium">
+                    {LINK_ISSUE_LABELS[group.type]}{' '}
+                    <Badge variant="outline">{group.rows.length}</Badge>
+                  </h3>
+                  <p className="text-sm text-muted-foreground">
+                    {LINK_ISSUE_DESCRIPTIONS[group.type]}
+                  </p>
+                </div>
+                <DataTable
+                  columns={issueColumns}
+                  data={group.rows}
+                  searchPlaceholder="Search links..."
+                  emptyMessage="No links found"
+                />
+              </div>
+            ))}
+            {navigationOnlyPages.length > 0 && (
+              <div className="space-y-2">
+                <div>
+                  <h3 className="font-medium">
+                    Linked Only From Navigation or Footer{' '}
+                    <Badge variant="outline">{navigationOnlyPages.length}</Badge>
+                  </h3>
+                  <p className="text-sm text-muted-foreground">
+                    Pages no body content links to, which weakens their relevance signals
+                  </p>
+                </div>
+                <DataTable
+                  columns={navigationColumns}
+                  data={navigationOnlyPages}
+                  searchPlaceholder="Search pages..."
+                  emptyMessage="No pages found"
+                />
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const getPath = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.pathname}${parsed.search}`;
+  } catch {
+    return url;
+  }
+};
+
+function HreflangMatrix({ cluster }: { cluster: HreflangCluster }) {
+  return (
+    <div className="overflow-x-auto rounded-md border">
+      <table className="w-full text-xs">
+        <thead className="bg-muted/50">
+          <tr>
+            <th className="px-3 py-2 text-left font-medium">Page</th>
+            {cluster.languages.map((language) => (
+              <th key={language} className="px-3 py-2 text-center font-medium font-mono">
+                {language}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {cluster.pages.map((page) => (
+            <tr key={page.url} className="border-t">
+              <td className="px-3 py-2 font-mono max-w-xs truncate" title={page.url}>
+                {getPath(page.url)}
+              </td>
+              {cluster.languages.map((language) => {
+                const cell = page.alternates[language];
+                return (
+                  <td key={language} className="px-3 py-2 text-center">
+                    {!cell ? (
+                      <span className="text-muted-foreground">-</span>
+                    ) : cell.issue ? (
+                      <Badge
+                        variant={cell.issue === 'non-200-target' ? 'destructive' : 'secondary'}
+                        title={cell.url}
+                      >
+                        {HREFLANG_ISSUE_LABELS[cell.issue]}
+                      </Badge>
+                    ) : (
+                      <span
+                        className="inline-flex items-center gap-1 font-mono"
+                        title={cell.status === undefined ? `${cell.url} (not crawled)` : cell.url}
+                      >
+                        {cell.status === undefined ? (
+                          <Clock className="w-3 h-3 text-muted-foreground" />
+                        ) : (
+                          <CheckCircle2 className="w-3 h-3 text-green-500" />
+                        )}
+                        {getPath(cell.url)}
+                      </span>
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function HreflangSection({
+  issues,
+  clusters,
+}: {
+  issues: HreflangIssue[];
+  clusters: HreflangCluster[];
+}) {
+  const counts = issues.reduce<Partial<Record<HreflangIssueType, number>>>(
+    (acc, issue) => ({ ...acc, [issue.type]: (acc[issue.type] ?? 0) + 1 }),
+    {}
+  );
+
+  const columns: ColumnDef<HreflangIssue>[] = [
+    {
+      header: '#',
+      cell: (_, index) => <span className="text-muted-foreground">{index + 1}</span>,
+      className: 'w-12',
+    },
+    {
+      header: 'URL',
+      cell: (row) => (
+        <a
+          href={row.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-2 text-blue-600 hover:underline font-mono text-sm"
+        >
+          <span className="truncate max-w-md">{row.url}</span>
+          <ExternalLink className="w-3 h-3 flex-shrink-0" />
+        </a>
+      ),
+    },
+    {
+      header: 'Issue',
+      cell: (row) => (
+        <Badge variant={row.type === 'non-200-target' ? 'destructive' : 'secondary'}>
+          {HREFLANG_ISSUE_LABELS[row.type]}
+        </Badge>
+      ),
+      className: 'w-56',
+    },
+    {
+      header: 'Alternate',
+      cell: (row) =>
+        row.target ? (
+          <div className="flex items-center gap-2 font-mono text-xs">
+            <Badge variant="outline">{row.hreflang}</Badge>
+            {row.targetStatus !== undefined && <Badge variant="outline">{row.targetStatus}</Badge>}
+            <span className="truncate max-w-sm">{row.target}</span>
+          </div>
+        ) : (
+          <span className="text-muted-foreground">-</span>
+        ),
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {issues.length > 0 ? (
+            <AlertTriangle className="w-5 h-5 text-orange-500" />
+          ) : (
+            <Languages className="w-5 h-5 text-green-500" />
+          )}
+          Hreflang
+          {issues.length > 0 && (
+            <Badge variant="secondary" className="ml-2">
+              {issues.length}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          rel=&quot;alternate&quot; hreflang annotations, grouped into clusters of pages that
+          reference each other
+        </CardDescription>
+        {issues.length > 0 && (
+          <div className="flex flex-wrap gap-2 pt-2">
+            {(Object.keys(counts) as HreflangIssueType[]).map((type) => (
+              <Badge key={type} variant="outline">
+                {HREFLANG_ISSUE_LABELS[type]}: {counts[type]}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {issues.length === 0 ? (
+          <p className="py-6 text-center text-muted-foreground">
+            Every hreflang annotation is valid and reciprocated.
+          </p>
+        ) : (
+          <DataTable
+            columns={columns}
+            data={issues}
+            searchPlaceholder="Search hreflang issues..."
+            emptyMessage="No hreflang issues found"
+          />
+        )}
+        {clusters.map((cluster, index) => (
+          <div key={cluster.pages[0].url} className="space-y-2">
+            <h3 className="font-medium">
+              Cluster {index + 1}{' '}
+              <Badge variant="outline">
+                {cluster.pages.length} pages, {cluster.languages.length} languages
+              </Badge>
+            </h3>
+            <HreflangMatrix cluster={cluster} />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function IndexabilitySection({
+  pages,
+  conflicts,
+}: {
+  pages: NonIndexablePage[];
+  conflicts: IndexabilityConflict[];
+}) {
+  const conflictColumns: ColumnDef<IndexabilityConflict>[] = [
+    {
+      header: '#',
+      cell: (_, index) => <span className="text-muted-foreground">{index + 1}</span>,
+      className: 'w-12',
+    },
+    {
+      header: 'URL',
+      cell: (row) => (
+        <a
+          href={row.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-2 text-blue-600 hover:underline font-mono text-sm"
+        >
+          <span className="truncate max-w-md">{row.url}</span>
+          <ExternalLink className="w-3 h-3 flex-shrink-0" />
+        </a>
+      ),
+    },
+    {
+      header: 'Conflict',
+      cell: (row) => (
+        <div className="flex items-center gap-2">
+          <Badge variant="secondary">{INDEXABILITY_CONFLICT_LABELS[row.type]}</Badge>
+          {row.incomingLinks !== undefined && (
+            <span className="text-xs text-muted-foreground">{row.incomingLinks} linking pages</span>
+          )}
+        </div>
+      ),
+      className: 'w-80',
+    },
+  ];
+
+  const pageColumns: ColumnDef<NonIndexablePage>[] = [
+    {
+      header: '#',
+      cell: (_, index) => <span className="text-muted-foreground">{index + 1}</span>,
+      className: 'w-12',
+    },
+    {
+      header: 'URL',
+      cell: (row) => (
+        <a
+          href={row.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-2 text-blue-600 hover:underline font-mono text-sm"
+        >
+          <span className="truncate max-w-md">{row.url}</span>
+          <ExternalLink className="w-3 h-3 flex-shrink-0" />
+        </a>
+      ),
+    },
+    {
+      header: 'Reasons',
+      cell: (row) => (
+        <div className="flex flex-wrap gap-1">
+          {row.reasons.map((reason) => (
+            <Badge key={reason} variant="outline">
+              {NON_INDEXABLE_REASON_LABELS[reason]}
+            </Badge>
+          ))}
+        </div>
+      ),
+      className: 'w-80',
+    },
+    {
+      header: 'In Sitemap',
+      cell: (row) =>
+        row.inSitemap ? (
+          <Badge variant="secondary">Yes</Badge>
+        ) : (
+          <span className="text-muted-foreground">No</span>
+        ),
+      className: 'text-center w-28',
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {conflicts.length > 0 ? (
+            <AlertTriangle className="w-5 h-5 text-orange-500" />
+          ) : (
+            <EyeOff className="w-5 h-5 text-muted-foreground" />
+          )}
+          Indexability
+          <Badge variant="secondary" className="ml-2">
+            {pages.length} non-indexable
+          </Badge>
+        </CardTitle>
+        <CardDescription>
+          Pages excluded from search results by their status, robots meta tags, X-Robots-Tag
+          headers, robots.txt or canonical
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {conflicts.length > 0 && (
+          <div className="space-y-2">
+            <div>
+              <h3 className="font-medium">
+                Conflicting Signals <Badge variant="outline">{conflicts.length}</Badge>
+              </h3>
+              <p className="text-sm text-muted-foreground">
+                Noindex pages that the sitemap, internal links or canonicals still promote
+              </p>
+            </div>
+            <DataTable
+              columns={conflictColumns}
+              data={conflicts}
+              searchPlaceholder="Search conflicts..."
+              emptyMessage="No conflicts found"
+            />
+          </div>
+        )}
+        {pages.length === 0 ? (
+          <p className="py-6 text-center text-muted-foreground">Every crawled page is indexable.</p>
+        ) : (
+          <DataTable
+            columns={pageColumns}
+            data={pages}
+            searchPlaceholder="Search non-indexable pages..."
+            emptyMessage="No non-indexable pages found"
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const STRUCTURED_DATA_SOURCE_LABELS: Record<StructuredDataPage['source'], string> = {
+  'json-ld': 'JSON-LD',
+  microdata: 'Microdata',
+};
+
+function StructuredDataSection({ groups }: { groups: StructuredDataTypeGroup[] }) {
+  const items = groups.flatMap((group) => group.pages);
+  const errorCount = items.reduce((count, item) => count + item.errors.length, 0);
+  const warningCount = items.reduce((count, item) => count + item.warnings.length, 0);
+
+  const columns: ColumnDef<StructuredDataPage>[] = [
+    {
+      header: '#',
+      cell: (_, index) => <span className="text-muted-foreground">{index + 1}</span>,
+      className: 'w-12',
+    },
+    {
+      header: 'URL',
+      cell: (row) => (
+        <a
+          href={row.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-2 text-blue-600 hover:underline font-mono text-sm"
+        >
+          <span className="truncate max-w-md">{row.url}</span>
+          <ExternalLink className="w-3 h-3 flex-shrink-0" />
+        </a>
+      ),
+    },
+    {
+      header: 'Source',
+      cell: (row) => <Badge variant="outline">{STRUCTURED_DATA_SOURCE_LABELS[row.source]}</Badge>,
+      className: 'w-28',
+    },
+    {
+      header: 'Errors & Warnings',
+      cell: (row) =>
+        row.errors.length === 0 && row.warnings.length === 0 ? (
+          <span className="flex items-center gap-1 text-sm text-green-600">
+            <CheckCircle2 className="w-4 h-4" />
+            Valid
+          </span>
+        ) : (
+          <ul className="space-y-1 text-xs">
+            {row.errors.map((error) => (
+              <li key={error} className="flex items-start gap-1 text-red-600">
+                <XCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                {error}
+              </li>
+            ))}
+            {row.warnings.map((warning) => (
+              <li key={warning} className="flex items-start gap-1 text-orange-600">
+                <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                {warning}
+              </li>
+            ))}
+          </ul>
+        ),
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {errorCount > 0 ? (
+            <AlertTriangle className="w-5 h-5 text-orange-500" />
+          ) : (
+            <Braces className="w-5 h-5 text-green-500" />
+          )}
+          Structured Data
+          {items.length > 0 && (
+            <Badge variant="secondary" className="ml-2">
+              {items.length}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          JSON-LD and microdata items by schema.org type, checked for the properties rich results
+          require
+        </CardDescription>
+        {items.length > 0 && (
+          <div className="flex flex-wrap gap-2 pt-2">
+            <Badge variant={errorCount > 0 ? 'destructive' : 'outline'}>Errors: {errorCount}</Badge>
+            <Badge variant="outline">Warnings: {warningCount}</Badge>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {groups.length === 0 ? (
+          <p className="py-6 text-center text-muted-foreground">
+            No structured data found on the crawled pages.
+          </p>
+        ) : (
+          groups.map((group) => (
+            <div key={group.type ?? ''} className="space-y-2">
+              <h3 className="font-medium">
+                {group.type ?? 'Unreadable JSON-LD'}{' '}
+                <Badge variant="outline">{group.pages.length}</Badge>
+              </h3>
+              <DataTable
+                columns={columns}
+                data={group.pages}
+                searchPlaceholder="Search pages..."
+                emptyMessage="No pages found"
+              />
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const getOnPageIssueDetail = (issue: OnPageIssue): string => {
+  switch (issue.type) {
+    case 'multiple-h1':
+      return `${issue.count} H1 headings`;
+    case 'skipped-heading-level':
+      return `H${issue.fromLevel} followed by H${issue.toLevel}${issue.value ? `: ${issue.value}` : ''}`;
+    default:
+      return issue.value ? `${issue.value} (${issue.count} characters)` : '';
+  }
+};
+
+function OnPageSection({
+  issues,
+  duplicates,
+}: {
+  issues: OnPageIssue[];
+  duplicates: DuplicateContentGroup[];
+}) {
+  const issueGroups = (Object.keys(ON_PAGE_ISSUE_LABELS) as OnPageIssueType[])
+    .map((type) => ({ type, rows: issues.filter((issue) => issue.type === type) }))
+    .filter((group) => group.rows.length > 0);
+  const duplicateGroups = (Object.keys(DUPLICATE_CONTENT_FIELD_LABELS) as DuplicateContentField[])
+    .map((field) => ({ field, rows: duplicates.filter((group) => group.field === field) }))
+    .filter((group) => group.rows.length > 0);
+  const issueCount = issues.length + duplicates.length;
+
+  const issueColumns: ColumnDef<OnPageIssue>[] = [
+    {
+      header: '#',
+      cell: (_, index) => <span className="text-muted-foreground">{index + 1}</span>,
+      className: 'w-12',
+    },
+    {
+      header: 'URL',
+      cell: (row) => (
+        <a
+          href={row.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-2 text-blue-600 hover:underline font-mono text-sm"
+        >
+          <span className="truncate max-w-md">{row.url}</span>
+          <ExternalLink className="w-3 h-3 flex-shrink-0" />
+        </a>
+      ),
+    },
+    {
+      header: 'Details',
+      cell: (row) => <span className="text-sm">{getOnPageIssueDetail(row)}</span>,
+    },
+  ];
+
+  const duplicateColumns: ColumnDef<DuplicateContentGroup>[] = [
+    {
+      header: '#',
+      cell: (_, index) => <span className="text-muted-foreground">{index + 1}</span>,
+      className: 'w-12',
+    },
+    {
+      header: 'Value',
+      cell: (row) => <span className="text-sm">&ldquo;{row.value}&rdquo;</span>,
+    },
+    {
+      header: 'Pages',
+      cell: (row) => (
+        <ul className="space-y-1">
+          {row.urls.map((url) => (
+            <li key={url} className="truncate max-w-md font-mono text-xs">
+              {url}
+            </li>
+          ))}
+        </ul>
+      ),
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {issueCount > 0 ? (
+            <AlertTriangle className="w-5 h-5 text-orange-500" />
+          ) : (
+            <Heading className="w-5 h-5 text-green-500" />
+          )}
+          Titles, Descriptions & Headings
+          {issueCount > 0 && (
+            <Badge variant="secondary" className="ml-2">
+              {issueCount}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Missing or badly sized titles and meta descriptions, H1 and heading level issues, and
+          values repeated across pages
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {issueCount === 0 ? (
+          <p className="py-6 text-center text-muted-foreground">No on-page issues found.</p>
+        ) : (
+          <>
+            {issueGroups.map((group) => (
+              <div key={group.type} className="space-y-2">
+                <h3 className="font-medium">
+                  {ON_PAGE_ISSUE_LABELS[group.type]}{' '}
+                  <Badge variant="outline">{group.rows.length}</Badge>
+                </h3>
+                <DataTable
+                  columns={issueColumns}
+                  data={group.rows}
+                  searchPlaceholder="Search pages..."
+                  emptyMessage="No pages found"
+                />
+              </div>
+            ))}
+            {duplicateGroups.map((group) => (
+              <div key={group.field} className="space-y-2">
+                <h3 className="font-medium">
+                  {DUPLICATE_CONTENT_FIELD_LABELS[group.field]}{' '}
+                  <Badge variant="outline">{group.rows.length}</Badge>
+                </h3>
+                <DataTable
+                  columns={duplicateColumns}
+                  data={group.rows}
+                  searchPlaceholder="Search values..."
+                  emptyMessage="No duplicates found"
+                />
+              </div>
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const formatSimilarity = (similarity: number): string => `${Math.round(similarity * 100)}%`;
+
+function NearDuplicatesSection({ clusters }: { clusters: NearDuplicateCluster[] }) {
+  const pageCount = clusters.reduce((count, cluster) => count + cluster.pages.length, 0);
+
+  const columns: ColumnDef<NearDuplicatePage>[] = [
+    {
+      header: '#',
+      cell: (_, index) => <span className="text-muted-foreground">{index + 1}</span>,
+      className: 'w-12',
+    },
+    {
+      header: 'URL',
+      cell: (row) => (
+        <a
+          href={row.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-2 text-blue-600 hover:underline font-mono text-sm"
+        >
+          <span className="truncate max-w-md">{row.url}</span>
+          <ExternalLink className="w-3 h-3 flex-shrink-0" />
+        </a>
+      ),
+    },
+    {
+      header: 'Similarity',
+      cell: (row) => <Badge variant="outline">{formatSimilarity(row.similarity)}</Badge>,
+      className: 'text-center w-32',
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {clusters.length > 0 ? (
+            <AlertTriangle className="w-5 h-5 text-orange-500" />
+          ) : (
+            <Copy className="w-5 h-5 text-green-500" />
+          )}
+          Duplicate Content
+          {clusters.length > 0 && (
+            <Badge variant="secondary" className="ml-2">
+              {pageCount}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Pages whose main content, outside navigation and footers, is identical or nearly so.
+          Similarity is measured against the first page of each cluster.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {clusters.length === 0 ? (
+          <p className="py-6 text-center text-muted-foreground">No duplicate content found.</p>
+        ) : (
+          clusters.map((cluster, index) => (
+            <div key={cluster.pages[0].url} className="space-y-2">
+              <h3 className="font-medium">
+                Cluster {index + 1}{' '}
+                <Badge variant={cluster.exact ? 'destructive' : 'outline'}>
+                  {cluster.exact
+                    ? 'Exact duplicates'
+                    : `${formatSimilarity(cluster.similarity)}+ similar`}
+                </Badge>
+              </h3>
+              <DataTable
+                columns={columns}
+                data={cluster.pages}
+                searchPlaceholder="Search pages..."
+                emptyMessage="No pages found"
+              />
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface ImagePageRow {
+  url: string;
+  issues: ImageIssue[];
+}
+
+interface ImageRow {
+  image: string;
+  types: ImageIssueType[];
+  pages: string[];
+  alts: InconsistentImageAlt['variants'];
+}
+
+const getImageName = (url: string): string => {
+  try {
+    const { pathname } = new URL(url);
+    return decodeURIComponent(pathname.split('/').filter(Boolean).pop() ?? url);
+  } catch {
+    return url;
+  }
+};
+
+function ImagesSection({
+  issues,
+  inconsistentAlts,
+}: {
+  issues: ImageIssue[];
+  inconsistentAlts: InconsistentImageAlt[];
+}) {
+  const pageRows = new Map<string, ImagePageRow>();
+  const imageRows = new Map<string, ImageRow>();
+  const getImageRow = (image: string): ImageRow => {
+    if (!imageRows.has(image)) {
+      imageRows.set(image, { image, types: [], pages: [], alts: [] });
+    }
+    return imageRows.get(image)!;
+  };
+
+  issues.forEach((issue) => {
+    if (!pageRows.has(issue.url)) {
+      pageRows.set(issue.url, { url: issue.url, issues: [] });
+    }
+    pageRows.get(issue.url)!.issues.push(issue);
+
+    const row = getImageRow(issue.image);
+    if (!row.types.includes(issue.type)) {
+      row.types.push(issue.type);
+    }
+    if (!row.pages.includes(issue.url)) {
+      row.pages.push(issue.url);
+    }
+  });
+  inconsistentAlts.forEach((group) => {
+    getImageRow(group.image).alts = group.variants;
+  });
+
+  const issueCount = issues.length + inconsistentAlts.length;
+  const typeCounts = (Object.keys(IMAGE_ISSUE_LABELS) as ImageIssueType[])
+    .map((type) => ({ type, count: issues.filter((issue) => issue.type === type).length }))
+    .filter((group) => group.count > 0);
+
+  const pageColumns: ColumnDef<ImagePageRow>[] = [
+    {
+      header: '#',
+      cell: (_, index) => <span className="text-muted-foreground">{index + 1}</span>,
+      className: 'w-12',
+    },
+    {
+      header: 'Page',
+      cell: (row) => (
+        <a
+          href={row.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-2 text-blue-600 hover:underline font-mono text-sm"
+        >
+          <span className="truncate max-w-md">{row.url}</span>
+          <ExternalLink className="w-3 h-3 flex-shrink-0" />
+        </a>
+      ),
+    },
+    {
+      header: 'Issues',
+      cell: (row) => (
+        <ul className="space-y-1">
+          {row.issues.map((issue) => (
+            <li key={`${issue.type} ${issue.image}`} className="text-sm">
+              <span className="font-mono text-xs" title={issue.image}>
+                {getImageName(issue.image)}
+              </span>
+              : {IMAGE_ISSUE_LABELS[issue.type]}
+              {issue.alt && (
+                <span className="text-muted-foreground"> (&ldquo;{issue.alt}&rdquo;)</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      ),
+    },
+  ];
+
+  const imageColumns: ColumnDef<ImageRow>[] = [
+    {
+      header: '#',
+      cell: (_, index) => <span className="text-muted-foreground">{index + 1}</span>,
+      className: 'w-12',
+    },
+    {
+      header: 'Image',
+      cell: (row) => (
+        <a
+          href={row.image}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-2 text-blue-600 hover:underline font-mono text-sm"
+        >
+          <span className="truncate max-w-md">{row.image}</span>
+          <ExternalLink className="w-3 h-3 flex-shrink-0" />
+        </a>
+      ),
+    },
+    {
+      header: 'Issues',
+      cell: (row) => (
+        <div className="flex flex-wrap gap-1">
+          {row.types.map((type) => (
+            <Badge key={type} variant="outline">
+              {IMAGE_ISSUE_LABELS[type]}
+            </Badge>
+          ))}
+          {row.alts.length > 0 && <Badge variant="outline">Inconsistent alt text</Badge>}
+        </div>
+      ),
+    },
+    {
+      header: 'Alt Texts',
+      cell: (row) =>
+        row.alts.length > 0 ? (
+          <ul className="space-y-1">
+            {row.alts.map((variant) => (
+              <li key={variant.alt} className="text-sm">
+                &ldquo;{variant.alt}&rdquo;{' '}
+                <span className="text-muted-foreground">
+                  ({variant.pages.length} {variant.pages.length === 1 ? 'page' : 'pages'})
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <span className="text-muted-foreground">-</span>
+        ),
+    },
+    {
+      header: 'Pages',
+      cell: (row) => (
+        <Badge variant="outline">
+          {new Set([...row.pages, ...row.alts.flatMap((variant) => variant.pages)]).size}
+        </Badge>
+      ),
+      className: 'text-center w-24',
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {issueCount > 0 ? (
+            <AlertTriangle className="w-5 h-5 text-orange-500" />
+          ) : (
+            <ImageIcon className="w-5 h-5 text-green-500" />
+          )}
+          Images
+          {issueCount > 0 && (
+            <Badge variant="secondary" className="ml-2">
+              {issueCount}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Missing, empty or unhelpful alt text, images without width and height (which shift the
+          layout as they load), and images described differently from page to page
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {issueCount === 0 ? (
+          <p className="py-6 text-center text-muted-foreground">No image issues found.</p>
+        ) : (
+          <>
+            {typeCounts.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {typeCounts.map((group) => (
+                  <Badge key={group.type} variant="outline">
+                    {IMAGE_ISSUE_LABELS[group.type]}: {group.count}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            {pageRows.size > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-medium">
+                  By page <Badge variant="outline">{pageRows.size}</Badge>
+                </h3>
+                <DataTable
+                  columns={pageColumns}
+                  data={Array.from(pageRows.values())}
+                  searchPlaceholder="Search pages..."
+                  emptyMessage="No pages found"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <h3 className="font-medium">
+                By image <Badge variant="outline">{imageRows.size}</Badge>
+              </h3>
+              <DataTable
+                columns={imageColumns}
+                data={Array.from(imageRows.values())}
+                searchPlaceholder="Search images..."
+                emptyMessage="No images found"
+              />
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const getSocialIssueDetail = (issue: SocialIssue): string =>
+  issue.expected ? `"${issue.value}" vs "${issue.expected}"` : (issue.value ?? '');
+
+function SocialSection({
+  issues,
+  duplicateImages,
+  pages,
+}: {
+  issues: SocialIssue[];
+  duplicateImages: DuplicateSocialImage[];
+  pages: Map<string, CrawlPage> | null;
+}) {
+  const previewPages = pages
+    ? Array.from(pages.values()).filter((page) => page.socialMeta && page.status === 200)
+    : [];
+  const [previewUrl, setPreviewUrl] = useState<string | undefined>(undefined);
+  const previewPage = pages?.get(previewUrl ?? '') ?? previewPages[0];
+
+  const issueGroups = (Object.keys(SOCIAL_ISSUE_LABELS) as SocialIssueType[])
+    .map((type) => ({ type, rows: issues.filter((issue) => issue.type === type) }))
+    .filter((group) => group.rows.length > 0);
+  const issueCount = issues.length + duplicateImages.length;
+
+  const issueColumns: ColumnDef<SocialIssue>[] = [
+    {
+      header: '#',
+      cell: (_, index) => <span className="text-muted-foreground">{index + 1}</span>,
+      className: 'w-12',
+    },
+    {
+      header: 'URL',
+      cell: (row) => (
+        <a
+          href={row.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-2 text-blue-600 hover:underline font-mono text-sm"
+        >
+          <span className="truncate max-w-md">{row.url}</span>
+          <ExternalLink className="w-3 h-3 flex-shrink-0" />
+        </a>
+      ),
+    },
+    {
+      header: 'Details',
+      cell: (row) => <span className="text-sm">{getSocialIssueDetail(row)}</span>,
+    },
+    {
+      header: '',
+      cell: (row) =>
+        pages?.has(row.url) && (
+          <Button variant="ghost" size="sm" onClick={() => setPreviewUrl(row.url)}>
+            Preview
+          </Button>
+        ),
+      className: 'w-24',
+    },
+  ];
+
+  const duplicateColumns: ColumnDef<DuplicateSocialImage>[] = [
+    {
+      header: '#',
+      cell: (_, index) => <span className="text-muted-foreground">{index + 1}</span>,
+      className: 'w-12',
+    },
+    {
+      header: 'og:image',
+      cell: (row) => (
+        <span className="truncate max-w-md font-mono text-sm" title={row.image}>
+          {row.image}
+        </span>
+      ),
+    },
+    {
+      header: 'Pages',
+      cell: (row) => (
+        <ul className="space-y-1">
+          {row.urls.map((url) => (
+            <li key={url} className="truncate max-w-md font-mono text-xs">
+              {url}
+            </li>
+          ))}
+        </ul>
+      ),
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {issueCount > 0 ? (
+            <AlertTriangle className="w-5 h-5 text-orange-500" />
+          ) : (
+            <Share2 className="w-5 h-5 text-green-500" />
+          )}
+          Social Sharing
+          {issueCount > 0 && (
+            <Badge variant="secondary" className="ml-2">
+              {issueCount}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Open Graph and Twitter Card tags: missing or invalid values, titles that differ from the
+          page, and images shared by several pages. Previews use the tags recorded during the crawl.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {previewPage && (
+          <div className="space-y-4 rounded-lg border border-border p-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h3 className="font-medium">Share preview</h3>
+              <Select value={previewPage.url} onValueChange={setPreviewUrl}>
+                <SelectTrigger className="w-full md:w-96">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {previewPages.map((page) => (
+                    <SelectItem key={page.url} value={page.url}>
+                      {page.url}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <SharePreview page={previewPage} />
+          </div>
+        )}
+        {issueCount === 0 ? (
+          <p className="py-6 text-center text-muted-foreground">No social sharing issues found.</p>
+        ) : (
+          <>
+            {issueGroups.map((group) => (
+              <div key={group.type} className="space-y-2">
+                <h3 className="font-medium">
+                  {SOCIAL_ISSUE_LABELS[group.type]}{' '}
+                  <Badge variant="outline">{group.rows.length}</Badge>
+                </h3>
+                <DataTable
+                  columns={issueColumns}
+                  data={group.rows}
+                  searchPlaceholder="Search pages..."
+                  emptyMessage="No pages found"
+                />
+              </div>
+            ))}
+            {duplicateImages.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-medium">
+                  Duplicate og:image <Badge variant="outline">{duplicateImages.length}</Badge>
+                </h3>
+                <DataTable
+                  columns={duplicateColumns}
+                  data={duplicateImages}
+                  searchPlaceholder="Search images..."
+                  emptyMessage="No duplicates found"
+                />
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface MixedContentPageRow {
+  url: string;
+  issues: MixedContentIssue[];
+}
+
+const getMixedContentTypes = (issues: MixedContentIssue[]): MixedContentType[] =>
+  (Object.keys(MIXED_CONTENT_TYPE_LABELS) as MixedContentType[]).filter((type) =>
+    issues.some((issue) => issue.type === type)
+  );
+
+function MixedContentSection({ issues }: { issues: MixedContentIssue[] }) {
+  const pageRows = new Map<string, MixedContentPageRow>();
+  issues.forEach((issue) => {
+    if (!pageRows.has(issue.url)) {
+      pageRows.set(issue.url, { url: issue.url, issues: [] });
+    }
+    pageRows.get(issue.url)!.issues.push(issue);
+  });
+  const hostGroups = groupMixedContentByHost(issues);
+  const typeCounts = (Object.keys(MIXED_CONTENT_TYPE_LABELS) as MixedContentType[])
+    .map((type) => ({ type, count: issues.filter((issue) => issue.type === type).length }))
+    .filter((group) => group.count > 0);
+
+  const pageColumns: ColumnDef<MixedContentPageRow>[] = [
+    {
+      header: '#',
+      cell: (_, index) => <span className="text-muted-foreground">{index + 1}</span>,
+      className: 'w-12',
+    },
+    {
+      header: 'Page',
+      cell: (row) => (
+        <a
+          href={row.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-2 text-blue-600 hover:underline font-mono text-sm"
+        >
+          <span className="truncate max-w-md">{row.url}</span>
+          <ExternalLink className="w-3 h-3 flex-shrink-0" />
+        </a>
+      ),
+    },
+    {
+      header: 'Insecure URLs',
+      cell: (row) => (
+        <ul className="space-y-1">
+          {row.issues.map((issue) => (
+            <li key={`${issue.type} ${issue.resource}`} className="text-sm">
+              <Badge variant="outline" className="mr-2">
+                {MIXED_CONTENT_TYPE_LABELS[issue.type]}
+              </Badge>
+              <span className="font-mono text-xs break-all">{issue.resource}</span>
+            </li>
+          ))}
+        </ul>
+      ),
+    },
+  ];
+
+  const hostColumns: ColumnDef<MixedContentHostGroup>[] = [
+    {
+      header: '#',
+      cell: (_, index) => <span className="text-muted-foreground">{index + 1}</span>,
+      className: 'w-12',
+    },
+    {
+      header: 'Host',
+      cell: (row) => <span className="font-mono text-sm">{row.host}</span>,
+    },
+    {
+      header: 'Types',
+      cell: (row) => (
+        <div className="flex flex-wrap gap-1">
+          {getMixedContentTypes(row.issues).map((type) => (
+            <Badge key={type} variant="outline">
+              {MIXED_CONTENT_TYPE_LABELS[type]}
+            </Badge>
+          ))}
+        </div>
+      ),
+    },
+    {
+      header: 'URLs',
+      cell: (row) => (
+        <Badge variant="outline">{new Set(row.issues.map((issue) => issue.resource)).size}</Badge>
+      ),
+      className: 'text-center w-24',
+    },
+    {
+      header: 'Pages',
+      cell: (row) => (
+        <Badge variant="outline">{new Set(row.issues.map((issue) => issue.url)).size}</Badge>
+      ),
+      className: 'text-center w-24',
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {issues.length > 0 ? (
+            <AlertTriangle className="w-5 h-5 text-orange-500" />
+          ) : (
+            <Lock className="w-5 h-5 text-green-500" />
+          )}
+          Mixed Content
+          {issues.length > 0 && (
+            <Badge variant="secondary" className="ml-2">
+              {issues.length}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          HTTPS pages loading images, scripts, stylesheets or iframes over plain HTTP, submitting
+          forms to HTTP, or linking to internal pages over HTTP
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {issues.length === 0 ? (
+          <p className="py-6 text-center text-muted-foreground">No mixed content found.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {typeCounts.map((group) => (
+                <Badge key={group.type} variant="outline">
+                  {MIXED_CONTENT_TYPE_LABELS[group.type]}: {group.count}
+                </Badge>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <h3 className="font-medium">
+                By page <Badge variant="outline">{pageRows.size}</Badge>
+              </h3>
+              <DataTable
+                columns={pageColumns}
+                data={Array.from(pageRows.values())}
+                searchPlaceholder="Search pages..."
+                emptyMessage="No pages found"
+              />
+            </div>
+            <div className="space-y-2">
+              <h3 className="font-medium">
+                By insecure host <Badge variant="outline">{hostGroups.length}</Badge>
+              </h3>
+              <DataTable
+                columns={hostColumns}
+                data={hostGroups}
+                searchPlaceholder="Search hosts..."
+                emptyMessage="No hosts found"
+              />
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface HeaderRow {
+  name: string;
+  value: string;
+}
+
+const HEADER_COLUMNS: ColumnDef<HeaderRow>[] = [
+  {
+    header: 'Header',
+    cell: (row) => <span className="font-mono text-sm">{row.name}</span>,
+    className: 'w-64',
+  },
+  {
+    header: 'Value',
+    cell: (row) => <span className="font-mono text-xs break-all">{row.value}</span>,
+  },
+];
+
+function HeadersSection({
+  issues,
+  pages,
+}: {
+  issues: HeaderIssue[];
+  pages: Map<string, CrawlPage> | null;
+}) {
+  const headerPages = pages
+    ? Array.from(pages.values()).filter((page) => page.responseHeaders)
+    : [];
+  const [selectedUrl, setSelectedUrl] = useState<string | undefined>(undefined);
+  const selectedPage = pages?.get(selectedUrl ?? '') ?? headerPages[0];
+  const headerRows = Object.entries(selectedPage?.responseHeaders?.values ?? {})
+    .map(([name, value]) => ({ name, value }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const issueGroups = (Object.keys(HEADER_ISSUE_LABELS) as HeaderIssueType[])
+    .map((type) => ({ type, rows: issues.filter((issue) => issue.type === type) }))
+    .filter((group) => group.rows.length > 0);
+
+  const issueColumns: ColumnDef<HeaderIssue>[] = [
+    {
+      header: '#',
+      cell: (_, index) => <span className="text-muted-foreground">{index + 1}</span>,
+      className: 'w-12',
+    },
+    {
+      header: 'URL',
+      cell: (row) => (
+        <a
+          href={row.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-2 text-blue-600 hover:underline font-mono text-sm"
+        >
+          <span className="truncate max-w-md">{row.url}</span>
+          <ExternalLink className="w-3 h-3 flex-shrink-0" />
+        </a>
+      ),
+    },
+    {
+      header: 'Value',
+      cell: (row) => <span className="font-mono text-xs">{row.value ?? '-'}</span>,
+    },
+    {
+      header: '',
+      cell: (row) =>
+        pages?.has(row.url) && (
+          <Button variant="ghost" size="sm" onClick={() => setSelectedUrl(row.url)}>
+            Headers
+          </Button>
+        ),
+      className: 'w-24',
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {issues.length > 0 ? (
+            <AlertTriangle className="w-5 h-5 text-orange-500" />
+          ) : (
+            <ServerCog className="w-5 h-5 text-green-500" />
+          )}
+          Response Headers
+          {issues.length > 0 && (
+            <Badge variant="secondary" className="ml-2">
+              {issues.length}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Caching, compression, HSTS, Content-Security-Policy, X-Content-Type-Options and charset
+          headers. Cross-origin pages only expose some headers, so only those are checked there.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {selectedPage?.responseHeaders && (
+          <div className="space-y-4 rounded-lg border border-border p-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h3 className="font-medium">Headers by page</h3>
+              <Select value={selectedPage.url} onValueChange={setSelectedUrl}>
+                <SelectTrigger className="w-full md:w-96">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {headerPages.map((page) => (
+                    <SelectItem key={page.url} value={page.url}>
+                      {page.url}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {selectedPage.responseHeaders.partial && (
+              <p className="text-sm text-muted-foreground">
+                Cross-origin response: only the headers the server exposes to scripts are shown.
+              </p>
+            )}
+            <DataTable
+              columns={HEADER_COLUMNS}
+              data={headerRows}
+              searchPlaceholder="Filter headers..."
+              emptyMessage="No headers recorded"
+            />
+          </div>
+        )}
+        {issues.length === 0 ? (
+          <p className="py-6 text-center text-muted-foreground">No header issues found.</p>
+        ) : (
+          issueGroups.map((group) => (
+            <div key={group.type} className="space-y-2">
+              <h3 className="font-medium">
+                {HEADER_ISSUE_LABELS[group.type]}{' '}
+                <Badge variant="outline">{group.rows.length}</Badge>
+              </h3>
+              <DataTable
+                columns={issueColumns}
+                data={group.rows}
+                searchPlaceholder="Search pages..."
+                emptyMessage="No pages found"
+              />
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const formatMetric = (metric: PerformanceMetric, value: number): string =>
+  metric === 'bytes' ? formatBytes(value) : formatTime(value);
+
+const formatPercentiles = (metric: PerformanceMetric, summary?: PercentileSummary): string =>
+  summary
+    ? [summary.p50, summary.p90, summary.p99]
+        .map((value) => formatMetric(metric, value))
+        .join(' / ')
+    : '-';
+
+const PERFORMANCE_PAGE_COLUMNS: ColumnDef<PagePerformanceRow>[] = [
+  {
+    header: '#',
+    cell: (_, index) => <span className="text-muted-foreground">{index + 1}</span>,
+    className: 'w-12',
+  },
+  {
+    header: 'URL',
+    cell: (row) => (
+      <a
+        href={row.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="flex items-center gap-2 text-blue-600 hover:underline font-mono text-sm"
+      >
+        <span className="truncate max-w-md">{row.url}</span>
+        <ExternalLink className="w-3 h-3 flex-shrink-0" />
+      </a>
+    ),
+  },
+  {
+    header: 'Response',
+    cell: (row) => formatTime(row.responseTime),
+    className: 'text-right w-24',
+  },
+  {
+    header: 'TTFB',
+    cell: (row) => (row.ttfb !== undefined ? formatTime(row.ttfb) : '-'),
+    className: 'text-right w-24',
+  },
+  {
+    header: 'Size',
+    cell: (row) => (row.bytes !== undefined ? formatBytes(row.bytes) : '-'),
+    className: 'text-right w-28',
+  },
+  {
+    header: 'Transferred',
+    cell: (row) => (row.transferBytes !== undefined ? formatBytes(row.transferBytes) : '-'),
+    className: 'text-right w-28',
+  },
+];
+
+const DIRECTORY_PERFORMANCE_COLUMNS: ColumnDef<DirectoryPerformance>[] = [
+  {
+    header: 'Directory',
+    cell: (row) => <span className="font-mono text-sm">{row.directory}</span>,
+  },
+  {
+    header: 'Pages',
+    cell: (row) => row.pageCount,
+    className: 'text-right w-20',
+  },
+  {
+    header: 'Response p50 / p90 / p99',
+    cell: (row) => formatPercentiles('responseTime', row.responseTime),
+    className: 'text-right',
+  },
+  {
+    header: 'Size p50 / p90 / p99',
+    cell: (row) => formatPercentiles('bytes', row.bytes),
+    className: 'text-right',
+  },
+];
+
+const BUDGET_VIOLATION_COLUMNS: ColumnDef<BudgetViolation>[] = [
+  {
+    header: 'URL',
+    cell: (row) => (
+      <a
+        href={row.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="flex items-center gap-2 text-blue-600 hover:underline font-mono text-sm"
+      >
+        <span className="truncate max-w-md">{row.url}</span>
+        <ExternalLink className="w-3 h-3 flex-shrink-0" />
+      </a>
+    ),
+  },
+  {
+    header: 'Metric',
+    cell: (row) => <Badge variant="outline">{PERFORMANCE_METRIC_LABELS[row.metric]}</Badge>,
+    className: 'w-44',
+  },
+  {
+    header: 'Value',
+    cell: (row) => formatMetric(row.metric, row.value),
+    className: 'text-right w-24',
+  },
+  {
+    header: 'Budget',
+    cell: (row) => (
+      <span className="text-muted-foreground">{formatMetric(row.metric, row.budget)}</span>
+    ),
+    className: 'text-right w-24',
+  },
+];
+
+function PerformanceSection({ performance }: { performance: PerformanceReport }) {
+  const { site, budgets, budgetViolations } = performance;
+  const violatingPages = new Set(budgetViolations.map((violation) => violation.url)).size;
+
+  const chartData = performance.histogram.map((bucket) => ({
+    name: formatBucket(bucket),
+    value: bucket.count,
+    fill: bucket.min >= budgets.responseTime ? '#f97316' : '#3b82f6',
+  }));
+
+  const percentiles: { metric: PerformanceMetric; summary?: PercentileSummary }[] = [
+    { metric: 'responseTime', summary: site.responseTime },
+    { metric: 'ttfb', summary: site.ttfb },
+    { metric: 'bytes', summary: site.bytes },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {violatingPages > 0 ? (
+            <AlertTriangle className="w-5 h-5 text-orange-500" />
+          ) : (
+            <Gauge className="w-5 h-5 text-green-500" />
+          )}
+          Performance
+          {violatingPages > 0 && (
+            <Badge variant="secondary" className="ml-2">
+              {violatingPages} over budget
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Response times are the crawler&apos;s own fetch times, redirects included. TTFB and
+          transfer size are only known when the browser exposes the page&apos;s Resource Timing.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {percentiles.map(({ metric, summary }) => (
+            <div key={metric} className="p-4 bg-muted/50 rounded-lg">
+              <p className="text-sm text-muted-foreground">
+                {PERFORMANCE_METRIC_LABELS[metric]} p50 / p90 / p99
+              </p>
+              <p className="text-lg font-semibold">{formatPercentiles(metric, summary)}</p>
+              <p className="text-xs text-muted-foreground">
+                Budget {formatMetric(metric, budgets[metric])}
+              </p>
+            </div>
+          ))}
+        </div>
+        <ResponsiveContainer width="100%" height={250}>
+          <BarChart data={chartData}>
+            <XAxis dataKey="name" />
+            <YAxis allowDecimals={false} />
+            <RechartsTooltip />
+            <Bar dataKey="value" name="Pages" radius={[4, 4, 0, 0]}>
+              {chartData.map((entry, index) => (
+                <Cell key={`cell-${index}`} fill={entry.fill} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+        <div className="space-y-2">
+          <h3 className="font-medium">
+            By directory <Badge variant="outline">{performance.directories.length}</Badge>
+          </h3>
+          <DataTable
+            columns={DIRECTORY_PERFORMANCE_COLUMNS}
+            data={performance.directories}
+            searchPlaceholder="Search directories..."
+            emptyMessage="No directories found"
+          />
+        </div>
+        <div className="space-y-2">
+          <h3 className="font-medium">Slowest pages</h3>
+          <DataTable
+            columns={PERFORMANCE_PAGE_COLUMNS}
+            data={performance.slowestPages}
+            searchPlaceholder="Search pages..."
+            emptyMessage="No pages found"
+          />
+        </div>
+        {performance.heaviestPages.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-medium">Heaviest pages</h3>
+            <DataTable
+              columns={PERFORMANCE_PAGE_COLUMNS}
+              data={performance.heaviestPages}
+              searchPlaceholder="Search pages..."
+              emptyMessage="No pages found"
+            />
+          </div>
+        )}
+        {budgetViolations.length > 0 ? (
+          <div className="space-y-2">
+            <h3 className="font-medium">
+              Over budget <Badge variant="outline">{budgetViolations.length}</Badge>
+            </h3>
+            <DataTable
+              columns={BUDGET_VIOLATION_COLUMNS}
+              data={budgetViolations}
+              searchPlaceholder="Search pages..."
+              emptyMessage="No pages found"
+            />
+          </div>
+        ) : (
+          <p className="text-center text-muted-foreground">All pages are within budget.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const LINK_EQUITY_COLUMNS: ColumnDef<PageLinkEquity>[] = [
+  {
+    header: 'URL',
+    cell: (row) => (
+      <a
+        href={row.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="flex items-center gap-2 text-blue-600 hover:underline font-mono text-sm"
+      >
+        <span className="truncate max-w-md">{row.url}</span>
+        <ExternalLink className="w-3 h-3 flex-shrink-0" />
+      </a>
+    ),
+  },
+  {
+    header: 'Link Equity',
+    cell: (row) => <span className="tabular-nums">{row.score.toFixed(2)}</span>,
+    className: 'text-right w-32',
+    sortValue: (row) => row.score,
+  },
+  {
+    header: 'Linking Pages',
+    cell: (row) => row.incomingCount,
+    className: 'text-right w-32',
+    sortValue: (row) => row.incomingCount,
+  },
+  {
+    header: 'In Sitemap',
+    cell: (row) =>
+      row.inSitemap ? <Badge variant="secondary">Yes</Badge> : <Badge variant="outline">No</Badge>,
+    className: 'text-center w-28',
+  },
+];
+
+function LinkEquitySection({
+  linkEquity,
+  lowEquityPages,
+}: {
+  linkEquity: PageLinkEquity[];
+  lowEquityPages: PageLinkEquity[];
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {lowEquityPages.length > 0 ? (
+            <AlertTriangle className="w-5 h-5 text-orange-500" />
+          ) : (
+            <Crown className="w-5 h-5 text-green-500" />
+          )}
+          Link Equity
+          {lowEquityPages.length > 0 && (
+            <Badge variant="secondary" className="ml-2">
+              {lowEquityPages.length} weak sitemap pages
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Internal PageRank of each page: 1 is the equity of an average page, and higher scores mark
+          the pages the internal links treat as most important.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {lowEquityPages.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-medium">
+              Sitemap pages with little link equity{' '}
+              <Badge variant="outline">{lowEquityPages.length}</Badge>
+            </h3>
+            <p className="text-sm text-muted-foreground">
+              Indexable pages listed in the sitemap that few or weak internal links point to.
+            </p>
+            <DataTable
+              columns={LINK_EQUITY_COLUMNS}
+              data={lowEquityPages}
+              searchPlaceholder="Search pages..."
+              emptyMessage="No pages found"
+            />
+          </div>
+        )}
+        <div className="space-y-2">
+          <h3 className="font-medium">
+            All pages <Badge variant="outline">{linkEquity.length}</Badge>
+          </h3>
+          <DataTable
+            columns={LINK_EQUITY_COLUMNS}
+            data={linkEquity}
+            searchPlaceholder="Search pages..."
+            emptyMessage="No pages found"
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 function SitemapOnlyPagesSection({ pages, targetUrl }: { pages: string[]; targetUrl: string }) {
   const columns: ColumnDef<{ url: string; index: number }>[] = [
     {
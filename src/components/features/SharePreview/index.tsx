@@ -0,0 +1,88 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+'use client';
+
+import { Image as ImageIcon } from 'lucide-react';
+import { CrawlPage, ShareNetwork, SharePreview as SharePreviewData } from '@/types';
+import { getSharePreview, SHARE_NETWORK_LABELS } from '@/lib/crawler/social-meta';
+import { cn } from '@/lib/utils';
+
+const SHARE_NETWORKS: ShareNetwork[] = ['open-graph', 'twitter'];
+
+const getImageName = (url: string): string => {
+  try {
+    return decodeURIComponent(new URL(url).pathname.split('/').filter(Boolean).pop() ?? url);
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * Stands in for the shared image, which is not downloaded: previews only use
+ * what the crawl stored
+ */
+const ImagePlaceholder = ({ image, large }: { image?: string; large: boolean }) => (
+  <div
+    className={cn(
+      'flex flex-col items-center justify-center gap-1 bg-muted text-muted-foreground',
+      large ? 'aspect-[1.91/1] w-full' : 'h-28 w-28 flex-shrink-0'
+    )}
+    title={image}
+  >
+    <ImageIcon className="w-6 h-6" />
+    <span className="max-w-full truncate px-2 font-mono text-xs">
+      {image ? getImageName(image) : 'No image'}
+    </span>
+  </div>
+);
+
+const PreviewCard = ({
+  preview,
+  network,
+}: {
+  preview: SharePreviewData;
+  network: ShareNetwork;
+}) => {
+  const large = preview.card === 'summary_large_image';
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">{SHARE_NETWORK_LABELS[network]}</p>
+      <div
+        className={cn(
+          'overflow-hidden border border-border bg-card',
+          network === 'twitter' ? 'rounded-2xl' : 'rounded-none',
+          !large && 'flex'
+        )}
+      >
+        <ImagePlaceholder image={preview.image} large={large} />
+        <div className="min-w-0 space-y-1 p-3">
+          <p className="truncate text-xs uppercase text-muted-foreground">
+            {preview.siteName && network === 'open-graph' ? preview.siteName : preview.domain}
+          </p>
+          <p className="line-clamp-2 font-semibold">
+            {preview.title ?? <span className="text-muted-foreground">No title</span>}
+          </p>
+          <p className="line-clamp-2 text-sm text-muted-foreground">
+            {preview.description ?? 'No description'}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Mock cards of how a page looks when shared, built from the Open Graph and
+ * Twitter Card tags recorded during the crawl
+ */
+export const SharePreview = ({ page }: { page: CrawlPage }) => (
+  <div className="grid gap-6 md:grid-cols-2">
+    {SHARE_NETWORKS.map((network) => (
+      <PreviewCard key={network} preview={getSharePreview(page, network)} network={network} />
+    ))}
+  </div>
+);
@@ -16,13 +16,15 @@ import {
 } from '@/components/ui/table';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { ChevronLeft, ChevronRight, Search } from 'lucide-react';
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronLeft, ChevronRight, Search } from 'lucide-react';
 
 export interface ColumnDef<T> {
   header: string;
   accessorKey?: keyof T;
   cell?: (row: T, index: number) => React.ReactNode;
   className?: string;
+  /** Makes the column sortable by this value */
+  sortValue?: (row: T) => number | string;
 }
 
 interface DataTableProps<T> {
@@ -43,6 +45,7 @@ export function DataTable<T extends Record<string, any> = Record<string, any>>({
 }: DataTableProps<T>) {
   const [searchQuery, setSearchQuery] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
+  const [sort, setSort] = useState<{ column: number; descending: boolean } | null>(null);
 
   // Filter data based on search query
   const filteredData = useMemo(() => {
@@ -57,11 +60,27 @@ export function DataTable<T extends Record<string, any> = Record<string, any>>({
     });
   }, [data, searchQuery]);
 
+  // Sort filtered data by the selected column, keeping the original order on ties
+  const sortedData = useMemo(() => {
+    const sortValue = sort ? columns[sort.column]?.sortValue : undefined;
+    if (!sort || !sortValue) return filteredData;
+
+    return [...filteredData].sort((a, b) => {
+      const left = sortValue(a);
+      const right = sortValue(b);
+      const order =
+        typeof left === 'number' && typeof right === 'number'
+          ? left - right
+          : String(left).localeCompare(String(right));
+      return sort.descending ? -order : order;
+    });
+  }, [filteredData, columns, sort]);
+
   // Calculate pagination
   const totalPages = Math.ceil(filteredData.length / pageSize);
   const startIndex = (currentPage - 1) * pageSize;
   const endIndex = startIndex + pageSize;
-  const paginatedData = filteredData.slice(startIndex, endIndex);
+  const paginatedData = sortedData.slice(startIndex, endIndex);
 
   // Reset to page 1 when search query changes
   const handleSearchChange = (value: string) => {
@@ -69,6 +88,16 @@ export function DataTable<T extends Record<string, any> = Record<string, any>>({
     setCurrentPage(1);
   };
 
+  // Sort descending first, then ascending
+  const handleSort = (column: number) => {
+    setSort((prev) =>
+      prev?.column === column
+        ? { column, descending: !prev.descending }
+        : { column, descending: true }
+    );
+    setCurrentPage(1);
+  };
+
   const handlePrevPage = () => {
     setCurrentPage((prev) => Math.max(1, prev - 1));
   };
@@ -97,7 +126,24 @@ export function DataTable<T extends Record<string, any> = Record<string, any>>({
             <TableRow>
               {columns.map((column, index) => (
                 <TableHead key={index} className={column.className}>
-                  {column.header}
+                  {column.sortValue ? (
+                    <button
+                      type="button"
+                      onClick={() => handleSort(index)}
+                      className="inline-flex items-center gap-1 hover:text-foreground"
+                    >
+                      {column.header}
+                      {sort?.column !== index ? (
+                        <ArrowUpDown className="w-3 h-3" />
+                      ) : sort.descending ? (
+                        <ArrowDown className="w-3 h-3" />
+                      ) : (
+                        <ArrowUp className="w-3 h-3" />
+                      )}
+                    </button>
+                  ) : (
+                    column.header
+                  )}
                 </TableHead>
               ))}
             </TableRow>
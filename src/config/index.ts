@@ -20,6 +20,20 @@ export const config = {
     defaultMaxPages: 1000,
     defaultTimeout: 10000,
     defaultUserAgent: 'VaporScan/1.0',
+    defaultExternalLinkConcurrency: 4,
+    defaultExternalLinkTimeout: 8000,
+  },
+  report: {
+    maxClickDepth: 3,
+    /** Noindex pages with at least this many linking pages are reported */
+    maxNoindexIncomingLinks: 5,
+    /** Title and meta description lengths outside these ranges are reported */
+    titleLength: { min: 30, max: 60 },
+    descriptionLength: { min: 70, max: 160 },
+    /** Pages whose main content simhashes are at least this similar are clustered */
+    nearDuplicateSimilarity: 0.9,
+    /** Indexable sitemap pages with a lower link equity score (1 = an average page) are reported */
+    minSitemapLinkEquity: 0.5,
   },
   storage: {
     dbName: 'vaporscan',
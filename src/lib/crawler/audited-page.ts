@@ -0,0 +1,16 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Decides which crawled pages the content audits look at
+ */
+
+import { CrawlPage } from '@/types';
+
+/**
+ * Pages served directly with status 200; redirects and errors have no content of their own
+ */
+export const isAuditedPage = (page: CrawlPage): boolean =>
+  page.status === 200 && !page.redirectChain;
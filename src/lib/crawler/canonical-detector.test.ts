@@ -0,0 +1,140 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Unit tests for canonical-detector
+ * Coverage: getCanonicalTarget, detectCanonicalIssues
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getCanonicalTarget, detectCanonicalIssues } from './canonical-detector';
+import { CrawlPage } from '@/types';
+import { createPage as createCrawlPage, createPages } from '../../../tests/fixtures/crawl-pages';
+
+const createPage = (url: string, overrides?: Partial<CrawlPage>): CrawlPage =>
+  createCrawlPage(url, { canonical: url, ...overrides });
+
+describe('canonical-detector', () => {
+  describe('getCanonicalTarget', () => {
+    it('should ignore self-referencing canonicals', () => {
+      expect(getCanonicalTarget(createPage('https://example.com/a'))).toBeUndefined();
+      expect(
+        getCanonicalTarget(
+          createPage('https://example.com/a', { canonical: 'https://example.com/a/' })
+        )
+      ).toBeUndefined();
+    });
+
+    it('should match a query string self-canonical under the default policy', () => {
+      // Pages are stored under the crawl policy, which strips query parameters by default
+      const page = createPage('https://example.com/product', {
+        canonical: 'https://example.com/product?id=5',
+      });
+      expect(getCanonicalTarget(page)).toBeUndefined();
+      expect(detectCanonicalIssues(createPages({ ...page, inSitemap: true }))).toEqual([]);
+    });
+
+    it('should return the normalized canonical of a duplicate', () => {
+      const page = createPage('https://example.com/a?ref=1', {
+        canonical: 'https://example.com/B',
+      });
+      expect(getCanonicalTarget(page)).toBe('https://example.com/b');
+    });
+
+    it('should compare against the final URL of a redirected page', () => {
+      const page = createPage('https://example.com/old', {
+        canonical: 'https://example.com/new',
+        redirectChain: [
+          { url: 'https://example.com/old', status: 301 },
+          { url: 'https://example.com/new', status: 200 },
+        ],
+      });
+      expect(getCanonicalTarget(page)).toBeUndefined();
+    });
+  });
+
+  describe('detectCanonicalIssues', () => {
+    it('should report pages without a canonical', () => {
+      const issues = detectCanonicalIssues(
+        createPages(createPage('https://example.com/a', { canonical: undefined }))
+      );
+
+      expect(issues).toEqual([{ url: 'https://example.com/a', type: 'missing' }]);
+    });
+
+    it('should not audit error pages', () => {
+      const issues = detectCanonicalIssues(
+        createPages(createPage('https://example.com/gone', { status: 404, canonical: undefined }))
+      );
+
+      expect(issues).toEqual([]);
+    });
+
+    it('should report canonicals pointing at error or redirecting pages', () => {
+      // ARRANGE
+      const crawlResult = createPages(
+        createPage('https://example.com/a', { canonical: 'https://example.com/gone' }),
+        createPage('https://example.com/b', { canonical: 'https://example.com/moved' }),
+        createPage('https://example.com/gone', { status: 404, canonical: undefined }),
+        createPage('https://example.com/moved', {
+          redirectChain: [
+            { url: 'https://example.com/moved', status: 301 },
+            { url: 'https://example.com/target', status: 200 },
+          ],
+        })
+      );
+
+      // ACT
+      const issues = detectCanonicalIssues(crawlResult);
+
+      // ASSERT
+      expect(issues).toContainEqual({
+        url: 'https://example.com/a',
+        type: 'target-error',
+        canonical: 'https://example.com/gone',
+        targetStatus: 404,
+      });
+      expect(issues).toContainEqual({
+        url: 'https://example.com/b',
+        type: 'target-redirect',
+        canonical: 'https://example.com/moved',
+        targetStatus: 200,
+      });
+    });
+
+    it('should report canonical chains', () => {
+      const issues = detectCanonicalIssues(
+        createPages(
+          createPage('https://example.com/a', { canonical: 'https://example.com/b' }),
+          createPage('https://example.com/b', { canonical: 'https://example.com/c' }),
+          createPage('https://example.com/c')
+        )
+      );
+
+      expect(issues).toContainEqual({
+        url: 'https://example.com/a',
+        type: 'chain',
+        canonical: 'https://example.com/b',
+        chainedTo: 'https://example.com/c',
+      });
+    });
+
+    it('should report cross-domain canonicals and non-canonical sitemap entries', () => {
+      const issues = detectCanonicalIssues(
+        createPages(
+          createPage('https://example.com/a', {
+            canonical: 'https://other.com/a',
+            inSitemap: true,
+          })
+        )
+      );
+
+      expect(issues.map((issue) => issue.type)).toEqual([
+        'cross-domain',
+        'non-canonical-in-sitemap',
+      ]);
+    });
+  });
+});
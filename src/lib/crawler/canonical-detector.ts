@@ -0,0 +1,115 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Audits <link rel="canonical"> declarations across crawled pages
+ */
+
+import {
+  CanonicalIssue,
+  CanonicalIssueType,
+  CrawlPage,
+  CrawlResult,
+  NormalizationPolicy,
+} from '@/types';
+import { normalizeUrl } from './link-extractor';
+import { isAuditedPage } from './audited-page';
+
+export const CANONICAL_ISSUE_LABELS: Record<CanonicalIssueType, string> = {
+  'target-error': 'Canonical target returns an error',
+  'target-redirect': 'Canonical target redirects',
+  chain: 'Canonical chain',
+  'cross-domain': 'Cross-domain canonical',
+  'non-canonical-in-sitemap': 'Non-canonical page in sitemap',
+  missing: 'Missing canonical',
+};
+
+/**
+ * Comparison key for canonical URLs: the crawl's normalization policy, which
+ * page URLs are stored under, so a canonical matches the page it points to
+ */
+export const getCanonicalKey = (url: string, policy?: Partial<NormalizationPolicy>): string =>
+  normalizeUrl(url, policy);
+
+/**
+ * The URL a page was finally served from (the last hop when redirected)
+ */
+const getServedUrl = (page: Pick<CrawlPage, 'url' | 'redirectChain'>): string =>
+  page.redirectChain?.[page.redirectChain.length - 1]?.url ?? page.url;
+
+/**
+ * Canonical key of the declared canonical when the page declares a canonical other than itself
+ */
+export const getCanonicalTarget = (
+  page: Pick<CrawlPage, 'url' | 'canonical' | 'redirectChain'>,
+  policy?: Partial<NormalizationPolicy>
+): string | undefined => {
+  if (!page.canonical) {
+    return undefined;
+  }
+  const target = getCanonicalKey(page.canonical, policy);
+  return target === getCanonicalKey(getServedUrl(page), policy) ? undefined : target;
+};
+
+const getHost = (url: string): string | null => {
+  try {
+    return new URL(url).host.toLowerCase();
+  } catch {
+    return null;
+  }
+};
+
+export const detectCanonicalIssues = (
+  crawlResult: Pick<CrawlResult, 'pages' | 'normalization'>
+): CanonicalIssue[] => {
+  const policy = crawlResult.normalization;
+  const pagesByUrl = new Map<string, CrawlPage>();
+  crawlResult.pages.forEach((page) => pagesByUrl.set(getCanonicalKey(page.url, policy), page));
+
+  const issues: CanonicalIssue[] = [];
+
+  crawlResult.pages.forEach((page, url) => {
+    // Only successfully served HTML pages are expected to declare a canonical
+    if (!isAuditedPage(page)) {
+      return;
+    }
+
+    if (!page.canonical) {
+      issues.push({ url, type: 'missing' });
+      return;
+    }
+
+    const canonical = page.canonical;
+
+    if (getHost(canonical) !== getHost(getServedUrl(page))) {
+      issues.push({ url, type: 'cross-domain', canonical });
+    }
+
+    const target = getCanonicalTarget(page, policy);
+    if (!target) {
+      return;
+    }
+
+    if (page.inSitemap) {
+      issues.push({ url, type: 'non-canonical-in-sitemap', canonical });
+    }
+
+    // The target can only be checked when it was crawled too
+    const targetPage = pagesByUrl.get(target);
+    if (!targetPage) {
+      return;
+    }
+
+    if (targetPage.redirectChain) {
+      issues.push({ url, type: 'target-redirect', canonical, targetStatus: targetPage.status });
+    } else if (targetPage.status !== 200) {
+      issues.push({ url, type: 'target-error', canonical, targetStatus: targetPage.status });
+    } else if (getCanonicalTarget(targetPage, policy)) {
+      issues.push({ url, type: 'chain', canonical, chainedTo: targetPage.canonical });
+    }
+  });
+
+  return issues;
+};
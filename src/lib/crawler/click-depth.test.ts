@@ -0,0 +1,137 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Unit tests for click-depth
+ * Coverage: getClickDepthRoots, calculateClickDepths, detectDeepPages, calculateDepthDistribution
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getClickDepthRoots,
+  calculateClickDepths,
+  detectDeepPages,
+  calculateDepthDistribution,
+} from './click-depth';
+import { CrawlPage } from '@/types';
+import { createPage as createCrawlPage, createPages } from '../../../tests/fixtures/crawl-pages';
+
+const createPage = (url: string, internalLinks: string[] = [], depth?: number): CrawlPage =>
+  createCrawlPage(url, { internalLinks, depth });
+
+describe('click-depth', () => {
+  describe('getClickDepthRoots', () => {
+    it('should measure from the start URL when one is given', () => {
+      expect(
+        getClickDepthRoots({ url: 'https://example.com/', manualPages: ['https://example.com/a'] })
+      ).toEqual(['https://example.com/']);
+    });
+
+    it('should fall back to manual pages for manual scans', () => {
+      expect(getClickDepthRoots({ url: '', manualPages: ['https://example.com/a'] })).toEqual([
+        'https://example.com/a',
+      ]);
+    });
+  });
+
+  describe('calculateClickDepths', () => {
+    it('should count link hops rather than path segments', () => {
+      // ARRANGE
+      const { pages } = createPages(
+        createPage('https://example.com/', ['https://example.com/deep/nested/page']),
+        createPage('https://example.com/deep/nested/page', ['https://example.com/about']),
+        createPage('https://example.com/about')
+      );
+
+      // ACT
+      const depths = calculateClickDepths(pages, ['https://example.com/']);
+
+      // ASSERT
+      expect(depths.get('https://example.com/')).toBe(0);
+      expect(depths.get('https://example.com/deep/nested/page')).toBe(1);
+      expect(depths.get('https://example.com/about')).toBe(2);
+    });
+
+    it('should use the shortest path when a page is linked from several depths', () => {
+      // ARRANGE
+      const { pages } = createPages(
+        createPage('https://example.com/', ['https://example.com/a', 'https://example.com/c']),
+        createPage('https://example.com/a', ['https://example.com/b']),
+        createPage('https://example.com/b', ['https://example.com/c']),
+        createPage('https://example.com/c')
+      );
+
+      // ACT
+      const depths = calculateClickDepths(pages, ['https://example.com/']);
+
+      // ASSERT
+      expect(depths.get('https://example.com/c')).toBe(1);
+    });
+
+    it('should include linked URLs that have not been crawled yet', () => {
+      const { pages } = createPages(
+        createPage('https://example.com/', ['https://example.com/next'])
+      );
+
+      const depths = calculateClickDepths(pages, ['https://example.com/']);
+
+      expect(depths.get('https://example.com/next')).toBe(1);
+    });
+
+    it('should leave pages unreachable from the roots without a depth', () => {
+      const { pages } = createPages(
+        createPage('https://example.com/'),
+        createPage('https://example.com/sitemap-only')
+      );
+
+      const depths = calculateClickDepths(pages, ['https://example.com/']);
+
+      expect(depths.has('https://example.com/sitemap-only')).toBe(false);
+    });
+  });
+
+  describe('detectDeepPages', () => {
+    it('should return pages beyond the threshold, deepest first', () => {
+      const { pages } = createPages(
+        createPage('https://example.com/', [], 0),
+        createPage('https://example.com/a', [], 4),
+        createPage('https://example.com/b', [], 6),
+        createPage('https://example.com/c', [], 3)
+      );
+
+      const deepPages = detectDeepPages({ pages }, 3);
+
+      expect(deepPages.map((page) => [page.url, page.depth])).toEqual([
+        ['https://example.com/b', 6],
+        ['https://example.com/a', 4],
+      ]);
+    });
+  });
+
+  describe('calculateDepthDistribution', () => {
+    it('should count pages per depth and those without a depth', () => {
+      const { pages } = createPages(
+        createPage('https://example.com/', [], 0),
+        createPage('https://example.com/a', [], 1),
+        createPage('https://example.com/b', [], 1),
+        createPage('https://example.com/c', [], 3),
+        createPage('https://example.com/d')
+      );
+
+      const summary = calculateDepthDistribution({ pages }, 2);
+
+      expect(summary).toEqual({
+        threshold: 2,
+        distribution: [
+          { depth: 0, count: 1 },
+          { depth: 1, count: 2 },
+          { depth: 2, count: 0 },
+          { depth: 3, count: 1 },
+        ],
+        unreachableCount: 1,
+      });
+    });
+  });
+});
@@ -0,0 +1,107 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Computes click depth (link hops from the start URL) over the crawled link graph
+ */
+
+import { config } from '@/config';
+import {
+  ClickDepthSummary,
+  CrawlConfig,
+  CrawlPage,
+  CrawlResult,
+  DeepPage,
+  NormalizationPolicy,
+} from '@/types';
+import { normalizeUrl } from './link-extractor';
+
+/**
+ * Click depth is measured from the start URL, or from the manual pages
+ * when scanning without one
+ */
+export const getClickDepthRoots = (crawlConfig: Pick<CrawlConfig, 'url' | 'manualPages'>) => {
+  return crawlConfig.url ? [crawlConfig.url] : (crawlConfig.manualPages ?? []);
+};
+
+/**
+ * Breadth-first search from the roots over the internal links of crawled pages.
+ * Returns the shortest hop count for every reachable URL, including linked
+ * URLs that have not been crawled yet.
+ */
+export const calculateClickDepths = (
+  pages: Map<string, CrawlPage>,
+  roots: string[],
+  policy?: Partial<NormalizationPolicy>
+): Map<string, number> => {
+  const depths = new Map<string, number>();
+  const queue: string[] = [];
+
+  roots.forEach((root) => {
+    const url = normalizeUrl(root, policy);
+    if (!depths.has(url)) {
+      depths.set(url, 0);
+      queue.push(url);
+    }
+  });
+
+  for (let i = 0; i < queue.length; i++) {
+    const nextDepth = depths.get(queue[i])! + 1;
+    pages.get(queue[i])?.internalLinks.forEach((link) => {
+      const url = normalizeUrl(link, policy);
+      if (!depths.has(url)) {
+        depths.set(url, nextDepth);
+        queue.push(url);
+      }
+    });
+  }
+
+  return depths;
+};
+
+/**
+ * Pages more than `threshold` clicks away from the start URL, deepest first
+ */
+export const detectDeepPages = (
+  crawlResult: Pick<CrawlResult, 'pages'>,
+  threshold: number = config.report.maxClickDepth
+): DeepPage[] => {
+  const deep: DeepPage[] = [];
+
+  crawlResult.pages.forEach((page) => {
+    if (page.depth !== undefined && page.depth > threshold) {
+      deep.push({ url: page.url, depth: page.depth, inSitemap: page.inSitemap });
+    }
+  });
+
+  return deep.sort((a, b) => b.depth - a.depth || a.url.localeCompare(b.url));
+};
+
+/**
+ * Number of crawled pages at each click depth
+ */
+export const calculateDepthDistribution = (
+  crawlResult: Pick<CrawlResult, 'pages'>,
+  threshold: number = config.report.maxClickDepth
+): ClickDepthSummary => {
+  const counts = new Map<number, number>();
+  let unreachableCount = 0;
+
+  crawlResult.pages.forEach((page) => {
+    if (page.depth === undefined) {
+      unreachableCount += 1;
+    } else {
+      counts.set(page.depth, (counts.get(page.depth) ?? 0) + 1);
+    }
+  });
+
+  const maxDepth = counts.size > 0 ? Math.max(...counts.keys()) : -1;
+  const distribution = Array.from({ length: maxDepth + 1 }, (_, depth) => ({
+    depth,
+    count: counts.get(depth) ?? 0,
+  }));
+
+  return { threshold, distribution, unreachableCount };
+};
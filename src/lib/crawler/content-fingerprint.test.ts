@@ -0,0 +1,152 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Unit tests for content-fingerprint
+ * Coverage: computeContentFingerprint, fingerprintStoredContent, getSimilarity,
+ *           detectNearDuplicates
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Blob as NodeBlob } from 'buffer';
+import { gzipSync } from 'zlib';
+import {
+  computeContentFingerprint,
+  fingerprintStoredContent,
+  getSimilarity,
+  detectNearDuplicates,
+} from './content-fingerprint';
+import { CrawlPage } from '@/types';
+import { createPage as createCrawlPage, createPages } from '../../../tests/fixtures/crawl-pages';
+
+const PRODUCT_TEXT = Array.from(
+  { length: 40 },
+  (_, index) => `The kettle model ${index} boils water in ${index + 2} minutes with steel parts.`
+).join(' ');
+
+const OTHER_TEXT = Array.from(
+  { length: 40 },
+  (_, index) => `Chapter ${index} of our travel guide covers trains, ferries and ${index} hikes.`
+).join(' ');
+
+const createPage = (url: string, text: string, overrides?: Partial<CrawlPage>): CrawlPage =>
+  createCrawlPage(url, { fingerprint: computeContentFingerprint(text), ...overrides });
+
+describe('content-fingerprint', () => {
+  describe('computeContentFingerprint', () => {
+    it('should ignore case, punctuation and whitespace', () => {
+      // ACT
+      const a = computeContentFingerprint('Hello, World!  Fresh kettles today.');
+      const b = computeContentFingerprint('hello world\nfresh KETTLES today');
+
+      // ASSERT
+      expect(a).toEqual(b);
+      expect(a?.hash).toMatch(/^[0-9a-f]{16}$/);
+      expect(a?.simhash).toMatch(/^[0-9a-f]{16}$/);
+    });
+
+    it('should return undefined without words', () => {
+      // ASSERT
+      expect(computeContentFingerprint('  \n — ')).toBeUndefined();
+    });
+  });
+
+  describe('fingerprintStoredContent', () => {
+    it('should fingerprint the main content of stored gzip HTML', async () => {
+      // ARRANGE
+      const html = `<html><body><nav>Home Shop</nav><main><p>${PRODUCT_TEXT}</p></main></body></html>`;
+      const crawlResult = createPages(
+        createCrawlPage('https://example.com/a', {
+          // jsdom's Blob cannot be streamed
+          content: new NodeBlob([gzipSync(html)]) as Blob,
+        }),
+        createCrawlPage('https://example.com/b')
+      );
+
+      // ACT
+      const result = await fingerprintStoredContent(crawlResult);
+
+      // ASSERT
+      expect(result).toBe(true);
+      expect(crawlResult.pages.get('https://example.com/a')?.fingerprint).toEqual(
+        computeContentFingerprint(PRODUCT_TEXT)
+      );
+      expect(crawlResult.pages.get('https://example.com/b')?.fingerprint).toBeUndefined();
+    });
+  });
+
+  describe('getSimilarity', () => {
+    it('should score small edits close to 1 and unrelated text far below', () => {
+      // ARRANGE
+      const original = computeContentFingerprint(PRODUCT_TEXT)!;
+      const edited = computeContentFingerprint(PRODUCT_TEXT.replace('model 7', 'model seven'))!;
+      const unrelated = computeContentFingerprint(OTHER_TEXT)!;
+
+      // ASSERT
+      expect(getSimilarity(original.simhash, original.simhash)).toBe(1);
+      expect(getSimilarity(original.simhash, edited.simhash)).toBeGreaterThanOrEqual(0.9);
+      expect(getSimilarity(original.simhash, unrelated.simhash)).toBeLessThan(0.8);
+    });
+
+    it('should count differing bits', () => {
+      // ASSERT
+      expect(getSimilarity('0000000000000000', '000000000000000f')).toBe(60 / 64);
+      expect(getSimilarity('ffffffff00000000', '00000000ffffffff')).toBe(0);
+    });
+  });
+
+  describe('detectNearDuplicates', () => {
+    it('should cluster exact and near-duplicate pages above the threshold', () => {
+      // ARRANGE
+      const crawlResult = createPages(
+        createPage('https://example.com/a', PRODUCT_TEXT),
+        createPage('https://example.com/guide', OTHER_TEXT),
+        createPage('https://example.com/b', PRODUCT_TEXT.replace('model 7', 'model seven')),
+        createPage('https://example.com/guide-copy', OTHER_TEXT.toUpperCase())
+      );
+
+      // ACT
+      const result = detectNearDuplicates(crawlResult, 0.9);
+
+      // ASSERT
+      expect(result).toHaveLength(2);
+      expect(result[0].exact).toBe(false);
+      expect(result[0].pages.map((page) => page.url)).toEqual([
+        'https://example.com/a',
+        'https://example.com/b',
+      ]);
+      expect(result[0].pages[0].similarity).toBe(1);
+      expect(result[0].similarity).toBe(result[0].pages[1].similarity);
+      expect(result[1]).toEqual({
+        exact: true,
+        similarity: 1,
+        pages: [
+          { url: 'https://example.com/guide', similarity: 1 },
+          { url: 'https://example.com/guide-copy', similarity: 1 },
+        ],
+      });
+    });
+
+    it('should leave out errors, redirects and non-indexable pages', () => {
+      // ARRANGE
+      const crawlResult = createPages(
+        createPage('https://example.com/a', PRODUCT_TEXT),
+        createPage('https://example.com/missing', PRODUCT_TEXT, { status: 404 }),
+        createPage('https://example.com/a?page=1', PRODUCT_TEXT, {
+          indexability: { indexable: false, reasons: ['canonicalized'], nofollow: false },
+        }),
+        createPage('https://example.com/old', PRODUCT_TEXT, {
+          redirectChain: [
+            { url: 'https://example.com/old', status: 301 },
+            { url: 'https://example.com/a', status: 200 },
+          ],
+        })
+      );
+
+      // ACT & ASSERT
+      expect(detectNearDuplicates(crawlResult, 0.9)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Fingerprints the main content of pages with a simhash and clusters exact and
+ * near-duplicate pages
+ */
+
+import { ContentFingerprint, CrawlResult, NearDuplicateCluster } from '@/types';
+import { getWords } from './content-quality';
+import { parseHtml } from './html-parser';
+import { isAuditedPage } from './audited-page';
+
+const FINGERPRINT_BITS = 64;
+
+/**
+ * Words per shingle; overlapping word triples keep the word order significant
+ */
+const SHINGLE_SIZE = 3;
+
+/**
+ * FNV-1a offset bases seeding the two 32-bit halves of a 64-bit hash
+ */
+const SEEDS = [0x811c9dc5, 0x050c5d1f] as const;
+
+/**
+ * FNV-1a followed by the MurmurHash3 finalizer, which spreads single-character
+ * differences over every bit
+ */
+const hash32 = (text: string, seed: number): number => {
+  let hash = seed;
+  for (let index = 0; index < text.length; index++) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+};
+
+const toHex = (halves: number[]): string =>
+  halves.map((half) => half.toString(16).padStart(8, '0')).join('');
+
+const getShingles = (words: string[]): string[] => {
+  if (words.length <= SHINGLE_SIZE) {
+    return [words.join(' ')];
+  }
+  return words
+    .slice(0, words.length - SHINGLE_SIZE + 1)
+    .map((_, index) => words.slice(index, index + SHINGLE_SIZE).join(' '));
+};
+
+/**
+ * Fingerprint of a page's main content text, or undefined when it has no words.
+ * Case, punctuation and whitespace do not change it.
+ */
+export const computeContentFingerprint = (text: string): ContentFingerprint | undefined => {
+  const words = getWords(text);
+  if (words.length === 0) {
+    return undefined;
+  }
+
+  const weights = new Array<number>(FINGERPRINT_BITS).fill(0);
+  getShingles(words).forEach((shingle) => {
+    const halves = SEEDS.map((seed) => hash32(shingle, seed));
+    for (let bit = 0; bit < FINGERPRINT_BITS; bit++) {
+      weights[bit] += (halves[bit >> 5] >>> (bit & 31)) & 1 ? 1 : -1;
+    }
+  });
+
+  const simhash = [0, 0];
+  weights.forEach((weight, bit) => {
+    if (weight > 0) {
+      simhash[bit >> 5] |= 1 << (bit & 31);
+    }
+  });
+
+  const normalized = words.join(' ');
+  return {
+    hash: toHex(SEEDS.map((seed) => hash32(normalized, seed))),
+    simhash: toHex(simhash.map((half) => half >>> 0)),
+  };
+};
+
+/**
+ * Fingerprints the pages crawled before fingerprinting from the gzip-compressed
+ * HTML the Service Worker stores in CrawlPage.content. Returns whether any page
+ * got a fingerprint; runtimes without DecompressionStream leave pages as they are.
+ */
+export const fingerprintStoredContent = async (
+  crawlResult: Pick<CrawlResult, 'pages'>
+): Promise<boolean> => {
+  if (typeof DecompressionStream === 'undefined') {
+    return false;
+  }
+
+  let fingerprinted = false;
+  for (const [url, page] of crawlResult.pages) {
+    if (page.fingerprint || !page.content) {
+      continue;
+    }
+    try {
+      const stream = page.content.stream().pipeThrough(new DecompressionStream('gzip'));
+      const html = await new Response(stream).text();
+      page.fingerprint = computeContentFingerprint(parseHtml(html, url).mainText);
+      fingerprinted ||= page.fingerprint !== undefined;
+    } catch (error) {
+      console.error(`Error reading stored content of ${url}:`, error);
+    }
+  }
+  return fingerprinted;
+};
+
+const countBits = (value: number): number => {
+  let count = 0;
+  for (let bits = value >>> 0; bits !== 0; bits >>>= 1) {
+    count += bits & 1;
+  }
+  return count;
+};
+
+/**
+ * Share of identical simhash bits, from 0 to 1
+ */
+export const getSimilarity = (a: string, b: string): number => {
+  let distance = 0;
+  for (let offset = 0; offset < a.length; offset += 8) {
+    distance += countBits(
+      parseInt(a.slice(offset, offset + 8), 16) ^ parseInt(b.slice(offset, offset + 8), 16)
+    );
+  }
+  return 1 - distance / FINGERPRINT_BITS;
+};
+
+/**
+ * Clusters of pages whose main content is at least `threshold` similar to
+ * another page of the cluster, largest first. Only indexable pages served with
+ * status 200 are compared; similarities are to the first page of each cluster.
+ */
+export const detectNearDuplicates = (
+  crawlResult: Pick<CrawlResult, 'pages'>,
+  threshold: number
+): NearDuplicateCluster[] => {
+  const pages = Array.from(crawlResult.pages.entries())
+    .filter(
+      ([, page]) =>
+        page.fingerprint && isAuditedPage(page) && page.indexability?.indexable !== false
+    )
+    .map(([url, page]) => ({ url, fingerprint: page.fingerprint! }));
+
+  const parents = pages.map((_, index) => index);
+  const find = (index: number): number => {
+    if (parents[index] !== index) {
+      parents[index] = find(parents[index]);
+    }
+    return parents[index];
+  };
+
+  pages.forEach((page, index) => {
+    for (let other = index + 1; other < pages.length; other++) {
+      const similarity = getSimilarity(page.fingerprint.simhash, pages[other].fingerprint.simhash);
+      if (similarity >= threshold) {
+        parents[find(other)] = find(index);
+      }
+    }
+  });
+
+  const clusters = new Map<number, typeof pages>();
+  pages.forEach((page, index) => {
+    const root = find(index);
+    if (!clusters.has(root)) {
+      clusters.set(root, []);
+    }
+    clusters.get(root)!.push(page);
+  });
+
+  return Array.from(clusters.values())
+    .filter((members) => members.length > 1)
+    .map((members) => {
+      const [first] = members;
+      const clusterPages = members.map((page) => ({
+        url: page.url,
+        similarity: getSimilarity(first.fingerprint.simhash, page.fingerprint.simhash),
+      }));
+      return {
+        exact: members.every((page) => page.fingerprint.hash === first.fingerprint.hash),
+        similarity: Math.min(...clusterPages.map((page) => page.similarity)),
+        pages: clusterPages,
+      };
+    })
+    .sort((a, b) => b.pages.length - a.pages.length);
+};
@@ -0,0 +1,95 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Unit tests for content-quality
+ * Coverage: getWords, getContentQuality, detectThinPages
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getWords, getContentQuality, detectThinPages } from './content-quality';
+import { createPage } from '../../../tests/fixtures/crawl-pages';
+
+const words = (count: number) => Array.from({ length: count }, () => 'word').join(' ');
+
+describe('content-quality', () => {
+  describe('getWords', () => {
+    it('should split on anything but letters and digits', () => {
+      // ASSERT
+      expect(getWords('Héllo, wörld! 3 — ok?')).toEqual(['héllo', 'wörld', '3', 'ok']);
+      expect(getWords('  ')).toEqual([]);
+    });
+  });
+
+  describe('getContentQuality', () => {
+    it('should measure the main content and the text to HTML ratio', () => {
+      // ARRANGE
+      const text = { bodyText: ' Menu\n  Hello world ', mainText: ' Hello   world ' };
+
+      // ACT
+      const result = getContentQuality(text, 50);
+
+      // ASSERT
+      expect(result).toEqual({
+        isEmpty: true,
+        contentQuality: { wordCount: 2, mainContentLength: 11, textRatio: 16 / 50, thin: false },
+      });
+    });
+
+    it('should tell empty, thin and sufficient pages apart with the given thresholds', () => {
+      // ARRANGE
+      const quality = (count: number) =>
+        getContentQuality({ bodyText: words(count), mainText: words(count) }, 10000, {
+          emptyWords: 5,
+          thinWords: 50,
+        });
+
+      // ASSERT
+      expect(quality(4).isEmpty).toBe(true);
+      expect(quality(4).contentQuality.thin).toBe(false);
+      expect(quality(5).isEmpty).toBe(false);
+      expect(quality(5).contentQuality.thin).toBe(true);
+      expect(quality(50).contentQuality.thin).toBe(false);
+    });
+
+    it('should ignore boilerplate text outside the main content', () => {
+      // ACT
+      const result = getContentQuality({ bodyText: words(500), mainText: words(3) }, 5000);
+
+      // ASSERT
+      expect(result.isEmpty).toBe(true);
+      expect(result.contentQuality.wordCount).toBe(3);
+    });
+  });
+
+  describe('detectThinPages', () => {
+    it('should list pages recorded as thin', () => {
+      // ARRANGE
+      const thin = createPage('https://example.com/thin', {
+        contentQuality: { wordCount: 40, mainContentLength: 200, textRatio: 0.1, thin: true },
+      });
+      const crawlResult = {
+        pages: new Map([
+          [thin.url, thin],
+          [
+            'https://example.com/full',
+            createPage('https://example.com/full', {
+              contentQuality: {
+                wordCount: 900,
+                mainContentLength: 5000,
+                textRatio: 0.3,
+                thin: false,
+              },
+            }),
+          ],
+          ['https://example.com/legacy', createPage('https://example.com/legacy')],
+        ]),
+      };
+
+      // ACT & ASSERT
+      expect(detectThinPages(crawlResult)).toEqual([thin]);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Measures how much content a page has once navigation, headers, footers,
+ * scripts and styles are left out, and decides whether it is empty or thin
+ */
+
+import { ContentQuality, ContentThresholds, CrawlPage, CrawlResult } from '@/types';
+
+export const DEFAULT_CONTENT_THRESHOLDS: ContentThresholds = {
+  emptyWords: 10,
+  thinWords: 200,
+};
+
+/**
+ * Lowercased words (runs of letters and digits) of a text
+ */
+export const getWords = (text: string): string[] =>
+  text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+const getTextLength = (text: string): number => text.replace(/\s+/g, ' ').trim().length;
+
+/**
+ * Content metrics of a page. `mainText` is the body text outside the page
+ * navigation, header and footer; `bodyText` all visible text. Pages with fewer
+ * main content words than `emptyWords` are empty, and below `thinWords` thin.
+ */
+export const getContentQuality = (
+  text: { bodyText: string; mainText: string },
+  htmlLength: number,
+  thresholds?: Partial<ContentThresholds>
+): { isEmpty: boolean; contentQuality: ContentQuality } => {
+  const { emptyWords, thinWords } = { ...DEFAULT_CONTENT_THRESHOLDS, ...thresholds };
+  const wordCount = getWords(text.mainText).length;
+  const isEmpty = wordCount < emptyWords;
+
+  return {
+    isEmpty,
+    contentQuality: {
+      wordCount,
+      mainContentLength: getTextLength(text.mainText),
+      textRatio: htmlLength > 0 ? getTextLength(text.bodyText) / htmlLength : 0,
+      thin: !isEmpty && wordCount < thinWords,
+    },
+  };
+};
+
+/**
+ * Pages with some main content, but less than the thin threshold. Crawls made
+ * before content metrics have none.
+ */
+export const detectThinPages = (crawlResult: Pick<CrawlResult, 'pages'>): CrawlPage[] => {
+  const thin: CrawlPage[] = [];
+
+  crawlResult.pages.forEach((page) => {
+    if (page.contentQuality?.thin) {
+      thin.push(page);
+    }
+  });
+
+  return thin;
+};
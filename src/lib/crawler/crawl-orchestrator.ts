@@ -7,8 +7,24 @@
  * Orchestrates the crawling process
  */
 
-import { CrawlConfig, CrawlPage, CrawlResult } from '@/types';
+import {
+  CrawlConfig,
+  CrawlPage,
+  CrawlResult,
+  PagePerformance,
+  RedirectHop,
+  ResponseHeaders,
+} from '@/types';
 import { normalizeUrl, isValidUrl } from './link-extractor';
+import {
+  extractPageContent,
+  getIndexability,
+  measurePagePerformance,
+  readResponseHeaders,
+} from './page-extractor';
+import { isPathAllowed } from './sitemap-parser';
+import { calculateClickDepths, getClickDepthRoots } from './click-depth';
+import { isUrlInScope } from './url-rules';
 
 export const initiateCrawl = (config: CrawlConfig): CrawlResult => {
   const crawlId = `crawl-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
@@ -26,6 +42,12 @@ export const initiateCrawl = (config: CrawlConfig): CrawlResult => {
     brokenLinks: new Map(),
     sitemapUrls: [],
     robotsData: null,
+    normalization: config.normalization,
+    scope: config.scope,
+    contentThresholds: config.contentThresholds,
+    nearDuplicateSimilarity: config.nearDuplicateSimilarity,
+    performanceBudgets: config.performanceBudgets,
+    linkWeighting: config.linkWeighting,
     stats: {
       avgResponseTime: 0,
       totalInternalLinks: 0,
@@ -34,30 +56,82 @@ export const initiateCrawl = (config: CrawlConfig): CrawlResult => {
   };
 };
 
+const MAX_REDIRECTS = 10;
+
+const isRedirectStatus = (status: number) => status >= 300 && status < 400 && status !== 304;
+
+/**
+ * Fetches a page, following redirects one hop at a time so each hop is recorded.
+ * Browsers hide the Location header of manual redirects (opaqueredirect), so
+ * there the redirect is followed natively and only the first and final URLs are
+ * known, with the intermediate status reported as 0.
+ */
 export const fetchPage = async (
   url: string,
   timeout: number = 10000
-): Promise<{ status: number; html?: string; error?: string }> => {
+): Promise<{
+  status: number;
+  html?: string;
+  error?: string;
+  redirectChain?: RedirectHop[];
+  responseHeaders?: ResponseHeaders;
+  performance?: PagePerformance;
+}> => {
   try {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const request = (target: string, redirect: RequestRedirect) =>
+      fetch(target, {
+        signal: controller.signal,
+        redirect,
+        headers: {
+          'User-Agent': 'VaporScan/1.0',
+        },
+      });
 
-    const response = await fetch(url, {
-      signal: controller.signal,
-      headers: {
-        'User-Agent': 'VaporScan/1.0',
-      },
-    });
+    const redirectChain: RedirectHop[] = [];
+    let currentUrl = url;
+    let response = await request(currentUrl, 'manual');
 
-    clearTimeout(timeoutId);
+    while (isRedirectStatus(response.status) && response.headers.get('location')) {
+      redirectChain.push({ url: currentUrl, status: response.status });
+      currentUrl = new URL(response.headers.get('location')!, currentUrl).toString();
+
+      if (redirectChain.some((hop) => hop.url === currentUrl)) {
+        clearTimeout(timeoutId);
+        redirectChain.push({ url: currentUrl });
+        return { status: response.status, error: 'Redirect loop', redirectChain };
+      }
+      if (redirectChain.length > MAX_REDIRECTS) {
+        clearTimeout(timeoutId);
+        return { status: response.status, error: 'Too many redirects', redirectChain };
+      }
 
-    if (!response.ok && response.status !== 404) {
-      const html = await response.text();
-      return { status: response.status, html };
+      response = await request(currentUrl, 'manual');
+    }
+
+    if (response.type === 'opaqueredirect') {
+      response = await request(currentUrl, 'follow');
+      if (response.redirected) {
+        redirectChain.push({ url: currentUrl, status: 0 });
+        currentUrl = response.url;
+      }
+    }
+
+    if (redirectChain.length > 0) {
+      redirectChain.push({ url: currentUrl, status: response.status });
     }
 
     const html = await response.text();
-    return { status: response.status, html };
+    clearTimeout(timeoutId);
+
+    return {
+      status: response.status,
+      html,
+      redirectChain: redirectChain.length > 0 ? redirectChain : undefined,
+      responseHeaders: readResponseHeaders(response),
+      performance: measurePagePerformance(html, response.url || currentUrl),
+    };
   } catch (error) {
     if (error instanceof Error) {
       if (error.name === 'AbortError') {
@@ -71,63 +145,29 @@ export const fetchPage = async (
 
 export const createPageFromFetch = async (
   url: string,
-  crawlResult: CrawlResult
+  crawlResult: CrawlResult,
+  timeout?: number
 ): Promise<CrawlPage> => {
-  const normalizedUrl = normalizeUrl(url);
+  const policy = crawlResult.normalization;
+  const normalizedUrl = normalizeUrl(url, policy);
   const startTime = performance.now();
 
-  const { status, html, error } = await fetchPage(url);
+  const fetched = await fetchPage(url, timeout);
+  const { status, html, error, redirectChain, responseHeaders } = fetched;
   const crawlTime = performance.now() - startTime;
 
-  let title: string | undefined;
-  let description: string | undefined;
-  const internalLinks: string[] = [];
-  const externalLinks: string[] = [];
-  let isEmpty = false;
-
-  if (html) {
-    try {
-      const parser = new DOMParser();
-      const doc = parser.parseFromString(html, 'text/html');
-
-      // Extract metadata
-      const titleTag = doc.querySelector('title');
-      title = titleTag?.textContent || undefined;
-
-      const metaDescription = doc.querySelector('meta[name="description"]');
-      description = metaDescription?.getAttribute('content') || undefined;
-
-      // Check if page is empty (minimal content)
-      const bodyText = doc.body?.textContent || '';
-      isEmpty = bodyText.trim().length < 100;
-
-      // Extract links
-      const linkElements = doc.querySelectorAll('a[href]');
-      linkElements.forEach((link) => {
-        const href = link.getAttribute('href');
-        if (href && !href.startsWith('#') && !href.startsWith('mailto:')) {
-          try {
-            const absoluteUrl = new URL(href, url).toString();
-            const normalizedLink = normalizeUrl(absoluteUrl);
-
-            if (normalizeUrl(url).split('/')[2] === normalizedLink.split('/')[2]) {
-              if (!internalLinks.includes(normalizedLink)) {
-                internalLinks.push(normalizedLink);
-              }
-            } else {
-              if (!externalLinks.includes(normalizedLink)) {
-                externalLinks.push(normalizedLink);
-              }
-            }
-          } catch {
-            // Skip invalid URLs
-          }
-        }
-      });
-    } catch {
-      // Continue with empty links
-    }
-  }
+  // Links are internal relative to the start URL (the page itself in manual scans)
+  const content = html
+    ? extractPageContent(html, url, {
+        rootUrl: crawlResult.url || url,
+        normalization: policy,
+        scope: crawlResult.scope,
+        contentThresholds: crawlResult.contentThresholds,
+        xRobotsTag: responseHeaders?.values['x-robots-tag'],
+      })
+    : undefined;
+  const internalLinks = content?.internalLinks ?? [];
+  const externalLinks = content?.externalLinks ?? [];
 
   // Update crawl stats
   crawlResult.stats.totalInternalLinks += internalLinks.length;
@@ -138,19 +178,41 @@ export const createPageFromFetch = async (
     (crawlResult.crawledPages + 1);
   crawlResult.stats.avgResponseTime = avgResponseTime;
 
-  return {
+  const page: CrawlPage = {
     url: normalizedUrl,
     status,
-    title,
-    description,
+    title: content?.title,
+    description: content?.description,
+    canonical: content?.canonical,
     contentLength: html?.length || 0,
-    isEmpty,
+    isEmpty: content?.isEmpty ?? false,
+    contentQuality: content?.contentQuality,
     crawlTime,
     internalLinks,
     externalLinks,
+    links: content?.links ?? [],
     inSitemap: false,
     errorMessage: error,
+    redirectChain,
+    resources: content?.resources ?? [],
+    hreflang: content?.hreflang ?? [],
+    robotsDirectives: content?.robotsDirectives ?? [],
+    structuredData: content?.structuredData ?? [],
+    headings: content?.headings ?? [],
+    images: content?.images ?? [],
+    socialMeta: content?.socialMeta ?? {},
+    httpReferences: content?.httpReferences ?? [],
+    responseHeaders,
+    performance: fetched.performance,
+    fingerprint: content?.fingerprint,
   };
+
+  if (content) {
+    const robotsAllowed = isPathAllowed(new URL(url).pathname, crawlResult.robotsData);
+    page.indexability = getIndexability(page, robotsAllowed, policy);
+  }
+
+  return page;
 };
 
 export const updateCrawlProgress = (crawlResult: CrawlResult, page: CrawlPage): void => {
@@ -170,13 +232,26 @@ export const updateCrawlProgress = (crawlResult: CrawlResult, page: CrawlPage):
   }
 };
 
+const isSeedUrl = (url: string, config: CrawlConfig): boolean => {
+  const key = normalizeUrl(url, config.normalization);
+  return [config.url, ...(config.manualPages ?? [])].some(
+    (seed) => !!seed && normalizeUrl(seed, config.normalization) === key
+  );
+};
+
+/**
+ * `depth` is the URL's link-hop distance from the start URL. Seeds and URLs
+ * only reachable from them (e.g. sitemap entries) have no depth and are not
+ * limited by maxDepth.
+ */
 export const shouldCrawlPage = (
   url: string,
   crawlResult: CrawlResult,
-  config: CrawlConfig
+  config: CrawlConfig,
+  depth?: number
 ): boolean => {
   // Already crawled
-  if (crawlResult.pages.has(normalizeUrl(url))) {
+  if (crawlResult.pages.has(normalizeUrl(url, crawlResult.normalization))) {
     return false;
   }
 
@@ -185,18 +260,24 @@ export const shouldCrawlPage = (
     return false;
   }
 
+  // Disallowed by robots.txt
+  if (config.respectRobotsTxt && !isPathAllowed(new URL(url).pathname, crawlResult.robotsData)) {
+    return false;
+  }
+
   // Max pages reached
   if (config.maxPages && crawlResult.pages.size >= config.maxPages) {
     return false;
   }
 
-  // Check depth (simple check - count slashes)
-  if (config.maxDepth) {
-    const baseDepth = new URL(crawlResult.url).pathname.split('/').length;
-    const pageDepth = new URL(url).pathname.split('/').length;
-    if (pageDepth - baseDepth > config.maxDepth) {
-      return false;
-    }
+  // Too many clicks away from the start URL
+  if (config.maxDepth && depth !== undefined && depth > config.maxDepth) {
+    return false;
+  }
+
+  // Outside the include/exclude rules (the start URL and manual pages are always crawled)
+  if (!isSeedUrl(url, config) && !isUrlInScope(url, config)) {
+    return false;
   }
 
   return true;
@@ -209,10 +290,22 @@ export const enqueuePagesToCrawl = (
 ): void => {
   // Collect all discovered pages
   const toAdd = new Set<string>();
+  const depths = calculateClickDepths(
+    crawlResult.pages,
+    getClickDepthRoots(config),
+    config.normalization
+  );
 
   crawlResult.pages.forEach((page) => {
     page.internalLinks.forEach((link) => {
-      if (shouldCrawlPage(link, crawlResult, config)) {
+      if (
+        shouldCrawlPage(
+          link,
+          crawlResult,
+          config,
+          depths.get(normalizeUrl(link, config.normalization))
+        )
+      ) {
         toAdd.add(link);
       }
     });
@@ -0,0 +1,67 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Unit tests for crawl-scope
+ * Coverage: getRegistrableDomain, isHostInScope, isInternalUrl
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getRegistrableDomain, isHostInScope, isInternalUrl } from './crawl-scope';
+
+describe('crawl-scope', () => {
+  describe('getRegistrableDomain', () => {
+    it('should strip subdomains down to the registered domain', () => {
+      expect(getRegistrableDomain('www.example.com')).toBe('example.com');
+      expect(getRegistrableDomain('a.b.example.com')).toBe('example.com');
+      expect(getRegistrableDomain('example.com')).toBe('example.com');
+    });
+
+    it('should keep multi-part public suffixes and IP addresses intact', () => {
+      expect(getRegistrableDomain('shop.example.co.uk')).toBe('example.co.uk');
+      expect(getRegistrableDomain('192.168.0.1')).toBe('192.168.0.1');
+      expect(getRegistrableDomain('localhost')).toBe('localhost');
+    });
+  });
+
+  describe('isHostInScope', () => {
+    it('should only accept the start host in exact-host mode', () => {
+      expect(isHostInScope('example.com', 'example.com')).toBe(true);
+      expect(isHostInScope('www.example.com', 'example.com')).toBe(false);
+    });
+
+    it('should accept every subdomain of the registrable domain in subdomains mode', () => {
+      // ARRANGE
+      const scope = { mode: 'subdomains' as const };
+
+      // ACT & ASSERT
+      expect(isHostInScope('www.example.com', 'example.com', scope)).toBe(true);
+      expect(isHostInScope('blog.example.com', 'www.example.com', scope)).toBe(true);
+      expect(isHostInScope('example.org', 'example.com', scope)).toBe(false);
+      expect(isHostInScope('other.co.uk', 'example.co.uk', scope)).toBe(false);
+    });
+
+    it('should accept the start host and listed hosts in allowlist mode', () => {
+      // ARRANGE
+      const scope = { mode: 'allowlist' as const, hosts: ['Docs.Example.org'] };
+
+      // ACT & ASSERT
+      expect(isHostInScope('example.com', 'example.com', scope)).toBe(true);
+      expect(isHostInScope('docs.example.org', 'example.com', scope)).toBe(true);
+      expect(isHostInScope('blog.example.com', 'example.com', scope)).toBe(false);
+    });
+  });
+
+  describe('isInternalUrl', () => {
+    it('should compare hosts of the link and the start URL', () => {
+      expect(
+        isInternalUrl('https://blog.example.com/post', 'https://example.com/', {
+          mode: 'subdomains',
+        })
+      ).toBe(true);
+      expect(isInternalUrl('not a url', 'https://example.com/')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Decides which hosts belong to the crawled site (internal links) under the crawl scope mode
+ */
+
+import { CrawlScope, CrawlScopeMode } from '@/types';
+
+export const DEFAULT_CRAWL_SCOPE: CrawlScope = { mode: 'exact-host', hosts: [] };
+
+export const CRAWL_SCOPE_LABELS: Record<CrawlScopeMode, string> = {
+  'exact-host': 'Exact host',
+  subdomains: 'All subdomains',
+  allowlist: 'Host allowlist',
+};
+
+/**
+ * Second-level labels under which domains are registered (example.co.uk).
+ * Not the full public suffix list, but it covers the common country codes.
+ */
+const MULTI_PART_SUFFIXES = new Set([
+  'ac.uk',
+  'co.uk',
+  'gov.uk',
+  'org.uk',
+  'com.au',
+  'net.au',
+  'org.au',
+  'co.nz',
+  'co.jp',
+  'co.kr',
+  'co.in',
+  'co.za',
+  'com.br',
+  'com.cn',
+  'com.mx',
+  'com.tr',
+]);
+
+const isIpAddress = (hostname: string): boolean =>
+  /^\d{1,3}(\.\d{1,3}){3}$/.test(hostname) || hostname.includes(':');
+
+/**
+ * The domain a host was registered under: www.blog.example.co.uk -> example.co.uk
+ */
+export const getRegistrableDomain = (hostname: string): string => {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  if (isIpAddress(host)) {
+    return host;
+  }
+
+  const labels = host.split('.');
+  const suffixLength = MULTI_PART_SUFFIXES.has(labels.slice(-2).join('.')) ? 2 : 1;
+  return labels.slice(-(suffixLength + 1)).join('.');
+};
+
+/**
+ * Whether `hostname` is part of the site rooted at `rootHostname`. The root
+ * host is always in scope; allowlist mode adds the listed hosts.
+ */
+export const isHostInScope = (
+  hostname: string,
+  rootHostname: string,
+  scope: Partial<CrawlScope> = DEFAULT_CRAWL_SCOPE
+): boolean => {
+  const host = hostname.toLowerCase();
+  const root = rootHostname.toLowerCase();
+  if (host === root) {
+    return true;
+  }
+
+  switch (scope.mode) {
+    case 'subdomains':
+      return getRegistrableDomain(host) === getRegistrableDomain(root);
+    case 'allowlist':
+      return (scope.hosts ?? []).some((allowed) => allowed.trim().toLowerCase() === host);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Whether a link to `url` is internal to the site rooted at `rootUrl` (the start URL)
+ */
+export const isInternalUrl = (
+  url: string,
+  rootUrl: string,
+  scope?: Partial<CrawlScope>
+): boolean => {
+  try {
+    return isHostInScope(new URL(url).hostname, new URL(rootUrl).hostname, scope);
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,156 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Unit tests for external-link-checker
+ * Coverage: collectExternalLinks, checkUrl, checkExternalLinks
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { collectExternalLinks, checkUrl, checkExternalLinks } from './external-link-checker';
+import { CrawlPage } from '@/types';
+import { createPage as createCrawlPage } from '../../../tests/fixtures/crawl-pages';
+
+const createPage = (url: string, externalLinks: string[]): CrawlPage =>
+  createCrawlPage(url, { externalLinks });
+
+describe('external-link-checker', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('collectExternalLinks', () => {
+    it('should map unique http(s) links to their referring pages', () => {
+      // ARRANGE
+      const pages = new Map([
+        ['https://example.com/a', createPage('https://example.com/a', ['https://other.com/'])],
+        [
+          'https://example.com/b',
+          createPage('https://example.com/b', ['https://other.com/', 'ftp://files.example.org/']),
+        ],
+      ]);
+
+      // ACT
+      const result = collectExternalLinks(pages);
+
+      // ASSERT
+      expect(Array.from(result.entries())).toEqual([
+        ['https://other.com/', ['https://example.com/a', 'https://example.com/b']],
+      ]);
+    });
+  });
+
+  describe('checkUrl', () => {
+    it('should report the HEAD status when it succeeds', async () => {
+      // ARRANGE
+      global.fetch = vi.fn().mockResolvedValue({ status: 200 });
+
+      // ACT
+      const result = await checkUrl('https://other.com/');
+
+      // ASSERT
+      expect(result).toEqual({
+        url: 'https://other.com/',
+        status: 200,
+        state: 'ok',
+        method: 'HEAD',
+      });
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to GET when the server rejects HEAD', async () => {
+      // ARRANGE
+      global.fetch = vi.fn().mockImplementation(async (_url: string, init: RequestInit) => ({
+        status: init.method === 'HEAD' ? 405 : 404,
+      }));
+
+      // ACT
+      const result = await checkUrl('https://other.com/missing');
+
+      // ASSERT
+      expect(result).toMatchObject({ status: 404, state: 'broken', method: 'GET' });
+    });
+
+    it('should cancel the body of every response once the status is read', async () => {
+      // ARRANGE
+      const cancel = vi.fn().mockResolvedValue(undefined);
+      global.fetch = vi.fn().mockImplementation(async (_url: string, init: RequestInit) => ({
+        status: init.method === 'HEAD' ? 405 : 200,
+        body: { cancel },
+      }));
+
+      // ACT
+      const result = await checkUrl('https://other.com/');
+
+      // ASSERT
+      expect(result).toMatchObject({ status: 200, state: 'ok', method: 'GET' });
+      expect(cancel).toHaveBeenCalledTimes(2);
+    });
+
+    it('should use a no-cors request when CORS hides the response', async () => {
+      // ARRANGE
+      global.fetch = vi.fn().mockImplementation(async (_url: string, init: RequestInit) => {
+        if (init.mode === 'cors') {
+          throw new TypeError('Failed to fetch');
+        }
+        return { status: 0, type: 'opaque' };
+      });
+
+      // ACT
+      const result = await checkUrl('https://other.com/');
+
+      // ASSERT
+      expect(result).toEqual({
+        url: 'https://other.com/',
+        status: 0,
+        state: 'reachable',
+        method: 'GET',
+      });
+    });
+
+    it('should report unreachable hosts with the original error', async () => {
+      // ARRANGE
+      global.fetch = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+
+      // ACT
+      const result = await checkUrl('https://down.example.org/');
+
+      // ASSERT
+      expect(result).toMatchObject({ status: 0, state: 'unreachable', error: 'Failed to fetch' });
+    });
+  });
+
+  describe('checkExternalLinks', () => {
+    it('should check each URL once and list problems first', async () => {
+      // ARRANGE
+      const pages = new Map([
+        [
+          'https://example.com/',
+          createPage('https://example.com/', ['https://a.com/', 'https://b.com/gone']),
+        ],
+        ['https://example.com/x', createPage('https://example.com/x', ['https://a.com/'])],
+      ]);
+      global.fetch = vi.fn().mockImplementation(async (url: string) => ({
+        status: url.includes('gone') ? 410 : 200,
+      }));
+      const onProgress = vi.fn();
+
+      // ACT
+      const result = await checkExternalLinks(pages, { concurrency: 2, onProgress });
+
+      // ASSERT
+      expect(result.map((link) => [link.url, link.state])).toEqual([
+        ['https://b.com/gone', 'broken'],
+        ['https://a.com/', 'ok'],
+      ]);
+      expect(result[1].referencedFrom).toEqual(['https://example.com/', 'https://example.com/x']);
+      expect(onProgress).toHaveBeenLastCalledWith(2, 2);
+    });
+  });
+});
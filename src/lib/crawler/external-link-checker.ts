@@ -0,0 +1,159 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Checks the external links found during a crawl (opt-in phase after the crawl)
+ */
+
+import { config } from '@/config';
+import { CrawlPage, ExternalLinkResult, ExternalLinkState } from '@/types';
+
+export const EXTERNAL_LINK_STATE_LABELS: Record<ExternalLinkState, string> = {
+  ok: 'OK',
+  broken: 'Broken',
+  reachable: 'Reachable (status hidden by CORS)',
+  unreachable: 'Unreachable',
+};
+
+const STATE_ORDER: ExternalLinkState[] = ['broken', 'unreachable', 'reachable', 'ok'];
+
+export interface ExternalLinkCheckOptions {
+  concurrency?: number;
+  timeout?: number;
+  onProgress?: (checked: number, total: number) => void;
+}
+
+type UrlCheck = Omit<ExternalLinkResult, 'referencedFrom'>;
+
+const isTimeout = (error: unknown) => error instanceof Error && error.name === 'AbortError';
+
+const getErrorMessage = (error: unknown) =>
+  isTimeout(error) ? 'Request timeout' : error instanceof Error ? error.message : 'Unknown error';
+
+const request = async (
+  url: string,
+  method: 'HEAD' | 'GET',
+  mode: RequestMode,
+  timeout: number
+): Promise<Response> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  try {
+    const response = await fetch(url, {
+      method,
+      mode,
+      credentials: 'omit',
+      signal: controller.signal,
+    });
+    // Only the status is read: release the connection instead of downloading the body
+    void response.body?.cancel().catch(() => undefined);
+    return response;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+/**
+ * Unique http(s) external URLs mapped to the pages linking to them
+ */
+export const collectExternalLinks = (pages: Map<string, CrawlPage>): Map<string, string[]> => {
+  const referrers = new Map<string, string[]>();
+
+  pages.forEach((page) => {
+    page.externalLinks.forEach((link) => {
+      if (!/^https?:\/\//i.test(link)) {
+        return;
+      }
+      if (!referrers.has(link)) {
+        referrers.set(link, []);
+      }
+      if (!referrers.get(link)!.includes(page.url)) {
+        referrers.get(link)!.push(page.url);
+      }
+    });
+  });
+
+  return referrers;
+};
+
+/**
+ * HEAD first, then GET when the server rejects HEAD. When CORS prevents
+ * reading the response, a no-cors GET still tells whether the server answered.
+ */
+export const checkUrl = async (
+  url: string,
+  timeout: number = config.crawler.defaultExternalLinkTimeout
+): Promise<UrlCheck> => {
+  let method: 'HEAD' | 'GET' = 'HEAD';
+  let corsError: unknown;
+
+  try {
+    let response = await request(url, method, 'cors', timeout);
+    // Some servers answer HEAD with 403/405 or 404 while GET works
+    if (response.status >= 400) {
+      method = 'GET';
+      response = await request(url, method, 'cors', timeout);
+    }
+    return {
+      url,
+      status: response.status,
+      state: response.status >= 400 ? 'broken' : 'ok',
+      method,
+    };
+  } catch (error) {
+    if (isTimeout(error)) {
+      return { url, status: 0, state: 'unreachable', method, error: getErrorMessage(error) };
+    }
+    corsError = error;
+  }
+
+  try {
+    // An opaque response has status 0, but it proves the server answered
+    await request(url, 'GET', 'no-cors', timeout);
+    return { url, status: 0, state: 'reachable', method: 'GET' };
+  } catch (error) {
+    return {
+      url,
+      status: 0,
+      state: 'unreachable',
+      method: 'GET',
+      error: getErrorMessage(isTimeout(error) ? error : corsError),
+    };
+  }
+};
+
+/**
+ * Checks every unique external URL with a pool of `concurrency` workers.
+ * Results are sorted with broken and unreachable links first.
+ */
+export const checkExternalLinks = async (
+  pages: Map<string, CrawlPage>,
+  options: ExternalLinkCheckOptions = {}
+): Promise<ExternalLinkResult[]> => {
+  const {
+    concurrency = config.crawler.defaultExternalLinkConcurrency,
+    timeout = config.crawler.defaultExternalLinkTimeout,
+    onProgress,
+  } = options;
+  const referrers = collectExternalLinks(pages);
+  const queue = Array.from(referrers.keys());
+  const total = queue.length;
+  const results: ExternalLinkResult[] = [];
+
+  const worker = async () => {
+    for (let url = queue.shift(); url !== undefined; url = queue.shift()) {
+      const result = await checkUrl(url, timeout);
+      results.push({ ...result, referencedFrom: referrers.get(url) ?? [] });
+      onProgress?.(results.length, total);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(concurrency, 1), total) }, worker));
+
+  return results.sort(
+    (a, b) =>
+      STATE_ORDER.indexOf(a.state) - STATE_ORDER.indexOf(b.state) || a.url.localeCompare(b.url)
+  );
+};
@@ -0,0 +1,297 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Unit tests for headless-crawler
+ * Coverage: runHeadlessCrawl
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { runHeadlessCrawl } from './headless-crawler';
+import { CrawlConfig } from '@/types';
+
+const FILLER = 'Lorem ipsum dolor sit amet, consectetur adipiscing elit. '.repeat(3);
+
+const mockSite = (routes: Record<string, string>, redirects: Record<string, string> = {}) => {
+  global.fetch = vi.fn().mockImplementation(async (input: string) => {
+    const { pathname } = new URL(input);
+    if (redirects[pathname]) {
+      return {
+        ok: false,
+        status: 301,
+        headers: new Headers({ location: redirects[pathname] }),
+        text: async () => '',
+      };
+    }
+    const body = routes[pathname];
+    return {
+      ok: body !== undefined,
+      status: body !== undefined ? 200 : 404,
+      headers: new Headers(),
+      text: async () => body ?? 'Not found',
+    };
+  });
+};
+
+const baseConfig: CrawlConfig = {
+  url: 'https://example.com/',
+  respectRobotsTxt: true,
+  concurrency: 2,
+};
+
+describe('headless-crawler', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should crawl every reachable internal page', async () => {
+    // ARRANGE
+    mockSite({
+      '/': `<html><body>${FILLER}<a href="/about">About</a><a href="/blog">Blog</a></body></html>`,
+      '/about': `<html><body>${FILLER}<a href="/">Home</a></body></html>`,
+      '/blog': `<html><body>${FILLER}<a href="/blog/post">Post</a></body></html>`,
+      '/blog/post': `<html><body>${FILLER}</body></html>`,
+    });
+
+    // ACT
+    const result = await runHeadlessCrawl(baseConfig);
+
+    // ASSERT
+    expect(result.status).toBe('completed');
+    expect(Array.from(result.pages.keys()).sort()).toEqual([
+      'https://example.com/',
+      'https://example.com/about',
+      'https://example.com/blog',
+      'https://example.com/blog/post',
+    ]);
+    expect(result.totalPages).toBe(4);
+    expect(result.endTime).toBeDefined();
+  });
+
+  it('should record broken pages with their status', async () => {
+    // ARRANGE
+    mockSite({
+      '/': `<html><body>${FILLER}<a href="/missing">Missing</a></body></html>`,
+    });
+
+    // ACT
+    const result = await runHeadlessCrawl(baseConfig);
+
+    // ASSERT
+    expect(result.pages.get('https://example.com/missing')?.status).toBe(404);
+    expect(result.errorCount).toBe(1);
+  });
+
+  it('should stop at maxPages', async () => {
+    // ARRANGE
+    const links = Array.from({ length: 10 }, (_, i) => `<a href="/p${i}">P${i}</a>`).join('');
+    mockSite({ '/': `<html><body>${FILLER}${links}</body></html>` });
+
+    // ACT
+    const result = await runHeadlessCrawl({ ...baseConfig, maxPages: 4 });
+
+    // ASSERT
+    expect(result.pages.size).toBe(4);
+  });
+
+  it('should limit crawl depth by clicks and record each page depth', async () => {
+    // ARRANGE
+    mockSite({
+      '/': `<html><body>${FILLER}<a href="/a/b/c/d">Deep path</a></body></html>`,
+      '/a/b/c/d': `<html><body>${FILLER}<a href="/next">Next</a></body></html>`,
+      '/next': `<html><body>${FILLER}<a href="/too-far">Too far</a></body></html>`,
+      '/too-far': `<html><body>${FILLER}</body></html>`,
+    });
+
+    // ACT
+    const result = await runHeadlessCrawl({ ...baseConfig, maxDepth: 2 });
+
+    // ASSERT
+    expect(result.pages.get('https://example.com/')?.depth).toBe(0);
+    expect(result.pages.get('https://example.com/a/b/c/d')?.depth).toBe(1);
+    expect(result.pages.get('https://example.com/next')?.depth).toBe(2);
+    expect(result.pages.has('https://example.com/too-far')).toBe(false);
+  });
+
+  it('should record every hop of a redirect chain', async () => {
+    // ARRANGE
+    mockSite(
+      {
+        '/': `<html><body>${FILLER}<a href="/old">Old</a></body></html>`,
+        '/new': `<html><body>${FILLER}</body></html>`,
+      },
+      { '/old': '/older', '/older': 'https://example.com/new' }
+    );
+
+    // ACT
+    const result = await runHeadlessCrawl(baseConfig);
+
+    // ASSERT
+    const page = result.pages.get('https://example.com/old');
+    expect(page?.status).toBe(200);
+    expect(page?.redirectChain).toEqual([
+      { url: 'https://example.com/old', status: 301 },
+      { url: 'https://example.com/older', status: 301 },
+      { url: 'https://example.com/new', status: 200 },
+    ]);
+    expect(result.pages.get('https://example.com/')?.redirectChain).toBeUndefined();
+  });
+
+  it('should stop following a redirect loop', async () => {
+    // ARRANGE
+    mockSite(
+      { '/': `<html><body>${FILLER}<a href="/a">A</a></body></html>` },
+      { '/a': '/b', '/b': '/a' }
+    );
+
+    // ACT
+    const result = await runHeadlessCrawl(baseConfig);
+
+    // ASSERT
+    const page = result.pages.get('https://example.com/a');
+    expect(page?.errorMessage).toBe('Redirect loop');
+    expect(page?.redirectChain).toEqual([
+      { url: 'https://example.com/a', status: 301 },
+      { url: 'https://example.com/b', status: 301 },
+      { url: 'https://example.com/a' },
+    ]);
+  });
+
+  it('should resolve the canonical URL of each page', async () => {
+    // ARRANGE
+    mockSite({
+      '/': `<html><head><link rel="canonical" href="/home#top"></head><body>${FILLER}</body></html>`,
+    });
+
+    // ACT
+    const result = await runHeadlessCrawl(baseConfig);
+
+    // ASSERT
+    expect(result.pages.get('https://example.com/')?.canonical).toBe('https://example.com/home');
+  });
+
+  it('should check the internal resources embedded in crawled pages', async () => {
+    // ARRANGE
+    mockSite({
+      '/': `<html><head><link rel="stylesheet" href="/site.css"></head><body>${FILLER}<img src="/missing.png"><img src="https://cdn.example.org/logo.png"></body></html>`,
+      '/site.css': 'body {}',
+    });
+
+    // ACT
+    const result = await runHeadlessCrawl(baseConfig);
+
+    // ASSERT
+    expect(result.pages.get('https://example.com/')?.resources).toHaveLength(3);
+    expect(result.resourceChecks).toEqual([
+      { url: 'https://example.com/site.css', type: 'stylesheet', status: 200, state: 'ok' },
+      { url: 'https://example.com/missing.png', type: 'image', status: 404, state: 'broken' },
+    ]);
+  });
+
+  it('should only crawl discovered URLs allowed by the include/exclude rules', async () => {
+    // ARRANGE
+    mockSite({
+      '/': `<html><body>${FILLER}<a href="/docs/start">Docs</a><a href="/blog">Blog</a></body></html>`,
+      '/docs/start': `<html><body>${FILLER}<a href="/docs/tag/seo">Tag</a></body></html>`,
+      '/docs/tag/seo': `<html><body>${FILLER}</body></html>`,
+      '/blog': `<html><body>${FILLER}</body></html>`,
+    });
+
+    // ACT
+    const result = await runHeadlessCrawl({
+      ...baseConfig,
+      includePatterns: ['/docs/**'],
+      excludePatterns: ['/docs/tag/*'],
+    });
+
+    // ASSERT
+    expect(Array.from(result.pages.keys()).sort()).toEqual([
+      'https://example.com/',
+      'https://example.com/docs/start',
+    ]);
+  });
+
+  it('should follow links to subdomains in subdomains scope', async () => {
+    // ARRANGE
+    mockSite({
+      '/': `<html><body>${FILLER}<a href="https://blog.example.com/post">Blog</a></body></html>`,
+      '/post': `<html><body>${FILLER}<a href="https://other.com/">Other</a></body></html>`,
+    });
+
+    // ACT
+    const exactHost = await runHeadlessCrawl(baseConfig);
+    const subdomains = await runHeadlessCrawl({ ...baseConfig, scope: { mode: 'subdomains' } });
+
+    // ASSERT
+    expect(exactHost.pages.get('https://example.com/')?.externalLinks).toEqual([
+      'https://blog.example.com/post',
+    ]);
+    expect(exactHost.pages.has('https://blog.example.com/post')).toBe(false);
+    expect(Array.from(subdomains.pages.keys()).sort()).toEqual([
+      'https://blog.example.com/post',
+      'https://example.com/',
+    ]);
+    expect(subdomains.pages.get('https://blog.example.com/post')?.externalLinks).toEqual([
+      'https://other.com/',
+    ]);
+  });
+
+  it('should skip pages disallowed by robots.txt', async () => {
+    // ARRANGE
+    mockSite({
+      '/robots.txt': 'User-agent: *\nDisallow: /private',
+      '/': `<html><body>${FILLER}<a href="/private/page">Secret</a><a href="/public">Public</a></body></html>`,
+      '/public': `<html><body>${FILLER}</body></html>`,
+    });
+
+    // ACT
+    const result = await runHeadlessCrawl(baseConfig);
+
+    // ASSERT
+    expect(result.robotsData?.disallow).toContain('/private');
+    expect(result.pages.has('https://example.com/public')).toBe(true);
+    expect(result.pages.has('https://example.com/private/page')).toBe(false);
+  });
+
+  it('should crawl sitemap URLs and mark them as in sitemap', async () => {
+    // ARRANGE
+    mockSite({
+      '/robots.txt': 'User-agent: *\nSitemap: https://example.com/sitemap.xml',
+      '/sitemap.xml': `<?xml version="1.0"?>
+        <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+          <url><loc>https://example.com/landing</loc></url>
+        </urlset>`,
+      '/': `<html><body>${FILLER}</body></html>`,
+      '/landing': `<html><body>${FILLER}</body></html>`,
+    });
+
+    // ACT
+    const result = await runHeadlessCrawl(baseConfig);
+
+    // ASSERT
+    expect(result.sitemapUrls).toEqual(['https://example.com/landing']);
+    expect(result.pages.get('https://example.com/landing')?.inSitemap).toBe(true);
+    expect(result.pages.get('https://example.com/')?.inSitemap).toBe(false);
+  });
+
+  it('should report each crawled page through onPage', async () => {
+    // ARRANGE
+    mockSite({
+      '/': `<html><body>${FILLER}<a href="/about">About</a></body></html>`,
+      '/about': `<html><body>${FILLER}</body></html>`,
+    });
+    const onPage = vi.fn();
+
+    // ACT
+    await runHeadlessCrawl(baseConfig, { onPage });
+
+    // ASSERT
+    expect(onPage).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,110 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Runs a complete crawl without the Service Worker (CLI, CI, tests)
+ */
+
+import { CrawlConfig, CrawlPage, CrawlResult } from '@/types';
+import { delay } from '@/lib/utils';
+import {
+  initiateCrawl,
+  createPageFromFetch,
+  updateCrawlProgress,
+  shouldCrawlPage,
+  enqueuePagesToCrawl,
+} from './crawl-orchestrator';
+import { discoverUrls } from './sitemap-parser';
+import { normalizeUrl } from './link-extractor';
+import { calculateClickDepths, getClickDepthRoots } from './click-depth';
+import { checkExternalLinks } from './external-link-checker';
+import { checkResources } from './resource-checker';
+
+export interface HeadlessCrawlOptions {
+  onPage?: (page: CrawlPage, crawlResult: CrawlResult) => void;
+}
+
+export const runHeadlessCrawl = async (
+  config: CrawlConfig,
+  options: HeadlessCrawlOptions = {}
+): Promise<CrawlResult> => {
+  const crawlResult = initiateCrawl(config);
+  crawlResult.status = 'crawling';
+
+  const { sitemapUrls, robotsData } = await discoverUrls(
+    config.url,
+    config.respectRobotsTxt,
+    config.normalization
+  );
+  crawlResult.sitemapUrls = Array.from(sitemapUrls);
+  crawlResult.robotsData = robotsData;
+
+  // Like the Service Worker, a robots.txt crawl-delay forces serial requests
+  const crawlDelayMs = robotsData?.crawlDelay ? robotsData.crawlDelay * 1000 : 0;
+  const batchConfig: CrawlConfig = crawlDelayMs > 0 ? { ...config, concurrency: 1 } : config;
+  const concurrency = batchConfig.concurrency || 5;
+
+  const seeds = [config.url, ...(config.manualPages ?? []), ...crawlResult.sitemapUrls];
+  const queue = new Set<string>();
+
+  for (;;) {
+    // Seed URLs first, then links discovered on crawled pages
+    while (queue.size < concurrency && seeds.length > 0) {
+      const seed = normalizeUrl(seeds.shift()!, config.normalization);
+      if (shouldCrawlPage(seed, crawlResult, batchConfig)) {
+        queue.add(seed);
+      }
+    }
+    enqueuePagesToCrawl(crawlResult, batchConfig, queue);
+
+    if (queue.size === 0) {
+      break;
+    }
+
+    const remaining = config.maxPages ? config.maxPages - crawlResult.pages.size : queue.size;
+    const batch = Array.from(queue).slice(0, remaining);
+    queue.clear();
+
+    await Promise.all(
+      batch.map(async (url) => {
+        const page = await createPageFromFetch(url, crawlResult, config.timeout);
+        page.inSitemap = sitemapUrls.has(page.url);
+        updateCrawlProgress(crawlResult, page);
+        options.onPage?.(page, crawlResult);
+      })
+    );
+
+    if (crawlDelayMs > 0) {
+      await delay(crawlDelayMs);
+    }
+  }
+
+  const depths = calculateClickDepths(
+    crawlResult.pages,
+    getClickDepthRoots(config),
+    config.normalization
+  );
+  crawlResult.pages.forEach((page) => {
+    page.depth = depths.get(page.url);
+  });
+
+  crawlResult.resourceChecks = await checkResources(crawlResult, {
+    concurrency,
+    timeout: config.timeout,
+  });
+
+  if (config.externalLinkCheck?.enabled) {
+    crawlResult.externalLinks = await checkExternalLinks(crawlResult.pages, {
+      concurrency: config.externalLinkCheck.concurrency,
+      timeout: config.externalLinkCheck.timeout,
+    });
+  }
+
+  crawlResult.status = 'completed';
+  crawlResult.endTime = Date.now();
+  crawlResult.totalPages = crawlResult.pages.size;
+
+  return crawlResult;
+};
@@ -0,0 +1,142 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Unit tests for hreflang-validator
+ * Coverage: isValidHreflang, detectHreflangIssues, buildHreflangClusters
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isValidHreflang, detectHreflangIssues, buildHreflangClusters } from './hreflang-validator';
+import { CrawlPage, HreflangAnnotation } from '@/types';
+import { createPage as createCrawlPage, createPages } from '../../../tests/fixtures/crawl-pages';
+
+const createPage = (
+  url: string,
+  hreflang: HreflangAnnotation[],
+  overrides?: Partial<CrawlPage>
+): CrawlPage => createCrawlPage(url, { canonical: url, hreflang, ...overrides });
+
+const EN = 'https://example.com/en/';
+const DE = 'https://example.com/de/';
+const FR = 'https://example.com/fr/';
+
+const alternates = (...entries: [string, string][]): HreflangAnnotation[] =>
+  entries.map(([hreflang, url]) => ({ hreflang, url }));
+
+describe('hreflang-validator', () => {
+  describe('isValidHreflang', () => {
+    it('should accept languages with optional script and region', () => {
+      // ASSERT
+      expect(isValidHreflang('en')).toBe(true);
+      expect(isValidHreflang('en-GB')).toBe(true);
+      expect(isValidHreflang('zh-Hant-TW')).toBe(true);
+      expect(isValidHreflang('es-419')).toBe(true);
+      expect(isValidHreflang('X-Default')).toBe(true);
+    });
+
+    it('should reject unknown codes and wrong separators', () => {
+      // ASSERT
+      expect(isValidHreflang('en-UK')).toBe(false);
+      expect(isValidHreflang('en_US')).toBe(false);
+      expect(isValidHreflang('eng')).toBe(false);
+      expect(isValidHreflang('GB')).toBe(false);
+      expect(isValidHreflang('en-GB-US')).toBe(false);
+    });
+  });
+
+  describe('detectHreflangIssues', () => {
+    it('should report nothing for a complete reciprocal cluster', () => {
+      // ARRANGE
+      const annotations = alternates(['en', EN], ['de', DE], ['x-default', EN]);
+      const crawlResult = createPages(createPage(EN, annotations), createPage(DE, annotations));
+
+      // ACT & ASSERT
+      expect(detectHreflangIssues(crawlResult)).toEqual([]);
+    });
+
+    it('should report missing self-references, x-default and return links', () => {
+      // ARRANGE
+      const crawlResult = createPages(
+        createPage(EN, alternates(['en', EN], ['de', DE], ['x-default', EN])),
+        createPage(DE, alternates(['fr', FR])),
+        createPage(FR, alternates(['fr', FR], ['de', DE], ['x-default', FR]))
+      );
+
+      // ACT
+      const result = detectHreflangIssues(crawlResult);
+
+      // ASSERT
+      expect(result).toEqual([
+        { url: EN, type: 'missing-return-link', hreflang: 'de', target: DE },
+        { url: DE, type: 'missing-self-reference' },
+        { url: DE, type: 'missing-x-default' },
+      ]);
+    });
+
+    it('should report invalid codes and alternates that are not 200 or not canonical', () => {
+      // ARRANGE
+      const crawlResult = createPages(
+        createPage(EN, alternates(['en-UK', EN], ['de', DE], ['fr', FR], ['x-default', EN])),
+        createPage(DE, [], { status: 404 }),
+        createPage(FR, alternates(['en', EN], ['fr', FR], ['x-default', EN]), { canonical: EN })
+      );
+
+      // ACT
+      const result = detectHreflangIssues(crawlResult);
+
+      // ASSERT
+      expect(result).toEqual([
+        { url: EN, type: 'invalid-code', hreflang: 'en-UK', target: EN },
+        { url: EN, type: 'non-200-target', hreflang: 'de', target: DE, targetStatus: 404 },
+        { url: EN, type: 'non-canonical-target', hreflang: 'fr', target: FR },
+      ]);
+    });
+
+    it('should not check alternates that were not crawled', () => {
+      // ARRANGE
+      const crawlResult = createPages(
+        createPage(EN, alternates(['en', EN], ['de', 'https://example.de/'], ['x-default', EN]))
+      );
+
+      // ACT & ASSERT
+      expect(detectHreflangIssues(crawlResult)).toEqual([]);
+    });
+  });
+
+  describe('buildHreflangClusters', () => {
+    it('should group connected pages into one matrix per cluster', () => {
+      // ARRANGE
+      const crawlResult = createPages(
+        createPage(EN, alternates(['x-default', EN], ['en', EN], ['de', DE])),
+        createPage(DE, alternates(['de', DE])),
+        createPage(
+          'https://example.com/en/other',
+          alternates(['en', 'https://example.com/en/other'])
+        ),
+        createPage('https://example.com/plain', [])
+      );
+
+      // ACT
+      const result = buildHreflangClusters(crawlResult);
+
+      // ASSERT
+      expect(result).toHaveLength(2);
+      expect(result[0].languages).toEqual(['de', 'en', 'x-default']);
+      expect(result[0].pages).toEqual([
+        { url: DE, alternates: { de: { url: DE, status: 200 } } },
+        {
+          url: EN,
+          alternates: {
+            'x-default': { url: EN, status: 200 },
+            en: { url: EN, status: 200 },
+            de: { url: DE, status: 200, issue: 'missing-return-link' },
+          },
+        },
+      ]);
+      expect(result[1].pages.map((page) => page.url)).toEqual(['https://example.com/en/other']);
+    });
+  });
+});
@@ -0,0 +1,241 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Validates <link rel="alternate" hreflang> annotations and groups pages into hreflang clusters
+ */
+
+import {
+  CrawlPage,
+  CrawlResult,
+  HreflangAnnotation,
+  HreflangCluster,
+  HreflangClusterPage,
+  HreflangIssue,
+  HreflangIssueType,
+  HreflangMatrixCell,
+  NormalizationPolicy,
+} from '@/types';
+import { getCanonicalKey, getCanonicalTarget } from './canonical-detector';
+import { isAuditedPage } from './audited-page';
+
+export const HREFLANG_ISSUE_LABELS: Record<HreflangIssueType, string> = {
+  'invalid-code': 'Invalid language or region code',
+  'missing-self-reference': 'Missing self-reference',
+  'missing-x-default': 'Missing x-default',
+  'missing-return-link': 'Missing return link',
+  'non-200-target': 'Alternate does not return 200',
+  'non-canonical-target': 'Alternate is not canonical',
+};
+
+const X_DEFAULT = 'x-default';
+
+/**
+ * ISO 639-1 language codes, the only language codes hreflang accepts
+ */
+const LANGUAGES = new Set(
+  (
+    'aa ab ae af ak am an ar as av ay az ba be bg bh bi bm bn bo br bs ca ce ch co cr cs cu cv ' +
+    'cy da de dv dz ee el en eo es et eu fa ff fi fj fo fr fy ga gd gl gn gu gv ha he hi ho hr ' +
+    'ht hu hy hz ia id ie ig ii ik io is it iu ja jv ka kg ki kj kk kl km kn ko kr ks ku kv kw ' +
+    'ky la lb lg li ln lo lt lu lv mg mh mi mk ml mn mr ms mt my na nb nd ne ng nl nn no nr nv ' +
+    'ny oc oj om or os pa pi pl ps pt qu rm rn ro ru rw sa sc sd se sg si sk sl sm sn so sq sr ' +
+    'ss st su sv sw ta te tg th ti tk tl tn to tr ts tt tw ty ug uk ur uz ve vi vo wa wo xh yi ' +
+    'yo za zh zu'
+  ).split(' ')
+);
+
+/**
+ * ISO 3166-1 alpha-2 region codes (UK is not one of them; Great Britain is GB)
+ */
+const REGIONS = new Set(
+  (
+    'AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL BM BN BO BQ ' +
+    'BR BS BT BV BW BY BZ CA CC CD CF CG CH CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM ' +
+    'DO DZ EC EE EG EH ER ES ET FI FJ FK FM FO FR GA GB GD GE GF GG GH GI GL GM GN GP GQ GR GS ' +
+    'GT GU GW GY HK HM HN HR HT HU ID IE IL IM IN IO IQ IR IS IT JE JM JO JP KE KG KH KI KM KN ' +
+    'KP KR KW KY KZ LA LB LC LI LK LR LS LT LU LV LY MA MC MD ME MF MG MH MK ML MM MN MO MP MQ ' +
+    'MR MS MT MU MV MW MX MY MZ NA NC NE NF NG NI NL NO NP NR NU NZ OM PA PE PF PG PH PK PL PM ' +
+    'PN PR PS PT PW PY QA RE RO RS RU RW SA SB SC SD SE SG SH SI SJ SK SL SM SN SO SR SS ST SV ' +
+    'SX SY SZ TC TD TF TG TH TJ TK TL TM TN TO TR TT TV TW TZ UA UG UM US UY UZ VA VC VE VG VI ' +
+    'VN VU WF WS YE YT ZA ZM ZW'
+  ).split(' ')
+);
+
+/**
+ * Whether an hreflang value is x-default or a language, optionally followed
+ * by a script (zh-Hant) and a region (en-GB, or a UN M.49 area such as es-419)
+ */
+export const isValidHreflang = (code: string): boolean => {
+  if (code.toLowerCase() === X_DEFAULT) {
+    return true;
+  }
+  const [language, ...subtags] = code.split('-');
+  if (!LANGUAGES.has(language.toLowerCase())) {
+    return false;
+  }
+  if (/^[a-z]{4}$/i.test(subtags[0] ?? '')) {
+    subtags.shift();
+  }
+  if (subtags.length === 0) {
+    return true;
+  }
+  return (
+    subtags.length === 1 && (REGIONS.has(subtags[0].toUpperCase()) || /^\d{3}$/.test(subtags[0]))
+  );
+};
+
+/**
+ * Only successfully served pages are expected to carry annotations
+ */
+const isAnnotatedPage = (page: CrawlPage): boolean =>
+  isAuditedPage(page) && (page.hreflang?.length ?? 0) > 0;
+
+/**
+ * Checks one annotation of `page` against the alternate it points to. Alternates
+ * that were not crawled can only be checked for a valid code.
+ */
+const checkAlternate = (
+  page: CrawlPage,
+  annotation: HreflangAnnotation,
+  pagesByUrl: Map<string, CrawlPage>,
+  policy?: Partial<NormalizationPolicy>
+): HreflangMatrixCell => {
+  const key = getCanonicalKey(annotation.url, policy);
+  const target = pagesByUrl.get(key);
+  const cell: HreflangMatrixCell = { url: annotation.url, status: target?.status };
+
+  if (!isValidHreflang(annotation.hreflang)) {
+    return { ...cell, issue: 'invalid-code' };
+  }
+  if (!target || key === getCanonicalKey(page.url, policy)) {
+    return cell;
+  }
+  if (target.status !== 200 || target.redirectChain) {
+    return { ...cell, issue: 'non-200-target' };
+  }
+  if (getCanonicalTarget(target, policy)) {
+    return { ...cell, issue: 'non-canonical-target' };
+  }
+  const pageKey = getCanonicalKey(page.url, policy);
+  const returnsLink = target.hreflang?.some(
+    (alternate) => getCanonicalKey(alternate.url, policy) === pageKey
+  );
+  return returnsLink ? cell : { ...cell, issue: 'missing-return-link' };
+};
+
+const getPagesByUrl = (
+  crawlResult: Pick<CrawlResult, 'pages' | 'normalization'>
+): Map<string, CrawlPage> => {
+  const pagesByUrl = new Map<string, CrawlPage>();
+  crawlResult.pages.forEach((page) =>
+    pagesByUrl.set(getCanonicalKey(page.url, crawlResult.normalization), page)
+  );
+  return pagesByUrl;
+};
+
+export const detectHreflangIssues = (
+  crawlResult: Pick<CrawlResult, 'pages' | 'normalization'>
+): HreflangIssue[] => {
+  const policy = crawlResult.normalization;
+  const pagesByUrl = getPagesByUrl(crawlResult);
+  const issues: HreflangIssue[] = [];
+
+  crawlResult.pages.forEach((page, url) => {
+    if (!isAnnotatedPage(page)) {
+      return;
+    }
+    const annotations = page.hreflang!;
+    const pageKey = getCanonicalKey(page.url, policy);
+
+    if (!annotations.some((annotation) => getCanonicalKey(annotation.url, policy) === pageKey)) {
+      issues.push({ url, type: 'missing-self-reference' });
+    }
+    if (!annotations.some((annotation) => annotation.hreflang.toLowerCase() === X_DEFAULT)) {
+      issues.push({ url, type: 'missing-x-default' });
+    }
+
+    annotations.forEach((annotation) => {
+      const cell = checkAlternate(page, annotation, pagesByUrl, policy);
+      if (cell.issue) {
+        issues.push({
+          url,
+          type: cell.issue,
+          hreflang: annotation.hreflang,
+          target: annotation.url,
+          ...(cell.issue === 'non-200-target' && { targetStatus: cell.status }),
+        });
+      }
+    });
+  });
+
+  return issues;
+};
+
+/**
+ * Groups annotated pages that point at each other (directly or through other
+ * alternates) into clusters, with the matrix of alternates each page declares
+ */
+export const buildHreflangClusters = (
+  crawlResult: Pick<CrawlResult, 'pages' | 'normalization'>
+): HreflangCluster[] => {
+  const policy = crawlResult.normalization;
+  const pagesByUrl = getPagesByUrl(crawlResult);
+  const parents = new Map<string, string>();
+
+  const find = (key: string): string => {
+    const parent = parents.get(key) ?? key;
+    if (parent === key) {
+      return key;
+    }
+    const root = find(parent);
+    parents.set(key, root);
+    return root;
+  };
+
+  const annotated = Array.from(crawlResult.pages.values()).filter(isAnnotatedPage);
+  annotated.forEach((page) => {
+    const pageRoot = find(getCanonicalKey(page.url, policy));
+    page.hreflang!.forEach((annotation) => {
+      const targetRoot = find(getCanonicalKey(annotation.url, policy));
+      if (targetRoot !== pageRoot) {
+        parents.set(targetRoot, pageRoot);
+      }
+    });
+  });
+
+  const clusters = new Map<string, HreflangCluster>();
+  annotated.forEach((page) => {
+    const root = find(getCanonicalKey(page.url, policy));
+    if (!clusters.has(root)) {
+      clusters.set(root, { languages: [], pages: [] });
+    }
+    const cluster = clusters.get(root)!;
+    const row: HreflangClusterPage = { url: page.url, alternates: {} };
+
+    page.hreflang!.forEach((annotation) => {
+      // The first annotation for a value wins, like in search engines
+      if (!(annotation.hreflang in row.alternates)) {
+        row.alternates[annotation.hreflang] = checkAlternate(page, annotation, pagesByUrl, policy);
+      }
+      if (!cluster.languages.includes(annotation.hreflang)) {
+        cluster.languages.push(annotation.hreflang);
+      }
+    });
+    cluster.pages.push(row);
+  });
+
+  return Array.from(clusters.values())
+    .map((cluster) => ({
+      // x-default goes last, after the languages it falls back from
+      languages: cluster.languages.sort(
+        (a, b) =>
+          Number(a.toLowerCase() === X_DEFAULT) - Number(b.toLowerCase() === X_DEFAULT) ||
+          a.localeCompare(b)
+      ),
+      pages: cluster.pages.sort((a, b) => a.url.localeCompare(b.url)),
+    }))
+    .sort((a, b) => a.pages[0].url.localeCompare(b.pages[0].url));
+};
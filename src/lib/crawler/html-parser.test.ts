@@ -0,0 +1,291 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Unit tests for html-parser
+ * Coverage: decodeEntities, tokenizeHtml, parseSrcset, parseHtml
+ */
+
+import { describe, it, expect } from 'vitest';
+import { decodeEntities, tokenizeHtml, parseSrcset, parseHtml } from './html-parser';
+
+describe('html-parser', () => {
+  describe('decodeEntities', () => {
+    it('should decode named and numeric character references', () => {
+      expect(decodeEntities('Fish &amp; Chips &#8211; &#x2014; &lt;b&gt; &copy;')).toBe(
+        'Fish & Chips – — <b> &copy;'
+      );
+    });
+  });
+
+  describe('tokenizeHtml', () => {
+    it('should parse quoted, unquoted and valueless attributes', () => {
+      // ACT
+      const tokens = tokenizeHtml(`<A HREF=/a data-x='1 > 0' hidden title="x">Text</a>`);
+
+      // ASSERT
+      expect(tokens).toEqual([
+        {
+          type: 'start',
+          name: 'a',
+          attributes: { href: '/a', 'data-x': '1 > 0', hidden: '', title: 'x' },
+        },
+        { type: 'text', text: 'Text' },
+        { type: 'end', name: 'a' },
+      ]);
+    });
+
+    it('should keep script content as text and drop comments', () => {
+      // ACT
+      const tokens = tokenizeHtml(
+        `<!-- <a href="/x"> --><script>if (a < b) '<a href="/y">';</script>`
+      );
+
+      // ASSERT
+      expect(tokens).toEqual([
+        { type: 'start', name: 'script', attributes: {} },
+        { type: 'text', text: `if (a < b) '<a href="/y">';` },
+        { type: 'end', name: 'script' },
+      ]);
+    });
+  });
+
+  describe('parseSrcset', () => {
+    it('should return the URL of each candidate', () => {
+      expect(parseSrcset(' small.jpg 480w,  large.jpg 1080w ,')).toEqual([
+        'small.jpg',
+        'large.jpg',
+      ]);
+    });
+  });
+
+  describe('parseHtml', () => {
+    it('should read the title, description and canonical', () => {
+      // ARRANGE
+      const html = `<head><title>A &amp; B</title>
+        <meta name="Description" content=" About us ">
+        <link rel="alternate canonical" href="/about#top"></head>`;
+
+      // ACT
+      const result = parseHtml(html, 'https://example.com/about?ref=1');
+
+      // ASSERT
+      expect(result.title).toBe('A & B');
+      expect(result.description).toBe('About us');
+      expect(result.canonical).toBe('https://example.com/about');
+    });
+
+    it('should read hreflang annotations with absolute URLs', () => {
+      // ARRANGE
+      const html = `<head>
+        <link rel="alternate" hreflang="en-GB" href="/uk/">
+        <link rel="alternate" hreflang=" x-default " href="https://example.com/#top">
+        <link rel="alternate" type="application/rss+xml" href="/feed.xml">
+      </head>`;
+
+      // ACT
+      const result = parseHtml(html, 'https://example.com/');
+
+      // ASSERT
+      expect(result.hreflang).toEqual([
+        { hreflang: 'en-GB', url: 'https://example.com/uk/' },
+        { hreflang: 'x-default', url: 'https://example.com/' },
+      ]);
+    });
+
+    it('should resolve links against the first <base href>', () => {
+      // ARRANGE
+      const html = `<a href="one">1</a><base href="/v2/"><base href="/v3/"><a href="two#x">2</a>`;
+
+      // ACT
+      const result = parseHtml(html, 'https://example.com/docs/page');
+
+      // ASSERT
+      expect(result.baseUrl).toBe('https://example.com/v2/');
+      expect(result.links.map((link) => link.url)).toEqual([
+        'https://example.com/v2/one',
+        'https://example.com/v2/two',
+      ]);
+    });
+
+    it('should skip fragment, mailto, tel and javascript links', () => {
+      // ARRANGE
+      const html = `<a href="#top">Top</a><a href="mailto:a@b.c">Mail</a><a href="tel:1">Call</a>
+        <a href="javascript:void(0)">JS</a><a href="">Empty</a><a href="/ok">OK</a>`;
+
+      // ACT
+      const result = parseHtml(html, 'https://example.com/');
+
+      // ASSERT
+      expect(result.links.map((link) => link.url)).toEqual(['https://example.com/ok']);
+    });
+
+    it('should record the anchor text, rel and position of each link', () => {
+      // ARRANGE
+      const html = `<div role="navigation"><div><a href="/a">  A  </a></div></div>
+        <article><footer><a href="/b" rel="NoFollow UGC"><img alt="B"></a></footer></article>
+        <div role="contentinfo"><a href="/c"><span></span></a>`;
+
+      // ACT
+      const result = parseHtml(html, 'https://example.com/');
+
+      // ASSERT
+      expect(result.links).toEqual([
+        { url: 'https://example.com/a', text: 'A', rel: [], position: 'nav' },
+        { url: 'https://example.com/b', text: 'B', rel: ['nofollow', 'ugc'], position: 'body' },
+        { url: 'https://example.com/c', text: '', rel: [], position: 'footer' },
+      ]);
+    });
+
+    it('should only count text outside the head, scripts and styles', () => {
+      // ARRANGE
+      const html = `<html><head><title>Title</title><style>p { color: red }</style></head>
+        <body><p>Hello</p> <script>var x = 1;</script> <p>world</p></body></html>`;
+
+      // ACT
+      const result = parseHtml(html, 'https://example.com/');
+
+      // ASSERT
+      expect(result.bodyText.replace(/\s+/g, ' ').trim()).toBe('Hello world');
+    });
+
+    it('should leave the page navigation, header and footer out of the main text', () => {
+      // ARRANGE
+      const html = `<header><a href="/">Home</a></header><nav>Menu</nav>
+        <main><article><header>Post title</header> <p>Post body</p></article></main>
+        <footer>Copyright</footer>`;
+
+      // ACT
+      const result = parseHtml(html, 'https://example.com/');
+
+      // ASSERT
+      expect(result.mainText.replace(/\s+/g, ' ').trim()).toBe('Post title Post body');
+    });
+
+    it('should record headings with their level and text', () => {
+      // ARRANGE
+      const html = `<h1><a href="/"><img src="/logo.png" alt="Example"></a></h1>
+        <h2>Getting   <em>started</em></h2><h4>Install</h4>`;
+
+      // ACT
+      const result = parseHtml(html, 'https://example.com/');
+
+      // ASSERT
+      expect(result.headings).toEqual([
+        { level: 1, text: 'Example' },
+        { level: 2, text: 'Getting started' },
+        { level: 4, text: 'Install' },
+      ]);
+    });
+
+    it('should record http:// subresources and form actions once per element type', () => {
+      // ARRANGE
+      const html = `<head>
+        <link rel="stylesheet" href="http://cdn.example.com/site.css">
+        <link rel="shortcut icon" href="http://example.com/favicon.ico">
+        <link rel="canonical" href="http://example.com/">
+        <script src="http://cdn.example.com/app.js"></script>
+      </head><body>
+        <img src="http://cdn.example.com/a.png" srcset="https://cdn.example.com/a@2x.png 2x">
+        <img src="http://cdn.example.com/a.png">
+        <iframe src="//video.example.org/embed"></iframe>
+        <form action="http://example.com/search"></form>
+        <a href="http://example.com/about">About</a>
+      </body>`;
+
+      // ACT
+      const result = parseHtml(html, 'http://example.com/');
+
+      // ASSERT
+      expect(result.httpReferences).toEqual([
+        { url: 'http://cdn.example.com/site.css', element: 'link' },
+        { url: 'http://example.com/favicon.ico', element: 'link' },
+        { url: 'http://cdn.example.com/app.js', element: 'script' },
+        { url: 'http://cdn.example.com/a.png', element: 'img' },
+        { url: 'http://video.example.org/embed', element: 'iframe' },
+        { url: 'http://example.com/search', element: 'form' },
+      ]);
+    });
+
+    it('should read Open Graph and Twitter Card tags from property or name', () => {
+      // ARRANGE
+      const html = `<head>
+        <meta property="og:title" content=" Kettles ">
+        <meta property="OG:Title" content="Ignored second title">
+        <meta name="twitter:card" content="summary_large_image">
+        <meta property="og:image" content="">
+        <meta name="author" content="Team">
+      </head>`;
+
+      // ACT
+      const result = parseHtml(html, 'https://example.com/');
+
+      // ASSERT
+      expect(result.socialMeta).toEqual({
+        'og:title': 'Kettles',
+        'twitter:card': 'summary_large_image',
+      });
+    });
+
+    it('should record images with their alt text, dimensions and srcset', () => {
+      // ARRANGE
+      const html = `<img src="/hero.jpg" alt=" Team  at work " width=800 height="600"
+          loading=LAZY srcset="/hero-2x.jpg 2x, https://cdn.example.com/hero-3x.jpg 3x">
+        <a href="/"><img src="/logo.png" alt=""></a>
+        <a href="/shop"><img src="/cart.svg" role="presentation"> Shop</a>
+        <img src="data:image/gif;base64,R0lGOD"><img alt="No source">`;
+
+      // ACT
+      const result = parseHtml(html, 'https://example.com/');
+
+      // ASSERT
+      expect(result.images).toEqual([
+        {
+          url: 'https://example.com/hero.jpg',
+          alt: 'Team at work',
+          width: '800',
+          height: '600',
+          loading: 'lazy',
+          srcset: ['https://example.com/hero-2x.jpg', 'https://cdn.example.com/hero-3x.jpg'],
+        },
+        { url: 'https://example.com/logo.png', alt: '', srcset: [], onlyLinkContent: true },
+        { url: 'https://example.com/cart.svg', srcset: [], hidden: true },
+      ]);
+    });
+
+    it('should collect JSON-LD blocks and nested microdata items', () => {
+      // ARRANGE
+      const html = `<script type="application/ld+json">{"@type":"Organization"}</script>
+        <script type="text/javascript">var ignored = {};</script>
+        <div itemscope itemtype="https://schema.org/Product">
+          <span itemprop="name">Kettle</span><img itemprop="image" src="/kettle.png">
+          <div itemprop="offers" itemscope itemtype="https://schema.org/Offer">
+            <meta itemprop="price" content="20"><span itemprop="priceCurrency">EUR</span>
+          </div>
+        </div>`;
+
+      // ACT
+      const result = parseHtml(html, 'https://example.com/');
+
+      // ASSERT
+      expect(result.jsonLd).toEqual(['{"@type":"Organization"}']);
+      expect(result.microdata).toEqual([
+        {
+          type: 'https://schema.org/Product',
+          properties: {
+            name: ['Kettle'],
+            image: ['https://example.com/kettle.png'],
+            offers: [
+              {
+                type: 'https://schema.org/Offer',
+                properties: { price: ['20'], priceCurrency: ['EUR'] },
+              },
+            ],
+          },
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,656 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * DOM-free HTML tokenizer and extraction of the elements the crawler reads.
+ * Service Workers have no DOMParser, so both crawl paths parse pages with this.
+ */
+
+import {
+  HreflangAnnotation,
+  LinkPosition,
+  LinkRecord,
+  PageHeading,
+  PageImage,
+  PageResource,
+  SocialMeta,
+  HttpReference,
+} from '@/types';
+
+export type HtmlToken =
+  | { type: 'start'; name: string; attributes: Record<string, string>; selfClosing?: boolean }
+  | { type: 'end'; name: string }
+  | { type: 'text'; text: string };
+
+/**
+ * An element with itemscope; nested items are property values of their parent
+ */
+export interface MicrodataItem {
+  /** The first itemtype URL (https://schema.org/Product) */
+  type?: string;
+  properties: Record<string, (string | MicrodataItem)[]>;
+}
+
+export interface ParsedHtml {
+  /** What relative URLs resolve against: the first <base href>, else the page URL */
+  baseUrl: string;
+  title?: string;
+  description?: string;
+  /** Absolute URL from <link rel="canonical">, without fragment */
+  canonical?: string;
+  /** <a href> elements in document order, with absolute URLs without fragments */
+  links: LinkRecord[];
+  resources: PageResource[];
+  /** <link rel="alternate" hreflang> annotations with absolute URLs */
+  hreflang: HreflangAnnotation[];
+  /** Robots meta tags, with the lowercased meta name (robots, googlebot...) */
+  robotsMeta: { name: string; content: string }[];
+  /** og:* and twitter:* meta tags by lowercased property; the first of each wins */
+  socialMeta: SocialMeta;
+  /** Contents of <script type="application/ld+json"> blocks, unparsed */
+  jsonLd: string[];
+  /** Top-level microdata items */
+  microdata: MicrodataItem[];
+  /** <h1> to <h6> elements in document order */
+  headings: PageHeading[];
+  /** <img> elements with an http(s) src, in document order */
+  images: PageImage[];
+  /** Subresources and form actions loaded over plain http://, once per element type and URL */
+  httpReferences: HttpReference[];
+  /** Text outside <head>, scripts and styles */
+  bodyText: string;
+  /** Body text outside the page navigation, header and footer */
+  mainText: string;
+}
+
+/**
+ * Elements whose content is text up to the matching end tag, never markup
+ */
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title', 'xmp']);
+
+/**
+ * Elements whose text is not part of the page content
+ */
+const NON_CONTENT_ELEMENTS = new Set(['script', 'style', 'template', 'title']);
+
+/**
+ * Elements that never have content or an end tag
+ */
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'param',
+  'source',
+  'track',
+  'wbr',
+]);
+
+/**
+ * A <header> or <footer> inside these belongs to that section, not to the page
+ */
+const SECTIONING_ELEMENTS = new Set(['article', 'aside', 'main', 'section']);
+
+const HEADING_PATTERN = /^h([1-6])$/;
+
+/**
+ * Meta names carrying robots directives: the generic one and crawler-specific ones
+ */
+const ROBOTS_META_NAME =
+  /^(robots|googlebot(-[a-z]+)?|bingbot|msnbot|slurp|duckduckbot|yandex|baiduspider|applebot)$/;
+
+/**
+ * <link> types the browser loads as part of the page, unlike canonical or alternate links
+ */
+const SUBRESOURCE_LINK_RELS = [
+  'stylesheet',
+  'icon',
+  'apple-touch-icon',
+  'mask-icon',
+  'manifest',
+  'preload',
+  'modulepreload',
+  'prefetch',
+];
+
+/**
+ * Open Graph and Twitter Card properties, read from property or name
+ */
+const SOCIAL_META_PROPERTY = /^(og|twitter):/;
+
+/**
+ * Elements allowed in <head>; any other element (or text) starts the body
+ */
+const HEAD_ELEMENTS = new Set([
+  'base',
+  'link',
+  'meta',
+  'noscript',
+  'script',
+  'style',
+  'template',
+  'title',
+]);
+
+const TOKEN_PATTERN =
+  /<!--[\s\S]*?(?:-->|$)|<![^>]*>|<\?[^>]*>|<\/([a-zA-Z][^\s/>]*)[^>]*>|<([a-zA-Z][^\s/>]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+
+const ATTRIBUTE_PATTERN = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+};
+
+export const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith('#')) {
+      const codePoint =
+        name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1));
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+
+const parseAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    const name = match[1].toLowerCase();
+    // Like browsers, the first occurrence of a duplicated attribute wins
+    if (!(name in attributes)) {
+      attributes[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    }
+  }
+  return attributes;
+};
+
+/**
+ * Splits HTML into start tags, end tags and text. Comments, doctypes and
+ * processing instructions are dropped; the content of raw text elements
+ * (scripts, styles, titles) is a single text token.
+ */
+export const tokenizeHtml = (html: string): HtmlToken[] => {
+  const tokens: HtmlToken[] = [];
+  const pattern = new RegExp(TOKEN_PATTERN.source, 'g');
+  let position = 0;
+
+  const pushText = (text: string) => {
+    if (text) {
+      tokens.push({ type: 'text', text: decodeEntities(text) });
+    }
+  };
+
+  for (let match = pattern.exec(html); match !== null; match = pattern.exec(html)) {
+    pushText(html.slice(position, match.index));
+    position = pattern.lastIndex;
+
+    if (match[1]) {
+      tokens.push({ type: 'end', name: match[1].toLowerCase() });
+      continue;
+    }
+    if (!match[2]) {
+      continue;
+    }
+
+    const name = match[2].toLowerCase();
+    tokens.push({
+      type: 'start',
+      name,
+      attributes: parseAttributes(match[3]),
+      ...(/\/\s*$/.test(match[3]) && { selfClosing: true }),
+    });
+
+    if (RAW_TEXT_ELEMENTS.has(name)) {
+      const end = html.slice(position).search(new RegExp(`</${name}[\\s/>]`, 'i'));
+      const contentEnd = end === -1 ? html.length : position + end;
+      const text = html.slice(position, contentEnd);
+      tokens.push({
+        type: 'text',
+        text: name === 'script' || name === 'style' ? text : decodeEntities(text),
+      });
+      position = contentEnd;
+      pattern.lastIndex = contentEnd;
+    }
+  }
+
+  pushText(html.slice(position));
+  return tokens;
+};
+
+/**
+ * Candidate URLs of a srcset attribute ("a.png 1x, b.png 2x")
+ */
+export const parseSrcset = (srcset: string): string[] =>
+  srcset
+    .split(',')
+    .map((candidate) => candidate.trim().split(/\s+/)[0])
+    .filter((url): url is string => !!url);
+
+const hasRelToken = (rel: string | undefined, token: string): boolean =>
+  (rel ?? '').toLowerCase().split(/\s+/).includes(token);
+
+const resolve = (value: string | undefined, baseUrl: string): URL | null => {
+  const raw = value?.trim();
+  if (!raw) {
+    return null;
+  }
+  try {
+    const url = new URL(raw, baseUrl);
+    url.hash = '';
+    return url;
+  } catch {
+    return null;
+  }
+};
+
+const collapseWhitespace = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * An itemprop element whose value is its text, collected until it closes
+ */
+interface PropertyCapture {
+  item: MicrodataItem;
+  names: string[];
+  text: string[];
+}
+
+interface OpenElement {
+  name: string;
+  /** Set on elements that make up the page navigation or footer */
+  landmark?: LinkPosition;
+  /** Set on itemscope elements */
+  item?: MicrodataItem;
+  capture?: PropertyCapture;
+}
+
+const addProperty = (item: MicrodataItem, names: string[], value: string | MicrodataItem) => {
+  names.forEach((name) => {
+    (item.properties[name] ??= []).push(value);
+  });
+};
+
+/**
+ * Value of an itemprop element read from an attribute, or undefined when the
+ * value is the element's text
+ */
+const getPropertyValue = (
+  name: string,
+  attributes: Record<string, string>,
+  baseUrl: string
+): string | undefined => {
+  const url = (value: string | undefined) => resolve(value, baseUrl)?.toString() ?? value ?? '';
+  switch (name) {
+    case 'meta':
+      return attributes.content ?? '';
+    case 'a':
+    case 'area':
+    case 'link':
+      return url(attributes.href);
+    case 'audio':
+    case 'embed':
+    case 'iframe':
+    case 'img':
+    case 'source':
+    case 'track':
+    case 'video':
+      return url(attributes.src);
+    case 'object':
+      return url(attributes.data);
+    case 'data':
+    case 'meter':
+      return attributes.value ?? '';
+    case 'time':
+      return attributes.datetime;
+    default:
+      return VOID_ELEMENTS.has(name) ? '' : undefined;
+  }
+};
+
+const getLandmark = (
+  name: string,
+  attributes: Record<string, string>,
+  open: OpenElement[]
+): LinkPosition | undefined => {
+  const role = attributes.role?.toLowerCase();
+  const inSection = open.some((element) => SECTIONING_ELEMENTS.has(element.name));
+  if (name === 'nav' || role === 'navigation' || role === 'banner') return 'nav';
+  if (name === 'header' && !inSection) return 'nav';
+  if ((name === 'footer' && !inSection) || role === 'contentinfo') return 'footer';
+  return undefined;
+};
+
+const getBaseUrl = (tokens: HtmlToken[], pageUrl: string): string => {
+  // Only the first <base href> counts, and it applies to the whole document
+  for (const token of tokens) {
+    if (token.type === 'start' && token.name === 'base' && 'href' in token.attributes) {
+      const base = resolve(token.attributes.href, pageUrl);
+      return base ? base.toString() : pageUrl;
+    }
+  }
+  return pageUrl;
+};
+
+export const parseHtml = (html: string, pageUrl: string): ParsedHtml => {
+  const tokens = tokenizeHtml(html);
+  const baseUrl = getBaseUrl(tokens, pageUrl);
+  const result: ParsedHtml = {
+    baseUrl,
+    links: [],
+    resources: [],
+    hreflang: [],
+    robotsMeta: [],
+    socialMeta: {},
+    jsonLd: [],
+    microdata: [],
+    headings: [],
+    images: [],
+    httpReferences: [],
+    bodyText: '',
+    mainText: '',
+  };
+  const resourceKeys = new Set<string>();
+  const bodyText: string[] = [];
+  const mainText: string[] = [];
+  const open: OpenElement[] = [];
+  let anchor: {
+    link: LinkRecord;
+    text: string[];
+    alt: string[];
+    images: PageImage[];
+  } | null = null;
+  let heading: { heading: PageHeading; text: string[]; alt: string[] } | null = null;
+  let inJsonLd = false;
+  let inHead = false;
+  let titleFound = false;
+  let descriptionFound = false;
+
+  const addResource = (value: string | undefined, type: PageResource['type']) => {
+    // Inline data has nothing to check
+    if (/^\s*(data|blob|about|javascript):/i.test(value ?? '')) return;
+    const url = resolve(value, baseUrl);
+    if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) return;
+    const key = `${type} ${url.toString()}`;
+    if (!resourceKeys.has(key)) {
+      resourceKeys.add(key);
+      result.resources.push({ url: url.toString(), type });
+    }
+  };
+
+  const addHttpReference = (value: string | undefined, element: HttpReference['element']) => {
+    const url = resolve(value, baseUrl);
+    if (url?.protocol !== 'http:') return;
+    const reference = { url: url.toString(), element };
+    if (
+      !result.httpReferences.some(
+        (existing) => existing.url === reference.url && existing.element === element
+      )
+    ) {
+      result.httpReferences.push(reference);
+    }
+  };
+
+  const addImage = (attributes: Record<string, string>) => {
+    const url = resolve(attributes.src, baseUrl);
+    if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) return;
+    const [width, height, loading, role, ariaHidden] = [
+      attributes.width,
+      attributes.height,
+      attributes.loading?.toLowerCase(),
+      attributes.role?.toLowerCase(),
+      attributes['aria-hidden']?.toLowerCase(),
+    ].map((value) => value?.trim());
+    const image: PageImage = {
+      url: url.toString(),
+      srcset: parseSrcset(attributes.srcset ?? '')
+        .map((candidate) => resolve(candidate, baseUrl))
+        .filter((candidate): candidate is URL => candidate?.protocol.startsWith('http') === true)
+        .map((candidate) => candidate.toString()),
+    };
+    if ('alt' in attributes) image.alt = collapseWhitespace(attributes.alt);
+    if (width) image.width = width;
+    if (height) image.height = height;
+    if (loading) image.loading = loading;
+    if (role === 'presentation' || role === 'none' || ariaHidden === 'true') image.hidden = true;
+    result.images.push(image);
+    anchor?.images.push(image);
+  };
+
+  const closeElements = (elements: OpenElement[]) => {
+    elements.reverse().forEach(({ capture }) => {
+      if (capture) {
+        addProperty(capture.item, capture.names, collapseWhitespace(capture.text.join('')));
+      }
+    });
+  };
+
+  const closeAnchor = () => {
+    if (anchor) {
+      const text = collapseWhitespace(anchor.text.join(''));
+      // Image links are described by the alt text of their images
+      anchor.link.text = text || collapseWhitespace(anchor.alt.join(' '));
+      if (!text) {
+        anchor.images.forEach((image) => {
+          image.onlyLinkContent = true;
+        });
+      }
+      anchor = null;
+    }
+  };
+
+  const closeHeading = () => {
+    if (heading) {
+      // Logo headings are described by the alt text of their images
+      heading.heading.text =
+        collapseWhitespace(heading.text.join('')) || collapseWhitespace(heading.alt.join(' '));
+      heading = null;
+    }
+  };
+
+  for (const token of tokens) {
+    if (token.type === 'text') {
+      const parent = open[open.length - 1]?.name;
+      if (parent === 'title' && !titleFound) {
+        titleFound = true;
+        result.title = token.text.trim() || undefined;
+      } else if (parent === 'script' && inJsonLd) {
+        result.jsonLd.push(token.text);
+      } else if (!open.some((element) => NON_CONTENT_ELEMENTS.has(element.name))) {
+        if (inHead && token.text.trim()) {
+          inHead = false;
+        }
+        if (!inHead) {
+          bodyText.push(token.text);
+          if (!open.some((element) => element.landmark)) {
+            mainText.push(token.text);
+          }
+          anchor?.text.push(token.text);
+          heading?.text.push(token.text);
+          open.forEach((element) => element.capture?.text.push(token.text));
+        }
+      }
+      continue;
+    }
+
+    if (token.type === 'end') {
+      let index = open.length - 1;
+      while (index >= 0 && open[index].name !== token.name) {
+        index -= 1;
+      }
+      if (index !== -1) {
+        closeElements(open.splice(index));
+      }
+      if (token.name === 'head') {
+        inHead = false;
+      }
+      if (token.name === 'a') {
+        closeAnchor();
+      }
+      if (HEADING_PATTERN.test(token.name)) {
+        closeHeading();
+      }
+      continue;
+    }
+
+    const { name, attributes } = token;
+    if (inHead && !HEAD_ELEMENTS.has(name)) {
+      inHead = false;
+    }
+    const element: OpenElement = { name, landmark: getLandmark(name, attributes, open) };
+
+    // An itemprop belongs to the nearest enclosing item, never to its own itemscope
+    const parentItem = [...open].reverse().find((openElement) => openElement.item)?.item;
+    const propertyNames = (attributes.itemprop ?? '').split(/\s+/).filter(Boolean);
+    if ('itemscope' in attributes) {
+      element.item = {
+        type: attributes.itemtype?.trim().split(/\s+/)[0] || undefined,
+        properties: {},
+      };
+      if (parentItem && propertyNames.length > 0) {
+        addProperty(parentItem, propertyNames, element.item);
+      } else {
+        result.microdata.push(element.item);
+      }
+    } else if (parentItem && propertyNames.length > 0) {
+      const value = getPropertyValue(name, attributes, baseUrl);
+      if (value !== undefined) {
+        addProperty(parentItem, propertyNames, value);
+      } else {
+        element.capture = { item: parentItem, names: propertyNames, text: [] };
+      }
+    }
+
+    if (!VOID_ELEMENTS.has(name) && !token.selfClosing) {
+      open.push(element);
+    } else {
+      closeElements([element]);
+    }
+
+    switch (name) {
+      case 'head':
+        inHead = true;
+        break;
+      case 'body':
+        inHead = false;
+        break;
+      case 'meta': {
+        const metaName = attributes.name?.trim().toLowerCase() ?? '';
+        if (!descriptionFound && metaName === 'description') {
+          descriptionFound = true;
+          result.description = attributes.content?.trim() || undefined;
+        }
+        if (ROBOTS_META_NAME.test(metaName) && attributes.content) {
+          result.robotsMeta.push({ name: metaName, content: attributes.content });
+        }
+        const property = (attributes.property ?? metaName).trim().toLowerCase();
+        const content = attributes.content?.trim();
+        if (SOCIAL_META_PROPERTY.test(property) && content && !(property in result.socialMeta)) {
+          result.socialMeta[property] = content;
+        }
+        break;
+      }
+      case 'link':
+        if (!result.canonical && hasRelToken(attributes.rel, 'canonical')) {
+          result.canonical = resolve(attributes.href, baseUrl)?.toString();
+        }
+        if (hasRelToken(attributes.rel, 'stylesheet')) {
+          addResource(attributes.href, 'stylesheet');
+        }
+        if (SUBRESOURCE_LINK_RELS.some((rel) => hasRelToken(attributes.rel, rel))) {
+          addHttpReference(attributes.href, 'link');
+        }
+        if (hasRelToken(attributes.rel, 'alternate') && attributes.hreflang?.trim()) {
+          const url = resolve(attributes.href, baseUrl);
+          if (url) {
+            result.hreflang.push({ hreflang: attributes.hreflang.trim(), url: url.toString() });
+          }
+        }
+        break;
+      case 'a': {
+        // Anchors cannot nest; a new one closes the previous one
+        closeAnchor();
+        const href = attributes.href?.trim();
+        // Fragment-only links stay on the page; other schemes are not pages
+        if (!href || href.startsWith('#') || /^(mailto|tel|javascript):/i.test(href)) break;
+        const url = resolve(href, baseUrl);
+        if (url) {
+          const link: LinkRecord = {
+            url: url.toString(),
+            text: '',
+            rel: (attributes.rel ?? '').toLowerCase().split(/\s+/).filter(Boolean),
+            position: open.reduce<LinkPosition>(
+              (position, element) => element.landmark ?? position,
+              'body'
+            ),
+          };
+          result.links.push(link);
+          anchor = { link, text: [], alt: [], images: [] };
+        }
+        break;
+      }
+      case 'img':
+        if (attributes.alt) {
+          anchor?.alt.push(attributes.alt);
+          heading?.alt.push(attributes.alt);
+        }
+        addResource(attributes.src, 'image');
+        parseSrcset(attributes.srcset ?? '').forEach((url) => addResource(url, 'image'));
+        addImage(attributes);
+        [attributes.src, ...parseSrcset(attributes.srcset ?? '')].forEach((url) =>
+          addHttpReference(url, 'img')
+        );
+        break;
+      case 'source':
+        // Only <picture> sources use srcset; audio and video sources use src
+        parseSrcset(attributes.srcset ?? '').forEach((url) => {
+          addResource(url, 'image');
+          addHttpReference(url, 'img');
+        });
+        break;
+      case 'script':
+        inJsonLd = attributes.type?.trim().toLowerCase() === 'application/ld+json';
+        addResource(attributes.src, 'script');
+        addHttpReference(attributes.src, 'script');
+        break;
+      case 'iframe':
+        addResource(attributes.src, 'iframe');
+        addHttpReference(attributes.src, 'iframe');
+        break;
+      case 'form':
+        addHttpReference(attributes.action, 'form');
+        break;
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6': {
+        // Headings cannot nest; a new one closes the previous one
+        closeHeading();
+        const pageHeading: PageHeading = { level: Number(name[1]), text: '' };
+        result.headings.push(pageHeading);
+        heading = { heading: pageHeading, text: [], alt: [] };
+        break;
+      }
+    }
+  }
+
+  closeAnchor();
+  closeHeading();
+  closeElements(open.splice(0));
+  result.bodyText = bodyText.join('');
+  result.mainText = mainText.join('');
+  return result;
+};
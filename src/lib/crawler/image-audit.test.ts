@@ -0,0 +1,148 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Unit tests for image-audit
+ * Coverage: detectImageIssues, detectInconsistentImageAlts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectImageIssues, detectInconsistentImageAlts } from './image-audit';
+import { CrawlPage, PageImage } from '@/types';
+import { createPage as createCrawlPage, createPages } from '../../../tests/fixtures/crawl-pages';
+
+const image = (url: string, overrides?: Partial<PageImage>): PageImage => ({
+  url,
+  width: '400',
+  height: '300',
+  srcset: [],
+  ...overrides,
+});
+
+const createPage = (url: string, images: PageImage[], overrides?: Partial<CrawlPage>): CrawlPage =>
+  createCrawlPage(url, { images, ...overrides });
+
+describe('image-audit', () => {
+  describe('detectImageIssues', () => {
+    it('should report missing, empty, hidden and generic alt text', () => {
+      // ARRANGE
+      const crawlResult = createPages(
+        createPage('https://example.com/', [
+          image('https://example.com/team.jpg'),
+          image('https://example.com/logo.png', { alt: '', onlyLinkContent: true }),
+          image('https://example.com/divider.png', { alt: '' }),
+          image('https://example.com/cart.svg', { alt: 'Cart', hidden: true }),
+          image('https://example.com/spacer.gif', { hidden: true }),
+          image('https://example.com/hero.jpg', { alt: 'IMG_0042.JPG' }),
+          image('https://example.com/kettle.jpg', { alt: ' Photo ' }),
+          image('https://example.com/ok.jpg', { alt: 'Steel kettle on a stove' }),
+        ])
+      );
+
+      // ACT
+      const result = detectImageIssues(crawlResult);
+
+      // ASSERT
+      expect(result.map(({ image, type }) => [image, type])).toEqual([
+        ['https://example.com/team.jpg', 'missing-alt'],
+        ['https://example.com/logo.png', 'empty-alt-link'],
+        ['https://example.com/cart.svg', 'hidden-with-alt'],
+        ['https://example.com/hero.jpg', 'generic-alt'],
+        ['https://example.com/kettle.jpg', 'generic-alt'],
+      ]);
+      expect(result[2]).toEqual({
+        url: 'https://example.com/',
+        image: 'https://example.com/cart.svg',
+        type: 'hidden-with-alt',
+        alt: 'Cart',
+      });
+    });
+
+    it('should report missing dimensions once per image and page', () => {
+      // ARRANGE
+      const banner = image('https://example.com/banner.jpg', { alt: 'Sale', height: undefined });
+      const crawlResult = createPages(
+        createPage('https://example.com/', [banner, banner]),
+        createPage('https://example.com/shop', [banner])
+      );
+
+      // ACT
+      const result = detectImageIssues(crawlResult);
+
+      // ASSERT
+      expect(result).toEqual([
+        {
+          url: 'https://example.com/',
+          image: 'https://example.com/banner.jpg',
+          type: 'missing-dimensions',
+          alt: 'Sale',
+        },
+        {
+          url: 'https://example.com/shop',
+          image: 'https://example.com/banner.jpg',
+          type: 'missing-dimensions',
+          alt: 'Sale',
+        },
+      ]);
+    });
+
+    it('should skip errors, redirects and pages crawled before image collection', () => {
+      // ARRANGE
+      const crawlResult = createPages(
+        createPage('https://example.com/missing', [image('https://example.com/a.jpg')], {
+          status: 404,
+        }),
+        createPage('https://example.com/old', [image('https://example.com/a.jpg')], {
+          redirectChain: [
+            { url: 'https://example.com/old', status: 301 },
+            { url: 'https://example.com/', status: 200 },
+          ],
+        }),
+        createPage('https://example.com/legacy', [], { images: undefined })
+      );
+
+      // ACT & ASSERT
+      expect(detectImageIssues(crawlResult)).toEqual([]);
+    });
+  });
+
+  describe('detectInconsistentImageAlts', () => {
+    it('should group the alt texts of images described differently', () => {
+      // ARRANGE
+      const crawlResult = createPages(
+        createPage('https://example.com/', [
+          image('https://example.com/kettle.jpg', { alt: 'Steel kettle' }),
+          image('https://example.com/logo.png', { alt: 'Example' }),
+        ]),
+        createPage('https://example.com/shop', [
+          image('https://example.com/kettle.jpg', { alt: 'steel  KETTLE' }),
+          image('https://example.com/logo.png', { alt: 'Example' }),
+        ]),
+        createPage('https://example.com/blog', [
+          image('https://example.com/kettle.jpg', { alt: 'Our best seller' }),
+          image('https://example.com/logo.png', { alt: '' }),
+          image('https://example.com/logo.png', { alt: 'Logo', hidden: true }),
+        ])
+      );
+
+      // ACT
+      const result = detectInconsistentImageAlts(crawlResult);
+
+      // ASSERT
+      expect(result).toEqual([
+        {
+          image: 'https://example.com/kettle.jpg',
+          variants: [
+            {
+              alt: 'Steel kettle',
+              pages: ['https://example.com/', 'https://example.com/shop'],
+            },
+            { alt: 'Our best seller', pages: ['https://example.com/blog'] },
+          ],
+        },
+      ]);
+    });
+  });
+});
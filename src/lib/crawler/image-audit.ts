@@ -0,0 +1,147 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Audits the alt text and dimensions of the images on crawled pages, and finds
+ * images described differently from page to page
+ */
+
+import { CrawlResult, ImageIssue, ImageIssueType, InconsistentImageAlt, PageImage } from '@/types';
+import { isAuditedPage } from './audited-page';
+
+export const IMAGE_ISSUE_LABELS: Record<ImageIssueType, string> = {
+  'missing-alt': 'Missing alt attribute',
+  'empty-alt-link': 'Empty alt on linked image',
+  'hidden-with-alt': 'Alt text on hidden image',
+  'generic-alt': 'Generic alt text',
+  'missing-dimensions': 'Missing width or height',
+};
+
+/**
+ * Alt texts that say nothing about the image
+ */
+const GENERIC_ALTS = new Set([
+  'image',
+  'img',
+  'photo',
+  'picture',
+  'pic',
+  'graphic',
+  'icon',
+  'logo',
+  'banner',
+  'spacer',
+  'placeholder',
+  'untitled',
+]);
+
+/**
+ * Alt texts that are a file name (IMG_0042.jpg, hero-banner.webp)
+ */
+const FILE_NAME_ALT = /^[\w-]+\.(avif|bmp|gif|jpe?g|png|svg|webp)$/i;
+
+const getAltKey = (alt: string): string => alt.replace(/\s+/g, ' ').trim().toLowerCase();
+
+const isGenericAlt = (alt: string): boolean =>
+  GENERIC_ALTS.has(getAltKey(alt)) || FILE_NAME_ALT.test(alt.trim());
+
+const getImageIssueTypes = (image: PageImage): ImageIssueType[] => {
+  const types: ImageIssueType[] = [];
+
+  if (image.alt === undefined) {
+    // Hidden images are already skipped by screen readers
+    if (!image.hidden) {
+      types.push('missing-alt');
+    }
+  } else if (image.alt === '') {
+    // An empty alt marks the image decorative, which leaves its link without a name
+    if (image.onlyLinkContent) {
+      types.push('empty-alt-link');
+    }
+  } else if (image.hidden) {
+    types.push('hidden-with-alt');
+  } else if (isGenericAlt(image.alt)) {
+    types.push('generic-alt');
+  }
+
+  if (!image.width || !image.height) {
+    types.push('missing-dimensions');
+  }
+  return types;
+};
+
+/**
+ * Issues of each page in crawl order, once per image and issue type: missing
+ * alt attributes, empty alt text on images that are the only content of a
+ * link, alt text on images hidden from assistive technology, file names or
+ * words like "image" as alt text, and a missing width or height, which shifts
+ * the layout when the image loads. Crawls made before image collection have none.
+ */
+export const detectImageIssues = (crawlResult: Pick<CrawlResult, 'pages'>): ImageIssue[] => {
+  const issues: ImageIssue[] = [];
+
+  crawlResult.pages.forEach((page, url) => {
+    if (!isAuditedPage(page)) {
+      return;
+    }
+
+    const reported = new Set<string>();
+    page.images?.forEach((image) => {
+      getImageIssueTypes(image).forEach((type) => {
+        const key = `${type} ${image.url}`;
+        if (reported.has(key)) {
+          return;
+        }
+        reported.add(key);
+        issues.push({
+          url,
+          image: image.url,
+          type,
+          ...(image.alt && { alt: image.alt }),
+        });
+      });
+    });
+  });
+
+  return issues;
+};
+
+/**
+ * Images shown with more than one alt text, ignoring case and whitespace.
+ * Empty alt text and hidden images are left out, since they describe nothing.
+ */
+export const detectInconsistentImageAlts = (
+  crawlResult: Pick<CrawlResult, 'pages'>
+): InconsistentImageAlt[] => {
+  const byImage = new Map<string, Map<string, { alt: string; pages: string[] }>>();
+
+  crawlResult.pages.forEach((page, url) => {
+    if (!isAuditedPage(page)) {
+      return;
+    }
+
+    page.images?.forEach((image) => {
+      if (!image.alt || image.hidden) {
+        return;
+      }
+      if (!byImage.has(image.url)) {
+        byImage.set(image.url, new Map());
+      }
+      const variants = byImage.get(image.url)!;
+      const key = getAltKey(image.alt);
+      if (!variants.has(key)) {
+        variants.set(key, { alt: image.alt, pages: [] });
+      }
+      const variant = variants.get(key)!;
+      if (!variant.pages.includes(url)) {
+        variant.pages.push(url);
+      }
+    });
+  });
+
+  return Array.from(byImage.entries())
+    .filter(([, variants]) => variants.size > 1)
+    .map(([image, variants]) => ({ image, variants: Array.from(variants.values()) }));
+};
@@ -0,0 +1,158 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Unit tests for indexability
+ * Coverage: parseXRobotsTag, getIndexability, detectNonIndexablePages, detectIndexabilityConflicts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseXRobotsTag,
+  getIndexability,
+  detectNonIndexablePages,
+  detectIndexabilityConflicts,
+} from './indexability';
+import { Indexability } from '@/types';
+import { createPage, createPages } from '../../../tests/fixtures/crawl-pages';
+
+const noindex: Indexability = { indexable: false, reasons: ['noindex'], nofollow: false };
+
+describe('indexability', () => {
+  describe('parseXRobotsTag', () => {
+    it('should group directives by user agent', () => {
+      // ACT
+      const result = parseXRobotsTag(
+        'NoIndex, max-snippet: 20, googlebot: nofollow, unavailable_after: 2030-01-01'
+      );
+
+      // ASSERT
+      expect(result).toEqual([
+        { source: 'header', userAgent: 'robots', directives: ['noindex', 'max-snippet: 20'] },
+        {
+          source: 'header',
+          userAgent: 'googlebot',
+          directives: ['nofollow', 'unavailable_after: 2030-01-01'],
+        },
+      ]);
+    });
+
+    it('should return nothing without a header', () => {
+      // ASSERT
+      expect(parseXRobotsTag(null)).toEqual([]);
+      expect(parseXRobotsTag('')).toEqual([]);
+    });
+  });
+
+  describe('getIndexability', () => {
+    it('should consider a 200 page without directives indexable', () => {
+      // ACT
+      const result = getIndexability(createPage('https://example.com/'), true);
+
+      // ASSERT
+      expect(result).toEqual({ indexable: true, reasons: [], nofollow: false });
+    });
+
+    it('should combine every reason a page cannot be indexed', () => {
+      // ARRANGE
+      const page = createPage('https://example.com/a', {
+        status: 404,
+        canonical: 'https://example.com/b',
+        robotsDirectives: [{ source: 'header', userAgent: 'robots', directives: ['none'] }],
+      });
+
+      // ACT
+      const result = getIndexability(page, false);
+
+      // ASSERT
+      expect(result).toEqual({
+        indexable: false,
+        reasons: ['error-status', 'robots-txt', 'noindex', 'canonicalized'],
+        nofollow: true,
+      });
+    });
+
+    it('should keep crawler-specific noindex apart from the verdict', () => {
+      // ARRANGE
+      const page = createPage('https://example.com/', {
+        robotsDirectives: [
+          { source: 'meta', userAgent: 'googlebot', directives: ['noindex'] },
+          { source: 'header', userAgent: 'googlebot', directives: ['noindex'] },
+        ],
+      });
+
+      // ACT
+      const result = getIndexability(page, true);
+
+      // ASSERT
+      expect(result).toEqual({
+        indexable: true,
+        reasons: [],
+        nofollow: false,
+        noindexFor: ['googlebot'],
+      });
+    });
+
+    it('should report redirected pages', () => {
+      // ARRANGE
+      const page = createPage('https://example.com/old', {
+        redirectChain: [
+          { url: 'https://example.com/old', status: 301 },
+          { url: 'https://example.com/new', status: 200 },
+        ],
+      });
+
+      // ACT & ASSERT
+      expect(getIndexability(page, true).reasons).toEqual(['redirect']);
+    });
+  });
+
+  describe('detectNonIndexablePages', () => {
+    it('should list pages recorded as non-indexable', () => {
+      // ARRANGE
+      const crawlResult = createPages(
+        createPage('https://example.com/', {
+          indexability: { indexable: true, reasons: [], nofollow: false },
+        }),
+        createPage('https://example.com/private', { indexability: noindex, inSitemap: true }),
+        createPage('https://example.com/legacy')
+      );
+
+      // ACT
+      const result = detectNonIndexablePages(crawlResult);
+
+      // ASSERT
+      expect(result).toEqual([
+        { url: 'https://example.com/private', reasons: ['noindex'], inSitemap: true },
+      ]);
+    });
+  });
+
+  describe('detectIndexabilityConflicts', () => {
+    it('should report noindex pages in the sitemap, heavily linked or canonicalized', () => {
+      // ARRANGE
+      const linked = 'https://example.com/linked';
+      const crawlResult = createPages(
+        createPage('https://example.com/a', { internalLinks: [linked] }),
+        createPage('https://example.com/b', { internalLinks: [linked] }),
+        createPage(linked, { indexability: noindex }),
+        createPage('https://example.com/listed', { indexability: noindex, inSitemap: true }),
+        createPage('https://example.com/dup', {
+          indexability: { ...noindex, reasons: ['noindex', 'canonicalized'] },
+        })
+      );
+
+      // ACT
+      const result = detectIndexabilityConflicts(crawlResult, 2);
+
+      // ASSERT
+      expect(result).toEqual([
+        { url: linked, type: 'noindex-linked', incomingLinks: 2 },
+        { url: 'https://example.com/listed', type: 'noindex-in-sitemap' },
+        { url: 'https://example.com/dup', type: 'noindex-canonicalized' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,187 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Decides whether crawled pages can be indexed, from their status, robots
+ * directives, robots.txt and canonical, and reports conflicting signals
+ */
+
+import {
+  CrawlPage,
+  CrawlResult,
+  Indexability,
+  IndexabilityConflict,
+  IndexabilityConflictType,
+  NonIndexablePage,
+  NonIndexableReason,
+  NormalizationPolicy,
+  RobotsDirectives,
+} from '@/types';
+import { getCanonicalTarget } from './canonical-detector';
+import { buildIncomingLinkMap } from './orphan-detector';
+import { normalizeUrl } from './link-extractor';
+
+export const NON_INDEXABLE_REASON_LABELS: Record<NonIndexableReason, string> = {
+  redirect: 'Redirects',
+  'error-status': 'Not served with status 200',
+  'robots-txt': 'Blocked by robots.txt',
+  noindex: 'Noindex',
+  canonicalized: 'Canonicalized to another URL',
+};
+
+export const INDEXABILITY_CONFLICT_LABELS: Record<IndexabilityConflictType, string> = {
+  'noindex-in-sitemap': 'Noindex page listed in the sitemap',
+  'noindex-linked': 'Noindex page with many internal links',
+  'noindex-canonicalized': 'Noindex page canonicalized to another URL',
+};
+
+/**
+ * User agent of the generic robots meta tag and of unqualified X-Robots-Tag directives
+ */
+const GENERIC_USER_AGENT = 'robots';
+
+/**
+ * X-Robots-Tag directives written as name: value, which are not user agent prefixes
+ */
+const VALUED_DIRECTIVES = new Set([
+  'unavailable_after',
+  'max-snippet',
+  'max-image-preview',
+  'max-video-preview',
+]);
+
+/**
+ * Lowercased directives of a robots meta content ("NOINDEX, follow")
+ */
+export const parseRobotsContent = (content: string): string[] =>
+  content
+    .split(',')
+    .map((directive) => directive.trim().toLowerCase())
+    .filter(Boolean);
+
+/**
+ * Splits an X-Robots-Tag value into groups per user agent. Directives apply to
+ * every crawler until a "googlebot: ..." prefix starts a crawler-specific group.
+ * Several headers arrive joined with commas.
+ */
+export const parseXRobotsTag = (header: string | null | undefined): RobotsDirectives[] => {
+  const groups: RobotsDirectives[] = [];
+  let current: RobotsDirectives | undefined;
+
+  for (const part of (header ?? '').split(',')) {
+    const prefixed = /^\s*([a-z][\w-]*)\s*:\s*(.*)$/i.exec(part);
+    let directive = part;
+    if (prefixed && !VALUED_DIRECTIVES.has(prefixed[1].toLowerCase())) {
+      current = { source: 'header', userAgent: prefixed[1].toLowerCase(), directives: [] };
+      groups.push(current);
+      directive = prefixed[2];
+    } else if (!current) {
+      current = { source: 'header', userAgent: GENERIC_USER_AGENT, directives: [] };
+      groups.push(current);
+    }
+    current.directives.push(...parseRobotsContent(directive));
+  }
+
+  return groups.filter((group) => group.directives.length > 0);
+};
+
+const hasDirective = (groups: RobotsDirectives[], directive: 'noindex' | 'nofollow'): boolean =>
+  groups.some((group) => group.directives.includes(directive) || group.directives.includes('none'));
+
+/**
+ * Indexability of a fetched page. `robotsAllowed` is the robots.txt verdict
+ * for its path (isPathAllowed).
+ */
+export const getIndexability = (
+  page: Pick<CrawlPage, 'url' | 'status' | 'canonical' | 'redirectChain' | 'robotsDirectives'>,
+  robotsAllowed: boolean,
+  policy?: Partial<NormalizationPolicy>
+): Indexability => {
+  const directives = page.robotsDirectives ?? [];
+  const generic = directives.filter((group) => group.userAgent === GENERIC_USER_AGENT);
+  const reasons: NonIndexableReason[] = [];
+
+  if (page.redirectChain) {
+    reasons.push('redirect');
+  } else if (page.status !== 200) {
+    reasons.push('error-status');
+  }
+  if (!robotsAllowed) {
+    reasons.push('robots-txt');
+  }
+  if (hasDirective(generic, 'noindex')) {
+    reasons.push('noindex');
+  }
+  if (getCanonicalTarget(page, policy)) {
+    reasons.push('canonicalized');
+  }
+
+  const noindexFor = Array.from(
+    new Set(
+      directives
+        .filter(
+          (group) => group.userAgent !== GENERIC_USER_AGENT && hasDirective([group], 'noindex')
+        )
+        .map((group) => group.userAgent)
+    )
+  );
+
+  return {
+    indexable: reasons.length === 0,
+    reasons,
+    nofollow: hasDirective(generic, 'nofollow'),
+    ...(noindexFor.length > 0 && { noindexFor }),
+  };
+};
+
+/**
+ * Pages whose indexability was recorded as non-indexable
+ */
+export const detectNonIndexablePages = (
+  crawlResult: Pick<CrawlResult, 'pages'>
+): NonIndexablePage[] => {
+  const pages: NonIndexablePage[] = [];
+
+  crawlResult.pages.forEach((page, url) => {
+    if (page.indexability && !page.indexability.indexable) {
+      pages.push({ url, reasons: page.indexability.reasons, inSitemap: page.inSitemap });
+    }
+  });
+
+  return pages;
+};
+
+/**
+ * Noindex pages sending mixed signals: listed in the sitemap, linked from at
+ * least `linkThreshold` pages, or also canonicalized to another URL
+ */
+export const detectIndexabilityConflicts = (
+  crawlResult: Pick<CrawlResult, 'pages' | 'normalization'>,
+  linkThreshold: number
+): IndexabilityConflict[] => {
+  const incomingLinks = buildIncomingLinkMap(crawlResult);
+  const conflicts: IndexabilityConflict[] = [];
+
+  crawlResult.pages.forEach((page, url) => {
+    const reasons = page.indexability?.reasons ?? [];
+    if (!reasons.includes('noindex')) {
+      return;
+    }
+
+    if (page.inSitemap) {
+      conflicts.push({ url, type: 'noindex-in-sitemap' });
+    }
+    const linkCount = (incomingLinks.get(normalizeUrl(url, crawlResult.normalization)) ?? [])
+      .length;
+    if (linkCount >= linkThreshold) {
+      conflicts.push({ url, type: 'noindex-linked', incomingLinks: linkCount });
+    }
+    if (reasons.includes('canonicalized')) {
+      conflicts.push({ url, type: 'noindex-canonicalized' });
+    }
+  });
+
+  return conflicts;
+};
@@ -0,0 +1,160 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Unit tests for link-audit
+ * Coverage: isGenericAnchorText, detectLinkIssues, detectNavigationOnlyPages
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isGenericAnchorText, detectLinkIssues, detectNavigationOnlyPages } from './link-audit';
+import { CrawlPage, CrawlResult, LinkRecord } from '@/types';
+import { createPage as createCrawlPage } from '../../../tests/fixtures/crawl-pages';
+
+const createPage = (url: string, links?: LinkRecord[]): CrawlPage =>
+  createCrawlPage(url, {
+    internalLinks: links ? Array.from(new Set(links.map((link) => link.url))) : [],
+    links,
+  });
+
+const link = (
+  url: string,
+  text: string,
+  position: LinkRecord['position'] = 'body',
+  rel: string[] = []
+): LinkRecord => ({ url, text, rel, position });
+
+const createCrawlResult = (
+  pages: CrawlPage[]
+): Pick<CrawlResult, 'pages' | 'url' | 'normalization'> => ({
+  url: 'https://example.com/',
+  pages: new Map(pages.map((page) => [page.url, page])),
+});
+
+describe('link-audit', () => {
+  describe('isGenericAnchorText', () => {
+    it('should match generic texts regardless of case and punctuation', () => {
+      // ASSERT
+      expect(isGenericAnchorText('Click here')).toBe(true);
+      expect(isGenericAnchorText('Read more…')).toBe(true);
+      expect(isGenericAnchorText('  learn   MORE ')).toBe(true);
+      expect(isGenericAnchorText('Read more about pricing')).toBe(false);
+      expect(isGenericAnchorText('Pricing')).toBe(false);
+    });
+  });
+
+  describe('detectLinkIssues', () => {
+    it('should report empty and generic anchor text and internal nofollow links', () => {
+      // ARRANGE
+      const crawlResult = createCrawlResult([
+        createPage('https://example.com/', [
+          link('https://example.com/pricing', 'Pricing'),
+          link('https://example.com/blog', 'Read more'),
+          link('https://example.com/logo', ''),
+          link('https://example.com/login', 'Log in', 'nav', ['nofollow']),
+        ]),
+      ]);
+
+      // ACT
+      const result = detectLinkIssues(crawlResult);
+
+      // ASSERT
+      expect(result).toEqual([
+        {
+          url: 'https://example.com/',
+          type: 'generic-anchor',
+          target: 'https://example.com/blog',
+          text: 'Read more',
+        },
+        {
+          url: 'https://example.com/',
+          type: 'empty-anchor',
+          target: 'https://example.com/logo',
+          text: '',
+        },
+        {
+          url: 'https://example.com/',
+          type: 'internal-nofollow',
+          target: 'https://example.com/login',
+          text: 'Log in',
+        },
+      ]);
+    });
+
+    it('should report a repeated link once per page', () => {
+      // ARRANGE
+      const crawlResult = createCrawlResult([
+        createPage('https://example.com/', [
+          link('https://example.com/blog', 'click here'),
+          link('https://example.com/blog', 'click here', 'footer'),
+        ]),
+      ]);
+
+      // ACT
+      const result = detectLinkIssues(crawlResult);
+
+      // ASSERT
+      expect(result).toHaveLength(1);
+    });
+
+    it('should skip pages crawled without link records', () => {
+      // ARRANGE
+      const crawlResult = createCrawlResult([createPage('https://example.com/')]);
+
+      // ACT & ASSERT
+      expect(detectLinkIssues(crawlResult)).toEqual([]);
+    });
+  });
+
+  describe('detectNavigationOnlyPages', () => {
+    it('should report pages never linked from body content', () => {
+      // ARRANGE
+      const crawlResult = createCrawlResult([
+        createPage('https://example.com/', [
+          link('https://example.com/', 'Home', 'nav'),
+          link('https://example.com/about', 'About', 'nav'),
+          link('https://example.com/legal', 'Legal', 'footer'),
+          link('https://example.com/blog', 'Blog', 'nav'),
+        ]),
+        createPage('https://example.com/about', [
+          link('https://example.com/about', 'About us'),
+          link('https://example.com/legal', 'Legal', 'footer'),
+          link('https://example.com/blog', 'our blog'),
+        ]),
+        createPage('https://example.com/legal'),
+        createPage('https://example.com/blog'),
+      ]);
+
+      // ACT
+      const result = detectNavigationOnlyPages(crawlResult);
+
+      // ASSERT
+      expect(result).toEqual([
+        {
+          url: 'https://example.com/about',
+          positions: ['nav'],
+          referredBy: ['https://example.com/'],
+        },
+        {
+          url: 'https://example.com/legal',
+          positions: ['footer'],
+          referredBy: ['https://example.com/', 'https://example.com/about'],
+        },
+      ]);
+    });
+
+    it('should not report the start page or pages without incoming link records', () => {
+      // ARRANGE
+      const crawlResult = createCrawlResult([
+        createPage('https://example.com/'),
+        createPage('https://example.com/about', [link('https://example.com/', 'Home', 'nav')]),
+        createPage('https://example.com/orphan'),
+      ]);
+
+      // ACT & ASSERT
+      expect(detectNavigationOnlyPages(crawlResult)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Audits internal links using their anchor text, rel attribute and position
+ */
+
+import { CrawlResult, LinkIssue, LinkIssueType, LinkPosition, NavigationOnlyPage } from '@/types';
+import { normalizeUrl } from './link-extractor';
+
+export const LINK_ISSUE_LABELS: Record<LinkIssueType, string> = {
+  'empty-anchor': 'Empty anchor text',
+  'generic-anchor': 'Generic anchor text',
+  'internal-nofollow': 'Internal nofollow',
+};
+
+export const LINK_POSITION_LABELS: Record<LinkPosition, string> = {
+  nav: 'Navigation',
+  footer: 'Footer',
+  body: 'Body content',
+};
+
+/**
+ * Anchor texts that say nothing about the target page
+ */
+const GENERIC_ANCHOR_TEXTS = new Set([
+  'click here',
+  'click',
+  'here',
+  'this',
+  'this link',
+  'link',
+  'more',
+  'read more',
+  'learn more',
+  'see more',
+  'view more',
+  'more info',
+  'more information',
+  'details',
+  'continue',
+  'continue reading',
+  'go',
+]);
+
+export const isGenericAnchorText = (text: string): boolean =>
+  GENERIC_ANCHOR_TEXTS.has(
+    text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, '')
+      .replace(/\s+/g, ' ')
+      .trim()
+  );
+
+/**
+ * One issue per distinct link (page, target and anchor text) with empty or
+ * generic anchor text or a nofollow rel
+ */
+export const detectLinkIssues = (crawlResult: Pick<CrawlResult, 'pages'>): LinkIssue[] => {
+  const issues = new Map<string, LinkIssue>();
+
+  const add = (issue: LinkIssue) => {
+    const key = [issue.url, issue.type, issue.target, issue.text].join('\n');
+    if (!issues.has(key)) {
+      issues.set(key, issue);
+    }
+  };
+
+  crawlResult.pages.forEach((page) => {
+    page.links?.forEach((link) => {
+      const issue = { url: page.url, target: link.url, text: link.text };
+      if (!link.text) {
+        add({ ...issue, type: 'empty-anchor' });
+      } else if (isGenericAnchorText(link.text)) {
+        add({ ...issue, type: 'generic-anchor' });
+      }
+      if (link.rel.includes('nofollow')) {
+        add({ ...issue, type: 'internal-nofollow' });
+      }
+    });
+  });
+
+  return Array.from(issues.values());
+};
+
+/**
+ * Crawled pages that are only linked from navigation or footers, never from
+ * body content. The start page is skipped, since it is usually only linked
+ * from the site logo.
+ */
+export const detectNavigationOnlyPages = (
+  crawlResult: Pick<CrawlResult, 'pages' | 'url' | 'normalization'>
+): NavigationOnlyPage[] => {
+  const policy = crawlResult.normalization;
+  const incoming = new Map<string, { positions: Set<LinkPosition>; referredBy: Set<string> }>();
+
+  crawlResult.pages.forEach((page) => {
+    const source = normalizeUrl(page.url, policy);
+    page.links?.forEach((link) => {
+      const target = normalizeUrl(link.url, policy);
+      if (target === source) {
+        return;
+      }
+      if (!incoming.has(target)) {
+        incoming.set(target, { positions: new Set(), referredBy: new Set() });
+      }
+      incoming.get(target)!.positions.add(link.position);
+      incoming.get(target)!.referredBy.add(page.url);
+    });
+  });
+
+  const startKey = normalizeUrl(crawlResult.url, policy);
+  const results: NavigationOnlyPage[] = [];
+
+  crawlResult.pages.forEach((_, url) => {
+    const key = normalizeUrl(url, policy);
+    const links = incoming.get(key);
+    if (key === startKey || !links || links.positions.has('body')) {
+      return;
+    }
+    results.push({
+      url,
+      positions: Array.from(links.positions).sort(),
+      referredBy: Array.from(links.referredBy),
+    });
+  });
+
+  return results;
+};
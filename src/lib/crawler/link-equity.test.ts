@@ -0,0 +1,154 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Unit tests for link-equity
+ * Coverage: computeLinkEquity, detectLowEquitySitemapPages
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeLinkEquity, detectLowEquitySitemapPages } from './link-equity';
+import { CrawlPage, LinkRecord } from '@/types';
+import { createPage, createPages } from '../../../tests/fixtures/crawl-pages';
+
+const createLink = (url: string, overrides?: Partial<LinkRecord>): LinkRecord => ({
+  url,
+  text: 'Link',
+  rel: [],
+  position: 'body',
+  ...overrides,
+});
+
+const createCrawl = (sitemapUrls: string[], ...pages: CrawlPage[]) => ({
+  ...createPages(...pages),
+  sitemapUrls,
+});
+
+const getScores = (equity: { url: string; score: number }[]) =>
+  Object.fromEntries(equity.map((entry) => [entry.url, entry.score]));
+
+describe('link-equity', () => {
+  describe('computeLinkEquity', () => {
+    it('should rank the page every other page links to highest, averaging 1', () => {
+      // ARRANGE
+      const crawlResult = createCrawl(
+        ['https://example.com/b'],
+        createPage('https://example.com/', {
+          internalLinks: ['https://example.com/a', 'https://example.com/b'],
+        }),
+        createPage('https://example.com/a', { internalLinks: ['https://example.com/'] }),
+        createPage('https://example.com/b', {
+          internalLinks: ['https://example.com/', 'https://example.com/b'],
+        })
+      );
+
+      // ACT
+      const result = computeLinkEquity(crawlResult);
+
+      // ASSERT
+      expect(result.map((entry) => entry.url)).toEqual([
+        'https://example.com/',
+        'https://example.com/a',
+        'https://example.com/b',
+      ]);
+      expect(result.reduce((sum, entry) => sum + entry.score, 0)).toBeCloseTo(3, 2);
+      expect(result[0]).toMatchObject({ incomingCount: 2, inSitemap: false });
+      expect(result[2]).toMatchObject({ incomingCount: 1, inSitemap: true });
+    });
+
+    it('should pass less equity through footer and nofollow links when weighted', () => {
+      // ARRANGE
+      const crawlResult = createCrawl(
+        [],
+        createPage('https://example.com/', {
+          internalLinks: [
+            'https://example.com/body',
+            'https://example.com/footer',
+            'https://example.com/nofollow',
+          ],
+          links: [
+            createLink('https://example.com/body'),
+            createLink('https://example.com/footer', { position: 'footer' }),
+            createLink('https://example.com/nofollow', { rel: ['nofollow'] }),
+          ],
+        }),
+        createPage('https://example.com/body'),
+        createPage('https://example.com/footer'),
+        createPage('https://example.com/nofollow')
+      );
+
+      // ACT
+      const unweighted = getScores(computeLinkEquity(crawlResult));
+      const weighted = getScores(
+        computeLinkEquity(crawlResult, { byPosition: true, ignoreNofollow: true })
+      );
+
+      // ASSERT
+      expect(unweighted['https://example.com/footer']).toBe(unweighted['https://example.com/body']);
+      expect(weighted['https://example.com/footer']).toBeLessThan(
+        weighted['https://example.com/body']
+      );
+      expect(weighted['https://example.com/nofollow']).toBeLessThan(
+        weighted['https://example.com/footer']
+      );
+    });
+
+    it('should credit links to redirecting URLs to their final page', () => {
+      // ARRANGE
+      const crawlResult = createCrawl(
+        [],
+        createPage('https://example.com/', {
+          internalLinks: ['https://example.com/old', 'https://example.com/other'],
+        }),
+        createPage('https://example.com/old', {
+          redirectChain: [
+            { url: 'https://example.com/old', status: 301 },
+            { url: 'https://example.com/new', status: 200 },
+          ],
+        }),
+        createPage('https://example.com/new'),
+        createPage('https://example.com/other')
+      );
+
+      // ACT
+      const result = computeLinkEquity(crawlResult);
+
+      // ASSERT
+      expect(result.map((entry) => entry.url)).not.toContain('https://example.com/old');
+      expect(result.find((entry) => entry.url === 'https://example.com/new')).toMatchObject({
+        incomingCount: 1,
+        score: getScores(result)['https://example.com/other'],
+      });
+    });
+  });
+
+  describe('detectLowEquitySitemapPages', () => {
+    it('should list indexable sitemap pages below the minimum score, lowest first', () => {
+      // ARRANGE
+      const crawlResult = createCrawl(
+        [],
+        createPage('https://example.com/noindex', {
+          indexability: { indexable: false, reasons: ['noindex'], nofollow: false },
+        })
+      );
+      const equity = [
+        { url: 'https://example.com/', score: 2.1, incomingCount: 3, inSitemap: true },
+        { url: 'https://example.com/weak', score: 0.4, incomingCount: 1, inSitemap: true },
+        { url: 'https://example.com/unlisted', score: 0.3, incomingCount: 1, inSitemap: false },
+        { url: 'https://example.com/noindex', score: 0.2, incomingCount: 1, inSitemap: true },
+        { url: 'https://example.com/weakest', score: 0.15, incomingCount: 0, inSitemap: true },
+      ];
+
+      // ACT
+      const result = detectLowEquitySitemapPages(crawlResult, equity, 0.5);
+
+      // ASSERT
+      expect(result.map((entry) => entry.url)).toEqual([
+        'https://example.com/weakest',
+        'https://example.com/weak',
+      ]);
+    });
+  });
+});
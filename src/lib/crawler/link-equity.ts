@@ -0,0 +1,185 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Scores how much internal link equity each page receives with a PageRank
+ * computed over the internal link graph
+ */
+
+import { CrawlPage, CrawlResult, LinkPosition, LinkWeighting, PageLinkEquity } from '@/types';
+import { buildIncomingLinkMap } from './orphan-detector';
+import { normalizeUrl } from './link-extractor';
+import { isAuditedPage } from './audited-page';
+
+export const DEFAULT_LINK_WEIGHTING: LinkWeighting = {
+  byPosition: false,
+  ignoreNofollow: false,
+};
+
+/**
+ * Share of equity a link passes by position when links are weighted by position
+ */
+export const LINK_POSITION_WEIGHTS: Record<LinkPosition, number> = {
+  body: 1,
+  nav: 0.5,
+  footer: 0.25,
+};
+
+/**
+ * Probability of following a link rather than jumping to a random page
+ */
+const DAMPING = 0.85;
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-6;
+
+type Policy = CrawlResult['normalization'];
+
+/**
+ * Weight of the strongest link from a page to each normalized URL. Pages
+ * crawled before link records pass full weight through every link.
+ */
+const getLinkWeights = (
+  page: CrawlPage,
+  weighting: LinkWeighting,
+  policy: Policy
+): Map<string, number> | undefined => {
+  if ((!weighting.byPosition && !weighting.ignoreNofollow) || !page.links) {
+    return undefined;
+  }
+  const weights = new Map<string, number>();
+  page.links.forEach((link) => {
+    const key = normalizeUrl(link.url, policy);
+    const nofollow = weighting.ignoreNofollow && link.rel.includes('nofollow');
+    const weight = nofollow ? 0 : weighting.byPosition ? LINK_POSITION_WEIGHTS[link.position] : 1;
+    weights.set(key, Math.max(weights.get(key) ?? 0, weight));
+  });
+  return weights;
+};
+
+/**
+ * Link equity of the pages served with status 200 without a redirect, highest
+ * first. Links to a redirecting URL count towards its final URL; self links are
+ * ignored, and pages without outgoing links share their equity with every page.
+ * Scores are multiplied by the number of ranked pages, so they average 1.
+ */
+export const computeLinkEquity = (
+  crawlResult: Pick<CrawlResult, 'pages' | 'normalization' | 'sitemapUrls'>,
+  weighting?: Partial<LinkWeighting>
+): PageLinkEquity[] => {
+  const policy = crawlResult.normalization;
+  const resolvedWeighting = { ...DEFAULT_LINK_WEIGHTING, ...weighting };
+
+  const nodes = new Map<string, CrawlPage>();
+  crawlResult.pages.forEach((page, url) => {
+    if (isAuditedPage(page)) {
+      nodes.set(normalizeUrl(url, policy), page);
+    }
+  });
+  const aliases = new Map<string, string>();
+  crawlResult.pages.forEach((page, url) => {
+    const finalUrl = page.redirectChain?.[page.redirectChain.length - 1].url;
+    if (finalUrl && nodes.has(normalizeUrl(finalUrl, policy))) {
+      aliases.set(normalizeUrl(url, policy), normalizeUrl(finalUrl, policy));
+    }
+  });
+
+  // Outgoing links of each ranked page, by ranked target, with their weight
+  const outgoing = new Map<string, Map<string, number>>();
+  const weightsBySource = new Map<string, Map<string, number> | undefined>();
+  buildIncomingLinkMap(crawlResult).forEach((sources, linkedKey) => {
+    const target = aliases.get(linkedKey) ?? linkedKey;
+    if (!nodes.has(target)) {
+      return;
+    }
+    sources.forEach((sourceUrl) => {
+      const source = normalizeUrl(sourceUrl, policy);
+      const sourcePage = nodes.get(source);
+      if (!sourcePage || source === target) {
+        return;
+      }
+      if (!weightsBySource.has(source)) {
+        weightsBySource.set(source, getLinkWeights(sourcePage, resolvedWeighting, policy));
+      }
+      const weight = weightsBySource.get(source)?.get(linkedKey) ?? 1;
+      if (!outgoing.has(source)) {
+        outgoing.set(source, new Map());
+      }
+      const links = outgoing.get(source)!;
+      links.set(target, Math.max(links.get(target) ?? 0, weight));
+    });
+  });
+
+  const keys = Array.from(nodes.keys());
+  const count = keys.length;
+  let ranks = new Map(keys.map((key) => [key, 1 / count]));
+  const totalWeights = new Map(
+    Array.from(outgoing.entries(), ([source, links]) => [
+      source,
+      Array.from(links.values()).reduce((sum, weight) => sum + weight, 0),
+    ])
+  );
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let danglingRank = 0;
+    keys.forEach((key) => {
+      if (!totalWeights.get(key)) {
+        danglingRank += ranks.get(key)!;
+      }
+    });
+
+    const next = new Map(keys.map((key) => [key, (1 - DAMPING + DAMPING * danglingRank) / count]));
+    outgoing.forEach((links, source) => {
+      const totalWeight = totalWeights.get(source)!;
+      if (!totalWeight) {
+        return;
+      }
+      const share = (DAMPING * ranks.get(source)!) / totalWeight;
+      links.forEach((weight, target) => {
+        next.set(target, next.get(target)! + share * weight);
+      });
+    });
+
+    const change = keys.reduce((sum, key) => sum + Math.abs(next.get(key)! - ranks.get(key)!), 0);
+    ranks = next;
+    if (change < TOLERANCE) {
+      break;
+    }
+  }
+
+  const incomingCounts = new Map<string, number>();
+  outgoing.forEach((links) => {
+    links.forEach((_, target) => incomingCounts.set(target, (incomingCounts.get(target) ?? 0) + 1));
+  });
+  const sitemapKeys = new Set(
+    (crawlResult.sitemapUrls ?? []).map((url) => normalizeUrl(url, policy))
+  );
+
+  return keys
+    .map((key) => ({
+      url: nodes.get(key)!.url,
+      score: Math.round(ranks.get(key)! * count * 1000) / 1000,
+      incomingCount: incomingCounts.get(key) ?? 0,
+      inSitemap: sitemapKeys.has(key),
+    }))
+    .sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Indexable sitemap pages whose link equity score is below `minScore`, lowest
+ * first: pages the sitemap declares important but internal links neglect
+ */
+export const detectLowEquitySitemapPages = (
+  crawlResult: Pick<CrawlResult, 'pages'>,
+  linkEquity: PageLinkEquity[],
+  minScore: number
+): PageLinkEquity[] =>
+  linkEquity
+    .filter(
+      (entry) =>
+        entry.inSitemap &&
+        entry.score < minScore &&
+        crawlResult.pages.get(entry.url)?.indexability?.indexable !== false
+    )
+    .reverse();
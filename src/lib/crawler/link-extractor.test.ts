@@ -29,6 +29,27 @@ describe('Link Extractor', () => {
         'https://example.com/path'
       );
     });
+
+    it('should keep query parameters selected by the policy, sorted by name', () => {
+      const url = 'https://example.com/list?utm_source=x&page=2&sort=asc';
+
+      expect(normalizeUrl(url, { queryParams: 'keep-all' })).toBe(
+        'https://example.com/list?page=2&sort=asc&utm_source=x'
+      );
+      expect(normalizeUrl(url, { queryParams: 'keep-listed', queryParamList: ['page'] })).toBe(
+        'https://example.com/list?page=2'
+      );
+      expect(normalizeUrl(url, { queryParams: 'strip-listed', queryParamList: ['utm_*'] })).toBe(
+        'https://example.com/list?page=2&sort=asc'
+      );
+    });
+
+    it('should keep path case and trailing slashes when the policy asks to', () => {
+      const url = 'https://EXAMPLE.com/Docs/';
+
+      expect(normalizeUrl(url, { caseSensitivePaths: true })).toBe('https://example.com/Docs');
+      expect(normalizeUrl(url, { trailingSlash: 'keep' })).toBe('https://example.com/docs/');
+    });
   });
 
   describe('resolveUrl', () => {
@@ -108,6 +129,20 @@ describe('Link Extractor', () => {
       expect(result.external).toContain('https://other.com/');
     });
 
+    it('should classify links to subdomains with the crawl scope', () => {
+      const html =
+        '<a href="https://www.example.com/a">www</a><a href="https://example.org/">Org</a>';
+
+      const exact = extractLinksFromHTML(html, 'https://example.com/');
+      const subdomains = extractLinksFromHTML(html, 'https://example.com/', undefined, {
+        mode: 'subdomains',
+      });
+
+      expect(exact.external).toEqual(['https://www.example.com/a', 'https://example.org/']);
+      expect(subdomains.internal).toEqual(['https://www.example.com/a']);
+      expect(subdomains.external).toEqual(['https://example.org/']);
+    });
+
     it('should skip fragments and mailto links', () => {
       const html = `
         <html>
@@ -130,5 +165,35 @@ describe('Link Extractor', () => {
       expect(result.internal).toEqual([]);
       expect(result.external).toEqual([]);
     });
+
+    it('should collect embedded resources by type', () => {
+      const html = `
+        <html>
+          <head>
+            <link rel="stylesheet" href="/css/site.css">
+            <link rel="icon" href="/favicon.ico">
+            <script src="app.js"></script>
+            <script>inline()</script>
+          </head>
+          <body>
+            <img src="/logo.png" srcset="/logo.png 1x, /logo@2x.png 2x">
+            <img src="data:image/png;base64,AAAA">
+            <picture><source srcset="/hero.webp"><img src="/hero.jpg"></picture>
+            <iframe src="https://video.example.org/embed/1#t=10"></iframe>
+          </body>
+        </html>
+      `;
+
+      const result = extractLinksFromHTML(html, 'https://example.com/docs/');
+      expect(result.resources).toEqual([
+        { url: 'https://example.com/css/site.css', type: 'stylesheet' },
+        { url: 'https://example.com/docs/app.js', type: 'script' },
+        { url: 'https://example.com/logo.png', type: 'image' },
+        { url: 'https://example.com/logo@2x.png', type: 'image' },
+        { url: 'https://example.com/hero.webp', type: 'image' },
+        { url: 'https://example.com/hero.jpg', type: 'image' },
+        { url: 'https://video.example.org/embed/1', type: 'iframe' },
+      ]);
+    });
   });
 });
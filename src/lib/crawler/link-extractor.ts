@@ -4,53 +4,51 @@
  */
 
 /**
- * Extracts internal and external links from HTML content
+ * Extracts internal and external links and embedded resources from HTML content
  */
 
+import { CrawlScope, NormalizationPolicy, PageResource } from '@/types';
+import { isInternalUrl } from './crawl-scope';
+import { parseHtml } from './html-parser';
+
+export const DEFAULT_NORMALIZATION_POLICY: NormalizationPolicy = {
+  queryParams: 'strip-all',
+  queryParamList: [],
+  caseSensitivePaths: false,
+  trailingSlash: 'strip',
+};
+
 export const extractLinksFromHTML = (
   html: string,
-  baseUrl: string
+  baseUrl: string,
+  policy?: Partial<NormalizationPolicy>,
+  scope?: CrawlScope
+): { internal: string[]; external: string[]; resources: PageResource[] } => {
+  const { links, resources } = parseHtml(html, baseUrl);
+  const urls = links.map((link) => link.url);
+  return { ...classifyLinks(urls, baseUrl, policy, scope), resources };
+};
+
+/**
+ * Normalizes absolute links and splits them into internal and external ones,
+ * relative to the site rooted at `rootUrl`. Duplicates are dropped.
+ */
+export const classifyLinks = (
+  links: string[],
+  rootUrl: string,
+  policy?: Partial<NormalizationPolicy>,
+  scope?: CrawlScope
 ): { internal: string[]; external: string[] } => {
   const internalLinks = new Set<string>();
   const externalLinks = new Set<string>();
 
-  try {
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(html, 'text/html');
-
-    // Extract all anchor tags
-    const links = doc.querySelectorAll('a[href]');
-
-    links.forEach((link) => {
-      try {
-        const href = link.getAttribute('href');
-        if (!href) return;
-
-        // Skip fragment-only links
-        if (href.startsWith('#')) return;
-
-        // Skip mailto, tel, etc
-        if (href.startsWith('mailto:') || href.startsWith('tel:')) return;
-
-        // Resolve relative URLs
-        const absoluteUrl = resolveUrl(href, baseUrl);
-        if (!absoluteUrl) return;
-
-        const linkDomain = new URL(absoluteUrl).hostname;
-        const baseDomain = new URL(baseUrl).hostname;
-
-        if (linkDomain === baseDomain) {
-          internalLinks.add(normalizeUrl(absoluteUrl));
-        } else {
-          externalLinks.add(normalizeUrl(absoluteUrl));
-        }
-      } catch {
-        // Skip invalid URLs
-      }
-    });
-  } catch {
-    // Return empty if parsing fails
-  }
+  links.forEach((link) => {
+    if (isInternalUrl(link, rootUrl, scope)) {
+      internalLinks.add(normalizeUrl(link, policy));
+    } else {
+      externalLinks.add(normalizeUrl(link, policy));
+    }
+  });
 
   return {
     internal: Array.from(internalLinks),
@@ -74,21 +72,52 @@ export const resolveUrl = (url: string, baseUrl: string): string | null => {
   }
 };
 
-export const normalizeUrl = (url: string): string => {
+const matchesQueryParam = (name: string, pattern: string): boolean =>
+  pattern.endsWith('*') ? name.startsWith(pattern.slice(0, -1)) : name === pattern;
+
+const keepsQueryParam = (name: string, policy: NormalizationPolicy): boolean => {
+  const listed = policy.queryParamList.some((pattern) => matchesQueryParam(name, pattern));
+  switch (policy.queryParams) {
+    case 'keep-all':
+      return true;
+    case 'keep-listed':
+      return listed;
+    case 'strip-listed':
+      return !listed;
+    default:
+      return false;
+  }
+};
+
+/**
+ * Reduces a URL to its identity under the normalization policy (defaults to
+ * DEFAULT_NORMALIZATION_POLICY). Fragments are always removed and kept query
+ * parameters are sorted by name, so the result is stable across link variants.
+ */
+export const normalizeUrl = (url: string, policy: Partial<NormalizationPolicy> = {}): string => {
+  const resolved = { ...DEFAULT_NORMALIZATION_POLICY, ...policy };
+
   try {
     const parsed = new URL(url);
 
     // Remove trailing slashes (except for root)
     let pathname = parsed.pathname;
-    if (pathname !== '/' && pathname.endsWith('/')) {
+    if (resolved.trailingSlash === 'strip' && pathname !== '/' && pathname.endsWith('/')) {
       pathname = pathname.slice(0, -1);
     }
+    if (!resolved.caseSensitivePaths) {
+      pathname = pathname.toLowerCase();
+    }
+
+    const params = Array.from(parsed.searchParams.entries())
+      .filter(([name]) => keepsQueryParam(name, resolved))
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    const search = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
 
-    // Remove query parameters and fragments
-    const normalized = `${parsed.protocol}//${parsed.hostname}${pathname}`;
-    return normalized.toLowerCase();
+    // Protocol and host are already lowercased by the URL parser
+    return `${parsed.protocol}//${parsed.host}${pathname}${search}`;
   } catch {
-    return url.toLowerCase();
+    return resolved.caseSensitivePaths ? url : url.toLowerCase();
   }
 };
 
@@ -0,0 +1,108 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Unit tests for mixed-content
+ * Coverage: detectMixedContent, groupMixedContentByHost
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectMixedContent, groupMixedContentByHost } from './mixed-content';
+import { CrawlPage, MixedContentIssue } from '@/types';
+import { createPage, createPages } from '../../../tests/fixtures/crawl-pages';
+
+const createCrawl = (url: string, ...pages: CrawlPage[]) => ({
+  url,
+  ...createPages(...pages),
+});
+
+describe('mixed-content', () => {
+  describe('detectMixedContent', () => {
+    it('should report insecure subresources, form actions and downgraded links', () => {
+      // ARRANGE
+      const crawlResult = createCrawl(
+        'https://example.com/',
+        createPage('https://example.com/', {
+          httpReferences: [
+            { url: 'http://cdn.example.com/app.js', element: 'script' },
+            { url: 'http://example.com/search', element: 'form' },
+          ],
+          links: [
+            { url: 'http://example.com/about', text: 'About', rel: [], position: 'nav' },
+            { url: 'http://example.com/about', text: 'More', rel: [], position: 'body' },
+            { url: 'https://example.com/contact', text: 'Contact', rel: [], position: 'body' },
+          ],
+        })
+      );
+
+      // ACT
+      const result = detectMixedContent(crawlResult);
+
+      // ASSERT
+      expect(result).toEqual([
+        { url: 'https://example.com/', resource: 'http://cdn.example.com/app.js', type: 'script' },
+        { url: 'https://example.com/', resource: 'http://example.com/search', type: 'form' },
+        { url: 'https://example.com/', resource: 'http://example.com/about', type: 'anchor' },
+      ]);
+    });
+
+    it('should only check HTTPS pages of HTTPS crawls', () => {
+      // ARRANGE
+      const references = {
+        httpReferences: [{ url: 'http://cdn.example.com/a.png', element: 'img' as const }],
+      };
+      const httpPage = createPage('http://example.com/legacy', references);
+      const redirected = createPage('https://example.com/old', {
+        ...references,
+        redirectChain: [
+          { url: 'https://example.com/old', status: 301 },
+          { url: 'http://example.com/legacy', status: 200 },
+        ],
+      });
+
+      // ACT & ASSERT
+      expect(detectMixedContent(createCrawl('https://example.com/', httpPage, redirected))).toEqual(
+        []
+      );
+      expect(
+        detectMixedContent(
+          createCrawl('http://example.com/', createPage('https://example.com/', references))
+        )
+      ).toEqual([]);
+    });
+  });
+
+  describe('groupMixedContentByHost', () => {
+    it('should group issues by the host of the insecure URL, largest group first', () => {
+      // ARRANGE
+      const issues: MixedContentIssue[] = [
+        {
+          url: 'https://example.com/',
+          resource: 'http://example.com/about',
+          type: 'anchor',
+        },
+        {
+          url: 'https://example.com/',
+          resource: 'http://cdn.example.com/a.png',
+          type: 'img',
+        },
+        {
+          url: 'https://example.com/b',
+          resource: 'http://cdn.example.com/a.png',
+          type: 'img',
+        },
+      ];
+
+      // ACT
+      const result = groupMixedContentByHost(issues);
+
+      // ASSERT
+      expect(result).toEqual([
+        { host: 'cdn.example.com', issues: [issues[1], issues[2]] },
+        { host: 'example.com', issues: [issues[0]] },
+      ]);
+    });
+  });
+});
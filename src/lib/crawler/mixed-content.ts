@@ -0,0 +1,85 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Finds HTTPS pages that load subresources or submit forms over plain HTTP,
+ * or link to internal pages over HTTP
+ */
+
+import { CrawlResult, MixedContentHostGroup, MixedContentIssue, MixedContentType } from '@/types';
+import { isAuditedPage } from './audited-page';
+
+export const MIXED_CONTENT_TYPE_LABELS: Record<MixedContentType, string> = {
+  img: 'Image',
+  script: 'Script',
+  link: 'Stylesheet or <link> resource',
+  iframe: 'Iframe',
+  form: 'Form action',
+  anchor: 'Internal link to HTTP',
+};
+
+const isHttps = (url: string): boolean => url.toLowerCase().startsWith('https://');
+
+/**
+ * Insecure references of each HTTPS page in crawl order: http:// images,
+ * scripts, <link> resources, iframes and form actions, then internal links
+ * whose URL is http://. Nothing is reported when the crawl target is not
+ * HTTPS. Crawls made before subresource collection only report links.
+ */
+export const detectMixedContent = (
+  crawlResult: Pick<CrawlResult, 'pages' | 'url'>
+): MixedContentIssue[] => {
+  if (!isHttps(crawlResult.url)) {
+    return [];
+  }
+  const issues: MixedContentIssue[] = [];
+
+  crawlResult.pages.forEach((page, url) => {
+    if (!isAuditedPage(page) || !isHttps(url)) {
+      return;
+    }
+
+    page.httpReferences?.forEach((reference) => {
+      issues.push({ url, resource: reference.url, type: reference.element });
+    });
+
+    const downgraded = new Set<string>();
+    page.links?.forEach((link) => {
+      if (link.url.startsWith('http://') && !downgraded.has(link.url)) {
+        downgraded.add(link.url);
+        issues.push({ url, resource: link.url, type: 'anchor' });
+      }
+    });
+  });
+
+  return issues;
+};
+
+const getHost = (url: string): string => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * Issues grouped by the host serving the insecure URL, most issues first, to
+ * fix a CDN or widget once for every page
+ */
+export const groupMixedContentByHost = (issues: MixedContentIssue[]): MixedContentHostGroup[] => {
+  const byHost = new Map<string, MixedContentIssue[]>();
+  issues.forEach((issue) => {
+    const host = getHost(issue.resource);
+    if (!byHost.has(host)) {
+      byHost.set(host, []);
+    }
+    byHost.get(host)!.push(issue);
+  });
+
+  return Array.from(byHost.entries())
+    .map(([host, hostIssues]) => ({ host, issues: hostIssues }))
+    .sort((a, b) => b.issues.length - a.issues.length);
+};
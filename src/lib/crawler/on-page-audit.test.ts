@@ -0,0 +1,183 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Unit tests for on-page-audit
+ * Coverage: detectOnPageIssues, detectDuplicateContent
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectOnPageIssues, detectDuplicateContent, OnPageLimits } from './on-page-audit';
+import { CrawlPage, PageHeading } from '@/types';
+import { createPage as createCrawlPage, createPages } from '../../../tests/fixtures/crawl-pages';
+
+const TITLE = 'Pricing plans for teams of every size';
+const DESCRIPTION =
+  'Compare the Free, Team and Enterprise plans and find the one that fits how your team works.';
+
+const limits: OnPageLimits = {
+  titleLength: { min: 30, max: 60 },
+  descriptionLength: { min: 70, max: 160 },
+};
+
+const headings = (...levels: number[]): PageHeading[] =>
+  levels.map((level) => ({ level, text: `Heading ${level}` }));
+
+const createPage = (url: string, overrides?: Partial<CrawlPage>): CrawlPage =>
+  createCrawlPage(url, {
+    title: TITLE,
+    description: DESCRIPTION,
+    headings: headings(1, 2),
+    ...overrides,
+  });
+
+describe('on-page-audit', () => {
+  describe('detectOnPageIssues', () => {
+    it('should report nothing for a well-formed page', () => {
+      // ARRANGE
+      const crawlResult = createPages(createPage('https://example.com/'));
+
+      // ACT & ASSERT
+      expect(detectOnPageIssues(crawlResult, limits)).toEqual([]);
+    });
+
+    it('should report missing, short and long titles and descriptions', () => {
+      // ARRANGE
+      const longDescription = 'A'.repeat(161);
+      const crawlResult = createPages(
+        createPage('https://example.com/a', { title: '  ', description: 'Too short' }),
+        createPage('https://example.com/b', {
+          title: `${TITLE} and more words past the limit`,
+          description: longDescription,
+        }),
+        createPage('https://example.com/c', { title: 'Pricing', description: undefined })
+      );
+
+      // ACT
+      const result = detectOnPageIssues(crawlResult, limits);
+
+      // ASSERT
+      expect(result).toEqual([
+        { url: 'https://example.com/a', type: 'missing-title' },
+        {
+          url: 'https://example.com/a',
+          type: 'description-too-short',
+          value: 'Too short',
+          count: 9,
+        },
+        {
+          url: 'https://example.com/b',
+          type: 'title-too-long',
+          value: `${TITLE} and more words past the limit`,
+          count: 67,
+        },
+        {
+          url: 'https://example.com/b',
+          type: 'description-too-long',
+          value: longDescription,
+          count: 161,
+        },
+        { url: 'https://example.com/c', type: 'title-too-short', value: 'Pricing', count: 7 },
+        { url: 'https://example.com/c', type: 'missing-description' },
+      ]);
+    });
+
+    it('should report H1 count and skipped heading levels', () => {
+      // ARRANGE
+      const crawlResult = createPages(
+        createPage('https://example.com/a', { headings: headings(2, 3) }),
+        createPage('https://example.com/b', { headings: headings(1, 1, 2, 4, 2, 3) })
+      );
+
+      // ACT
+      const result = detectOnPageIssues(crawlResult, limits);
+
+      // ASSERT
+      expect(result).toEqual([
+        { url: 'https://example.com/a', type: 'missing-h1' },
+        { url: 'https://example.com/b', type: 'multiple-h1', count: 2 },
+        {
+          url: 'https://example.com/b',
+          type: 'skipped-heading-level',
+          value: 'Heading 4',
+          fromLevel: 2,
+          toLevel: 4,
+        },
+      ]);
+    });
+
+    it('should skip redirects, errors and heading checks of older crawls', () => {
+      // ARRANGE
+      const crawlResult = createPages(
+        createPage('https://example.com/missing', { status: 404, title: undefined }),
+        createPage('https://example.com/old', {
+          title: undefined,
+          redirectChain: [
+            { url: 'https://example.com/old', status: 301 },
+            { url: 'https://example.com/', status: 200 },
+          ],
+        }),
+        createPage('https://example.com/legacy', { headings: undefined })
+      );
+
+      // ACT & ASSERT
+      expect(detectOnPageIssues(crawlResult, limits)).toEqual([]);
+    });
+  });
+
+  describe('detectDuplicateContent', () => {
+    it('should group pages sharing a title, description or first H1', () => {
+      // ARRANGE
+      const crawlResult = createPages(
+        createPage('https://example.com/a', { description: 'First' }),
+        createPage('https://example.com/b', {
+          title: ` ${TITLE.toUpperCase()} `,
+          description: 'Second',
+          headings: [{ level: 1, text: 'Pricing' }],
+        }),
+        createPage('https://example.com/c', {
+          title: 'Another title',
+          description: 'Second',
+          headings: [{ level: 1, text: 'Pricing' }],
+        })
+      );
+
+      // ACT
+      const result = detectDuplicateContent(crawlResult);
+
+      // ASSERT
+      expect(result).toEqual([
+        {
+          field: 'title',
+          value: TITLE,
+          urls: ['https://example.com/a', 'https://example.com/b'],
+        },
+        {
+          field: 'description',
+          value: 'Second',
+          urls: ['https://example.com/b', 'https://example.com/c'],
+        },
+        {
+          field: 'h1',
+          value: 'Pricing',
+          urls: ['https://example.com/b', 'https://example.com/c'],
+        },
+      ]);
+    });
+
+    it('should leave out non-indexable pages', () => {
+      // ARRANGE
+      const crawlResult = createPages(
+        createPage('https://example.com/a'),
+        createPage('https://example.com/a?sort=asc', {
+          indexability: { indexable: false, reasons: ['canonicalized'], nofollow: false },
+        })
+      );
+
+      // ACT & ASSERT
+      expect(detectDuplicateContent(crawlResult)).toEqual([]);
+    });
+  });
+});
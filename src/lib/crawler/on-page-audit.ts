@@ -0,0 +1,160 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Audits the titles, meta descriptions and headings of crawled pages, and finds
+ * values shared by several pages
+ */
+
+import {
+  CrawlPage,
+  CrawlResult,
+  DuplicateContentField,
+  DuplicateContentGroup,
+  OnPageIssue,
+  OnPageIssueType,
+} from '@/types';
+import { isAuditedPage } from './audited-page';
+
+export const ON_PAGE_ISSUE_LABELS: Record<OnPageIssueType, string> = {
+  'missing-title': 'Missing title',
+  'title-too-short': 'Title too short',
+  'title-too-long': 'Title too long',
+  'missing-description': 'Missing meta description',
+  'description-too-short': 'Meta description too short',
+  'description-too-long': 'Meta description too long',
+  'missing-h1': 'Missing H1',
+  'multiple-h1': 'Multiple H1s',
+  'skipped-heading-level': 'Skipped heading level',
+};
+
+export const DUPLICATE_CONTENT_FIELD_LABELS: Record<DuplicateContentField, string> = {
+  title: 'Duplicate title',
+  description: 'Duplicate meta description',
+  h1: 'Duplicate H1',
+};
+
+export interface LengthRange {
+  min: number;
+  max: number;
+}
+
+export interface OnPageLimits {
+  titleLength: LengthRange;
+  descriptionLength: LengthRange;
+}
+
+const checkLength = (
+  url: string,
+  value: string | undefined,
+  range: LengthRange,
+  types: [OnPageIssueType, OnPageIssueType, OnPageIssueType]
+): OnPageIssue | undefined => {
+  const [missing, tooShort, tooLong] = types;
+  const text = value?.trim();
+  if (!text) {
+    return { url, type: missing };
+  }
+  if (text.length < range.min) {
+    return { url, type: tooShort, value: text, count: text.length };
+  }
+  if (text.length > range.max) {
+    return { url, type: tooLong, value: text, count: text.length };
+  }
+  return undefined;
+};
+
+/**
+ * Issues of each page in crawl order: title and description length outside
+ * `limits`, then H1 count and skipped heading levels (an <h4> right after an
+ * <h2>). Heading checks need CrawlPage.headings, which older crawls lack.
+ */
+export const detectOnPageIssues = (
+  crawlResult: Pick<CrawlResult, 'pages'>,
+  limits: OnPageLimits
+): OnPageIssue[] => {
+  const issues: OnPageIssue[] = [];
+
+  crawlResult.pages.forEach((page, url) => {
+    if (!isAuditedPage(page)) {
+      return;
+    }
+
+    const title = checkLength(url, page.title, limits.titleLength, [
+      'missing-title',
+      'title-too-short',
+      'title-too-long',
+    ]);
+    const description = checkLength(url, page.description, limits.descriptionLength, [
+      'missing-description',
+      'description-too-short',
+      'description-too-long',
+    ]);
+    issues.push(...[title, description].filter((issue): issue is OnPageIssue => !!issue));
+
+    if (!page.headings) {
+      return;
+    }
+    const h1Count = page.headings.filter((heading) => heading.level === 1).length;
+    if (h1Count === 0) {
+      issues.push({ url, type: 'missing-h1' });
+    } else if (h1Count > 1) {
+      issues.push({ url, type: 'multiple-h1', count: h1Count });
+    }
+    page.headings.forEach((heading, index) => {
+      const previous = page.headings![index - 1];
+      if (previous && heading.level > previous.level + 1) {
+        issues.push({
+          url,
+          type: 'skipped-heading-level',
+          value: heading.text,
+          fromLevel: previous.level,
+          toLevel: heading.level,
+        });
+      }
+    });
+  });
+
+  return issues;
+};
+
+/**
+ * Values compared case-insensitively, ignoring whitespace differences
+ */
+const getDuplicateKey = (value: string): string => value.replace(/\s+/g, ' ').trim().toLowerCase();
+
+/**
+ * Titles, descriptions and first H1s shared by several indexable pages, grouped
+ * by field. Non-indexable pages, such as pages canonicalized to another URL,
+ * are expected to repeat their canonical page and are left out.
+ */
+export const detectDuplicateContent = (
+  crawlResult: Pick<CrawlResult, 'pages'>
+): DuplicateContentGroup[] => {
+  const fields: Record<DuplicateContentField, (page: CrawlPage) => string | undefined> = {
+    title: (page) => page.title,
+    description: (page) => page.description,
+    h1: (page) => page.headings?.find((heading) => heading.level === 1)?.text,
+  };
+  const groups: DuplicateContentGroup[] = [];
+
+  (Object.keys(fields) as DuplicateContentField[]).forEach((field) => {
+    const byValue = new Map<string, DuplicateContentGroup>();
+    crawlResult.pages.forEach((page, url) => {
+      const value = fields[field](page)?.trim();
+      if (!value || !isAuditedPage(page) || page.indexability?.indexable === false) {
+        return;
+      }
+      const key = getDuplicateKey(value);
+      if (!byValue.has(key)) {
+        byValue.set(key, { field, value, urls: [] });
+      }
+      byValue.get(key)!.urls.push(url);
+    });
+    groups.push(...Array.from(byValue.values()).filter((group) => group.urls.length > 1));
+  });
+
+  return groups;
+};
@@ -259,6 +259,86 @@ describe('orphan-detector', () => {
       expect(result.some((p) => p.url === 'https://example.com/page2')).toBe(false);
     });
 
+    it('should treat canonicalized duplicates as part of their canonical page', () => {
+      // ARRANGE
+      const home: CrawlPage = {
+        url: 'https://example.com/',
+        status: 200,
+        isEmpty: false,
+        crawlTime: 100,
+        internalLinks: ['https://example.com/product?color=red'],
+        externalLinks: [],
+        inSitemap: true,
+      };
+      const duplicate: CrawlPage = {
+        url: 'https://example.com/product?color=red',
+        status: 200,
+        isEmpty: false,
+        crawlTime: 100,
+        canonical: 'https://example.com/product',
+        internalLinks: [],
+        externalLinks: [],
+        inSitemap: false,
+      };
+      const unlinkedDuplicate: CrawlPage = {
+        ...duplicate,
+        url: 'https://example.com/product?color=blue',
+      };
+      const canonical: CrawlPage = {
+        ...duplicate,
+        url: 'https://example.com/product',
+      };
+
+      const crawlResult = {
+        pages: new Map([
+          [home.url, home],
+          [duplicate.url, duplicate],
+          [unlinkedDuplicate.url, unlinkedDuplicate],
+          [canonical.url, canonical],
+        ]),
+      } as CrawlResult;
+
+      // ACT
+      const result = detectOrphanedPages(crawlResult, new Set([home.url]));
+
+      // ASSERT
+      expect(result).toEqual([]);
+    });
+
+    it('should match links to pages with the crawl normalization policy', () => {
+      // ARRANGE
+      const home: CrawlPage = {
+        url: 'https://example.com/',
+        status: 200,
+        isEmpty: false,
+        crawlTime: 100,
+        internalLinks: ['https://example.com/blog?utm_source=nav'],
+        externalLinks: [],
+        inSitemap: true,
+      };
+      const blog: CrawlPage = { ...home, url: 'https://example.com/blog', internalLinks: [] };
+      const secondPage: CrawlPage = { ...blog, url: 'https://example.com/blog?page=2' };
+      const pages = new Map([
+        [home.url, home],
+        [blog.url, blog],
+        [secondPage.url, secondPage],
+      ]);
+
+      // ACT
+      const stripAll = detectOrphanedPages({ pages } as CrawlResult, new Set([home.url]));
+      const keepPage = detectOrphanedPages(
+        {
+          pages,
+          normalization: { queryParams: 'keep-listed', queryParamList: ['page'] },
+        } as CrawlResult,
+        new Set([home.url])
+      );
+
+      // ASSERT
+      expect(stripAll).toEqual([]);
+      expect(keepPage.map((page) => page.url)).toEqual(['https://example.com/blog?page=2']);
+    });
+
     it('should not detect pages in sitemap as orphaned even without incoming links', () => {
       // ARRANGE
       const page1: CrawlPage = {
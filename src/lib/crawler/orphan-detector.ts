@@ -8,20 +8,47 @@
  */
 
 import { CrawlResult, CrawlPage, OrphanedPage, LinkResult } from '@/types';
+import { getCanonicalKey, getCanonicalTarget } from './canonical-detector';
+import { isValidUrl, normalizeUrl } from './link-extractor';
+import { isInternalUrl } from './crawl-scope';
 
 export const detectOrphanedPages = (
   crawlResult: CrawlResult,
   sitemapUrls: Set<string>
 ): OrphanedPage[] => {
   const orphaned: OrphanedPage[] = [];
+  const policy = crawlResult.normalization;
   const incomingLinks = buildIncomingLinkMap(crawlResult);
+  const sitemapKeys = new Set(Array.from(sitemapUrls, (url) => normalizeUrl(url, policy)));
+
+  // Links to a canonicalized duplicate count towards its canonical page
+  const linkedCanonicals = new Set<string>();
+  crawlResult.pages.forEach((page, url) => {
+    const canonicalTarget = getCanonicalTarget(page, policy);
+    if (canonicalTarget && incomingLinks.has(normalizeUrl(url, policy))) {
+      linkedCanonicals.add(canonicalTarget);
+    }
+  });
+
+  crawlResult.pages.forEach((page, url) => {
+    // Canonicalized duplicates are consolidated into their canonical page
+    if (getCanonicalTarget(page, policy)) {
+      return;
+    }
+
+    // Pages outside the crawl scope (e.g. manual pages on other hosts) cannot
+    // receive internal links
+    if (isValidUrl(crawlResult.url) && !isInternalUrl(url, crawlResult.url, crawlResult.scope)) {
+      return;
+    }
 
-  crawlResult.pages.forEach((_, url) => {
     // A page is orphaned if:
-    // 1. It has no incoming internal links AND
+    // 1. It has no incoming internal links (to itself or its duplicates) AND
     // 2. It's not in the sitemap
-    const hasIncomingLinks = (incomingLinks.get(url) ?? []).length > 0;
-    const inSitemap = sitemapUrls.has(url);
+    const key = normalizeUrl(url, policy);
+    const hasIncomingLinks =
+      incomingLinks.has(key) || linkedCanonicals.has(getCanonicalKey(url, policy));
+    const inSitemap = sitemapKeys.has(key);
 
     if (!hasIncomingLinks && !inSitemap) {
       orphaned.push({
@@ -39,12 +66,17 @@ export const detectSitemapOnlyPages = (
   crawlResult: CrawlResult,
   sitemapUrls: Set<string>
 ): string[] => {
+  const policy = crawlResult.normalization;
   const incomingLinks = buildIncomingLinkMap(crawlResult);
+  const crawledKeys = new Set(
+    Array.from(crawlResult.pages.keys(), (url) => normalizeUrl(url, policy))
+  );
   const sitemapOnly: string[] = [];
 
   sitemapUrls.forEach((url) => {
-    const hasIncomingLinks = (incomingLinks.get(url) ?? []).length > 0;
-    const isCrawled = crawlResult.pages.has(url);
+    const key = normalizeUrl(url, policy);
+    const hasIncomingLinks = incomingLinks.has(key);
+    const isCrawled = crawledKeys.has(key);
 
     // Sitemap-only if: in sitemap AND has no incoming internal links AND was crawled
     if (!hasIncomingLinks && isCrawled) {
@@ -62,7 +94,7 @@ export const detectBrokenLinks = (crawlResult: CrawlResult): LinkResult[] => {
   crawlResult.pages.forEach((page) => {
     // Check for 4xx and 5xx status codes
     if (page.status >= 400) {
-      const referredBy = incomingLinks.get(page.url) ?? [];
+      const referredBy = incomingLinks.get(normalizeUrl(page.url, crawlResult.normalization)) ?? [];
       if (referredBy.length > 0) {
         broken.push({
           url: page.url,
@@ -88,15 +120,24 @@ export const detectEmptyPages = (crawlResult: CrawlResult): CrawlPage[] => {
   return empty;
 };
 
-export const buildIncomingLinkMap = (crawlResult: CrawlResult): Map<string, string[]> => {
+/**
+ * Maps each linked URL, normalized with the crawl's policy, to the pages linking to it
+ */
+export const buildIncomingLinkMap = (
+  crawlResult: Pick<CrawlResult, 'pages' | 'normalization'>
+): Map<string, string[]> => {
   const incomingLinks = new Map<string, string[]>();
 
   crawlResult.pages.forEach((page) => {
     page.internalLinks.forEach((link) => {
-      if (!incomingLinks.has(link)) {
-        incomingLinks.set(link, []);
+      const key = normalizeUrl(link, crawlResult.normalization);
+      if (!incomingLinks.has(key)) {
+        incomingLinks.set(key, []);
+      }
+      // Several link variants may normalize to the same URL
+      if (!incomingLinks.get(key)!.includes(page.url)) {
+        incomingLinks.get(key)!.push(page.url);
       }
-      incomingLinks.get(link)!.push(page.url);
     });
   });
 
@@ -0,0 +1,129 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Extracts the CrawlPage fields read from a page's HTML. This module is also
+ * bundled into public/page-extractor.js (npm run build:worker) for the
+ * Service Worker, so both crawl paths produce the same page data. The bundle
+ * has no app config, so neither this module nor anything it imports may
+ * import '@/config'.
+ */
+
+import { ContentThresholds, CrawlPage, CrawlScope, LinkRecord, NormalizationPolicy } from '@/types';
+import { parseHtml } from './html-parser';
+import { classifyLinks, normalizeUrl } from './link-extractor';
+import { getIndexability, parseRobotsContent, parseXRobotsTag } from './indexability';
+import { isPathAllowed } from './sitemap-parser';
+import { validateJsonLd, validateMicrodata } from './structured-data';
+import { computeContentFingerprint } from './content-fingerprint';
+import { getContentQuality } from './content-quality';
+import { readResponseHeaders } from './response-headers';
+import { measurePagePerformance } from './page-performance';
+import { isHostInScope } from './crawl-scope';
+import { isUrlInScope } from './url-rules';
+
+// The Service Worker dedupes its queue with the same normalization, applies
+// the same crawl scope, URL rules, indexability and robots.txt rules, and
+// reads response headers and measures pages the same way
+export {
+  normalizeUrl,
+  isHostInScope,
+  isUrlInScope,
+  getIndexability,
+  isPathAllowed,
+  readResponseHeaders,
+  measurePagePerformance,
+};
+
+export interface PageExtractionOptions {
+  /** Links are internal relative to this URL (the start URL); defaults to the page URL */
+  rootUrl?: string;
+  normalization?: Partial<NormalizationPolicy>;
+  scope?: CrawlScope;
+  /** Defaults to DEFAULT_CONTENT_THRESHOLDS */
+  contentThresholds?: Partial<ContentThresholds>;
+  /** The X-Robots-Tag response header, when the response exposes it */
+  xRobotsTag?: string | null;
+}
+
+export type PageContent = Pick<
+  CrawlPage,
+  | 'title'
+  | 'description'
+  | 'canonical'
+  | 'isEmpty'
+  | 'contentQuality'
+  | 'internalLinks'
+  | 'externalLinks'
+  | 'links'
+  | 'resources'
+  | 'hreflang'
+  | 'robotsDirectives'
+  | 'structuredData'
+  | 'headings'
+  | 'images'
+  | 'socialMeta'
+  | 'httpReferences'
+  | 'fingerprint'
+>;
+
+export interface ExtractedPage extends PageContent {
+  /** Normalized internal links mapped to the URL found on the page, to fetch them as linked */
+  linkTargets: Map<string, string>;
+}
+
+export const extractPageContent = (
+  html: string,
+  url: string,
+  options: PageExtractionOptions = {}
+): ExtractedPage => {
+  const { rootUrl = url, normalization, scope, contentThresholds, xRobotsTag } = options;
+  const parsed = parseHtml(html, url);
+  const urls = parsed.links.map((link) => link.url);
+  const { internal, external } = classifyLinks(urls, rootUrl, normalization, scope);
+
+  const links: LinkRecord[] = [];
+  const linkTargets = new Map<string, string>();
+  parsed.links.forEach((link) => {
+    const normalized = normalizeUrl(link.url, normalization);
+    if (!internal.includes(normalized)) {
+      return;
+    }
+    links.push({ ...link, url: normalized });
+    if (!linkTargets.has(normalized)) {
+      linkTargets.set(normalized, link.url);
+    }
+  });
+
+  return {
+    title: parsed.title,
+    description: parsed.description,
+    canonical: parsed.canonical,
+    ...getContentQuality(parsed, html.length, contentThresholds),
+    internalLinks: internal,
+    externalLinks: external,
+    links,
+    resources: parsed.resources,
+    hreflang: parsed.hreflang,
+    robotsDirectives: [
+      ...parsed.robotsMeta.map(({ name, content }) => ({
+        source: 'meta' as const,
+        userAgent: name,
+        directives: parseRobotsContent(content),
+      })),
+      ...parseXRobotsTag(xRobotsTag),
+    ],
+    structuredData: [
+      ...parsed.jsonLd.flatMap(validateJsonLd),
+      ...parsed.microdata.map(validateMicrodata),
+    ],
+    headings: parsed.headings,
+    images: parsed.images,
+    socialMeta: parsed.socialMeta,
+    httpReferences: parsed.httpReferences,
+    fingerprint: computeContentFingerprint(parsed.mainText),
+    linkTargets,
+  };
+};
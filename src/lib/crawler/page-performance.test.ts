@@ -0,0 +1,153 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Unit tests for page-performance
+ * Coverage: measurePagePerformance, analyzePerformance, formatPageSize, formatBucket
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  measurePagePerformance,
+  analyzePerformance,
+  formatPageSize,
+  formatBucket,
+} from './page-performance';
+import { createPage, createPages } from '../../../tests/fixtures/crawl-pages';
+
+describe('page-performance', () => {
+  describe('measurePagePerformance', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should count UTF-8 bytes and read the Resource Timing of the URL', () => {
+      // ARRANGE
+      const getEntries = vi.spyOn(performance, 'getEntriesByName').mockReturnValue([
+        {
+          startTime: 10.2,
+          responseStart: 130.4,
+          responseEnd: 170.9,
+          transferSize: 900,
+        } as PerformanceResourceTiming,
+      ]);
+
+      // ACT
+      const result = measurePagePerformance('<p>Café</p>', 'https://example.com/');
+
+      // ASSERT
+      expect(getEntries).toHaveBeenCalledWith('https://example.com/', 'resource');
+      expect(result).toEqual({ bytes: 12, transferBytes: 900, ttfb: 120, download: 41 });
+    });
+
+    it('should leave out timings and sizes the response does not expose', () => {
+      // ARRANGE
+      vi.spyOn(performance, 'getEntriesByName').mockReturnValue([
+        {
+          startTime: 10,
+          responseStart: 0,
+          responseEnd: 80,
+          transferSize: 0,
+        } as PerformanceResourceTiming,
+      ]);
+
+      // ACT & ASSERT
+      expect(measurePagePerformance('<p>Hi</p>', 'https://other.example.org/')).toEqual({
+        bytes: 9,
+      });
+    });
+  });
+
+  describe('analyzePerformance', () => {
+    it('should summarize percentiles for the site and per directory', () => {
+      // ARRANGE
+      const crawlResult = createPages(
+        createPage('https://example.com/', {
+          crawlTime: 80.4,
+          performance: { bytes: 1000, ttfb: 40 },
+        }),
+        createPage('https://example.com/blog/a', {
+          crawlTime: 300,
+          performance: { bytes: 5000, ttfb: 200 },
+        }),
+        createPage('https://example.com/blog/b', { crawlTime: 1200 }),
+        createPage('https://example.com/old', {
+          crawlTime: 9000,
+          redirectChain: [
+            { url: 'https://example.com/old', status: 301 },
+            { url: 'https://example.com/', status: 200 },
+          ],
+        }),
+        createPage('https://example.com/missing', { status: 404, crawlTime: 9000 })
+      );
+
+      // ACT
+      const result = analyzePerformance(crawlResult);
+
+      // ASSERT
+      expect(result.site).toEqual({
+        pageCount: 3,
+        responseTime: { p50: 300, p90: 1200, p99: 1200 },
+        ttfb: { p50: 40, p90: 200, p99: 200 },
+        bytes: { p50: 1000, p90: 5000, p99: 5000 },
+      });
+      expect(result.directories.map((directory) => directory.directory)).toEqual(['/blog/', '/']);
+      expect(result.directories[0].responseTime).toEqual({ p50: 300, p90: 1200, p99: 1200 });
+      expect(result.histogram.map((bucket) => bucket.count)).toEqual([1, 0, 1, 0, 1, 0, 0]);
+      expect(result.slowestPages.map((row) => row.url)).toEqual([
+        'https://example.com/blog/b',
+        'https://example.com/blog/a',
+        'https://example.com/',
+      ]);
+      expect(result.heaviestPages[0]).toEqual({
+        url: 'https://example.com/blog/a',
+        responseTime: 300,
+        ttfb: 200,
+        bytes: 5000,
+      });
+    });
+
+    it('should flag every metric over budget, with defaults for the others', () => {
+      // ARRANGE
+      const crawlResult = createPages(
+        createPage('https://example.com/', {
+          crawlTime: 1500,
+          performance: { bytes: 4000, ttfb: 900 },
+        }),
+        createPage('https://example.com/fast', { performance: { bytes: 100, ttfb: 50 } })
+      );
+
+      // ACT
+      const result = analyzePerformance(crawlResult, { bytes: 2000 });
+
+      // ASSERT
+      expect(result.budgets).toEqual({ responseTime: 1000, ttfb: 800, bytes: 2000 });
+      expect(result.budgetViolations).toEqual([
+        { url: 'https://example.com/', metric: 'responseTime', value: 1500, budget: 1000 },
+        { url: 'https://example.com/', metric: 'ttfb', value: 900, budget: 800 },
+        { url: 'https://example.com/', metric: 'bytes', value: 4000, budget: 2000 },
+      ]);
+    });
+  });
+
+  describe('formatPageSize', () => {
+    it('should prefer the measured bytes over the character count', () => {
+      // ACT & ASSERT
+      expect(formatPageSize({ contentLength: 600, performance: { bytes: 1800 } })).toBe(
+        '1800 bytes'
+      );
+      expect(formatPageSize({ contentLength: 600 })).toBe('600 characters');
+      expect(formatPageSize({})).toBe('0 characters');
+    });
+  });
+
+  describe('formatBucket', () => {
+    it('should label bounded and open-ended buckets', () => {
+      // ACT & ASSERT
+      expect(formatBucket({ min: 100, max: 250, count: 0 })).toBe('100–250 ms');
+      expect(formatBucket({ min: 5000, count: 0 })).toBe('5000+ ms');
+    });
+  });
+});
@@ -0,0 +1,222 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Measures the byte size and Resource Timing of crawled pages, and summarizes
+ * response times and page weight as percentiles checked against performance
+ * budgets
+ */
+
+import {
+  BudgetViolation,
+  CrawlPage,
+  CrawlResult,
+  DirectoryPerformance,
+  PagePerformance,
+  PagePerformanceRow,
+  PercentileSummary,
+  PerformanceBudgets,
+  PerformanceMetric,
+  PerformancePercentiles,
+  PerformanceReport,
+  ResponseTimeBucket,
+} from '@/types';
+import { isAuditedPage } from './audited-page';
+
+export const DEFAULT_PERFORMANCE_BUDGETS: PerformanceBudgets = {
+  responseTime: 1000,
+  ttfb: 800,
+  bytes: 512000,
+};
+
+export const PERFORMANCE_METRIC_LABELS: Record<PerformanceMetric, string> = {
+  responseTime: 'Response time',
+  ttfb: 'Time to first byte',
+  bytes: 'Page size',
+};
+
+/**
+ * Lower bounds (in milliseconds) of the response time histogram buckets
+ */
+const HISTOGRAM_BOUNDS = [0, 100, 250, 500, 1000, 2500, 5000];
+
+/**
+ * Browsers stop recording resource timings once their buffer (250 entries by
+ * default) is full, so it is emptied before that
+ */
+const RESOURCE_TIMING_LIMIT = 200;
+
+/**
+ * Byte size of an HTML body, and its Resource Timing when the runtime recorded
+ * one for `url` (the final URL). Cross-origin responses without
+ * Timing-Allow-Origin expose no timings or sizes, and cached ones no transfer
+ * size; those fields are left out.
+ */
+export const measurePagePerformance = (html: string, url: string): PagePerformance => {
+  const measurement: PagePerformance = { bytes: new TextEncoder().encode(html).length };
+  if (typeof performance === 'undefined' || typeof performance.getEntriesByName !== 'function') {
+    return measurement;
+  }
+
+  const timing = performance.getEntriesByName(url, 'resource').pop() as
+    | PerformanceResourceTiming
+    | undefined;
+  if (timing && timing.responseStart > 0) {
+    measurement.ttfb = Math.round(timing.responseStart - timing.startTime);
+    measurement.download = Math.round(timing.responseEnd - timing.responseStart);
+  }
+  if (timing && timing.transferSize > 0) {
+    measurement.transferBytes = timing.transferSize;
+  }
+
+  if (performance.getEntriesByType('resource').length >= RESOURCE_TIMING_LIMIT) {
+    performance.clearResourceTimings();
+  }
+  return measurement;
+};
+
+/**
+ * Fetch time of a page in whole milliseconds, redirects included
+ */
+const getResponseTime = (page: CrawlPage): number => Math.round(page.crawlTime);
+
+/**
+ * Nearest-rank percentile of values sorted in ascending order
+ */
+const getPercentile = (sorted: number[], percentile: number): number =>
+  sorted[Math.max(0, Math.ceil((percentile / 100) * sorted.length) - 1)];
+
+const summarize = (values: number[]): PercentileSummary | undefined => {
+  if (values.length === 0) {
+    return undefined;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p50: getPercentile(sorted, 50),
+    p90: getPercentile(sorted, 90),
+    p99: getPercentile(sorted, 99),
+  };
+};
+
+const getPercentiles = (pages: CrawlPage[]): PerformancePercentiles => {
+  const ttfb = summarize(
+    pages.flatMap((page) => (page.performance?.ttfb !== undefined ? [page.performance.ttfb] : []))
+  );
+  const bytes = summarize(
+    pages.flatMap((page) => (page.performance ? [page.performance.bytes] : []))
+  );
+
+  return {
+    pageCount: pages.length,
+    responseTime: summarize(pages.map(getResponseTime)) ?? { p50: 0, p90: 0, p99: 0 },
+    ...(ttfb && { ttfb }),
+    ...(bytes && { bytes }),
+  };
+};
+
+const getDirectory = (url: string): string => {
+  try {
+    const segments = new URL(url).pathname.split('/');
+    return segments.length > 2 ? `/${segments[1]}/` : '/';
+  } catch {
+    return '/';
+  }
+};
+
+const toRow = (page: CrawlPage): PagePerformanceRow => ({
+  url: page.url,
+  responseTime: getResponseTime(page),
+  ...(page.performance?.ttfb !== undefined && { ttfb: page.performance.ttfb }),
+  ...(page.performance && { bytes: page.performance.bytes }),
+  ...(page.performance?.transferBytes !== undefined && {
+    transferBytes: page.performance.transferBytes,
+  }),
+});
+
+const getBudgetViolations = (pages: CrawlPage[], budgets: PerformanceBudgets): BudgetViolation[] =>
+  pages.flatMap((page) => {
+    const values: Record<PerformanceMetric, number | undefined> = {
+      responseTime: getResponseTime(page),
+      ttfb: page.performance?.ttfb,
+      bytes: page.performance?.bytes,
+    };
+    return (Object.keys(values) as PerformanceMetric[]).flatMap((metric) => {
+      const value = values[metric];
+      return value !== undefined && value > budgets[metric]
+        ? [{ url: page.url, metric, value, budget: budgets[metric] }]
+        : [];
+    });
+  });
+
+/**
+ * Response time, TTFB and page size percentiles of the pages served with
+ * status 200 without a redirect, for the whole site and per top-level
+ * directory, with a response time histogram, the `limit` slowest and heaviest
+ * pages, and every page over budget in crawl order. Response times are the
+ * crawler's own fetch times; crawls made before page measurement have no TTFB
+ * or size.
+ */
+export const analyzePerformance = (
+  crawlResult: Pick<CrawlResult, 'pages'>,
+  budgets?: Partial<PerformanceBudgets>,
+  limit = 10
+): PerformanceReport => {
+  const resolvedBudgets = { ...DEFAULT_PERFORMANCE_BUDGETS, ...budgets };
+  const pages = Array.from(crawlResult.pages.values()).filter(isAuditedPage);
+
+  const byDirectory = new Map<string, CrawlPage[]>();
+  pages.forEach((page) => {
+    const directory = getDirectory(page.url);
+    if (!byDirectory.has(directory)) {
+      byDirectory.set(directory, []);
+    }
+    byDirectory.get(directory)!.push(page);
+  });
+  const directories: DirectoryPerformance[] = Array.from(byDirectory.entries())
+    .map(([directory, directoryPages]) => ({ directory, ...getPercentiles(directoryPages) }))
+    .sort((a, b) => b.responseTime.p90 - a.responseTime.p90);
+
+  const histogram: ResponseTimeBucket[] = HISTOGRAM_BOUNDS.map((min, index) => ({
+    min,
+    ...(index + 1 < HISTOGRAM_BOUNDS.length && { max: HISTOGRAM_BOUNDS[index + 1] }),
+    count: 0,
+  }));
+  pages.forEach((page) => {
+    const index = HISTOGRAM_BOUNDS.filter((min) => getResponseTime(page) >= min).length - 1;
+    if (index >= 0) {
+      histogram[index].count++;
+    }
+  });
+
+  return {
+    budgets: resolvedBudgets,
+    site: getPercentiles(pages),
+    directories,
+    histogram,
+    slowestPages: [...pages]
+      .sort((a, b) => getResponseTime(b) - getResponseTime(a))
+      .slice(0, limit)
+      .map(toRow),
+    heaviestPages: pages
+      .filter((page) => page.performance)
+      .sort((a, b) => b.performance!.bytes - a.performance!.bytes)
+      .slice(0, limit)
+      .map(toRow),
+    budgetViolations: getBudgetViolations(pages, resolvedBudgets),
+  };
+};
+
+/**
+ * Size of a page: its byte size when measured, otherwise the HTML length in
+ * characters recorded by crawls made before page measurement
+ */
+export const formatPageSize = (page: Pick<CrawlPage, 'contentLength' | 'performance'>): string =>
+  page.performance ? `${page.performance.bytes} bytes` : `${page.contentLength ?? 0} characters`;
+
+/**
+ * Bucket label such as '100–250 ms' or '5000+ ms'
+ */
+export const formatBucket = (bucket: ResponseTimeBucket): string =>
+  bucket.max === undefined ? `${bucket.min}+ ms` : `${bucket.min}–${bucket.max} ms`;
@@ -0,0 +1,113 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Unit tests for redirect-detector
+ * Coverage: getRedirectHopCount, isRedirectLoop, formatRedirectChain, detectRedirectChains,
+ * detectRedirectLoops, detectRedirectedLinks
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getRedirectHopCount,
+  isRedirectLoop,
+  formatRedirectChain,
+  detectRedirectChains,
+  detectRedirectLoops,
+  detectRedirectedLinks,
+} from './redirect-detector';
+import { CrawlPage, RedirectHop } from '@/types';
+import { createPage as createCrawlPage } from '../../../tests/fixtures/crawl-pages';
+
+const createPage = (
+  url: string,
+  internalLinks: string[] = [],
+  redirectChain?: RedirectHop[]
+): CrawlPage => createCrawlPage(url, { internalLinks, redirectChain });
+
+const singleHop: RedirectHop[] = [
+  { url: 'https://example.com/moved', status: 301 },
+  { url: 'https://example.com/target', status: 200 },
+];
+
+const twoHops: RedirectHop[] = [
+  { url: 'https://example.com/old', status: 301 },
+  { url: 'https://example.com/older', status: 302 },
+  { url: 'https://example.com/target', status: 200 },
+];
+
+const loop: RedirectHop[] = [
+  { url: 'https://example.com/a', status: 301 },
+  { url: 'https://example.com/b', status: 301 },
+  { url: 'https://example.com/a' },
+];
+
+const createCrawlResult = () => ({
+  pages: new Map([
+    [
+      'https://example.com/',
+      createPage('https://example.com/', ['https://example.com/moved', 'https://example.com/a']),
+    ],
+    ['https://example.com/moved', createPage('https://example.com/moved', [], singleHop)],
+    ['https://example.com/old', createPage('https://example.com/old', [], twoHops)],
+    ['https://example.com/a', createPage('https://example.com/a', [], loop)],
+  ]),
+});
+
+describe('redirect-detector', () => {
+  describe('getRedirectHopCount', () => {
+    it('should not count the final URL as a hop', () => {
+      expect(getRedirectHopCount(singleHop)).toBe(1);
+      expect(getRedirectHopCount(twoHops)).toBe(2);
+      expect(getRedirectHopCount([])).toBe(0);
+    });
+  });
+
+  describe('isRedirectLoop', () => {
+    it('should detect a chain that returns to an earlier URL', () => {
+      expect(isRedirectLoop(loop)).toBe(true);
+      expect(isRedirectLoop(twoHops)).toBe(false);
+    });
+  });
+
+  describe('formatRedirectChain', () => {
+    it('should leave out the status of the URL closing a loop', () => {
+      expect(formatRedirectChain(loop)).toBe(
+        'https://example.com/a (301) -> https://example.com/b (301) -> https://example.com/a'
+      );
+    });
+  });
+
+  describe('detectRedirectChains', () => {
+    it('should only report chains longer than one hop', () => {
+      const chains = detectRedirectChains(createCrawlResult());
+
+      expect(chains.map((result) => result.url)).toEqual(['https://example.com/old']);
+    });
+  });
+
+  describe('detectRedirectLoops', () => {
+    it('should report looping redirects with their referrers', () => {
+      const loops = detectRedirectLoops(createCrawlResult());
+
+      expect(loops).toHaveLength(1);
+      expect(loops[0]).toMatchObject({
+        url: 'https://example.com/a',
+        referencedFrom: ['https://example.com/'],
+      });
+    });
+  });
+
+  describe('detectRedirectedLinks', () => {
+    it('should report redirecting URLs that crawled pages link to', () => {
+      const links = detectRedirectedLinks(createCrawlResult());
+
+      expect(links.map((result) => result.url).sort()).toEqual([
+        'https://example.com/a',
+        'https://example.com/moved',
+      ]);
+    });
+  });
+});
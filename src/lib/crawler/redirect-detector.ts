@@ -0,0 +1,76 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Detects redirect chains, redirect loops and links to redirecting URLs
+ */
+
+import { CrawlResult, RedirectHop, RedirectResult } from '@/types';
+import { buildIncomingLinkMap } from './orphan-detector';
+import { normalizeUrl } from './link-extractor';
+
+/**
+ * Number of redirects followed (the chain also holds the final URL)
+ */
+export const getRedirectHopCount = (chain: RedirectHop[]): number => Math.max(chain.length - 1, 0);
+
+/**
+ * A chain loops when its last URL was already requested earlier in the chain
+ */
+export const isRedirectLoop = (chain: RedirectHop[]): boolean => {
+  const last = chain[chain.length - 1];
+  return !!last && chain.slice(0, -1).some((hop) => hop.url === last.url);
+};
+
+/**
+ * A chain as text, each URL followed by its status when it has one
+ */
+export const formatRedirectChain = (chain: RedirectHop[]): string =>
+  chain
+    .map((hop) => (hop.status === undefined ? hop.url : `${hop.url} (${hop.status})`))
+    .join(' -> ');
+
+const collectRedirects = (
+  crawlResult: Pick<CrawlResult, 'pages' | 'normalization'>,
+  predicate: (chain: RedirectHop[]) => boolean
+): RedirectResult[] => {
+  const incomingLinks = buildIncomingLinkMap(crawlResult);
+  const results: RedirectResult[] = [];
+
+  crawlResult.pages.forEach((page, url) => {
+    const chain = page.redirectChain;
+    if (chain && chain.length > 0 && predicate(chain)) {
+      const referencedFrom = incomingLinks.get(normalizeUrl(url, crawlResult.normalization)) ?? [];
+      results.push({ url, chain, referencedFrom });
+    }
+  });
+
+  return results;
+};
+
+/**
+ * Pages reached through more than one redirect
+ */
+export const detectRedirectChains = (
+  crawlResult: Pick<CrawlResult, 'pages' | 'normalization'>
+): RedirectResult[] =>
+  collectRedirects(
+    crawlResult,
+    (chain) => getRedirectHopCount(chain) > 1 && !isRedirectLoop(chain)
+  ).sort((a, b) => b.chain.length - a.chain.length);
+
+export const detectRedirectLoops = (
+  crawlResult: Pick<CrawlResult, 'pages' | 'normalization'>
+): RedirectResult[] => collectRedirects(crawlResult, isRedirectLoop);
+
+/**
+ * Redirecting URLs that other crawled pages still link to
+ */
+export const detectRedirectedLinks = (
+  crawlResult: Pick<CrawlResult, 'pages' | 'normalization'>
+): RedirectResult[] =>
+  collectRedirects(crawlResult, () => true)
+    .filter((result) => result.referencedFrom.length > 0)
+    .sort((a, b) => b.referencedFrom.length - a.referencedFrom.length);
@@ -0,0 +1,128 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Unit tests for report-budget
+ * Coverage: parseReportBudget, evaluateReportBudget, formatBudgetResults
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseReportBudget, evaluateReportBudget, formatBudgetResults } from './report-budget';
+import { CrawlPage, ReportData } from '@/types';
+import { createPage as createCrawlPage } from '../../../tests/fixtures/crawl-pages';
+
+const createReport = (overrides?: Partial<ReportData>): ReportData => ({
+  id: 'report-1',
+  crawlId: 'crawl-1',
+  generatedAt: Date.now(),
+  targetUrl: 'https://example.com',
+  summary: {
+    totalPages: 10,
+    crawledPages: 10,
+    orphanedCount: 1,
+    brokenLinkCount: 2,
+    emptyPageCount: 0,
+    avgResponseTime: 450,
+  },
+  orphanedPages: [{ url: 'https://example.com/orphan', inSitemap: false, referredBy: [] }],
+  brokenLinks: [
+    { url: 'https://example.com/gone', status: 404, referencedFrom: ['https://example.com/'] },
+    { url: 'https://example.com/error', status: 500, referencedFrom: ['https://example.com/'] },
+  ],
+  emptyPages: [],
+  sitemapOnlyPages: [],
+  sitemapUrls: [],
+  robotsData: null,
+  ...overrides,
+});
+
+const createPage = (url: string, crawlTime: number): CrawlPage =>
+  createCrawlPage(url, { crawlTime });
+
+describe('report-budget', () => {
+  describe('parseReportBudget', () => {
+    it('should accept known summary thresholds', () => {
+      expect(parseReportBudget({ brokenLinkCount: 0, avgResponseTime: 800 })).toEqual({
+        brokenLinkCount: 0,
+        avgResponseTime: 800,
+      });
+    });
+
+    it('should reject unknown metrics', () => {
+      expect(() => parseReportBudget({ brokenLinks: 0 })).toThrow('Invalid budget');
+    });
+
+    it('should reject negative or non-numeric thresholds', () => {
+      expect(() => parseReportBudget({ orphanedCount: -1 })).toThrow('orphanedCount');
+      expect(() => parseReportBudget({ orphanedCount: 'none' })).toThrow('orphanedCount');
+    });
+  });
+
+  describe('evaluateReportBudget', () => {
+    it('should only evaluate budgeted metrics', () => {
+      const results = evaluateReportBudget(createReport(), { orphanedCount: 5 });
+
+      expect(results).toHaveLength(1);
+      expect(results[0]).toMatchObject({ metric: 'orphanedCount', actual: 1, passed: true });
+      expect(results[0].offenders).toEqual([]);
+    });
+
+    it('should pass when the actual value equals the threshold', () => {
+      const [result] = evaluateReportBudget(createReport(), { brokenLinkCount: 2 });
+      expect(result.passed).toBe(true);
+    });
+
+    it('should fail and list offending URLs when a threshold is exceeded', () => {
+      const [result] = evaluateReportBudget(createReport(), { brokenLinkCount: 0 });
+
+      expect(result.passed).toBe(false);
+      expect(result.offenders).toEqual([
+        'https://example.com/gone (404)',
+        'https://example.com/error (500)',
+      ]);
+    });
+
+    it('should list the slowest pages for a failed response time budget', () => {
+      const pages = new Map([
+        ['https://example.com/fast', createPage('https://example.com/fast', 100)],
+        ['https://example.com/slow', createPage('https://example.com/slow', 900)],
+        ['https://example.com/slower', createPage('https://example.com/slower', 1200)],
+      ]);
+
+      const [result] = evaluateReportBudget(createReport(), { avgResponseTime: 300 }, pages);
+
+      expect(result.passed).toBe(false);
+      expect(result.offenders).toEqual([
+        'https://example.com/slower (1200ms)',
+        'https://example.com/slow (900ms)',
+      ]);
+    });
+  });
+
+  describe('formatBudgetResults', () => {
+    it('should render a table with failed budgets and their offenders', () => {
+      const results = evaluateReportBudget(createReport(), {
+        brokenLinkCount: 0,
+        orphanedCount: 5,
+      });
+
+      const output = formatBudgetResults(results);
+
+      expect(output).toMatch(/Broken links\s+0\s+2\s+FAIL/);
+      expect(output).toMatch(/Orphaned pages\s+5\s+1\s+PASS/);
+      expect(output).toContain('Broken links: 2 exceeds budget of 0');
+      expect(output).toContain('  - https://example.com/gone (404)');
+    });
+
+    it('should truncate long offender lists', () => {
+      const results = evaluateReportBudget(createReport(), { brokenLinkCount: 0 });
+
+      const output = formatBudgetResults(results, 1);
+
+      expect(output).toContain('... and 1 more');
+      expect(output).not.toContain('https://example.com/error (500)');
+    });
+  });
+});
@@ -0,0 +1,155 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Evaluates report summaries against threshold budgets (CI quality gate)
+ */
+
+import { z } from 'zod';
+import { CrawlPage, ReportData } from '@/types';
+
+export type BudgetMetric = Extract<
+  keyof ReportData['summary'],
+  'brokenLinkCount' | 'orphanedCount' | 'emptyPageCount' | 'avgResponseTime'
+>;
+
+interface BudgetMetricDefinition {
+  label: string;
+  unit?: string;
+  offenders: (report: ReportData, threshold: number, pages?: Map<string, CrawlPage>) => string[];
+}
+
+const BUDGET_METRICS: Record<BudgetMetric, BudgetMetricDefinition> = {
+  brokenLinkCount: {
+    label: 'Broken links',
+    offenders: (report) => report.brokenLinks.map((link) => `${link.url} (${link.status})`),
+  },
+  orphanedCount: {
+    label: 'Orphaned pages',
+    offenders: (report) => report.orphanedPages.map((page) => page.url),
+  },
+  emptyPageCount: {
+    label: 'Empty pages',
+    offenders: (report) => report.emptyPages.map((page) => page.url),
+  },
+  avgResponseTime: {
+    label: 'Avg response time',
+    unit: 'ms',
+    // The report only carries the mean, so list the individual pages that exceed it
+    offenders: (_, threshold, pages) =>
+      Array.from(pages?.values() ?? [])
+        .filter((page) => page.crawlTime > threshold)
+        .sort((a, b) => b.crawlTime - a.crawlTime)
+        .map((page) => `${page.url} (${Math.round(page.crawlTime)}ms)`),
+  },
+};
+
+const threshold = z.number().nonnegative();
+
+export const reportBudgetSchema = z
+  .object({
+    brokenLinkCount: threshold.optional(),
+    orphanedCount: threshold.optional(),
+    emptyPageCount: threshold.optional(),
+    avgResponseTime: threshold.optional(),
+  })
+  .strict();
+
+export type ReportBudget = z.infer<typeof reportBudgetSchema>;
+
+export interface BudgetResult {
+  metric: BudgetMetric;
+  label: string;
+  threshold: number;
+  actual: number;
+  passed: boolean;
+  offenders: string[];
+}
+
+/**
+ * Validates a parsed budget file, throwing a readable error on bad input
+ */
+export const parseReportBudget = (input: unknown): ReportBudget => {
+  const result = reportBudgetSchema.safeParse(input);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) =>
+      issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+    );
+    throw new Error(`Invalid budget: ${issues.join('; ')}`);
+  }
+  return result.data;
+};
+
+/**
+ * Compares each budgeted summary metric with its threshold.
+ * A budget fails when the actual value is greater than the threshold.
+ */
+export const evaluateReportBudget = (
+  report: ReportData,
+  budget: ReportBudget,
+  pages?: Map<string, CrawlPage>
+): BudgetResult[] => {
+  return (Object.keys(BUDGET_METRICS) as BudgetMetric[])
+    .filter((metric) => budget[metric] !== undefined)
+    .map((metric) => {
+      const definition = BUDGET_METRICS[metric];
+      const limit = budget[metric]!;
+      const actual = report.summary[metric];
+      const passed = actual <= limit;
+
+      return {
+        metric,
+        label: definition.label,
+        threshold: limit,
+        actual,
+        passed,
+        offenders: passed ? [] : definition.offenders(report, limit, pages),
+      };
+    });
+};
+
+const formatValue = (metric: BudgetMetric, value: number): string => {
+  const { unit } = BUDGET_METRICS[metric];
+  return unit ? `${Math.round(value)}${unit}` : String(value);
+};
+
+/**
+ * Renders budget results as a plain-text table followed by the offending URLs
+ */
+export const formatBudgetResults = (results: BudgetResult[], maxOffenders = 20): string => {
+  const rows = [
+    ['Budget', 'Threshold', 'Actual', 'Status'],
+    ...results.map((result) => [
+      result.label,
+      formatValue(result.metric, result.threshold),
+      formatValue(result.metric, result.actual),
+      result.passed ? 'PASS' : 'FAIL',
+    ]),
+  ];
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  const formatRow = (row: string[]) =>
+    row
+      .map((cell, column) => cell.padEnd(widths[column]))
+      .join('  ')
+      .trimEnd();
+
+  const lines = [formatRow(rows[0]), widths.map((width) => '-'.repeat(width)).join('  ')];
+  rows.slice(1).forEach((row) => lines.push(formatRow(row)));
+
+  results
+    .filter((result) => !result.passed)
+    .forEach((result) => {
+      lines.push('');
+      lines.push(
+        `${result.label}: ${formatValue(result.metric, result.actual)} exceeds budget of ${formatValue(result.metric, result.threshold)}`
+      );
+      result.offenders.slice(0, maxOffenders).forEach((offender) => lines.push(`  - ${offender}`));
+      if (result.offenders.length > maxOffenders) {
+        lines.push(`  ... and ${result.offenders.length - maxOffenders} more`);
+      }
+    });
+
+  return lines.join('\n');
+};
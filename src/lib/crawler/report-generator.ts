@@ -8,6 +8,7 @@
  */
 
 import { CrawlResult, ReportData } from '@/types';
+import { config } from '@/config';
 import {
   detectOrphanedPages,
   detectBrokenLinks,
@@ -15,6 +16,56 @@ import {
   detectEmptyPages,
   calculateLinkStats,
 } from './orphan-detector';
+import { detectDeepPages, calculateDepthDistribution } from './click-depth';
+import {
+  detectRedirectChains,
+  detectRedirectLoops,
+  detectRedirectedLinks,
+  getRedirectHopCount,
+  formatRedirectChain,
+} from './redirect-detector';
+import { detectCanonicalIssues, CANONICAL_ISSUE_LABELS } from './canonical-detector';
+import { EXTERNAL_LINK_STATE_LABELS } from './external-link-checker';
+import { detectBrokenResources, RESOURCE_TYPE_LABELS } from './resource-checker';
+import {
+  detectLinkIssues,
+  detectNavigationOnlyPages,
+  LINK_ISSUE_LABELS,
+  LINK_POSITION_LABELS,
+} from './link-audit';
+import {
+  detectHreflangIssues,
+  buildHreflangClusters,
+  HREFLANG_ISSUE_LABELS,
+} from './hreflang-validator';
+import {
+  detectNonIndexablePages,
+  detectIndexabilityConflicts,
+  NON_INDEXABLE_REASON_LABELS,
+  INDEXABILITY_CONFLICT_LABELS,
+} from './indexability';
+import { groupStructuredDataByType } from './structured-data';
+import {
+  detectOnPageIssues,
+  detectDuplicateContent,
+  ON_PAGE_ISSUE_LABELS,
+  DUPLICATE_CONTENT_FIELD_LABELS,
+} from './on-page-audit';
+import { detectNearDuplicates, fingerprintStoredContent } from './content-fingerprint';
+import { detectThinPages } from './content-quality';
+import { detectImageIssues, detectInconsistentImageAlts, IMAGE_ISSUE_LABELS } from './image-audit';
+import {
+  detectSocialIssues,
+  detectDuplicateSocialImages,
+  SOCIAL_ISSUE_LABELS,
+} from './social-meta';
+import { detectMixedContent, MIXED_CONTENT_TYPE_LABELS } from './mixed-content';
+import { detectHeaderIssues, HEADER_ISSUE_LABELS } from './response-headers';
+import { analyzePerformance, PERFORMANCE_METRIC_LABELS } from './page-performance';
+import { computeLinkEquity, detectLowEquitySitemapPages } from './link-equity';
+
+const getNearDuplicateSimilarity = (crawlResult: CrawlResult): number =>
+  crawlResult.nearDuplicateSimilarity ?? config.report.nearDuplicateSimilarity;
 
 export const generateReport = (crawlResult: CrawlResult): ReportData => {
   const sitemapUrlsSeq = new Set(crawlResult.sitemapUrls || []);
@@ -23,6 +74,13 @@ export const generateReport = (crawlResult: CrawlResult): ReportData => {
   const sitemapOnlyPages = detectSitemapOnlyPages(crawlResult, sitemapUrlsSeq);
   const emptyPages = detectEmptyPages(crawlResult);
   const linkStats = calculateLinkStats(crawlResult);
+  const deepPages = detectDeepPages(crawlResult);
+  const clickDepth = calculateDepthDistribution(crawlResult);
+  const redirectChains = detectRedirectChains(crawlResult);
+  const redirectLoops = detectRedirectLoops(crawlResult);
+  const redirectedLinks = detectRedirectedLinks(crawlResult);
+  const canonicalIssues = detectCanonicalIssues(crawlResult);
+  const linkEquity = computeLinkEquity(crawlResult, crawlResult.linkWeighting);
 
   const crawledPages = Array.from(crawlResult.pages.values()).filter(
     (p) => p.status === 200
@@ -47,6 +105,64 @@ export const generateReport = (crawlResult: CrawlResult): ReportData => {
     sitemapOnlyPages,
     sitemapUrls: crawlResult.sitemapUrls || [],
     robotsData: crawlResult.robotsData || null,
+    deepPages,
+    clickDepth,
+    redirectChains,
+    redirectLoops,
+    redirectedLinks,
+    canonicalIssues,
+    scope: crawlResult.scope,
+    normalization: crawlResult.normalization,
+    externalLinks: crawlResult.externalLinks,
+    brokenResources: crawlResult.resourceChecks ? detectBrokenResources(crawlResult) : undefined,
+    linkIssues: detectLinkIssues(crawlResult),
+    navigationOnlyPages: detectNavigationOnlyPages(crawlResult),
+    hreflangIssues: detectHreflangIssues(crawlResult),
+    hreflangClusters: buildHreflangClusters(crawlResult),
+    nonIndexablePages: detectNonIndexablePages(crawlResult),
+    indexabilityConflicts: detectIndexabilityConflicts(
+      crawlResult,
+      config.report.maxNoindexIncomingLinks
+    ),
+    structuredData: groupStructuredDataByType(crawlResult),
+    onPageIssues: detectOnPageIssues(crawlResult, {
+      titleLength: config.report.titleLength,
+      descriptionLength: config.report.descriptionLength,
+    }),
+    duplicateContent: detectDuplicateContent(crawlResult),
+    nearDuplicates: detectNearDuplicates(crawlResult, getNearDuplicateSimilarity(crawlResult)),
+    thinPages: detectThinPages(crawlResult),
+    imageIssues: detectImageIssues(crawlResult),
+    inconsistentImageAlts: detectInconsistentImageAlts(crawlResult),
+    socialIssues: detectSocialIssues(crawlResult),
+    duplicateSocialImages: detectDuplicateSocialImages(crawlResult),
+    mixedContent: detectMixedContent(crawlResult),
+    headerIssues: detectHeaderIssues(crawlResult),
+    performance: analyzePerformance(crawlResult, crawlResult.performanceBudgets),
+    linkEquity,
+    lowEquitySitemapPages: detectLowEquitySitemapPages(
+      crawlResult,
+      linkEquity,
+      config.report.minSitemapLinkEquity
+    ),
+  };
+};
+
+/**
+ * Adds near-duplicate clusters to a report generated before near-duplicate
+ * detection, fingerprinting its crawl from the stored page content. The report
+ * is returned unchanged when it has clusters or no stored content was readable.
+ */
+export const addStoredNearDuplicates = async (
+  report: ReportData,
+  crawlResult: CrawlResult
+): Promise<ReportData> => {
+  if (report.nearDuplicates || !(await fingerprintStoredContent(crawlResult))) {
+    return report;
+  }
+  return {
+    ...report,
+    nearDuplicates: detectNearDuplicates(crawlResult, getNearDuplicateSimilarity(crawlResult)),
   };
 };
 
@@ -100,9 +216,24 @@ export const formatReportForCSV = (report: ReportData): string => {
   // Empty pages
   if (report.emptyPages.length > 0) {
     lines.push('Empty Pages');
-    lines.push('URL,Status,Content Length');
+    lines.push('URL,Status,Content Length,Words');
     report.emptyPages.forEach((page) => {
-      lines.push(`"${page.url}",${page.status},${page.contentLength || 0}`);
+      lines.push(
+        `"${page.url}",${page.status},${page.contentLength || 0},${page.contentQuality?.wordCount ?? ''}`
+      );
+    });
+    lines.push('');
+  }
+
+  // Thin pages
+  if (report.thinPages && report.thinPages.length > 0) {
+    lines.push('Thin Pages');
+    lines.push('URL,Status,Words,Main Content Length,Text Ratio');
+    report.thinPages.forEach((page) => {
+      const quality = page.contentQuality!;
+      lines.push(
+        `"${page.url}",${page.status},${quality.wordCount},${quality.mainContentLength},${(quality.textRatio * 100).toFixed(1)}%`
+      );
     });
     lines.push('');
   }
@@ -114,6 +245,293 @@ export const formatReportForCSV = (report: ReportData): string => {
     report.sitemapOnlyPages.forEach((url) => {
       lines.push(`"${url}"`);
     });
+    lines.push('');
+  }
+
+  // Deep pages
+  if (report.deepPages && report.deepPages.length > 0) {
+    lines.push(`Pages Deeper Than ${report.clickDepth?.threshold} Clicks`);
+    lines.push('URL,Click Depth,In Sitemap');
+    report.deepPages.forEach((page) => {
+      lines.push(`"${page.url}",${page.depth},${page.inSitemap}`);
+    });
+    lines.push('');
+  }
+
+  // Redirects
+  const redirectSections: [string, ReportData['redirectChains']][] = [
+    ['Redirect Chains', report.redirectChains],
+    ['Redirect Loops', report.redirectLoops],
+    ['Links To Redirects', report.redirectedLinks],
+  ];
+  redirectSections.forEach(([title, redirects]) => {
+    if (redirects && redirects.length > 0) {
+      lines.push(title);
+      lines.push('URL,Hops,Chain,Referenced From Count');
+      redirects.forEach((redirect) => {
+        lines.push(
+          `"${redirect.url}",${getRedirectHopCount(redirect.chain)},"${formatRedirectChain(redirect.chain)}",${redirect.referencedFrom.length}`
+        );
+      });
+      lines.push('');
+    }
+  });
+
+  // Canonical issues
+  if (report.canonicalIssues && report.canonicalIssues.length > 0) {
+    lines.push('Canonical Issues');
+    lines.push('URL,Issue,Canonical');
+    report.canonicalIssues.forEach((issue) => {
+      lines.push(`"${issue.url}",${CANONICAL_ISSUE_LABELS[issue.type]},"${issue.canonical ?? ''}"`);
+    });
+    lines.push('');
+  }
+
+  // External links
+  if (report.externalLinks && report.externalLinks.length > 0) {
+    lines.push('External Links');
+    lines.push('URL,State,Status,Method,Referenced From Count');
+    report.externalLinks.forEach((link) => {
+      lines.push(
+        `"${link.url}",${EXTERNAL_LINK_STATE_LABELS[link.state]},${link.status},${link.method},${link.referencedFrom.length}`
+      );
+    });
+    lines.push('');
+  }
+
+  // Broken resources
+  if (report.brokenResources && report.brokenResources.length > 0) {
+    lines.push('Broken Resources');
+    lines.push('URL,Type,Status,Error,Embedded In Count');
+    report.brokenResources.forEach((resource) => {
+      lines.push(
+        `"${resource.url}",${RESOURCE_TYPE_LABELS[resource.type]},${resource.status},"${(resource.error ?? '').replace(/"/g, '""')}",${resource.embeddedIn.length}`
+      );
+    });
+    lines.push('');
+  }
+
+  // Link issues
+  if (report.linkIssues && report.linkIssues.length > 0) {
+    lines.push('Link Issues');
+    lines.push('URL,Issue,Target,Anchor Text');
+    report.linkIssues.forEach((issue) => {
+      lines.push(
+        `"${issue.url}",${LINK_ISSUE_LABELS[issue.type]},"${issue.target}","${issue.text.replace(/"/g, '""')}"`
+      );
+    });
+    lines.push('');
+  }
+
+  // Navigation-only pages
+  if (report.navigationOnlyPages && report.navigationOnlyPages.length > 0) {
+    lines.push('Pages Linked Only From Navigation Or Footer');
+    lines.push('URL,Linked From,Referred By Count');
+    report.navigationOnlyPages.forEach((page) => {
+      const positions = page.positions.map((position) => LINK_POSITION_LABELS[position]);
+      lines.push(`"${page.url}","${positions.join(', ')}",${page.referredBy.length}`);
+    });
+    lines.push('');
+  }
+
+  // Hreflang issues
+  if (report.hreflangIssues && report.hreflangIssues.length > 0) {
+    lines.push('Hreflang Issues');
+    lines.push('URL,Issue,Hreflang,Alternate,Alternate Status');
+    report.hreflangIssues.forEach((issue) => {
+      lines.push(
+        `"${issue.url}",${HREFLANG_ISSUE_LABELS[issue.type]},"${issue.hreflang ?? ''}","${issue.target ?? ''}",${issue.targetStatus ?? ''}`
+      );
+    });
+    lines.push('');
+  }
+
+  // Non-indexable pages
+  if (report.nonIndexablePages && report.nonIndexablePages.length > 0) {
+    lines.push('Non-Indexable Pages');
+    lines.push('URL,Reasons,In Sitemap');
+    report.nonIndexablePages.forEach((page) => {
+      const reasons = page.reasons.map((reason) => NON_INDEXABLE_REASON_LABELS[reason]);
+      lines.push(`"${page.url}","${reasons.join(', ')}",${page.inSitemap ? 'Yes' : 'No'}`);
+    });
+    lines.push('');
+  }
+
+  // Indexability conflicts
+  if (report.indexabilityConflicts && report.indexabilityConflicts.length > 0) {
+    lines.push('Indexability Conflicts');
+    lines.push('URL,Conflict,Incoming Links');
+    report.indexabilityConflicts.forEach((conflict) => {
+      lines.push(
+        `"${conflict.url}",${INDEXABILITY_CONFLICT_LABELS[conflict.type]},${conflict.incomingLinks ?? ''}`
+      );
+    });
+    lines.push('');
+  }
+
+  // Structured data
+  if (report.structuredData && report.structuredData.length > 0) {
+    lines.push('Structured Data');
+    lines.push('Type,URL,Source,Errors,Warnings');
+    report.structuredData.forEach((group) => {
+      group.pages.forEach((page) => {
+        lines.push(
+          `"${group.type ?? 'Unreadable'}","${page.url}",${page.source},"${page.errors.join('; ').replace(/"/g, '""')}","${page.warnings.join('; ').replace(/"/g, '""')}"`
+        );
+      });
+    });
+    lines.push('');
+  }
+
+  // On-page issues
+  if (report.onPageIssues && report.onPageIssues.length > 0) {
+    lines.push('On-Page Issues');
+    lines.push('URL,Issue,Value,Count');
+    report.onPageIssues.forEach((issue) => {
+      lines.push(
+        `"${issue.url}",${ON_PAGE_ISSUE_LABELS[issue.type]},"${(issue.value ?? '').replace(/"/g, '""')}",${issue.count ?? ''}`
+      );
+    });
+    lines.push('');
+  }
+
+  // Duplicate titles, descriptions and H1s
+  if (report.duplicateContent && report.duplicateContent.length > 0) {
+    lines.push('Duplicate Content');
+    lines.push('Field,Value,URL');
+    report.duplicateContent.forEach((group) => {
+      group.urls.forEach((url) => {
+        lines.push(
+          `${DUPLICATE_CONTENT_FIELD_LABELS[group.field]},"${group.value.replace(/"/g, '""')}","${url}"`
+        );
+      });
+    });
+    lines.push('');
+  }
+
+  // Near-duplicate pages
+  if (report.nearDuplicates && report.nearDuplicates.length > 0) {
+    lines.push('Near-Duplicate Pages');
+    lines.push('Cluster,Exact,URL,Similarity');
+    report.nearDuplicates.forEach((cluster, index) => {
+      cluster.pages.forEach((page) => {
+        lines.push(
+          `${index + 1},${cluster.exact ? 'Yes' : 'No'},"${page.url}",${Math.round(page.similarity * 100)}%`
+        );
+      });
+    });
+    lines.push('');
+  }
+
+  // Image alt text and dimensions
+  if (report.imageIssues && report.imageIssues.length > 0) {
+    lines.push('Image Issues');
+    lines.push('URL,Image,Issue,Alt');
+    report.imageIssues.forEach((issue) => {
+      lines.push(
+        `"${issue.url}","${issue.image}",${IMAGE_ISSUE_LABELS[issue.type]},"${(issue.alt ?? '').replace(/"/g, '""')}"`
+      );
+    });
+    lines.push('');
+  }
+
+  // Images with different alt texts
+  if (report.inconsistentImageAlts && report.inconsistentImageAlts.length > 0) {
+    lines.push('Inconsistent Image Alt Text');
+    lines.push('Image,Alt,URL');
+    report.inconsistentImageAlts.forEach((group) => {
+      group.variants.forEach((variant) => {
+        variant.pages.forEach((url) => {
+          lines.push(`"${group.image}","${variant.alt.replace(/"/g, '""')}","${url}"`);
+        });
+      });
+    });
+    lines.push('');
+  }
+
+  // Open Graph and Twitter Card tags
+  if (report.socialIssues && report.socialIssues.length > 0) {
+    lines.push('Social Meta Issues');
+    lines.push('URL,Issue,Value,Expected');
+    report.socialIssues.forEach((issue) => {
+      lines.push(
+        `"${issue.url}",${SOCIAL_ISSUE_LABELS[issue.type]},"${(issue.value ?? '').replace(/"/g, '""')}","${(issue.expected ?? '').replace(/"/g, '""')}"`
+      );
+    });
+    lines.push('');
+  }
+
+  // og:image shared by several pages
+  if (report.duplicateSocialImages && report.duplicateSocialImages.length > 0) {
+    lines.push('Duplicate Social Images');
+    lines.push('Image,URL');
+    report.duplicateSocialImages.forEach((group) => {
+      group.urls.forEach((url) => {
+        lines.push(`"${group.image}","${url}"`);
+      });
+    });
+    lines.push('');
+  }
+
+  // Mixed content
+  if (report.mixedContent && report.mixedContent.length > 0) {
+    lines.push('Mixed Content');
+    lines.push('URL,Type,Insecure URL');
+    report.mixedContent.forEach((issue) => {
+      lines.push(`"${issue.url}",${MIXED_CONTENT_TYPE_LABELS[issue.type]},"${issue.resource}"`);
+    });
+    lines.push('');
+  }
+
+  // Response headers
+  if (report.headerIssues && report.headerIssues.length > 0) {
+    lines.push('Header Issues');
+    lines.push('URL,Issue,Value');
+    report.headerIssues.forEach((issue) => {
+      lines.push(
+        `"${issue.url}",${HEADER_ISSUE_LABELS[issue.type]},"${(issue.value ?? '').replace(/"/g, '""')}"`
+      );
+    });
+    lines.push('');
+  }
+
+  // Performance
+  if (report.performance && report.performance.site.pageCount > 0) {
+    lines.push('Performance');
+    lines.push(
+      'Directory,Pages,Response p50 (ms),Response p90 (ms),Response p99 (ms),Size p90 (bytes)'
+    );
+    [
+      { directory: 'All pages', ...report.performance.site },
+      ...report.performance.directories,
+    ].forEach((row) => {
+      lines.push(
+        `"${row.directory}",${row.pageCount},${row.responseTime.p50},${row.responseTime.p90},${row.responseTime.p99},${row.bytes?.p90 ?? ''}`
+      );
+    });
+    lines.push('');
+  }
+  if (report.performance && report.performance.budgetViolations.length > 0) {
+    lines.push('Budget Violations');
+    lines.push('URL,Metric,Value,Budget');
+    report.performance.budgetViolations.forEach((violation) => {
+      lines.push(
+        `"${violation.url}",${PERFORMANCE_METRIC_LABELS[violation.metric]},${violation.value},${violation.budget}`
+      );
+    });
+    lines.push('');
+  }
+
+  // Link equity
+  if (report.linkEquity && report.linkEquity.length > 0) {
+    lines.push('Link Equity');
+    lines.push('URL,Score,Incoming Links,In Sitemap');
+    report.linkEquity.forEach((entry) => {
+      lines.push(
+        `"${entry.url}",${entry.score},${entry.incomingCount},${entry.inSitemap ? 'Yes' : 'No'}`
+      );
+    });
+    lines.push('');
   }
 
   return lines.join('\n');
@@ -0,0 +1,183 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Unit tests for resource-checker
+ * Coverage: collectInternalResources, checkResources, detectBrokenResources
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  collectInternalResources,
+  checkResources,
+  detectBrokenResources,
+} from './resource-checker';
+import { CrawlPage, CrawlResult, PageResource } from '@/types';
+import { createPage as createCrawlPage } from '../../../tests/fixtures/crawl-pages';
+
+const createPage = (url: string, resources: PageResource[], status = 200): CrawlPage =>
+  createCrawlPage(url, { status, resources });
+
+const createCrawlResult = (
+  pages: CrawlPage[]
+): Pick<CrawlResult, 'pages' | 'url' | 'scope' | 'normalization'> => ({
+  url: 'https://example.com/',
+  pages: new Map(pages.map((page) => [page.url, page])),
+});
+
+describe('resource-checker', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('collectInternalResources', () => {
+    it('should map internal resources to the pages embedding them', () => {
+      // ARRANGE
+      const logo: PageResource = { url: 'https://example.com/logo.png', type: 'image' };
+      const crawlResult = createCrawlResult([
+        createPage('https://example.com/a', [
+          logo,
+          { url: 'https://cdn.example.org/lib.js', type: 'script' },
+        ]),
+        createPage('https://example.com/b', [logo]),
+      ]);
+
+      // ACT
+      const result = collectInternalResources(crawlResult);
+
+      // ASSERT
+      expect(Array.from(result.values())).toEqual([
+        { resource: logo, embeddedIn: ['https://example.com/a', 'https://example.com/b'] },
+      ]);
+    });
+
+    it('should keep each type of a URL embedded in several ways', () => {
+      // ARRANGE
+      const frame: PageResource = { url: 'https://example.com/banner', type: 'iframe' };
+      const image: PageResource = { url: 'https://example.com/banner', type: 'image' };
+      const crawlResult = createCrawlResult([
+        createPage('https://example.com/a', [frame]),
+        createPage('https://example.com/b', [image]),
+      ]);
+
+      // ACT
+      const result = collectInternalResources(crawlResult);
+
+      // ASSERT
+      expect(Array.from(result.values())).toEqual([
+        { resource: frame, embeddedIn: ['https://example.com/a'] },
+        { resource: image, embeddedIn: ['https://example.com/b'] },
+      ]);
+    });
+  });
+
+  describe('checkResources', () => {
+    it('should check each internal resource once', async () => {
+      // ARRANGE
+      const crawlResult = createCrawlResult([
+        createPage('https://example.com/a', [
+          { url: 'https://example.com/app.js', type: 'script' },
+          { url: 'https://example.com/missing.png', type: 'image' },
+        ]),
+        createPage('https://example.com/b', [
+          { url: 'https://example.com/app.js', type: 'script' },
+        ]),
+      ]);
+      global.fetch = vi.fn().mockImplementation(async (url: string) => ({
+        status: url.endsWith('.png') ? 404 : 200,
+      }));
+
+      // ACT
+      const result = await checkResources(crawlResult, { concurrency: 1 });
+
+      // ASSERT
+      expect(result).toEqual([
+        { url: 'https://example.com/app.js', type: 'script', status: 200, state: 'ok' },
+        { url: 'https://example.com/missing.png', type: 'image', status: 404, state: 'broken' },
+      ]);
+      // HEAD for both, then a GET retry for the 404
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should reuse the status of resources crawled as pages', async () => {
+      // ARRANGE
+      const crawlResult = createCrawlResult([
+        createPage('https://example.com/', [{ url: 'https://example.com/embed', type: 'iframe' }]),
+        createPage('https://example.com/embed', [], 500),
+      ]);
+      global.fetch = vi.fn();
+
+      // ACT
+      const result = await checkResources(crawlResult);
+
+      // ASSERT
+      expect(result).toEqual([
+        { url: 'https://example.com/embed', type: 'iframe', status: 500, state: 'broken' },
+      ]);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('detectBrokenResources', () => {
+    it('should return broken and unreachable resources ordered by type', () => {
+      // ARRANGE
+      const crawlResult = {
+        ...createCrawlResult([
+          createPage('https://example.com/', [
+            { url: 'https://example.com/app.js', type: 'script' },
+            { url: 'https://example.com/logo.png', type: 'image' },
+            { url: 'https://example.com/site.css', type: 'stylesheet' },
+          ]),
+        ]),
+        resourceChecks: [
+          {
+            url: 'https://example.com/app.js',
+            type: 'script' as const,
+            status: 0,
+            state: 'unreachable' as const,
+            error: 'Request timeout',
+          },
+          {
+            url: 'https://example.com/logo.png',
+            type: 'image' as const,
+            status: 404,
+            state: 'broken' as const,
+          },
+          {
+            url: 'https://example.com/site.css',
+            type: 'stylesheet' as const,
+            status: 200,
+            state: 'ok' as const,
+          },
+        ],
+      };
+
+      // ACT
+      const result = detectBrokenResources(crawlResult);
+
+      // ASSERT
+      expect(result).toEqual([
+        {
+          url: 'https://example.com/logo.png',
+          type: 'image',
+          status: 404,
+          error: undefined,
+          embeddedIn: ['https://example.com/'],
+        },
+        {
+          url: 'https://example.com/app.js',
+          type: 'script',
+          status: 0,
+          error: 'Request timeout',
+          embeddedIn: ['https://example.com/'],
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Checks the internal images, scripts, stylesheets and iframes embedded in crawled pages
+ */
+
+import { config } from '@/config';
+import {
+  BrokenResource,
+  CrawlResult,
+  PageResource,
+  ResourceCheckResult,
+  ResourceType,
+} from '@/types';
+import { isValidUrl, normalizeUrl } from './link-extractor';
+import { isInternalUrl } from './crawl-scope';
+import { checkUrl } from './external-link-checker';
+
+export const RESOURCE_TYPE_LABELS: Record<ResourceType, string> = {
+  image: 'Image',
+  script: 'Script',
+  stylesheet: 'Stylesheet',
+  iframe: 'Iframe',
+};
+
+const TYPE_ORDER: ResourceType[] = ['image', 'script', 'stylesheet', 'iframe'];
+
+export interface ResourceCheckOptions {
+  concurrency?: number;
+  timeout?: number;
+  onProgress?: (checked: number, total: number) => void;
+}
+
+type ResourceSource = Pick<CrawlResult, 'pages' | 'url' | 'scope'>;
+
+// A URL can be embedded as several types, such as an iframe and an image
+const getResourceKey = (resource: PageResource) => `${resource.type} ${resource.url}`;
+
+/**
+ * Unique internal resources, by URL and type, mapped to the resource and the
+ * pages embedding it
+ */
+export const collectInternalResources = (
+  crawlResult: ResourceSource
+): Map<string, { resource: PageResource; embeddedIn: string[] }> => {
+  const resources = new Map<string, { resource: PageResource; embeddedIn: string[] }>();
+
+  crawlResult.pages.forEach((page) => {
+    // Internal relative to the start URL (the page itself in manual scans)
+    const rootUrl = isValidUrl(crawlResult.url) ? crawlResult.url : page.url;
+
+    page.resources?.forEach((resource) => {
+      if (!isInternalUrl(resource.url, rootUrl, crawlResult.scope)) {
+        return;
+      }
+      const key = getResourceKey(resource);
+      if (!resources.has(key)) {
+        resources.set(key, { resource, embeddedIn: [] });
+      }
+      const { embeddedIn } = resources.get(key)!;
+      if (!embeddedIn.includes(page.url)) {
+        embeddedIn.push(page.url);
+      }
+    });
+  });
+
+  return resources;
+};
+
+/**
+ * Checks every unique internal resource with a pool of `concurrency` workers.
+ * Resources that were crawled as pages (iframes) reuse the page status.
+ */
+export const checkResources = async (
+  crawlResult: ResourceSource & Pick<CrawlResult, 'normalization'>,
+  options: ResourceCheckOptions = {}
+): Promise<ResourceCheckResult[]> => {
+  const {
+    concurrency = config.crawler.defaultConcurrency,
+    timeout = config.crawler.defaultTimeout,
+    onProgress,
+  } = options;
+  const queue = Array.from(collectInternalResources(crawlResult).values()).map(
+    ({ resource }) => resource
+  );
+  const total = queue.length;
+  const results: ResourceCheckResult[] = [];
+
+  const worker = async () => {
+    for (let resource = queue.shift(); resource !== undefined; resource = queue.shift()) {
+      const page = crawlResult.pages.get(normalizeUrl(resource.url, crawlResult.normalization));
+      if (page) {
+        results.push({
+          ...resource,
+          status: page.status,
+          state: page.status === 0 ? 'unreachable' : page.status >= 400 ? 'broken' : 'ok',
+          error: page.errorMessage,
+        });
+      } else {
+        const { status, state, error } = await checkUrl(resource.url, timeout);
+        results.push({ ...resource, status, state, error });
+      }
+      onProgress?.(results.length, total);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(concurrency, 1), total) }, worker));
+
+  return results;
+};
+
+/**
+ * Broken or unreachable internal resources with the pages embedding them,
+ * ordered by resource type
+ */
+export const detectBrokenResources = (
+  crawlResult: ResourceSource & Pick<CrawlResult, 'resourceChecks'>
+): BrokenResource[] => {
+  const resources = collectInternalResources(crawlResult);
+
+  return (crawlResult.resourceChecks ?? [])
+    .filter((check) => check.state === 'broken' || check.state === 'unreachable')
+    .map((check) => ({
+      url: check.url,
+      type: check.type,
+      status: check.status,
+      error: check.error,
+      embeddedIn: resources.get(getResourceKey(check))?.embeddedIn ?? [],
+    }))
+    .sort(
+      (a, b) =>
+        TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type) || a.url.localeCompare(b.url)
+    );
+};
@@ -0,0 +1,145 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Unit tests for response-headers
+ * Coverage: readResponseHeaders, detectHeaderIssues
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readResponseHeaders, detectHeaderIssues } from './response-headers';
+import { CrawlPage } from '@/types';
+import { createPage as createCrawlPage, createPages } from '../../../tests/fixtures/crawl-pages';
+
+const SECURE_HEADERS = {
+  'cache-control': 'max-age=300',
+  'content-type': 'text/html; charset=utf-8',
+  'content-encoding': 'br',
+  etag: '"abc"',
+  'strict-transport-security': 'max-age=31536000; includeSubDomains',
+  'content-security-policy': "default-src 'self'",
+  'x-content-type-options': 'nosniff',
+};
+
+const createPage = (
+  url: string,
+  values: Record<string, string>,
+  overrides?: Partial<CrawlPage>
+): CrawlPage =>
+  createCrawlPage(url, {
+    contentLength: 20000,
+    responseHeaders: { values, partial: false },
+    ...overrides,
+  });
+
+describe('response-headers', () => {
+  describe('readResponseHeaders', () => {
+    it('should read every header by lowercased name', () => {
+      // ARRANGE
+      const headers = new Headers({ 'Cache-Control': 'no-cache', ETag: '"v1"' });
+
+      // ACT & ASSERT
+      expect(readResponseHeaders({ headers, type: 'basic' })).toEqual({
+        values: { 'cache-control': 'no-cache', etag: '"v1"' },
+        partial: false,
+      });
+      expect(readResponseHeaders({ headers, type: 'cors' }).partial).toBe(true);
+    });
+  });
+
+  describe('detectHeaderIssues', () => {
+    it('should accept a page with caching, compression and security headers', () => {
+      // ACT & ASSERT
+      expect(
+        detectHeaderIssues(createPages(createPage('https://example.com/', SECURE_HEADERS)))
+      ).toEqual([]);
+    });
+
+    it('should report every missing header of a bare response', () => {
+      // ACT
+      const result = detectHeaderIssues(
+        createPages(createPage('https://example.com/', { 'content-type': 'text/html' }))
+      );
+
+      // ASSERT
+      expect(result.map((issue) => issue.type)).toEqual([
+        'missing-cache-control',
+        'missing-charset',
+        'missing-validator',
+        'uncompressed',
+        'missing-hsts',
+        'missing-csp',
+        'missing-nosniff',
+      ]);
+      expect(result[1].value).toBe('text/html');
+    });
+
+    it('should flag short HSTS and skip checks that do not apply', () => {
+      // ARRANGE
+      const crawlResult = createPages(
+        createPage('https://example.com/', {
+          ...SECURE_HEADERS,
+          'strict-transport-security': 'max-age=86400',
+        }),
+        createPage('http://example.com/small', SECURE_HEADERS, {
+          contentLength: 500,
+          responseHeaders: {
+            values: { ...SECURE_HEADERS, 'content-encoding': '' },
+            partial: false,
+          },
+        })
+      );
+
+      // ACT & ASSERT
+      expect(detectHeaderIssues(crawlResult)).toEqual([
+        { url: 'https://example.com/', type: 'short-hsts', value: 'max-age=86400' },
+      ]);
+    });
+
+    it('should measure compressible pages by their byte size', () => {
+      // ARRANGE
+      const values = { ...SECURE_HEADERS, 'content-encoding': '' };
+      const crawlResult = createPages(
+        createPage('https://example.com/multibyte', values, {
+          contentLength: 600,
+          performance: { bytes: 1800 },
+        }),
+        createPage('https://example.com/small', values, {
+          contentLength: 600,
+          performance: { bytes: 900 },
+        })
+      );
+
+      // ACT & ASSERT
+      expect(detectHeaderIssues(crawlResult)).toEqual([
+        { url: 'https://example.com/multibyte', type: 'uncompressed' },
+      ]);
+    });
+
+    it('should only check exposed headers of cross-origin responses', () => {
+      // ARRANGE
+      const crawlResult = createPages(
+        createPage(
+          'https://other.example.org/',
+          {},
+          {
+            responseHeaders: { values: { 'content-type': 'text/html' }, partial: true },
+          }
+        ),
+        createPage('https://example.com/legacy', {}, { responseHeaders: undefined }),
+        createPage('https://example.com/missing', {}, { status: 404 })
+      );
+
+      // ACT
+      const result = detectHeaderIssues(crawlResult);
+
+      // ASSERT
+      expect(result.map((issue) => issue.type)).toEqual([
+        'missing-cache-control',
+        'missing-charset',
+      ]);
+    });
+  });
+});
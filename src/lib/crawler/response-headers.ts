@@ -0,0 +1,114 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Reads the response headers of crawled pages and audits caching, compression,
+ * transport security and content type headers
+ */
+
+import { CrawlResult, HeaderIssue, HeaderIssueType, ResponseHeaders } from '@/types';
+import { isAuditedPage } from './audited-page';
+
+export const HEADER_ISSUE_LABELS: Record<HeaderIssueType, string> = {
+  'missing-cache-control': 'Missing Cache-Control',
+  'missing-validator': 'No ETag or Last-Modified',
+  uncompressed: 'Not compressed',
+  'missing-hsts': 'Missing Strict-Transport-Security',
+  'short-hsts': 'Short HSTS max-age',
+  'missing-csp': 'Missing Content-Security-Policy',
+  'missing-nosniff': 'Missing X-Content-Type-Options: nosniff',
+  'missing-charset': 'No charset in Content-Type',
+};
+
+/**
+ * HSTS max-age below six months (in seconds) lapses between visits
+ */
+const MIN_HSTS_MAX_AGE = 15768000;
+
+/**
+ * Bodies smaller than this (in bytes) gain little from compression
+ */
+const MIN_COMPRESSIBLE_BYTES = 1024;
+
+/**
+ * The headers a script can read from a response: all but Set-Cookie for same
+ * origin responses, and only the CORS-safelisted and exposed ones for cross
+ * origin (cors) responses
+ */
+export const readResponseHeaders = (response: {
+  headers: Headers;
+  type?: ResponseType;
+}): ResponseHeaders => {
+  const values: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    values[name.toLowerCase()] = value;
+  });
+  return { values, partial: response.type === 'cors' || response.type === 'opaque' };
+};
+
+const getHstsMaxAge = (value: string): number | undefined => {
+  const match = value.match(/max-age\s*=\s*"?(\d+)"?/i);
+  return match ? Number(match[1]) : undefined;
+};
+
+/**
+ * Header issues of each page served with status 200 without a redirect, in
+ * crawl order. Headers cross-origin responses hide (ETag, Content-Encoding,
+ * Strict-Transport-Security, Content-Security-Policy, X-Content-Type-Options)
+ * are only checked when all headers were readable. Crawls made before header
+ * capture have none.
+ */
+export const detectHeaderIssues = (crawlResult: Pick<CrawlResult, 'pages'>): HeaderIssue[] => {
+  const issues: HeaderIssue[] = [];
+
+  crawlResult.pages.forEach((page, url) => {
+    if (!page.responseHeaders || !isAuditedPage(page)) {
+      return;
+    }
+    const { values, partial } = page.responseHeaders;
+
+    if (!values['cache-control']) {
+      issues.push({ url, type: 'missing-cache-control' });
+    }
+    const contentType = values['content-type'];
+    if (contentType && !/;\s*charset\s*=/i.test(contentType)) {
+      issues.push({ url, type: 'missing-charset', value: contentType });
+    }
+    if (partial) {
+      return;
+    }
+
+    if (!values['etag'] && !values['last-modified']) {
+      issues.push({ url, type: 'missing-validator' });
+    }
+    // Crawls made before page measurement only have the length in characters
+    const bytes = page.performance?.bytes ?? page.contentLength ?? 0;
+    if (!values['content-encoding'] && bytes >= MIN_COMPRESSIBLE_BYTES) {
+      issues.push({ url, type: 'uncompressed' });
+    }
+    if (url.startsWith('https://')) {
+      const hsts = values['strict-transport-security'];
+      const maxAge = hsts ? getHstsMaxAge(hsts) : undefined;
+      if (!hsts) {
+        issues.push({ url, type: 'missing-hsts' });
+      } else if (maxAge === undefined || maxAge < MIN_HSTS_MAX_AGE) {
+        issues.push({ url, type: 'short-hsts', value: hsts });
+      }
+    }
+    if (!values['content-security-policy']) {
+      issues.push({ url, type: 'missing-csp' });
+    }
+    const contentTypeOptions = values['x-content-type-options'];
+    if (contentTypeOptions?.trim().toLowerCase() !== 'nosniff') {
+      issues.push({
+        url,
+        type: 'missing-nosniff',
+        ...(contentTypeOptions && { value: contentTypeOptions }),
+      });
+    }
+  });
+
+  return issues;
+};
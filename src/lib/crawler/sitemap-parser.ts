@@ -7,7 +7,7 @@
  * Parses robots.txt and XML sitemaps to discover URLs
  */
 
-import { RobotsData, SitemapData } from '@/types';
+import { NormalizationPolicy, RobotsData, SitemapData } from '@/types';
 import { normalizeUrl, isValidUrl } from './link-extractor';
 
 /**
@@ -208,7 +208,10 @@ export const extractSitemapUrls = async (baseUrl: string): Promise<string[]> =>
 /**
  * Fetches and parses an XML sitemap
  */
-export const fetchSitemap = async (sitemapUrl: string): Promise<SitemapData> => {
+export const fetchSitemap = async (
+  sitemapUrl: string,
+  policy?: Partial<NormalizationPolicy>
+): Promise<SitemapData> => {
   const result: SitemapData = {
     urls: [],
   };
@@ -225,7 +228,7 @@ export const fetchSitemap = async (sitemapUrl: string): Promise<SitemapData> =>
     }
 
     const text = await response.text();
-    return parseSitemapXml(text);
+    return parseSitemapXml(text, policy);
   } catch (error) {
     console.error('Error fetching sitemap:', error);
     return result;
@@ -235,7 +238,10 @@ export const fetchSitemap = async (sitemapUrl: string): Promise<SitemapData> =>
 /**
  * Parses sitemap XML content
  */
-export const parseSitemapXml = (xmlContent: string): SitemapData => {
+export const parseSitemapXml = (
+  xmlContent: string,
+  policy?: Partial<NormalizationPolicy>
+): SitemapData => {
   const result: SitemapData = {
     urls: [],
   };
@@ -262,7 +268,7 @@ export const parseSitemapXml = (xmlContent: string): SitemapData => {
     urlElements.forEach((element) => {
       const loc = element.textContent?.trim();
       if (loc && isValidUrl(loc)) {
-        result.urls.push(normalizeUrl(loc));
+        result.urls.push(normalizeUrl(loc, policy));
       }
     });
 
@@ -283,7 +289,8 @@ export const parseSitemapXml = (xmlContent: string): SitemapData => {
  */
 export const fetchAllSitemapUrls = async (
   baseUrl: string,
-  maxDepth: number = 3
+  maxDepth: number = 3,
+  policy?: Partial<NormalizationPolicy>
 ): Promise<Set<string>> => {
   const allUrls = new Set<string>();
   const processedSitemaps = new Set<string>();
@@ -295,7 +302,7 @@ export const fetchAllSitemapUrls = async (
 
     processedSitemaps.add(sitemapUrl);
 
-    const sitemapData = await fetchSitemap(sitemapUrl);
+    const sitemapData = await fetchSitemap(sitemapUrl, policy);
 
     for (const url of sitemapData.urls) {
       // Check if this is a nested sitemap
@@ -323,7 +330,8 @@ export const fetchAllSitemapUrls = async (
  */
 export const discoverUrls = async (
   baseUrl: string,
-  respectRobotsTxt: boolean = true
+  respectRobotsTxt: boolean = true,
+  policy?: Partial<NormalizationPolicy>
 ): Promise<{
   sitemapUrls: Set<string>;
   robotsData: RobotsData | null;
@@ -334,7 +342,7 @@ export const discoverUrls = async (
     robotsData = await fetchRobotsTxt(baseUrl);
   }
 
-  const sitemapUrls = await fetchAllSitemapUrls(baseUrl);
+  const sitemapUrls = await fetchAllSitemapUrls(baseUrl, 3, policy);
 
   // Filter URLs based on robots.txt if applicable
   if (respectRobotsTxt && robotsData) {
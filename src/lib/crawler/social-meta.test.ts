@@ -0,0 +1,168 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Unit tests for social-meta
+ * Coverage: detectSocialIssues, detectDuplicateSocialImages, getSharePreview
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectSocialIssues, detectDuplicateSocialImages, getSharePreview } from './social-meta';
+import { CrawlPage, SocialMeta } from '@/types';
+import { createPage as createCrawlPage, createPages } from '../../../tests/fixtures/crawl-pages';
+
+const COMPLETE_META: SocialMeta = {
+  'og:title': 'Steel kettles',
+  'og:description': 'Kettles that boil water fast',
+  'og:image': 'https://example.com/share/kettles.png',
+  'twitter:card': 'summary_large_image',
+};
+
+const createPage = (
+  url: string,
+  socialMeta?: SocialMeta,
+  overrides?: Partial<CrawlPage>
+): CrawlPage =>
+  createCrawlPage(url, { title: 'Steel kettles | Example Shop', socialMeta, ...overrides });
+
+describe('social-meta', () => {
+  describe('detectSocialIssues', () => {
+    it('should accept complete tags with a shorter og:title', () => {
+      // ACT & ASSERT
+      expect(
+        detectSocialIssues(createPages(createPage('https://example.com/', COMPLETE_META)))
+      ).toEqual([]);
+    });
+
+    it('should report missing tags on pages without any', () => {
+      // ACT
+      const result = detectSocialIssues(createPages(createPage('https://example.com/', {})));
+
+      // ASSERT
+      expect(result.map((issue) => issue.type)).toEqual([
+        'missing-og-title',
+        'missing-og-description',
+        'missing-og-image',
+        'missing-twitter-card',
+      ]);
+    });
+
+    it('should report invalid image URLs and card types, and mismatched titles', () => {
+      // ARRANGE
+      const crawlResult = createPages(
+        createPage('https://example.com/', {
+          ...COMPLETE_META,
+          'og:title': 'Welcome',
+          'og:image': '/share/kettles.png',
+          'twitter:card': 'large',
+          'twitter:image': 'data:image/png;base64,AAAA',
+          'twitter:title': 'Our kettles',
+        })
+      );
+
+      // ACT
+      const result = detectSocialIssues(crawlResult);
+
+      // ASSERT
+      expect(result).toEqual([
+        {
+          url: 'https://example.com/',
+          type: 'og-title-mismatch',
+          value: 'Welcome',
+          expected: 'Steel kettles | Example Shop',
+        },
+        { url: 'https://example.com/', type: 'invalid-og-image', value: '/share/kettles.png' },
+        { url: 'https://example.com/', type: 'invalid-twitter-card', value: 'large' },
+        {
+          url: 'https://example.com/',
+          type: 'invalid-twitter-image',
+          value: 'data:image/png;base64,AAAA',
+        },
+        {
+          url: 'https://example.com/',
+          type: 'twitter-title-mismatch',
+          value: 'Our kettles',
+          expected: 'Welcome',
+        },
+      ]);
+    });
+
+    it('should skip errors and pages crawled before social tags were stored', () => {
+      // ARRANGE
+      const crawlResult = createPages(
+        createPage('https://example.com/missing', {}, { status: 404 }),
+        createPage('https://example.com/legacy')
+      );
+
+      // ACT & ASSERT
+      expect(detectSocialIssues(crawlResult)).toEqual([]);
+    });
+  });
+
+  describe('detectDuplicateSocialImages', () => {
+    it('should group indexable pages sharing an og:image', () => {
+      // ARRANGE
+      const crawlResult = createPages(
+        createPage('https://example.com/a', COMPLETE_META),
+        createPage('https://example.com/b', COMPLETE_META),
+        createPage('https://example.com/a?ref=1', COMPLETE_META, {
+          indexability: { indexable: false, reasons: ['canonicalized'], nofollow: false },
+        }),
+        createPage('https://example.com/c', {
+          ...COMPLETE_META,
+          'og:image': 'https://example.com/share/c.png',
+        })
+      );
+
+      // ACT & ASSERT
+      expect(detectDuplicateSocialImages(crawlResult)).toEqual([
+        {
+          image: 'https://example.com/share/kettles.png',
+          urls: ['https://example.com/a', 'https://example.com/b'],
+        },
+      ]);
+    });
+  });
+
+  describe('getSharePreview', () => {
+    it('should fall back from Twitter tags to Open Graph tags to the page', () => {
+      // ARRANGE
+      const page = createPage('https://shop.example.com/kettles', {
+        'og:image': 'https://example.com/share/kettles.png',
+        'og:site_name': 'Example Shop',
+        'twitter:title': 'Kettles on X',
+      });
+
+      // ACT
+      const openGraph = getSharePreview(page, 'open-graph');
+      const twitter = getSharePreview(page, 'twitter');
+
+      // ASSERT
+      expect(openGraph).toEqual({
+        url: 'https://shop.example.com/kettles',
+        domain: 'shop.example.com',
+        title: 'Steel kettles | Example Shop',
+        description: undefined,
+        image: 'https://example.com/share/kettles.png',
+        siteName: 'Example Shop',
+        card: 'summary_large_image',
+      });
+      expect(twitter.title).toBe('Kettles on X');
+      expect(twitter.image).toBe('https://example.com/share/kettles.png');
+      expect(twitter.card).toBe('summary');
+    });
+
+    it('should leave out images social networks cannot fetch', () => {
+      // ACT
+      const preview = getSharePreview(
+        createPage('https://example.com/', { 'og:image': '/share.png' }),
+        'open-graph'
+      );
+
+      // ASSERT
+      expect(preview.image).toBeUndefined();
+    });
+  });
+});
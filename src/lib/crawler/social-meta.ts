@@ -0,0 +1,168 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Audits the Open Graph and Twitter Card tags of crawled pages, and builds the
+ * share previews shown in the report from the tags stored during the crawl
+ */
+
+import {
+  CrawlPage,
+  CrawlResult,
+  DuplicateSocialImage,
+  ShareNetwork,
+  SharePreview,
+  SocialIssue,
+  SocialIssueType,
+} from '@/types';
+import { isAuditedPage } from './audited-page';
+
+export const SOCIAL_ISSUE_LABELS: Record<SocialIssueType, string> = {
+  'missing-og-title': 'Missing og:title',
+  'missing-og-description': 'Missing og:description',
+  'missing-og-image': 'Missing og:image',
+  'invalid-og-image': 'Invalid og:image URL',
+  'og-title-mismatch': 'og:title differs from the page title',
+  'missing-twitter-card': 'Missing twitter:card',
+  'invalid-twitter-card': 'Invalid twitter:card type',
+  'invalid-twitter-image': 'Invalid twitter:image URL',
+  'twitter-title-mismatch': 'twitter:title differs from og:title',
+};
+
+export const SHARE_NETWORK_LABELS: Record<ShareNetwork, string> = {
+  'open-graph': 'Facebook & LinkedIn',
+  twitter: 'X (Twitter)',
+};
+
+const TWITTER_CARD_TYPES = new Set(['summary', 'summary_large_image', 'app', 'player']);
+
+/**
+ * Social networks fetch images themselves, so only absolute http(s) URLs work
+ */
+const isValidImageUrl = (value: string): boolean => {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+const getTitleKey = (title: string): string => title.replace(/\s+/g, ' ').trim().toLowerCase();
+
+/**
+ * Titles match when one contains the other, so "Kettle" matches "Kettle | Shop"
+ */
+const titlesMatch = (a: string, b: string): boolean => {
+  const [keyA, keyB] = [getTitleKey(a), getTitleKey(b)];
+  return keyA.includes(keyB) || keyB.includes(keyA);
+};
+
+/**
+ * Issues of each page in crawl order: missing Open Graph title, description and
+ * image, image URLs that are not absolute http(s) URLs, an unknown or missing
+ * twitter:card, and an og:title unrelated to the <title> (or a twitter:title
+ * unrelated to og:title). Crawls made before social tags were stored have none.
+ */
+export const detectSocialIssues = (crawlResult: Pick<CrawlResult, 'pages'>): SocialIssue[] => {
+  const issues: SocialIssue[] = [];
+
+  crawlResult.pages.forEach((page, url) => {
+    const meta = page.socialMeta;
+    if (!meta || !isAuditedPage(page)) {
+      return;
+    }
+
+    const ogTitle = meta['og:title'];
+    if (!ogTitle) {
+      issues.push({ url, type: 'missing-og-title' });
+    } else if (page.title && !titlesMatch(ogTitle, page.title)) {
+      issues.push({ url, type: 'og-title-mismatch', value: ogTitle, expected: page.title });
+    }
+    if (!meta['og:description']) {
+      issues.push({ url, type: 'missing-og-description' });
+    }
+    const ogImage = meta['og:image'];
+    if (!ogImage) {
+      issues.push({ url, type: 'missing-og-image' });
+    } else if (!isValidImageUrl(ogImage)) {
+      issues.push({ url, type: 'invalid-og-image', value: ogImage });
+    }
+
+    const card = meta['twitter:card'];
+    if (!card) {
+      issues.push({ url, type: 'missing-twitter-card' });
+    } else if (!TWITTER_CARD_TYPES.has(card.toLowerCase())) {
+      issues.push({ url, type: 'invalid-twitter-card', value: card });
+    }
+    const twitterImage = meta['twitter:image'];
+    if (twitterImage && !isValidImageUrl(twitterImage)) {
+      issues.push({ url, type: 'invalid-twitter-image', value: twitterImage });
+    }
+    const twitterTitle = meta['twitter:title'];
+    if (twitterTitle && ogTitle && !titlesMatch(twitterTitle, ogTitle)) {
+      issues.push({ url, type: 'twitter-title-mismatch', value: twitterTitle, expected: ogTitle });
+    }
+  });
+
+  return issues;
+};
+
+/**
+ * og:image URLs shared by several indexable pages, which then all look the
+ * same when shared. Non-indexable pages repeat their canonical page and are
+ * left out.
+ */
+export const detectDuplicateSocialImages = (
+  crawlResult: Pick<CrawlResult, 'pages'>
+): DuplicateSocialImage[] => {
+  const byImage = new Map<string, string[]>();
+
+  crawlResult.pages.forEach((page, url) => {
+    const image = page.socialMeta?.['og:image'];
+    if (!image || !isAuditedPage(page) || page.indexability?.indexable === false) {
+      return;
+    }
+    if (!byImage.has(image)) {
+      byImage.set(image, []);
+    }
+    byImage.get(image)!.push(url);
+  });
+
+  return Array.from(byImage.entries())
+    .filter(([, urls]) => urls.length > 1)
+    .map(([image, urls]) => ({ image, urls }));
+};
+
+/**
+ * The card a page shares as on a network. Twitter falls back to the Open Graph
+ * tags, and both fall back to the page title and meta description. Open Graph
+ * cards always show a large image.
+ */
+export const getSharePreview = (page: CrawlPage, network: ShareNetwork): SharePreview => {
+  const meta = page.socialMeta ?? {};
+  const getTag = (name: string): string | undefined =>
+    network === 'twitter' ? (meta[`twitter:${name}`] ?? meta[`og:${name}`]) : meta[`og:${name}`];
+  const image = getTag('image');
+  let domain = page.url;
+  try {
+    domain = new URL(page.url).hostname;
+  } catch {
+    // Keep the raw URL
+  }
+
+  return {
+    url: page.url,
+    domain,
+    title: getTag('title') ?? page.title,
+    description: getTag('description') ?? page.description,
+    image: image && isValidImageUrl(image) ? image : undefined,
+    siteName: meta['og:site_name'],
+    card:
+      network === 'open-graph' || meta['twitter:card']?.toLowerCase() === 'summary_large_image'
+        ? 'summary_large_image'
+        : 'summary',
+  };
+};
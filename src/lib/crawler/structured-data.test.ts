@@ -0,0 +1,191 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Unit tests for structured-data
+ * Coverage: validateJsonLd, validateMicrodata, groupStructuredDataByType
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateJsonLd, validateMicrodata, groupStructuredDataByType } from './structured-data';
+import { CrawlPage, StructuredDataItem } from '@/types';
+import { createPage as createCrawlPage } from '../../../tests/fixtures/crawl-pages';
+
+const createPage = (url: string, structuredData: StructuredDataItem[]): CrawlPage =>
+  createCrawlPage(url, { structuredData });
+
+describe('structured-data', () => {
+  describe('validateJsonLd', () => {
+    it('should accept a complete Article', () => {
+      // ARRANGE
+      const json = JSON.stringify({
+        '@context': 'https://schema.org',
+        '@type': 'NewsArticle',
+        headline: 'Launch day',
+        author: { '@type': 'Person', name: 'Sam' },
+        datePublished: '2025-01-01',
+        dateModified: '2025-01-02',
+        image: 'https://example.com/launch.png',
+      });
+
+      // ACT & ASSERT
+      expect(validateJsonLd(json)).toEqual([
+        { source: 'json-ld', types: ['NewsArticle'], errors: [], warnings: [] },
+      ]);
+    });
+
+    it('should report invalid JSON', () => {
+      // ACT
+      const [item] = validateJsonLd('{ "@type": "Product", }');
+
+      // ASSERT
+      expect(item.types).toEqual([]);
+      expect(item.errors[0]).toMatch(/^Invalid JSON: /);
+    });
+
+    it('should validate nested items against their own rules', () => {
+      // ARRANGE
+      const json = JSON.stringify({
+        '@type': 'Product',
+        name: 'Kettle',
+        image: 'https://example.com/kettle.png',
+        description: 'Boils water',
+        brand: 'Acme',
+        sku: 'K-1',
+        offers: { '@type': 'Offer', price: '20', availability: 'InStock', url: '/kettle' },
+      });
+
+      // ACT
+      const [item] = validateJsonLd(json);
+
+      // ASSERT
+      expect(item.errors).toEqual(['Missing required property offers.priceCurrency']);
+      expect(item.warnings).toEqual([]);
+    });
+
+    it('should read every node of an @graph', () => {
+      // ARRANGE
+      const json = JSON.stringify({
+        '@context': 'https://schema.org',
+        '@graph': [
+          { '@type': 'Organization', name: 'Acme', url: 'https://example.com/' },
+          {
+            '@type': 'BreadcrumbList',
+            itemListElement: [
+              { '@type': 'ListItem', position: 1, name: 'Home', item: 'https://example.com/' },
+              { '@type': 'ListItem', name: 'Docs' },
+            ],
+          },
+          { name: 'No type' },
+        ],
+      });
+
+      // ACT
+      const result = validateJsonLd(json);
+
+      // ASSERT
+      expect(result).toEqual([
+        {
+          source: 'json-ld',
+          types: ['Organization'],
+          errors: [],
+          warnings: ['Missing recommended property logo'],
+        },
+        {
+          source: 'json-ld',
+          types: ['BreadcrumbList'],
+          errors: ['Missing required property itemListElement[1].position'],
+          warnings: [],
+        },
+        { source: 'json-ld', types: [], errors: ['Missing @type'], warnings: [] },
+      ]);
+    });
+
+    it('should require an accepted answer for each FAQ question', () => {
+      // ARRANGE
+      const json = JSON.stringify({
+        '@type': 'FAQPage',
+        mainEntity: [
+          { '@type': 'Question', name: 'Is it free?', acceptedAnswer: { text: 'Yes' } },
+          { '@type': 'Question', name: 'Is it open source?' },
+        ],
+      });
+
+      // ACT
+      const [item] = validateJsonLd(json);
+
+      // ASSERT
+      expect(item.errors).toEqual(['Missing required property mainEntity[1].acceptedAnswer']);
+    });
+  });
+
+  describe('validateMicrodata', () => {
+    it('should validate microdata items like JSON-LD', () => {
+      // ACT
+      const result = validateMicrodata({
+        type: 'https://schema.org/Product',
+        properties: {
+          name: ['Kettle'],
+          aggregateRating: [
+            { type: 'https://schema.org/AggregateRating', properties: { ratingValue: ['4.5'] } },
+          ],
+        },
+      });
+
+      // ASSERT
+      expect(result).toEqual({
+        source: 'microdata',
+        types: ['Product'],
+        errors: [
+          'aggregateRating needs one of aggregateRating.ratingCount, aggregateRating.reviewCount',
+        ],
+        warnings: [
+          'Missing recommended property image',
+          'Missing recommended property description',
+          'Missing recommended property brand',
+          'Missing recommended property sku',
+        ],
+      });
+    });
+  });
+
+  describe('groupStructuredDataByType', () => {
+    it('should list pages under each of their types, unreadable items first', () => {
+      // ARRANGE
+      const invalid: StructuredDataItem = {
+        source: 'json-ld',
+        types: [],
+        errors: ['Invalid JSON: Unexpected token'],
+        warnings: [],
+      };
+      const crawlResult = {
+        pages: new Map([
+          [
+            'https://example.com/a',
+            createPage('https://example.com/a', [
+              { source: 'microdata', types: ['Product'], errors: [], warnings: [] },
+              invalid,
+            ]),
+          ],
+          [
+            'https://example.com/b',
+            createPage('https://example.com/b', [
+              { source: 'json-ld', types: ['Article'], errors: [], warnings: [] },
+            ]),
+          ],
+        ]),
+      };
+
+      // ACT
+      const result = groupStructuredDataByType(crawlResult);
+
+      // ASSERT
+      expect(result.map((group) => group.type)).toEqual([undefined, 'Article', 'Product']);
+      expect(result[0].pages).toEqual([
+        { url: 'https://example.com/a', source: 'json-ld', errors: invalid.errors, warnings: [] },
+      ]);
+    });
+  });
+});
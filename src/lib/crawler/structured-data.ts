@@ -0,0 +1,232 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Validates JSON-LD and microdata against an offline rule set for common
+ * schema.org types, and groups the results by type for the report
+ */
+
+import {
+  CrawlResult,
+  StructuredDataItem,
+  StructuredDataPage,
+  StructuredDataTypeGroup,
+} from '@/types';
+import { MicrodataItem } from './html-parser';
+
+type JsonObject = Record<string, unknown>;
+
+interface TypeRule {
+  required?: string[];
+  recommended?: string[];
+  /** Groups of properties of which at least one is required */
+  oneOf?: string[][];
+  /** Rules for object values of a property, unless they declare a type with its own rule */
+  nested?: Record<string, string>;
+}
+
+/**
+ * Required and recommended properties, following the search engine guidelines
+ * for rich results
+ */
+export const STRUCTURED_DATA_RULES: Record<string, TypeRule> = {
+  Article: {
+    required: ['headline'],
+    recommended: ['author', 'datePublished', 'dateModified', 'image'],
+  },
+  Product: {
+    required: ['name'],
+    recommended: ['image', 'description', 'brand', 'sku'],
+    oneOf: [['offers', 'review', 'aggregateRating']],
+    nested: { offers: 'Offer', aggregateRating: 'AggregateRating' },
+  },
+  Offer: {
+    required: ['price', 'priceCurrency'],
+    recommended: ['availability', 'url'],
+  },
+  AggregateRating: {
+    required: ['ratingValue'],
+    oneOf: [['ratingCount', 'reviewCount']],
+  },
+  BreadcrumbList: {
+    required: ['itemListElement'],
+    nested: { itemListElement: 'ListItem' },
+  },
+  ListItem: {
+    required: ['position'],
+    oneOf: [['name', 'item']],
+  },
+  FAQPage: {
+    required: ['mainEntity'],
+    nested: { mainEntity: 'Question' },
+  },
+  Question: {
+    required: ['name', 'acceptedAnswer'],
+    nested: { acceptedAnswer: 'Answer' },
+  },
+  Answer: {
+    required: ['text'],
+  },
+  Organization: {
+    required: ['name'],
+    recommended: ['url', 'logo'],
+  },
+};
+
+/**
+ * Subtypes validated with the rule of their parent type
+ */
+const RULE_ALIASES: Record<string, string> = {
+  NewsArticle: 'Article',
+  BlogPosting: 'Article',
+  AggregateOffer: 'Offer',
+  Corporation: 'Organization',
+  NGO: 'Organization',
+  EducationalOrganization: 'Organization',
+};
+
+const getRuleName = (type: string): string | undefined => {
+  const name = RULE_ALIASES[type] ?? type;
+  return name in STRUCTURED_DATA_RULES ? name : undefined;
+};
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toArray = (value: unknown): unknown[] =>
+  Array.isArray(value) ? value : value === undefined ? [] : [value];
+
+const hasValue = (value: unknown): boolean =>
+  value !== undefined &&
+  value !== null &&
+  !(typeof value === 'string' && !value.trim()) &&
+  !(Array.isArray(value) && value.length === 0);
+
+/**
+ * schema.org type names without their vocabulary (https://schema.org/Product -> Product)
+ */
+const getTypes = (node: JsonObject): string[] =>
+  toArray(node['@type'])
+    .filter((type): type is string => typeof type === 'string')
+    .map((type) => type.replace(/^.*[/:#]/, ''))
+    .filter(Boolean);
+
+const validateNode = (
+  node: JsonObject,
+  ruleName: string,
+  path: string,
+  result: Pick<StructuredDataItem, 'errors' | 'warnings'>
+) => {
+  const rule = STRUCTURED_DATA_RULES[ruleName];
+  const at = (property: string) => (path ? `${path}.${property}` : property);
+
+  rule.required?.forEach((property) => {
+    if (!hasValue(node[property])) {
+      result.errors.push(`Missing required property ${at(property)}`);
+    }
+  });
+  rule.oneOf?.forEach((group) => {
+    if (!group.some((property) => hasValue(node[property]))) {
+      result.errors.push(`${path || ruleName} needs one of ${group.map(at).join(', ')}`);
+    }
+  });
+  rule.recommended?.forEach((property) => {
+    if (!hasValue(node[property])) {
+      result.warnings.push(`Missing recommended property ${at(property)}`);
+    }
+  });
+
+  Object.entries(rule.nested ?? {}).forEach(([property, nestedRule]) => {
+    const values = toArray(node[property]);
+    values.forEach((value, index) => {
+      if (!isObject(value)) {
+        return;
+      }
+      const ownRule = getTypes(value).map(getRuleName).find(Boolean);
+      const nestedPath = values.length > 1 ? `${at(property)}[${index}]` : at(property);
+      validateNode(value, ownRule ?? nestedRule, nestedPath, result);
+    });
+  });
+};
+
+const validateTopLevelNode = (
+  node: JsonObject,
+  source: StructuredDataItem['source']
+): StructuredDataItem => {
+  const item: StructuredDataItem = { source, types: getTypes(node), errors: [], warnings: [] };
+  if (item.types.length === 0) {
+    item.errors.push('Missing @type');
+    return item;
+  }
+  const ruleName = item.types.map(getRuleName).find(Boolean);
+  if (ruleName) {
+    validateNode(node, ruleName, '', item);
+  }
+  return item;
+};
+
+/**
+ * One item per top-level node of a JSON-LD block (arrays and @graph hold several)
+ */
+export const validateJsonLd = (text: string): StructuredDataItem[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return [{ source: 'json-ld', types: [], errors: [`Invalid JSON: ${message}`], warnings: [] }];
+  }
+
+  const nodes = toArray(data).flatMap((node) =>
+    isObject(node) && Array.isArray(node['@graph']) && !node['@type'] ? node['@graph'] : [node]
+  );
+  return nodes.map(
+    (node): StructuredDataItem =>
+      isObject(node)
+        ? validateTopLevelNode(node, 'json-ld')
+        : { source: 'json-ld', types: [], errors: ['Not a JSON object'], warnings: [] }
+  );
+};
+
+/**
+ * The JSON-LD shape of a microdata item, so both are validated the same way
+ */
+const microdataToJson = (item: MicrodataItem): JsonObject => {
+  const node: JsonObject = item.type ? { '@type': item.type } : {};
+  Object.entries(item.properties).forEach(([name, values]) => {
+    const converted = values.map((value) =>
+      typeof value === 'string' ? value : microdataToJson(value)
+    );
+    node[name] = converted.length === 1 ? converted[0] : converted;
+  });
+  return node;
+};
+
+export const validateMicrodata = (item: MicrodataItem): StructuredDataItem =>
+  validateTopLevelNode(microdataToJson(item), 'microdata');
+
+/**
+ * Structured data items of the crawled pages grouped by type, unreadable items first
+ */
+export const groupStructuredDataByType = (
+  crawlResult: Pick<CrawlResult, 'pages'>
+): StructuredDataTypeGroup[] => {
+  const groups = new Map<string, StructuredDataPage[]>();
+
+  crawlResult.pages.forEach((page, url) => {
+    page.structuredData?.forEach(({ source, types, errors, warnings }) => {
+      (types.length > 0 ? types : ['']).forEach((type) => {
+        if (!groups.has(type)) {
+          groups.set(type, []);
+        }
+        groups.get(type)!.push({ url, source, errors, warnings });
+      });
+    });
+  });
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([type, pages]) => (type ? { type, pages } : { pages }));
+};
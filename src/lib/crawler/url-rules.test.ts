@@ -0,0 +1,68 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Unit tests for url-rules
+ * Coverage: compileUrlPattern, getUrlPatternError, matchesUrlPattern, isUrlInScope
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  compileUrlPattern,
+  getUrlPatternError,
+  matchesUrlPattern,
+  isUrlInScope,
+} from './url-rules';
+
+describe('url-rules', () => {
+  describe('matchesUrlPattern', () => {
+    it('should match a single path segment with *', () => {
+      expect(matchesUrlPattern('https://example.com/tag/seo', '/tag/*')).toBe(true);
+      expect(matchesUrlPattern('https://example.com/tag/seo/page/2', '/tag/*')).toBe(false);
+      expect(matchesUrlPattern('https://example.com/tags', '/tag/*')).toBe(false);
+    });
+
+    it('should match nested paths and the directory itself with a trailing /**', () => {
+      expect(matchesUrlPattern('https://example.com/docs', '/docs/**')).toBe(true);
+      expect(matchesUrlPattern('https://example.com/docs/api/crawler', '/docs/**')).toBe(true);
+      expect(matchesUrlPattern('https://example.com/documents', '/docs/**')).toBe(false);
+    });
+
+    it('should match globs against the query string too', () => {
+      expect(matchesUrlPattern('https://example.com/search?q=seo', '/search?*')).toBe(true);
+      expect(matchesUrlPattern('https://example.com/search', '/search?*')).toBe(false);
+    });
+
+    it('should match full-URL globs and regular expressions against the whole URL', () => {
+      expect(matchesUrlPattern('https://blog.example.com/post', 'https://blog.*/**')).toBe(true);
+      expect(matchesUrlPattern('https://example.com/file.PDF', 're:\\.pdf$')).toBe(false);
+      expect(matchesUrlPattern('https://example.com/file.pdf', 're:\\.pdf$')).toBe(true);
+    });
+  });
+
+  describe('getUrlPatternError', () => {
+    it('should report invalid regular expressions only', () => {
+      expect(getUrlPatternError('/docs/**')).toBeNull();
+      expect(getUrlPatternError('re:[a-')).toContain('Invalid URL pattern "re:[a-"');
+      expect(() => compileUrlPattern('re:(')).toThrow('Invalid URL pattern');
+    });
+  });
+
+  describe('isUrlInScope', () => {
+    it('should allow every URL without rules', () => {
+      expect(isUrlInScope('https://example.com/anything', {})).toBe(true);
+    });
+
+    it('should require an include match and let exclusions win', () => {
+      // ARRANGE
+      const rules = { includePatterns: ['/docs/**'], excludePatterns: ['/docs/archive/**'] };
+
+      // ACT & ASSERT
+      expect(isUrlInScope('https://example.com/docs/start', rules)).toBe(true);
+      expect(isUrlInScope('https://example.com/blog/post', rules)).toBe(false);
+      expect(isUrlInScope('https://example.com/docs/archive/2019', rules)).toBe(false);
+    });
+  });
+});
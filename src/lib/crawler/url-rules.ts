@@ -0,0 +1,90 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Include/exclude URL pattern rules that limit the crawl scope
+ */
+
+import { CrawlConfig } from '@/types';
+
+/**
+ * Patterns starting with this prefix are regular expressions tested against
+ * the full URL. All other patterns are globs.
+ */
+export const REGEX_PATTERN_PREFIX = 're:';
+
+export type UrlRules = Pick<CrawlConfig, 'includePatterns' | 'excludePatterns'>;
+
+const escapeRegExp = (value: string): string => value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Glob patterns match the path and query of a URL (or the full URL when the
+ * pattern contains a scheme). `*` matches within one path segment, `**` across
+ * segments, and a trailing `/**` also matches the directory itself.
+ */
+const globToRegExp = (glob: string): RegExp => {
+  const source = glob
+    .split(/(\/\*\*$|\*\*|\*)/)
+    .map((part) => {
+      if (part === '/**') return '(?:/.*)?';
+      if (part === '**') return '.*';
+      if (part === '*') return '[^/]*';
+      return escapeRegExp(part);
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+};
+
+export const compileUrlPattern = (pattern: string): RegExp => {
+  if (!pattern.startsWith(REGEX_PATTERN_PREFIX)) {
+    return globToRegExp(pattern);
+  }
+
+  try {
+    return new RegExp(pattern.slice(REGEX_PATTERN_PREFIX.length));
+  } catch (error) {
+    throw new Error(`Invalid URL pattern "${pattern}": ${(error as Error).message}`);
+  }
+};
+
+/**
+ * Validation message for a pattern, or null when it compiles
+ */
+export const getUrlPatternError = (pattern: string): string | null => {
+  try {
+    compileUrlPattern(pattern);
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
+
+export const matchesUrlPattern = (url: string, pattern: string): boolean => {
+  const regex = compileUrlPattern(pattern);
+  if (pattern.startsWith(REGEX_PATTERN_PREFIX) || pattern.includes('://')) {
+    return regex.test(url);
+  }
+
+  try {
+    const parsed = new URL(url);
+    return regex.test(parsed.pathname + parsed.search);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * A URL is in scope when it matches no exclude pattern and, if include
+ * patterns are given, at least one of them. Exclusions win.
+ */
+export const isUrlInScope = (url: string, rules: UrlRules): boolean => {
+  const includes = rules.includePatterns ?? [];
+  const excludes = rules.excludePatterns ?? [];
+
+  if (excludes.some((pattern) => matchesUrlPattern(url, pattern))) {
+    return false;
+  }
+  return includes.length === 0 || includes.some((pattern) => matchesUrlPattern(url, pattern));
+};
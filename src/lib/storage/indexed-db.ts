@@ -5,6 +5,7 @@
 
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
 import { CrawlResult, ReportData, CrawlPage } from '@/types';
+import { getDomain } from '@/lib/crawler/link-extractor';
 
 const DB_NAME = 'vaporscan';
 const DB_VERSION = 1;
@@ -107,6 +108,30 @@ export const getAllCrawls = async (): Promise<CrawlResult[]> => {
   }));
 };
 
+/**
+ * The most recent crawl whose start URL is on `hostname`. Crawls are read newest
+ * first and one at a time, so older crawls are never loaded.
+ */
+export const getLatestCrawlForDomain = async (
+  hostname: string
+): Promise<CrawlResult | undefined> => {
+  const database = await getDB();
+  let cursor = await database.transaction('crawls').store.index('by-date').openCursor(null, 'prev');
+
+  while (cursor) {
+    if (getDomain(cursor.value.url) === hostname) {
+      const crawl = cursor.value;
+      return {
+        ...crawl,
+        pages: new Map(Object.entries(crawl.pages)),
+        brokenLinks: new Map(Object.entries(crawl.brokenLinks).map(([k, v]) => [k, new Set(v)])),
+      } as CrawlResult;
+    }
+    cursor = await cursor.continue();
+  }
+  return undefined;
+};
+
 export const deleteCrawl = async (id: string): Promise<void> => {
   const database = await getDB();
   await database.delete('crawls', id);
@@ -0,0 +1,158 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Unit tests for export serializers
+ * Coverage: serializeReportToJUnit, serializeReportToSARIF
+ */
+
+import { describe, it, expect } from 'vitest';
+import { serializeReportToJUnit, serializeReportToSARIF } from './export';
+import { CrawlPage, ReportData } from '@/types';
+
+const emptyPage: CrawlPage = {
+  url: 'https://example.com/thin',
+  status: 200,
+  contentLength: 42,
+  isEmpty: true,
+  crawlTime: 100,
+  internalLinks: [],
+  externalLinks: [],
+  inSitemap: true,
+};
+
+const homePage: CrawlPage = {
+  url: 'https://example.com/',
+  status: 200,
+  isEmpty: false,
+  crawlTime: 100,
+  internalLinks: ['https://example.com/thin', 'https://example.com/gone?a=1&b=2'],
+  externalLinks: [],
+  inSitemap: true,
+};
+
+const createReport = (overrides?: Partial<ReportData>): ReportData => ({
+  id: 'report-1',
+  crawlId: 'crawl-1',
+  generatedAt: Date.UTC(2025, 0, 1),
+  targetUrl: 'https://example.com',
+  summary: {
+    totalPages: 4,
+    crawledPages: 3,
+    orphanedCount: 1,
+    brokenLinkCount: 1,
+    emptyPageCount: 1,
+    avgResponseTime: 100,
+  },
+  orphanedPages: [{ url: 'https://example.com/orphan', inSitemap: false, referredBy: [] }],
+  brokenLinks: [
+    {
+      url: 'https://example.com/gone?a=1&b=2',
+      status: 404,
+      referencedFrom: ['https://example.com/'],
+    },
+  ],
+  emptyPages: [emptyPage],
+  sitemapOnlyPages: [],
+  sitemapUrls: [],
+  robotsData: null,
+  ...overrides,
+});
+
+describe('export serializers', () => {
+  describe('serializeReportToJUnit', () => {
+    it('should emit one failing test case per finding', () => {
+      const xml = serializeReportToJUnit(createReport());
+
+      expect(xml).toContain('<?xml version="1.0" encoding="UTF-8"?>');
+      expect(xml).toContain('tests="3" failures="3"');
+      expect(xml).toContain('<testsuite name="Broken Links" tests="1" failures="1"');
+      expect(xml).toContain('<failure type="broken-link" message="Broken link returned HTTP 404">');
+      expect(xml).toContain('<failure type="orphaned-page"');
+      expect(xml).toContain('<failure type="empty-page"');
+    });
+
+    it('should escape URLs and attach referencing pages', () => {
+      const xml = serializeReportToJUnit(createReport());
+
+      expect(xml).toContain('name="https://example.com/gone?a=1&amp;b=2"');
+      expect(xml).toContain('Referenced from:\n- https://example.com/');
+    });
+
+    it('should resolve referrers for empty pages from crawled pages', () => {
+      const pages = new Map([
+        [homePage.url, homePage],
+        [emptyPage.url, emptyPage],
+      ]);
+
+      const xml = serializeReportToJUnit(createReport(), pages);
+      const emptySuite = xml.slice(xml.indexOf('<testsuite name="Empty Pages"'));
+
+      expect(emptySuite).toContain('Referenced from:\n- https://example.com/');
+    });
+
+    it('should match empty page referrers with the crawl normalization policy', () => {
+      const secondPage = { ...emptyPage, url: 'https://example.com/thin?page=2' };
+      const linkingPage = { ...homePage, internalLinks: ['https://example.com/thin?page=1'] };
+      const pages = new Map([
+        [linkingPage.url, linkingPage],
+        [secondPage.url, secondPage],
+      ]);
+      const report = createReport({ emptyPages: [secondPage] });
+
+      const stripped = serializeReportToJUnit(report, pages);
+      const kept = serializeReportToJUnit(
+        { ...report, normalization: { queryParams: 'keep-all' } },
+        pages
+      );
+      const getEmptySuite = (xml: string) =>
+        xml.slice(xml.indexOf('<testsuite name="Empty Pages"'));
+
+      expect(getEmptySuite(stripped)).toContain('Referenced from:\n- https://example.com/');
+      expect(getEmptySuite(kept)).not.toContain('Referenced from:');
+    });
+
+    it('should emit a passing test case for sections without findings', () => {
+      const xml = serializeReportToJUnit(
+        createReport({ brokenLinks: [], orphanedPages: [], emptyPages: [] })
+      );
+
+      expect(xml).toContain('tests="3" failures="0"');
+      expect(xml).toContain('name="No broken links found" />');
+      expect(xml).not.toContain('<failure');
+    });
+  });
+
+  describe('serializeReportToSARIF', () => {
+    it('should produce a SARIF 2.1.0 log with rules and results', () => {
+      const sarif = JSON.parse(serializeReportToSARIF(createReport()));
+      const run = sarif.runs[0];
+
+      expect(sarif.version).toBe('2.1.0');
+      expect(run.tool.driver.name).toBe('VaporScan');
+      expect(run.tool.driver.rules.map((rule: { id: string }) => rule.id)).toEqual([
+        'broken-link',
+        'orphaned-page',
+        'empty-page',
+      ]);
+      expect(run.results).toHaveLength(3);
+    });
+
+    it('should locate each result at its URL with referrers as related locations', () => {
+      const sarif = JSON.parse(serializeReportToSARIF(createReport()));
+      const [broken] = sarif.runs[0].results;
+
+      expect(broken.ruleId).toBe('broken-link');
+      expect(broken.ruleIndex).toBe(0);
+      expect(broken.level).toBe('error');
+      expect(broken.locations[0].physicalLocation.artifactLocation.uri).toBe(
+        'https://example.com/gone?a=1&b=2'
+      );
+      expect(broken.relatedLocations[0].physicalLocation.artifactLocation.uri).toBe(
+        'https://example.com/'
+      );
+    });
+  });
+});
@@ -7,7 +7,26 @@
  * Export utilities for different file formats
  */
 
-import { ReportData } from '@/types';
+import { CrawlPage, ReportData } from '@/types';
+import { config } from '@/config';
+import { buildIncomingLinkMap } from '@/lib/crawler/orphan-detector';
+import { normalizeUrl } from '@/lib/crawler/link-extractor';
+import { formatRedirectChain } from '@/lib/crawler/redirect-detector';
+import { CANONICAL_ISSUE_LABELS } from '@/lib/crawler/canonical-detector';
+import { EXTERNAL_LINK_STATE_LABELS } from '@/lib/crawler/external-link-checker';
+import { RESOURCE_TYPE_LABELS } from '@/lib/crawler/resource-checker';
+import { LINK_ISSUE_LABELS, LINK_POSITION_LABELS } from '@/lib/crawler/link-audit';
+import { HREFLANG_ISSUE_LABELS } from '@/lib/crawler/hreflang-validator';
+import {
+  NON_INDEXABLE_REASON_LABELS,
+  INDEXABILITY_CONFLICT_LABELS,
+} from '@/lib/crawler/indexability';
+import { ON_PAGE_ISSUE_LABELS, DUPLICATE_CONTENT_FIELD_LABELS } from '@/lib/crawler/on-page-audit';
+import { IMAGE_ISSUE_LABELS } from '@/lib/crawler/image-audit';
+import { SOCIAL_ISSUE_LABELS } from '@/lib/crawler/social-meta';
+import { MIXED_CONTENT_TYPE_LABELS } from '@/lib/crawler/mixed-content';
+import { HEADER_ISSUE_LABELS } from '@/lib/crawler/response-headers';
+import { PERFORMANCE_METRIC_LABELS, formatPageSize } from '@/lib/crawler/page-performance';
 import jsPDF from 'jspdf';
 import Papa from 'papaparse';
 import autoTable from 'jspdf-autotable';
@@ -103,11 +122,637 @@ export const downloadCSV = (report: ReportData, filename: string): void => {
     });
   }
 
+  // Deep pages
+  if (report.deepPages && report.deepPages.length > 0) {
+    data.push({
+      Section: 'Deep Pages',
+      Metric: '',
+      Value: '',
+    });
+    report.deepPages.forEach((page) => {
+      data.push({
+        Section: 'Deep Pages',
+        Metric: page.url,
+        Value: `Click Depth: ${page.depth}, In Sitemap: ${page.inSitemap}`,
+      });
+    });
+  }
+
+  // Redirects
+  const redirectSections: [string, ReportData['redirectChains']][] = [
+    ['Redirect Chains', report.redirectChains],
+    ['Redirect Loops', report.redirectLoops],
+    ['Links To Redirects', report.redirectedLinks],
+  ];
+  redirectSections.forEach(([section, redirects]) => {
+    if (redirects && redirects.length > 0) {
+      data.push({
+        Section: section,
+        Metric: '',
+        Value: '',
+      });
+      redirects.forEach((redirect) => {
+        data.push({
+          Section: section,
+          Metric: redirect.url,
+          Value: `Chain: ${formatRedirectChain(redirect.chain)}, Referenced From: ${redirect.referencedFrom.length}`,
+        });
+      });
+    }
+  });
+
+  // Canonical issues
+  if (report.canonicalIssues && report.canonicalIssues.length > 0) {
+    data.push({
+      Section: 'Canonical Issues',
+      Metric: '',
+      Value: '',
+    });
+    report.canonicalIssues.forEach((issue) => {
+      data.push({
+        Section: 'Canonical Issues',
+        Metric: issue.url,
+        Value: `${CANONICAL_ISSUE_LABELS[issue.type]}${issue.canonical ? `: ${issue.canonical}` : ''}`,
+      });
+    });
+  }
+
+  // External links
+  if (report.externalLinks && report.externalLinks.length > 0) {
+    data.push({
+      Section: 'External Links',
+      Metric: '',
+      Value: '',
+    });
+    report.externalLinks.forEach((link) => {
+      data.push({
+        Section: 'External Links',
+        Metric: link.url,
+        Value: `${EXTERNAL_LINK_STATE_LABELS[link.state]}, Status: ${link.status}, Referenced From: ${link.referencedFrom.length}`,
+      });
+    });
+  }
+
+  // Broken resources
+  if (report.brokenResources && report.brokenResources.length > 0) {
+    data.push({
+      Section: 'Broken Resources',
+      Metric: '',
+      Value: '',
+    });
+    report.brokenResources.forEach((resource) => {
+      data.push({
+        Section: 'Broken Resources',
+        Metric: resource.url,
+        Value: `${RESOURCE_TYPE_LABELS[resource.type]}, Status: ${resource.status}, Embedded In: ${resource.embeddedIn.length}`,
+      });
+    });
+  }
+
+  // Link issues
+  if (report.linkIssues && report.linkIssues.length > 0) {
+    data.push({
+      Section: 'Link Issues',
+      Metric: '',
+      Value: '',
+    });
+    report.linkIssues.forEach((issue) => {
+      data.push({
+        Section: 'Link Issues',
+        Metric: issue.url,
+        Value: `${LINK_ISSUE_LABELS[issue.type]}: ${issue.target}${issue.text ? ` ("${issue.text}")` : ''}`,
+      });
+    });
+  }
+
+  // Navigation-only pages
+  if (report.navigationOnlyPages && report.navigationOnlyPages.length > 0) {
+    data.push({
+      Section: 'Navigation-Only Pages',
+      Metric: '',
+      Value: '',
+    });
+    report.navigationOnlyPages.forEach((page) => {
+      data.push({
+        Section: 'Navigation-Only Pages',
+        Metric: page.url,
+        Value: `Linked From: ${page.positions.map((position) => LINK_POSITION_LABELS[position]).join(', ')}, Referred By: ${page.referredBy.length}`,
+      });
+    });
+  }
+
+  // Hreflang issues
+  if (report.hreflangIssues && report.hreflangIssues.length > 0) {
+    data.push({
+      Section: 'Hreflang Issues',
+      Metric: '',
+      Value: '',
+    });
+    report.hreflangIssues.forEach((issue) => {
+      data.push({
+        Section: 'Hreflang Issues',
+        Metric: issue.url,
+        Value: issue.target
+          ? `${HREFLANG_ISSUE_LABELS[issue.type]}: ${issue.hreflang} -> ${issue.target}`
+          : HREFLANG_ISSUE_LABELS[issue.type],
+      });
+    });
+  }
+
+  // Non-indexable pages
+  if (report.nonIndexablePages && report.nonIndexablePages.length > 0) {
+    data.push({
+      Section: 'Non-Indexable Pages',
+      Metric: '',
+      Value: '',
+    });
+    report.nonIndexablePages.forEach((page) => {
+      data.push({
+        Section: 'Non-Indexable Pages',
+        Metric: page.url,
+        Value: `${page.reasons.map((reason) => NON_INDEXABLE_REASON_LABELS[reason]).join(', ')}${page.inSitemap ? ' (in sitemap)' : ''}`,
+      });
+    });
+  }
+
+  // Indexability conflicts
+  if (report.indexabilityConflicts && report.indexabilityConflicts.length > 0) {
+    data.push({
+      Section: 'Indexability Conflicts',
+      Metric: '',
+      Value: '',
+    });
+    report.indexabilityConflicts.forEach((conflict) => {
+      data.push({
+        Section: 'Indexability Conflicts',
+        Metric: conflict.url,
+        Value:
+          conflict.incomingLinks !== undefined
+            ? `${INDEXABILITY_CONFLICT_LABELS[conflict.type]}: ${conflict.incomingLinks} linking pages`
+            : INDEXABILITY_CONFLICT_LABELS[conflict.type],
+      });
+    });
+  }
+
+  // Structured data
+  if (report.structuredData && report.structuredData.length > 0) {
+    data.push({
+      Section: 'Structured Data',
+      Metric: '',
+      Value: '',
+    });
+    report.structuredData.forEach((group) => {
+      group.pages.forEach((page) => {
+        data.push({
+          Section: 'Structured Data',
+          Metric: `${group.type ?? 'Unreadable'}: ${page.url}`,
+          Value: `${page.errors.length} errors, ${page.warnings.length} warnings${page.errors.length > 0 ? ` (${page.errors.join('; ')})` : ''}`,
+        });
+      });
+    });
+  }
+
+  // On-page issues
+  if (report.onPageIssues && report.onPageIssues.length > 0) {
+    data.push({
+      Section: 'On-Page Issues',
+      Metric: '',
+      Value: '',
+    });
+    report.onPageIssues.forEach((issue) => {
+      data.push({
+        Section: 'On-Page Issues',
+        Metric: issue.url,
+        Value: `${ON_PAGE_ISSUE_LABELS[issue.type]}${issue.value ? `: ${issue.value}` : ''}`,
+      });
+    });
+  }
+
+  // Duplicate titles, descriptions and H1s
+  if (report.duplicateContent && report.duplicateContent.length > 0) {
+    data.push({
+      Section: 'Duplicate Content',
+      Metric: '',
+      Value: '',
+    });
+    report.duplicateContent.forEach((group) => {
+      data.push({
+        Section: 'Duplicate Content',
+        Metric: `${DUPLICATE_CONTENT_FIELD_LABELS[group.field]}: ${group.value}`,
+        Value: group.urls.join(', '),
+      });
+    });
+  }
+
+  // Near-duplicate pages
+  if (report.nearDuplicates && report.nearDuplicates.length > 0) {
+    data.push({
+      Section: 'Near-Duplicate Pages',
+      Metric: '',
+      Value: '',
+    });
+    report.nearDuplicates.forEach((cluster, index) => {
+      data.push({
+        Section: 'Near-Duplicate Pages',
+        Metric: `Cluster ${index + 1} (${cluster.exact ? 'exact' : `${Math.round(cluster.similarity * 100)}% similar`})`,
+        Value: cluster.pages.map((page) => page.url).join(', '),
+      });
+    });
+  }
+
+  // Thin pages
+  if (report.thinPages && report.thinPages.length > 0) {
+    data.push({
+      Section: 'Thin Pages',
+      Metric: '',
+      Value: '',
+    });
+    report.thinPages.forEach((page) => {
+      data.push({
+        Section: 'Thin Pages',
+        Metric: page.url,
+        Value: `${page.contentQuality?.wordCount} words, Text Ratio: ${((page.contentQuality?.textRatio ?? 0) * 100).toFixed(1)}%`,
+      });
+    });
+  }
+
+  // Image alt text and dimensions
+  if (report.imageIssues && report.imageIssues.length > 0) {
+    data.push({
+      Section: 'Image Issues',
+      Metric: '',
+      Value: '',
+    });
+    report.imageIssues.forEach((issue) => {
+      data.push({
+        Section: 'Image Issues',
+        Metric: `${issue.url}: ${issue.image}`,
+        Value: `${IMAGE_ISSUE_LABELS[issue.type]}${issue.alt ? `: ${issue.alt}` : ''}`,
+      });
+    });
+  }
+
+  // Images with different alt texts
+  if (report.inconsistentImageAlts && report.inconsistentImageAlts.length > 0) {
+    data.push({
+      Section: 'Inconsistent Image Alt Text',
+      Metric: '',
+      Value: '',
+    });
+    report.inconsistentImageAlts.forEach((group) => {
+      data.push({
+        Section: 'Inconsistent Image Alt Text',
+        Metric: group.image,
+        Value: group.variants
+          .map((variant) => `"${variant.alt}" (${variant.pages.join(', ')})`)
+          .join('; '),
+      });
+    });
+  }
+
+  // Open Graph and Twitter Card tags
+  if (report.socialIssues && report.socialIssues.length > 0) {
+    data.push({
+      Section: 'Social Meta Issues',
+      Metric: '',
+      Value: '',
+    });
+    report.socialIssues.forEach((issue) => {
+      data.push({
+        Section: 'Social Meta Issues',
+        Metric: issue.url,
+        Value: `${SOCIAL_ISSUE_LABELS[issue.type]}${issue.value ? `: ${issue.value}` : ''}`,
+      });
+    });
+  }
+
+  // og:image shared by several pages
+  if (report.duplicateSocialImages && report.duplicateSocialImages.length > 0) {
+    data.push({
+      Section: 'Duplicate Social Images',
+      Metric: '',
+      Value: '',
+    });
+    report.duplicateSocialImages.forEach((group) => {
+      data.push({
+        Section: 'Duplicate Social Images',
+        Metric: group.image,
+        Value: group.urls.join(', '),
+      });
+    });
+  }
+
+  // Mixed content
+  if (report.mixedContent && report.mixedContent.length > 0) {
+    data.push({
+      Section: 'Mixed Content',
+      Metric: '',
+      Value: '',
+    });
+    report.mixedContent.forEach((issue) => {
+      data.push({
+        Section: 'Mixed Content',
+        Metric: issue.url,
+        Value: `${MIXED_CONTENT_TYPE_LABELS[issue.type]}: ${issue.resource}`,
+      });
+    });
+  }
+
+  // Response headers
+  if (report.headerIssues && report.headerIssues.length > 0) {
+    data.push({
+      Section: 'Header Issues',
+      Metric: '',
+      Value: '',
+    });
+    report.headerIssues.forEach((issue) => {
+      data.push({
+        Section: 'Header Issues',
+        Metric: issue.url,
+        Value: `${HEADER_ISSUE_LABELS[issue.type]}${issue.value ? `: ${issue.value}` : ''}`,
+      });
+    });
+  }
+
+  // Performance
+  if (report.performance && report.performance.site.pageCount > 0) {
+    const { site, budgetViolations } = report.performance;
+    data.push({
+      Section: 'Performance',
+      Metric: '',
+      Value: '',
+    });
+    data.push({
+      Section: 'Performance',
+      Metric: 'Response time p50 / p90 / p99 (ms)',
+      Value: `${site.responseTime.p50} / ${site.responseTime.p90} / ${site.responseTime.p99}`,
+    });
+    if (site.ttfb) {
+      data.push({
+        Section: 'Performance',
+        Metric: 'TTFB p50 / p90 / p99 (ms)',
+        Value: `${site.ttfb.p50} / ${site.ttfb.p90} / ${site.ttfb.p99}`,
+      });
+    }
+    if (site.bytes) {
+      data.push({
+        Section: 'Performance',
+        Metric: 'Page size p50 / p90 / p99 (bytes)',
+        Value: `${site.bytes.p50} / ${site.bytes.p90} / ${site.bytes.p99}`,
+      });
+    }
+    budgetViolations.forEach((violation) => {
+      data.push({
+        Section: 'Performance',
+        Metric: violation.url,
+        Value: `${PERFORMANCE_METRIC_LABELS[violation.metric]} over budget: ${violation.value} (budget ${violation.budget})`,
+      });
+    });
+  }
+
+  // Link equity
+  if (report.lowEquitySitemapPages && report.lowEquitySitemapPages.length > 0) {
+    data.push({
+      Section: 'Low Link Equity Sitemap Pages',
+      Metric: '',
+      Value: '',
+    });
+    report.lowEquitySitemapPages.forEach((entry) => {
+      data.push({
+        Section: 'Low Link Equity Sitemap Pages',
+        Metric: entry.url,
+        Value: `Score ${entry.score} from ${entry.incomingCount} linking pages`,
+      });
+    });
+  }
+
   const csv = Papa.unparse(data);
   const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
   triggerDownload(blob, filename);
 };
 
+type FindingRuleId = 'broken-link' | 'orphaned-page' | 'empty-page';
+
+interface FindingRule {
+  id: FindingRuleId;
+  name: string;
+  suite: string;
+  description: string;
+  level: 'error' | 'warning';
+}
+
+interface ReportFinding {
+  rule: FindingRule;
+  url: string;
+  message: string;
+  referrers: string[];
+}
+
+const FINDING_RULES: Record<FindingRuleId, FindingRule> = {
+  'broken-link': {
+    id: 'broken-link',
+    name: 'BrokenLink',
+    suite: 'Broken Links',
+    description: 'Internal link target returned a 4xx or 5xx status code',
+    level: 'error',
+  },
+  'orphaned-page': {
+    id: 'orphaned-page',
+    name: 'OrphanedPage',
+    suite: 'Orphaned Pages',
+    description: 'Page has no incoming internal links and is not listed in the sitemap',
+    level: 'warning',
+  },
+  'empty-page': {
+    id: 'empty-page',
+    name: 'EmptyPage',
+    suite: 'Empty Pages',
+    description: 'Page has minimal or no body content',
+    level: 'warning',
+  },
+};
+
+/**
+ * Flattens report sections into individual findings with their referencing pages.
+ * Referrers for empty pages can only be resolved when the crawled pages are available,
+ * and are matched with the crawl's normalization policy.
+ */
+const collectReportFindings = (
+  report: ReportData,
+  pages?: Map<string, CrawlPage> | null
+): ReportFinding[] => {
+  const policy = report.normalization;
+  const incomingLinks = pages
+    ? buildIncomingLinkMap({ pages, normalization: policy })
+    : new Map<string, string[]>();
+
+  return [
+    ...report.brokenLinks.map((link) => ({
+      rule: FINDING_RULES['broken-link'],
+      url: link.url,
+      message: `Broken link returned HTTP ${link.status}`,
+      referrers: link.referencedFrom,
+    })),
+    ...report.orphanedPages.map((page) => ({
+      rule: FINDING_RULES['orphaned-page'],
+      url: page.url,
+      message: 'Orphaned page: no internal links point to this page',
+      referrers: page.referredBy,
+    })),
+    ...report.emptyPages.map((page) => ({
+      rule: FINDING_RULES['empty-page'],
+      url: page.url,
+      message: `Empty page (HTTP ${page.status}, ${formatPageSize(page)})`,
+      referrers: incomingLinks.get(normalizeUrl(page.url, policy)) ?? [],
+    })),
+  ];
+};
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Serialize report findings as JUnit XML.
+ * Each finding becomes a failing test case grouped into one suite per section.
+ */
+export const serializeReportToJUnit = (
+  report: ReportData,
+  pages?: Map<string, CrawlPage> | null
+): string => {
+  const findings = collectReportFindings(report, pages);
+  const timestamp = new Date(report.generatedAt).toISOString();
+  const rules = Object.values(FINDING_RULES);
+  // Every suite contributes at least one test case (see below)
+  const testCount = rules.reduce(
+    (total, rule) =>
+      total + Math.max(findings.filter((finding) => finding.rule.id === rule.id).length, 1),
+    0
+  );
+  const lines: string[] = ['<?xml version="1.0" encoding="UTF-8"?>'];
+
+  lines.push(
+    `<testsuites name="VaporScan: ${escapeXml(report.targetUrl)}" tests="${testCount}" failures="${findings.length}">`
+  );
+
+  rules.forEach((rule) => {
+    const suiteFindings = findings.filter((finding) => finding.rule.id === rule.id);
+    const classname = `vaporscan.${rule.id}`;
+
+    lines.push(
+      `  <testsuite name="${rule.suite}" tests="${Math.max(suiteFindings.length, 1)}" failures="${suiteFindings.length}" timestamp="${timestamp}">`
+    );
+
+    // An empty suite still reports a passing case so dashboards show the check ran
+    if (suiteFindings.length === 0) {
+      lines.push(
+        `    <testcase classname="${classname}" name="No ${rule.suite.toLowerCase()} found" />`
+      );
+    }
+
+    suiteFindings.forEach((finding) => {
+      const details =
+        finding.referrers.length > 0
+          ? `Referenced from:\n${finding.referrers.map((referrer) => `- ${referrer}`).join('\n')}`
+          : 'Not referenced from any crawled page';
+
+      lines.push(`    <testcase classname="${classname}" name="${escapeXml(finding.url)}">`);
+      lines.push(
+        `      <failure type="${rule.id}" message="${escapeXml(finding.message)}">${escapeXml(details)}</failure>`
+      );
+      lines.push('    </testcase>');
+    });
+
+    lines.push('  </testsuite>');
+  });
+
+  lines.push('</testsuites>');
+  return lines.join('\n');
+};
+
+/**
+ * Serialize report findings as a SARIF 2.1.0 log for code-scanning tools
+ */
+export const serializeReportToSARIF = (
+  report: ReportData,
+  pages?: Map<string, CrawlPage> | null
+): string => {
+  const rules = Object.values(FINDING_RULES);
+  const findings = collectReportFindings(report, pages);
+
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: config.app.name,
+            informationUri: config.app.githubRepo,
+            rules: rules.map((rule) => ({
+              id: rule.id,
+              name: rule.name,
+              shortDescription: { text: rule.suite },
+              fullDescription: { text: rule.description },
+              defaultConfiguration: { level: rule.level },
+            })),
+          },
+        },
+        invocations: [
+          {
+            executionSuccessful: true,
+            endTimeUtc: new Date(report.generatedAt).toISOString(),
+          },
+        ],
+        results: findings.map((finding) => ({
+          ruleId: finding.rule.id,
+          ruleIndex: rules.indexOf(finding.rule),
+          level: finding.rule.level,
+          message: { text: `${finding.message}: ${finding.url}` },
+          locations: [{ physicalLocation: { artifactLocation: { uri: finding.url } } }],
+          relatedLocations: finding.referrers.map((referrer, index) => ({
+            id: index + 1,
+            message: { text: 'Linked from this page' },
+            physicalLocation: { artifactLocation: { uri: referrer } },
+          })),
+        })),
+      },
+    ],
+  };
+
+  return JSON.stringify(sarif, null, 2);
+};
+
+/**
+ * Download report findings as JUnit XML
+ */
+export const downloadJUnit = (
+  report: ReportData,
+  filename: string,
+  pages?: Map<string, CrawlPage> | null
+): void => {
+  const blob = new Blob([serializeReportToJUnit(report, pages)], { type: 'application/xml' });
+  triggerDownload(blob, filename);
+};
+
+/**
+ * Download report findings as SARIF 2.1.0
+ */
+export const downloadSARIF = (
+  report: ReportData,
+  filename: string,
+  pages?: Map<string, CrawlPage> | null
+): void => {
+  const blob = new Blob([serializeReportToSARIF(report, pages)], {
+    type: 'application/sarif+json',
+  });
+  triggerDownload(blob, filename);
+};
+
 /**
  * Download report as PDF
  */
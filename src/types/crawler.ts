@@ -8,16 +8,223 @@ export interface CrawlPage {
   status: number;
   title?: string;
   description?: string;
+  /** Absolute URL from <link rel="canonical">, if declared */
+  canonical?: string;
   contentLength?: number;
+  /** Fewer main content words than the crawl's empty threshold */
   isEmpty: boolean;
+  /** Absent in crawls made before content metrics */
+  contentQuality?: ContentQuality;
   crawlTime: number;
+  /** Link hops from the start URL; undefined when not reachable through crawled links */
+  depth?: number;
   internalLinks: string[];
   externalLinks: string[];
+  /** One record per internal <a href> on the page, in document order */
+  links?: LinkRecord[];
   inSitemap: boolean;
   errorMessage?: string;
+  /** Every URL requested in order, ending with the final one; only set when redirected */
+  redirectChain?: RedirectHop[];
+  /** Images, scripts, stylesheets and iframes embedded in the page (absolute URLs) */
+  resources?: PageResource[];
+  /** <link rel="alternate" hreflang> annotations (absolute URLs), in document order */
+  hreflang?: HreflangAnnotation[];
+  /** Robots meta tags (generic and crawler-specific) and X-Robots-Tag directives, when readable */
+  robotsDirectives?: RobotsDirectives[];
+  indexability?: Indexability;
+  /** JSON-LD blocks and top-level microdata items, validated when crawled */
+  structuredData?: StructuredDataItem[];
+  /** <h1> to <h6> elements in document order */
+  headings?: PageHeading[];
+  /** <img> elements with an http(s) src, in document order */
+  images?: PageImage[];
+  /** og:* and twitter:* meta tags by lowercased property, as written */
+  socialMeta?: SocialMeta;
+  /** Subresources and form actions loaded over plain http://, whatever the page scheme */
+  httpReferences?: HttpReference[];
+  /** Response headers readable by the crawler, of the final response */
+  responseHeaders?: ResponseHeaders;
+  /** Body size and Resource Timing of the final response; absent in older crawls */
+  performance?: PagePerformance;
+  /** Fingerprint of the text outside navigation and footers; absent when there is none */
+  fingerprint?: ContentFingerprint;
   content?: Blob;
 }
 
+/**
+ * Where a link sits: nav covers <nav> and the page <header>, footer the page <footer>
+ */
+export type LinkPosition = 'nav' | 'footer' | 'body';
+
+export interface LinkRecord {
+  url: string;
+  /** Anchor text with collapsed whitespace, or the alt text of a linked image */
+  text: string;
+  /** Lowercased rel tokens (nofollow, sponsored, ugc...) */
+  rel: string[];
+  position: LinkPosition;
+}
+
+export type ResourceType = 'image' | 'script' | 'stylesheet' | 'iframe';
+
+export interface PageResource {
+  url: string;
+  type: ResourceType;
+}
+
+export interface RobotsDirectives {
+  source: 'meta' | 'header';
+  /** robots for the generic meta tag and unqualified headers, else the crawler (googlebot...) */
+  userAgent: string;
+  /** Lowercased directives: noindex, nofollow, none, max-snippet:0... */
+  directives: string[];
+}
+
+export type NonIndexableReason =
+  | 'redirect'
+  | 'error-status'
+  | 'robots-txt'
+  | 'noindex'
+  | 'canonicalized';
+
+export interface Indexability {
+  indexable: boolean;
+  reasons: NonIndexableReason[];
+  /** Links on the page are not to be followed (generic nofollow or none) */
+  nofollow: boolean;
+  /** Crawlers excluded by their own noindex while the page stays indexable for others */
+  noindexFor?: string[];
+}
+
+export type StructuredDataSource = 'json-ld' | 'microdata';
+
+export interface StructuredDataItem {
+  source: StructuredDataSource;
+  /** schema.org types without the vocabulary (Product); empty when the item could not be read */
+  types: string[];
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * Open Graph and Twitter Card meta tags ('og:title', 'twitter:card'...); the
+ * first tag of each property wins
+ */
+export type SocialMeta = Record<string, string>;
+
+export interface ResponseHeaders {
+  /** Header values by lowercased name */
+  values: Record<string, string>;
+  /** Cross-origin response: only the CORS-safelisted and exposed headers were readable */
+  partial: boolean;
+}
+
+export interface PagePerformance {
+  /** UTF-8 size of the decoded HTML body */
+  bytes: number;
+  /** Bytes over the network (headers and compressed body); absent when not exposed or cached */
+  transferBytes?: number;
+  /** Milliseconds from the request start to the first response byte, when timed */
+  ttfb?: number;
+  /** Milliseconds from the first to the last response byte, when timed */
+  download?: number;
+}
+
+/**
+ * Elements whose URL the page loads or submits to: <img> (and <picture>
+ * sources), <script src>, <link> subresources, <iframe> and <form action>
+ */
+export type SubresourceElement = 'img' | 'script' | 'link' | 'iframe' | 'form';
+
+export interface HttpReference {
+  url: string;
+  element: SubresourceElement;
+}
+
+export interface PageImage {
+  /** Absolute src URL, without fragment */
+  url: string;
+  /** Absent without an alt attribute; empty marks a decorative image */
+  alt?: string;
+  width?: string;
+  height?: string;
+  /** The loading attribute, lowercased (lazy, eager) */
+  loading?: string;
+  /** Absolute URLs of the srcset candidates */
+  srcset: string[];
+  /** Hidden from assistive technology with role="presentation", role="none" or aria-hidden */
+  hidden?: boolean;
+  /** The only content of a link, which is then named by the alt text */
+  onlyLinkContent?: boolean;
+}
+
+export interface PageHeading {
+  /** 1 for <h1> to 6 for <h6> */
+  level: number;
+  /** Text with collapsed whitespace, or the alt text of its images */
+  text: string;
+}
+
+export interface ContentQuality {
+  /** Words outside the page navigation, header, footer, scripts and styles */
+  wordCount: number;
+  /** Characters of that main content, with collapsed whitespace */
+  mainContentLength: number;
+  /** Characters of visible text per character of HTML, from 0 to 1 */
+  textRatio: number;
+  /** Not empty, but fewer main content words than the crawl's thin threshold */
+  thin: boolean;
+}
+
+export interface ContentThresholds {
+  /** Pages with fewer main content words are empty */
+  emptyWords: number;
+  /** Pages with fewer main content words are thin */
+  thinWords: number;
+}
+
+/**
+ * How internal links pass link equity: unweighted by default
+ */
+export interface LinkWeighting {
+  /** Navigation and footer links pass less equity than links in the body */
+  byPosition: boolean;
+  /** rel="nofollow" links pass no equity */
+  ignoreNofollow: boolean;
+}
+
+export interface PerformanceBudgets {
+  /** Milliseconds to fetch the page, redirects included */
+  responseTime: number;
+  /** Milliseconds to the first response byte */
+  ttfb: number;
+  /** UTF-8 bytes of the HTML body */
+  bytes: number;
+}
+
+export interface ContentFingerprint {
+  /** Hash of the normalized main content words, equal for exact duplicates */
+  hash: string;
+  /** 64-bit simhash of the word shingles, as 16 hex digits */
+  simhash: string;
+}
+
+export interface HreflangAnnotation {
+  /** The hreflang value as declared (en, en-GB, x-default...) */
+  hreflang: string;
+  url: string;
+}
+
+export interface RedirectHop {
+  url: string;
+  /**
+   * 0 when the browser followed the redirect without exposing its status;
+   * absent on the URL closing a redirect loop, which is not requested again
+   */
+  status?: number;
+}
+
 export interface CrawlResult {
   id: string;
   url: string;
@@ -32,6 +239,16 @@ export interface CrawlResult {
   brokenLinks: Map<string, Set<string>>;
   sitemapUrls: string[];
   robotsData: RobotsData | null;
+  normalization?: Partial<NormalizationPolicy>;
+  scope?: CrawlScope;
+  contentThresholds?: Partial<ContentThresholds>;
+  nearDuplicateSimilarity?: number;
+  performanceBudgets?: Partial<PerformanceBudgets>;
+  linkWeighting?: Partial<LinkWeighting>;
+  // Only present when external link checking was enabled
+  externalLinks?: ExternalLinkResult[];
+  // Absent in crawls made before resource checking
+  resourceChecks?: ResourceCheckResult[];
   stats: {
     avgResponseTime: number;
     totalInternalLinks: number;
@@ -65,6 +282,352 @@ export interface OrphanedPage {
   referredBy: string[];
 }
 
+export interface RedirectResult {
+  url: string;
+  chain: RedirectHop[];
+  referencedFrom: string[];
+}
+
+export type CanonicalIssueType =
+  | 'target-error'
+  | 'target-redirect'
+  | 'chain'
+  | 'cross-domain'
+  | 'non-canonical-in-sitemap'
+  | 'missing';
+
+export interface CanonicalIssue {
+  url: string;
+  type: CanonicalIssueType;
+  canonical?: string;
+  /** Status of the canonical target, for target-error and target-redirect */
+  targetStatus?: number;
+  /** The canonical declared by the canonical target, for chains */
+  chainedTo?: string;
+}
+
+export interface NonIndexablePage {
+  url: string;
+  reasons: NonIndexableReason[];
+  inSitemap: boolean;
+}
+
+export type IndexabilityConflictType =
+  | 'noindex-in-sitemap'
+  | 'noindex-linked'
+  | 'noindex-canonicalized';
+
+export interface IndexabilityConflict {
+  url: string;
+  type: IndexabilityConflictType;
+  /** Pages linking to the noindex page, for noindex-linked */
+  incomingLinks?: number;
+}
+
+export interface StructuredDataPage {
+  url: string;
+  source: StructuredDataSource;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface StructuredDataTypeGroup {
+  /** Absent for JSON-LD blocks that are not valid JSON or have no @type */
+  type?: string;
+  pages: StructuredDataPage[];
+}
+
+export type OnPageIssueType =
+  | 'missing-title'
+  | 'title-too-short'
+  | 'title-too-long'
+  | 'missing-description'
+  | 'description-too-short'
+  | 'description-too-long'
+  | 'missing-h1'
+  | 'multiple-h1'
+  | 'skipped-heading-level';
+
+export interface OnPageIssue {
+  url: string;
+  type: OnPageIssueType;
+  /** The title or description, or the heading that skips a level */
+  value?: string;
+  /** Characters of the title or description, or number of H1s */
+  count?: number;
+  /** Heading levels before and at the skip (2 and 4 for an <h4> after an <h2>) */
+  fromLevel?: number;
+  toLevel?: number;
+}
+
+export type DuplicateContentField = 'title' | 'description' | 'h1';
+
+export interface DuplicateContentGroup {
+  field: DuplicateContentField;
+  /** The shared value, as written on the first page */
+  value: string;
+  urls: string[];
+}
+
+export interface NearDuplicatePage {
+  url: string;
+  /** Share of identical simhash bits with the first page of the cluster, from 0 to 1 */
+  similarity: number;
+}
+
+export interface NearDuplicateCluster {
+  /** Every page has the same main content, ignoring case and punctuation */
+  exact: boolean;
+  /** Lowest similarity of a page to the first page */
+  similarity: number;
+  pages: NearDuplicatePage[];
+}
+
+export type ImageIssueType =
+  | 'missing-alt'
+  | 'empty-alt-link'
+  | 'hidden-with-alt'
+  | 'generic-alt'
+  | 'missing-dimensions';
+
+export interface ImageIssue {
+  /** The page showing the image */
+  url: string;
+  image: string;
+  type: ImageIssueType;
+  alt?: string;
+}
+
+export interface ImageAltVariant {
+  alt: string;
+  pages: string[];
+}
+
+export interface InconsistentImageAlt {
+  image: string;
+  /** Distinct alt texts, ignoring case and whitespace, with the pages using them */
+  variants: ImageAltVariant[];
+}
+
+export type SocialIssueType =
+  | 'missing-og-title'
+  | 'missing-og-description'
+  | 'missing-og-image'
+  | 'invalid-og-image'
+  | 'og-title-mismatch'
+  | 'missing-twitter-card'
+  | 'invalid-twitter-card'
+  | 'invalid-twitter-image'
+  | 'twitter-title-mismatch';
+
+export interface SocialIssue {
+  url: string;
+  type: SocialIssueType;
+  /** The offending tag value */
+  value?: string;
+  /** What a mismatched title differs from (the <title>, or og:title) */
+  expected?: string;
+}
+
+export interface DuplicateSocialImage {
+  image: string;
+  urls: string[];
+}
+
+export type ShareNetwork = 'open-graph' | 'twitter';
+
+/**
+ * How a page shows when shared, from its stored meta tags with the fallbacks
+ * social networks apply
+ */
+export interface SharePreview {
+  url: string;
+  /** Host name shown on the card */
+  domain: string;
+  title?: string;
+  description?: string;
+  /** Absolute http(s) image URL */
+  image?: string;
+  siteName?: string;
+  /** A large image above the text, or a thumbnail beside it */
+  card: 'summary' | 'summary_large_image';
+}
+
+export type HeaderIssueType =
+  | 'missing-cache-control'
+  | 'missing-validator'
+  | 'uncompressed'
+  | 'missing-hsts'
+  | 'short-hsts'
+  | 'missing-csp'
+  | 'missing-nosniff'
+  | 'missing-charset';
+
+export interface HeaderIssue {
+  url: string;
+  type: HeaderIssueType;
+  /** The offending header value */
+  value?: string;
+}
+
+export interface PageLinkEquity {
+  url: string;
+  /** Internal PageRank times the number of ranked pages: 1 is the equity of an average page */
+  score: number;
+  /** Ranked pages linking to this page */
+  incomingCount: number;
+  inSitemap: boolean;
+}
+
+export type PerformanceMetric = keyof PerformanceBudgets;
+
+export interface PercentileSummary {
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+export interface PerformancePercentiles {
+  /** Pages measured */
+  pageCount: number;
+  responseTime: PercentileSummary;
+  /** Absent when no page was timed */
+  ttfb?: PercentileSummary;
+  /** Absent when no page size was recorded */
+  bytes?: PercentileSummary;
+}
+
+export interface DirectoryPerformance extends PerformancePercentiles {
+  /** First path segment with slashes ('/blog/'), or '/' for top-level pages */
+  directory: string;
+}
+
+export interface ResponseTimeBucket {
+  /** Inclusive lower bound in milliseconds */
+  min: number;
+  /** Exclusive upper bound in milliseconds; absent for the last bucket */
+  max?: number;
+  count: number;
+}
+
+export interface PagePerformanceRow {
+  url: string;
+  responseTime: number;
+  ttfb?: number;
+  bytes?: number;
+  transferBytes?: number;
+}
+
+export interface BudgetViolation {
+  url: string;
+  metric: PerformanceMetric;
+  value: number;
+  budget: number;
+}
+
+export interface PerformanceReport {
+  budgets: PerformanceBudgets;
+  site: PerformancePercentiles;
+  /** Slowest p90 response time first */
+  directories: DirectoryPerformance[];
+  histogram: ResponseTimeBucket[];
+  slowestPages: PagePerformanceRow[];
+  heaviestPages: PagePerformanceRow[];
+  budgetViolations: BudgetViolation[];
+}
+
+/**
+ * An insecure subresource or form action, or an internal link downgrading to http://
+ */
+export type MixedContentType = SubresourceElement | 'anchor';
+
+export interface MixedContentIssue {
+  /** The HTTPS page */
+  url: string;
+  /** The http:// URL it references */
+  resource: string;
+  type: MixedContentType;
+}
+
+export interface MixedContentHostGroup {
+  host: string;
+  issues: MixedContentIssue[];
+}
+
+export type HreflangIssueType =
+  | 'invalid-code'
+  | 'missing-self-reference'
+  | 'missing-x-default'
+  | 'missing-return-link'
+  | 'non-200-target'
+  | 'non-canonical-target';
+
+export interface HreflangIssue {
+  /** Page declaring the annotations */
+  url: string;
+  type: HreflangIssueType;
+  /** The annotation at fault; absent for missing-self-reference and missing-x-default */
+  hreflang?: string;
+  target?: string;
+  /** Status of the alternate, for non-200-target */
+  targetStatus?: number;
+}
+
+export interface HreflangMatrixCell {
+  url: string;
+  /** Status of the alternate; undefined when it was not crawled */
+  status?: number;
+  issue?: HreflangIssueType;
+}
+
+export interface HreflangClusterPage {
+  url: string;
+  /** Alternates declared by the page, by hreflang value */
+  alternates: Record<string, HreflangMatrixCell>;
+}
+
+/**
+ * Pages connected by hreflang annotations: one matrix row per page, one column per hreflang value
+ */
+export interface HreflangCluster {
+  languages: string[];
+  pages: HreflangClusterPage[];
+}
+
+export type LinkIssueType = 'empty-anchor' | 'generic-anchor' | 'internal-nofollow';
+
+export interface LinkIssue {
+  /** Page containing the link */
+  url: string;
+  type: LinkIssueType;
+  target: string;
+  text: string;
+}
+
+export interface NavigationOnlyPage {
+  url: string;
+  /** Positions of the links pointing at the page (nav and/or footer) */
+  positions: LinkPosition[];
+  referredBy: string[];
+}
+
+export interface DeepPage {
+  url: string;
+  depth: number;
+  inSitemap: boolean;
+}
+
+export interface DepthBucket {
+  depth: number;
+  count: number;
+}
+
+export interface ClickDepthSummary {
+  threshold: number;
+  distribution: DepthBucket[];
+  unreachableCount: number;
+}
+
 export interface ReportData {
   id: string;
   crawlId: string;
@@ -84,6 +647,115 @@ export interface ReportData {
   sitemapOnlyPages: string[];
   sitemapUrls: string[];
   robotsData: RobotsData | null;
+  // Absent in reports generated before click depth tracking
+  deepPages?: DeepPage[];
+  clickDepth?: ClickDepthSummary;
+  // Absent in reports generated before redirect tracking
+  redirectChains?: RedirectResult[];
+  redirectLoops?: RedirectResult[];
+  redirectedLinks?: RedirectResult[];
+  // Absent in reports generated before canonical tracking
+  canonicalIssues?: CanonicalIssue[];
+  // Absent in reports generated before crawl scope modes (exact host)
+  scope?: CrawlScope;
+  // Absent in reports generated before it was stored (default policy)
+  normalization?: Partial<NormalizationPolicy>;
+  // Only present when external link checking was enabled
+  externalLinks?: ExternalLinkResult[];
+  // Absent in reports generated before resource checking
+  brokenResources?: BrokenResource[];
+  // Absent in reports generated before link records
+  linkIssues?: LinkIssue[];
+  navigationOnlyPages?: NavigationOnlyPage[];
+  // Absent in reports generated before hreflang extraction
+  hreflangIssues?: HreflangIssue[];
+  hreflangClusters?: HreflangCluster[];
+  // Absent in reports generated before indexability detection
+  nonIndexablePages?: NonIndexablePage[];
+  indexabilityConflicts?: IndexabilityConflict[];
+  // Absent in reports generated before structured data validation
+  structuredData?: StructuredDataTypeGroup[];
+  // Absent in reports generated before the on-page audit
+  onPageIssues?: OnPageIssue[];
+  duplicateContent?: DuplicateContentGroup[];
+  // Absent in reports generated before near-duplicate detection
+  nearDuplicates?: NearDuplicateCluster[];
+  // Absent in reports generated before content metrics
+  thinPages?: CrawlPage[];
+  // Absent in reports generated before the image audit
+  imageIssues?: ImageIssue[];
+  inconsistentImageAlts?: InconsistentImageAlt[];
+  // Absent in reports generated before the Open Graph and Twitter Card audit
+  socialIssues?: SocialIssue[];
+  duplicateSocialImages?: DuplicateSocialImage[];
+  // Absent in reports generated before mixed content detection
+  mixedContent?: MixedContentIssue[];
+  // Absent in reports generated before response header capture
+  headerIssues?: HeaderIssue[];
+  // Absent in reports generated before performance analytics
+  performance?: PerformanceReport;
+  // Absent in reports generated before link equity scoring
+  linkEquity?: PageLinkEquity[];
+  lowEquitySitemapPages?: PageLinkEquity[];
+}
+
+/**
+ * ok/broken: the status could be read. reachable: the server answered, but CORS
+ * hid the status. unreachable: network error or timeout.
+ */
+export type ExternalLinkState = 'ok' | 'broken' | 'reachable' | 'unreachable';
+
+export interface ExternalLinkResult {
+  url: string;
+  /** Final HTTP status; 0 when it could not be read */
+  status: number;
+  state: ExternalLinkState;
+  /** Request that produced the result */
+  method: 'HEAD' | 'GET';
+  error?: string;
+  referencedFrom: string[];
+}
+
+export interface ResourceCheckResult {
+  url: string;
+  type: ResourceType;
+  /** HTTP status; 0 when it could not be read */
+  status: number;
+  state: ExternalLinkState;
+  error?: string;
+}
+
+export interface BrokenResource {
+  url: string;
+  type: ResourceType;
+  status: number;
+  error?: string;
+  /** Pages embedding the resource */
+  embeddedIn: string[];
+}
+
+export interface ExternalLinkCheckConfig {
+  enabled: boolean;
+  concurrency?: number;
+  timeout?: number;
+}
+
+export interface NormalizationPolicy {
+  /** Which query parameters are part of a URL's identity */
+  queryParams: 'strip-all' | 'keep-all' | 'keep-listed' | 'strip-listed';
+  /** Parameter names for keep-listed/strip-listed; a trailing * matches a prefix (utm_*) */
+  queryParamList: string[];
+  caseSensitivePaths: boolean;
+  trailingSlash: 'strip' | 'keep';
+}
+
+export type CrawlScopeMode = 'exact-host' | 'subdomains' | 'allowlist';
+
+export interface CrawlScope {
+  /** exact-host: the start host only; subdomains: every host of its registrable domain */
+  mode: CrawlScopeMode;
+  /** Additional internal hosts in allowlist mode (the start host is always internal) */
+  hosts?: string[];
 }
 
 export interface CrawlConfig {
@@ -95,6 +767,22 @@ export interface CrawlConfig {
   timeout?: number;
   userAgent?: string;
   manualPages?: string[];
+  normalization?: Partial<NormalizationPolicy>;
+  /** Only crawl discovered URLs matching one of these (glob on the path, or re:<regex> on the URL) */
+  includePatterns?: string[];
+  /** Never crawl discovered URLs matching one of these; exclusions win over inclusions */
+  excludePatterns?: string[];
+  scope?: CrawlScope;
+  /** Word counts below which pages are reported as empty or thin */
+  contentThresholds?: Partial<ContentThresholds>;
+  /** Pages whose main content is at least this similar (0 to 1) are clustered as near duplicates */
+  nearDuplicateSimilarity?: number;
+  /** Pages slower or heavier than these are reported */
+  performanceBudgets?: Partial<PerformanceBudgets>;
+  /** How links are weighted when computing internal link equity */
+  linkWeighting?: Partial<LinkWeighting>;
+  /** Opt-in check of every unique external link after the crawl */
+  externalLinkCheck?: ExternalLinkCheckConfig;
 }
 
 export interface CrawlProgress {
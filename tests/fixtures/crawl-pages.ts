@@ -0,0 +1,31 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+/**
+ * Page factories shared by the crawler unit tests
+ */
+
+import { CrawlPage, CrawlResult } from '@/types';
+
+/**
+ * Creates a CrawlPage served with status 200, without links and outside the sitemap
+ */
+export const createPage = (url: string, overrides?: Partial<CrawlPage>): CrawlPage => ({
+  url,
+  status: 200,
+  isEmpty: false,
+  crawlTime: 100,
+  internalLinks: [],
+  externalLinks: [],
+  inSitemap: false,
+  ...overrides,
+});
+
+/**
+ * Creates the pages of a crawl result, keyed by their URL
+ */
+export const createPages = (...pages: CrawlPage[]): Pick<CrawlResult, 'pages'> => ({
+  pages: new Map(pages.map((page) => [page.url, page])),
+});
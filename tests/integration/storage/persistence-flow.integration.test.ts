@@ -15,6 +15,7 @@ import {
   saveCrawl,
   getCrawl,
   getAllCrawls,
+  getLatestCrawlForDomain,
   deleteCrawl,
   saveReport,
   getReport,
@@ -232,6 +233,24 @@ describe('IndexedDB Persistence Integration Tests', () => {
       expect(allCrawls).toEqual([]);
     });
 
+    it('should load only the latest crawl of a domain', async () => {
+      // ARRANGE
+      await saveCrawl(createMockCrawlResult({ id: 'old', startTime: 1000 }));
+      await saveCrawl(createMockCrawlResult({ id: 'latest', startTime: 2000 }));
+      await saveCrawl(
+        createMockCrawlResult({ id: 'other', url: 'https://other.example.org', startTime: 3000 })
+      );
+
+      // ACT
+      const latest = await getLatestCrawlForDomain('example.com');
+      const missing = await getLatestCrawlForDomain('unknown.example.net');
+
+      // ASSERT
+      expect(latest?.id).toBe('latest');
+      expect(latest?.pages).toBeInstanceOf(Map);
+      expect(missing).toBeUndefined();
+    });
+
     it('should delete specific crawl', async () => {
       // ARRANGE
       const crawl1 = createMockCrawlResult({ id: 'keep-1' });
@@ -0,0 +1,399 @@
+/*
+ * Copyright (c) 2025 VaporScan. All rights reserved.
+ * Licensed under the MIT License. See LICENSE file in the project root for details.
+ */
+
+// @vitest-environment node
+
+/**
+ * Integration tests for the two crawl paths
+ * Runs the Service Worker's page parsing (with the bundled page extractor) and
+ * the main-thread crawler on the same HTML and expects identical CrawlPage data
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import vm from 'vm';
+import { buildSync } from 'esbuild';
+import { createPageFromFetch, initiateCrawl } from '@/lib/crawler/crawl-orchestrator';
+import { CrawlConfig, CrawlPage } from '@/types';
+
+const ROOT = path.resolve(__dirname, '../../..');
+
+const FILLER = 'Lorem ipsum dolor sit amet, consectetur adipiscing elit. '.repeat(3);
+
+const COMPARED_FIELDS = [
+  'title',
+  'description',
+  'canonical',
+  'contentLength',
+  'isEmpty',
+  'contentQuality',
+  'internalLinks',
+  'externalLinks',
+  'links',
+  'resources',
+  'hreflang',
+  'robotsDirectives',
+  'structuredData',
+  'headings',
+  'images',
+  'socialMeta',
+  'httpReferences',
+  'responseHeaders',
+  'fingerprint',
+] as const;
+
+/**
+ * Evaluates public/service-worker.js the way the browser would, with the
+ * extractor bundle built exactly like `npm run build:worker`
+ */
+const loadServiceWorker = (config: CrawlConfig, headers: Record<string, string> = {}) => {
+  const bundle = buildSync({
+    entryPoints: [path.join(ROOT, 'src/lib/crawler/page-extractor.ts')],
+    bundle: true,
+    format: 'iife',
+    globalName: 'VaporScanPageExtractor',
+    target: 'es2020',
+    write: false,
+  });
+  const context = vm.createContext({ URL, URLSearchParams, console });
+  context.self = { addEventListener: () => {} };
+  context.importScripts = () => vm.runInContext(bundle.outputFiles[0].text, context);
+  vm.runInContext(readFileSync(path.join(ROOT, 'public/service-worker.js'), 'utf8'), context);
+  context.crawlState.config = config;
+
+  return (url: string, html: string): Partial<CrawlPage> =>
+    // Pages reach the app through postMessage, which clones them
+    JSON.parse(
+      JSON.stringify(
+        context.parsePageContent(
+          url,
+          html,
+          200,
+          0,
+          context.VaporScanPageExtractor.readResponseHeaders({ headers: new Headers(headers) })
+        )
+      )
+    );
+};
+
+const crawlWithLibrary = async (
+  config: CrawlConfig,
+  url: string,
+  html: string,
+  headers: Record<string, string> = {}
+) => {
+  vi.stubGlobal(
+    'fetch',
+    vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      redirected: false,
+      url,
+      headers: new Headers(headers),
+      text: async () => html,
+    })
+  );
+  const crawlResult = initiateCrawl(config);
+  return createPageFromFetch(url, crawlResult);
+};
+
+const pick = (page: Partial<CrawlPage>) =>
+  Object.fromEntries(COMPARED_FIELDS.map((field) => [field, page[field]]));
+
+const expectIdentical = async (
+  config: CrawlConfig,
+  url: string,
+  html: string,
+  headers?: Record<string, string>
+) => {
+  const workerPage = loadServiceWorker(config, headers)(url, html);
+  const libraryPage = await crawlWithLibrary(config, url, html, headers);
+
+  expect(pick(workerPage)).toEqual(pick(libraryPage));
+  return libraryPage;
+};
+
+const baseConfig: CrawlConfig = { url: 'https://example.com/', respectRobotsTxt: false };
+
+describe('Crawl Paths Integration', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('should extract the same page data from quoted and unquoted attributes', async () => {
+    // ARRANGE
+    const html = `<!DOCTYPE html>
+      <html>
+        <head>
+          <title> Docs &amp; Guides </title>
+          <meta name=description content='Everything about the product'>
+          <link rel=canonical href=/docs/>
+          <link rel="stylesheet" href="/css/site.css">
+          <link rel=alternate hreflang=de href=/de/docs/>
+        </head>
+        <body>
+          <p>${FILLER}</p>
+          <a href=/docs/Intro>Intro</a>
+          <a href='/docs/setup?utm_source=nav#install'>Setup</a>
+          <a href="https://other.example.org/">Elsewhere</a>
+          <a href="mailto:team@example.com">Mail</a>
+          <img src=/img/logo.png srcset="/img/logo@2x.png 2x">
+        </body>
+      </html>`;
+
+    // ACT
+    const page = await expectIdentical(baseConfig, 'https://example.com/docs/', html);
+
+    // ASSERT
+    expect(page.title).toBe('Docs & Guides');
+    expect(page.description).toBe('Everything about the product');
+    expect(page.canonical).toBe('https://example.com/docs/');
+    expect(page.internalLinks).toEqual([
+      'https://example.com/docs/intro',
+      'https://example.com/docs/setup',
+    ]);
+    expect(page.externalLinks).toEqual(['https://other.example.org/']);
+    expect(page.isEmpty).toBe(false);
+    expect(page.hreflang).toEqual([{ hreflang: 'de', url: 'https://example.com/de/docs/' }]);
+  });
+
+  it('should resolve relative URLs against <base href>', async () => {
+    // ARRANGE
+    const html = `<html><head><base href="https://example.com/v2/"></head>
+      <body>${FILLER}<a href="guide">Guide</a><script src="app.js"></script></body></html>`;
+
+    // ACT
+    const page = await expectIdentical(baseConfig, 'https://example.com/docs/page', html);
+
+    // ASSERT
+    expect(page.internalLinks).toEqual(['https://example.com/v2/guide']);
+    expect(page.resources).toEqual([{ url: 'https://example.com/v2/app.js', type: 'script' }]);
+  });
+
+  it('should ignore markup inside comments and scripts', async () => {
+    // ARRANGE
+    const html = `<html><body>
+      <!-- <a href="/commented-out">Old</a> -->
+      <script>document.write('<a href="/from-script">x</a>'); var text = '${FILLER}';</script>
+      <a HREF="/real">Real</a>
+    </body></html>`;
+
+    // ACT
+    const page = await expectIdentical(baseConfig, 'https://example.com/', html);
+
+    // ASSERT
+    expect(page.internalLinks).toEqual(['https://example.com/real']);
+    expect(page.isEmpty).toBe(true);
+  });
+
+  it('should record anchor text, rel and position of internal links', async () => {
+    // ARRANGE
+    const html = `<html><body>
+      <header><a href="/"><img src="/logo.png" alt="Example home"></a></header>
+      <nav><ul><li><a href="/pricing">Pricing</a></ul></nav>
+      <main><p>${FILLER} <a href="/pricing" rel="nofollow">click
+        here</a></p></main>
+      <footer><a href="/legal">Legal</a></footer>
+    </body></html>`;
+
+    // ACT
+    const page = await expectIdentical(baseConfig, 'https://example.com/', html);
+
+    // ASSERT
+    expect(page.links).toEqual([
+      { url: 'https://example.com/', text: 'Example home', rel: [], position: 'nav' },
+      { url: 'https://example.com/pricing', text: 'Pricing', rel: [], position: 'nav' },
+      {
+        url: 'https://example.com/pricing',
+        text: 'click here',
+        rel: ['nofollow'],
+        position: 'body',
+      },
+      { url: 'https://example.com/legal', text: 'Legal', rel: [], position: 'footer' },
+    ]);
+  });
+
+  it('should read robots meta tags and the X-Robots-Tag header', async () => {
+    // ARRANGE
+    const html = `<html><head>
+      <meta name="robots" content="NOINDEX, follow">
+      <meta name="Googlebot" content="nosnippet">
+    </head><body>${FILLER}</body></html>`;
+
+    // ACT
+    const page = await expectIdentical(baseConfig, 'https://example.com/', html, {
+      'X-Robots-Tag': 'noarchive, bingbot: noindex',
+    });
+
+    // ASSERT
+    expect(page.robotsDirectives).toEqual([
+      { source: 'meta', userAgent: 'robots', directives: ['noindex', 'follow'] },
+      { source: 'meta', userAgent: 'googlebot', directives: ['nosnippet'] },
+      { source: 'header', userAgent: 'robots', directives: ['noarchive'] },
+      { source: 'header', userAgent: 'bingbot', directives: ['noindex'] },
+    ]);
+    expect(page.indexability).toEqual({
+      indexable: false,
+      reasons: ['noindex'],
+      nofollow: false,
+      noindexFor: ['bingbot'],
+    });
+  });
+
+  it('should validate JSON-LD and microdata the same way', async () => {
+    // ARRANGE
+    const html = `<html><head>
+      <script type="application/ld+json">{"@type": "BreadcrumbList", "itemListElement": []}</script>
+      <script type="application/ld+json">{ broken </script>
+    </head><body>${FILLER}
+      <div itemscope itemtype="https://schema.org/Organization">
+        <span itemprop="name">Example</span><a itemprop="url" href="/">Home</a>
+      </div>
+    </body></html>`;
+
+    // ACT
+    const page = await expectIdentical(baseConfig, 'https://example.com/', html);
+
+    // ASSERT
+    expect(page.structuredData?.map(({ source, types }) => ({ source, types }))).toEqual([
+      { source: 'json-ld', types: ['BreadcrumbList'] },
+      { source: 'json-ld', types: [] },
+      { source: 'microdata', types: ['Organization'] },
+    ]);
+    expect(page.structuredData?.[0].errors).toEqual(['Missing required property itemListElement']);
+    expect(page.structuredData?.[2].warnings).toEqual(['Missing recommended property logo']);
+  });
+
+  it('should measure content without boilerplate, with the crawl thresholds', async () => {
+    // ARRANGE
+    const config: CrawlConfig = {
+      ...baseConfig,
+      contentThresholds: { emptyWords: 5, thinWords: 50 },
+    };
+    const html = `<html><body>
+      <nav>${FILLER}</nav>
+      <main><p>Only ten words of real content live on this page.</p></main>
+      <footer>${FILLER}</footer>
+    </body></html>`;
+
+    // ACT
+    const page = await expectIdentical(config, 'https://example.com/', html);
+
+    // ASSERT
+    expect(page.isEmpty).toBe(false);
+    expect(page.contentQuality).toMatchObject({ wordCount: 10, thin: true });
+  });
+
+  it('should collect images with their alt text and dimensions', async () => {
+    // ARRANGE
+    const html = `<html><body>${FILLER}
+      <a href="/"><img src="/logo.svg" alt="" width="120" height="40"></a>
+      <img src=//cdn.example.com/team.jpg alt="Our team" loading=lazy srcset="/team-2x.jpg 2x">
+      <img src="/icon.svg" aria-hidden="true">
+    </body></html>`;
+
+    // ACT
+    const page = await expectIdentical(baseConfig, 'https://example.com/about', html);
+
+    // ASSERT
+    expect(page.images).toEqual([
+      {
+        url: 'https://example.com/logo.svg',
+        alt: '',
+        width: '120',
+        height: '40',
+        srcset: [],
+        onlyLinkContent: true,
+      },
+      {
+        url: 'https://cdn.example.com/team.jpg',
+        alt: 'Our team',
+        loading: 'lazy',
+        srcset: ['https://example.com/team-2x.jpg'],
+      },
+      { url: 'https://example.com/icon.svg', srcset: [], hidden: true },
+    ]);
+  });
+
+  it('should store Open Graph and Twitter Card tags the same way', async () => {
+    // ARRANGE
+    const html = `<html><head>
+      <title>Kettles | Example</title>
+      <meta property="og:title" content="Kettles">
+      <meta property=og:image content=/img/share.png>
+      <meta name="twitter:card" content="summary">
+    </head><body>${FILLER}</body></html>`;
+
+    // ACT
+    const page = await expectIdentical(baseConfig, 'https://example.com/kettles', html);
+
+    // ASSERT
+    expect(page.socialMeta).toEqual({
+      'og:title': 'Kettles',
+      'og:image': '/img/share.png',
+      'twitter:card': 'summary',
+    });
+  });
+
+  it('should record insecure subresources and form actions the same way', async () => {
+    // ARRANGE
+    const html = `<html><head>
+      <base href="http://example.com/">
+      <link rel=stylesheet href=css/site.css>
+    </head><body>${FILLER}
+      <img src="https://example.com/secure.png"><img src="img/logo.png">
+      <form action="/subscribe"></form>
+    </body></html>`;
+
+    // ACT
+    const page = await expectIdentical(baseConfig, 'https://example.com/', html);
+
+    // ASSERT
+    expect(page.httpReferences).toEqual([
+      { url: 'http://example.com/css/site.css', element: 'link' },
+      { url: 'http://example.com/img/logo.png', element: 'img' },
+      { url: 'http://example.com/subscribe', element: 'form' },
+    ]);
+  });
+
+  it('should store the readable response headers the same way', async () => {
+    // ARRANGE
+    const html = `<html><body>${FILLER}</body></html>`;
+
+    // ACT
+    const page = await expectIdentical(baseConfig, 'https://example.com/', html, {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'max-age=600',
+    });
+
+    // ASSERT
+    expect(page.responseHeaders).toEqual({
+      values: { 'cache-control': 'max-age=600', 'content-type': 'text/html; charset=utf-8' },
+      partial: false,
+    });
+  });
+
+  it('should apply the crawl scope and normalization policy the same way', async () => {
+    // ARRANGE
+    const config: CrawlConfig = {
+      ...baseConfig,
+      scope: { mode: 'subdomains' },
+      normalization: { queryParams: 'keep-all', caseSensitivePaths: true },
+    };
+    const html = `<html><body>${FILLER}
+      <a href="https://blog.example.com/Post?b=2&a=1">Post</a>
+      <a href="https://example.org/">Other</a>
+    </body></html>`;
+
+    // ACT
+    const page = await expectIdentical(config, 'https://example.com/', html);
+
+    // ASSERT
+    expect(page.internalLinks).toEqual(['https://blog.example.com/Post?a=1&b=2']);
+    expect(page.externalLinks).toEqual(['https://example.org/']);
+  });
+});